@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate, authorize, recordUsage, requestOwner, type Access } from "@/lib/auth";
+import { RequestError, convertDocument } from "@/lib/convert";
+import { toErrorResponse } from "@/lib/errors";
+import { getHistoryStore, recordHistory, type HistoryEntry } from "@/lib/history";
+import { checkRequestForm } from "@/lib/openapi";
+import { PROVIDERS, isProviderId } from "@/lib/providers";
+
+type Params = { params: Promise<{ id: string }> };
+
+// Entries of other callers are reported as missing, like unknown ids
+async function findEntry(id: string, owner: string): Promise<HistoryEntry> {
+  const entry = await getHistoryStore()?.get(id);
+  if (!entry || entry.owner !== owner) throw new RequestError("History entry not found", "NOT_FOUND");
+  return entry;
+}
+
+// One conversion with its full output, for downloading it again
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const entry = await findEntry((await params).id, requestOwner(request, await authenticate(request)));
+    return NextResponse.json({ ...entry, owner: undefined });
+  } catch (error) {
+    const { status, body, headers } = toErrorResponse(error, "History Error");
+    return NextResponse.json(body, { status, headers });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    await findEntry(id, requestOwner(request, await authenticate(request)));
+    await getHistoryStore()?.delete(id);
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    const { status, body, headers } = toErrorResponse(error, "History Error");
+    return NextResponse.json(body, { status, headers });
+  }
+}
+
+// Convert the stored file again with the same options, under `provider`.
+// Encrypted PDFs need their `password` again, since it was never stored.
+// Responds like POST /api/ocr, and the new run joins the history.
+export async function POST(request: NextRequest, { params }: Params) {
+  let access: Access | null = null;
+  try {
+    access = await authorize(request);
+    const entry = await findEntry((await params).id, requestOwner(request, access?.caller ?? null));
+    const formData = await request.formData().catch(() => new FormData());
+    checkRequestForm("RerunRequest", formData);
+    const provider = (formData.get("provider") as string) || entry.provider;
+    const password = (formData.get("password") as string | null) || undefined;
+
+    if (!isProviderId(provider)) {
+      throw new RequestError(
+        `Unknown provider "${provider}". Expected one of: ${PROVIDERS.map((p) => p.id).join(", ")}`
+      );
+    }
+
+    const source = await getHistoryStore()?.source(entry.id);
+    if (!source) throw new RequestError("The uploaded file is no longer stored", "NOT_FOUND");
+
+    const options = { ...entry.options, provider, ...(password && { password }) };
+    const bytes = source.slice().buffer;
+    const result = await convertDocument(bytes, entry.filename, options);
+    await recordUsage(access, [result]);
+    await recordHistory(entry.owner, bytes, entry.filename, options, result);
+    return NextResponse.json(result, { headers: access?.headers });
+  } catch (error) {
+    const { status, body, headers } = toErrorResponse(error, "History Error");
+    return NextResponse.json(body, { status, headers: { ...access?.headers, ...headers } });
+  }
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate, requestOwner } from "@/lib/auth";
+import { toErrorResponse } from "@/lib/errors";
+import { getHistoryStore } from "@/lib/history";
+
+// The caller's past conversions, newest first, without their output
+export async function GET(request: NextRequest) {
+  try {
+    const owner = requestOwner(request, await authenticate(request));
+    const entries = (await getHistoryStore()?.list(owner)) ?? [];
+    return NextResponse.json({ entries });
+  } catch (error) {
+    const { status, body, headers } = toErrorResponse(error, "History Error");
+    return NextResponse.json(body, { status, headers });
+  }
+}
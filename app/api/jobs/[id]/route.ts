@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate, requestOwner } from "@/lib/auth";
+import { ERROR_CODES, toErrorResponse, type ErrorBody } from "@/lib/errors";
+import { getJobStore } from "@/lib/jobs";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  let owner: string;
+  try {
+    owner = requestOwner(request, await authenticate(request));
+  } catch (error) {
+    const { status, body, headers } = toErrorResponse(error);
+    return NextResponse.json(body, { status, headers });
+  }
+
+  const { id } = await params;
+  const job = await getJobStore().get(id);
+
+  // Other callers' jobs are reported as missing, like unknown ids
+  if (!job || job.owner !== owner) {
+    const body: ErrorBody = { error: "Job not found", code: "NOT_FOUND" };
+    return NextResponse.json(body, { status: ERROR_CODES.NOT_FOUND.status });
+  }
+
+  // The callback URL is the submitter's business, not every poller's
+  return NextResponse.json({ ...job, owner: undefined, callbackUrl: undefined });
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { authorize, recordUsage, requestOwner, type Access } from "@/lib/auth";
+import { RequestError, parseConvertForm, readUploadForm } from "@/lib/convert";
+import { toErrorResponse } from "@/lib/errors";
+import { recordHistory } from "@/lib/history";
+import { checkCallbackUrl, createJob, runJob, webhookSecret } from "@/lib/jobs";
+import { checkRequestForm } from "@/lib/openapi";
+
+async function parseCallbackUrl(value: FormDataEntryValue | null): Promise<string | undefined> {
+  if (!value) return undefined;
+
+  let url: URL;
+  try {
+    url = new URL(value as string);
+  } catch {
+    throw new RequestError("callbackUrl must be an absolute URL");
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new RequestError("callbackUrl must use http or https");
+  }
+  if (!webhookSecret()) {
+    throw new RequestError("callbackUrl requires WEBHOOK_SECRET to be configured on the server");
+  }
+  await checkCallbackUrl(url);
+  return url.toString();
+}
+
+export async function POST(request: NextRequest) {
+  let access: Access | null = null;
+  try {
+    access = await authorize(request);
+    const formData = await readUploadForm(request);
+    checkRequestForm("JobRequest", formData);
+    const {
+      files: [file],
+      options,
+    } = await parseConvertForm(formData);
+    const callbackUrl = await parseCallbackUrl(formData.get("callbackUrl"));
+
+    const bytes = await file.arrayBuffer();
+    const job = await createJob(requestOwner(request, access?.caller ?? null), file.name, options, callbackUrl);
+
+    // Convert after the response is sent; clients poll GET /api/jobs/:id
+    after(async () => {
+      const { result } = (await runJob(job.id, bytes, options)) ?? {};
+      if (!result) return;
+      await recordUsage(access, [result]);
+      await recordHistory(job.owner, bytes, file.name, options, result);
+    });
+
+    return NextResponse.json(
+      { id: job.id, status: job.status, statusUrl: `/api/jobs/${job.id}` },
+      { status: 202, headers: access?.headers }
+    );
+  } catch (error) {
+    const { status, body, headers } = toErrorResponse(error, "Job Error");
+    return NextResponse.json(body, { status, headers: { ...access?.headers, ...headers } });
+  }
+}
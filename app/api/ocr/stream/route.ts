@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, recordUsage, requestOwner, type Access } from "@/lib/auth";
+import { convertDocument, parseConvertForm, readUploadForm, type ConvertOptions } from "@/lib/convert";
+import { toErrorResponse } from "@/lib/errors";
+import { recordHistory } from "@/lib/history";
+import { checkRequestForm } from "@/lib/openapi";
+import { encodeEvent } from "@/lib/sse";
+
+// Streaming variant of POST /api/ocr. Emits `start`, one `page` per finished
+// page, then `done` with the same body /api/ocr returns (or `error`).
+// Closing the connection aborts the in-flight provider call.
+export async function POST(request: NextRequest) {
+  let access: Access | null = null;
+  let file: File;
+  let options: ConvertOptions;
+  let bytes: ArrayBuffer;
+
+  try {
+    access = await authorize(request);
+    const formData = await readUploadForm(request);
+    checkRequestForm("StreamRequest", formData);
+    const form = await parseConvertForm(formData);
+    [file] = form.files;
+    options = form.options;
+    bytes = await file.arrayBuffer();
+  } catch (error) {
+    const { status, body, headers } = toErrorResponse(error, "OCR Stream Error");
+    return NextResponse.json(body, { status, headers: { ...access?.headers, ...headers } });
+  }
+
+  const signal = request.signal;
+
+  let cancelled = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // Writes after the client has gone away would throw
+      const send = (event: string, data: unknown) => {
+        if (!cancelled) controller.enqueue(encodeEvent(event, data));
+      };
+
+      let chars = 0;
+      try {
+        // Progress follows the batches: each one's pages are sent as it finishes
+        const result = await convertDocument(bytes, file.name, options, {
+          signal,
+          onStart: (totalPages) =>
+            send("start", { totalPages, filename: file.name, provider: options.provider }),
+          onPages: (pages, pagesDone, totalPages) => {
+            for (const { page, markdown } of pages) {
+              chars += markdown.length;
+              send("page", { page, markdown, pagesDone, totalPages, chars });
+            }
+          },
+        });
+        await recordUsage(access, [result]);
+        await recordHistory(requestOwner(request, access?.caller ?? null), bytes, file.name, options, result);
+        send("done", result);
+      } catch (error) {
+        if (!signal.aborted) send("error", toErrorResponse(error, "OCR Stream Error").body);
+      }
+      if (!cancelled) controller.close();
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      ...access?.headers,
+    },
+  });
+}
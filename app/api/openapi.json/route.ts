@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+import { OPENAPI_SPEC } from "@/lib/openapi";
+
+// The API description the docs page is rendered from, for client generators
+export function GET() {
+  return NextResponse.json(OPENAPI_SPEC);
+}
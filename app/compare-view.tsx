@@ -0,0 +1,277 @@
+import { useMemo, useState } from "react";
+import {
+  agreement,
+  alignPages,
+  comparePages,
+  mergePages,
+  splitPages,
+  type DiffPart,
+  type PageSection,
+  type TextComparison,
+} from "@/lib/compare";
+import { buildLlmsTxt, documentFiles } from "@/lib/llmstxt";
+import { PROVIDERS, type ProviderId } from "@/lib/providers/catalog";
+import { zipFiles } from "@/lib/zip";
+
+type Progress = { pagesDone: number; totalPages: number };
+
+// One provider's run over the compared file
+export type CompareRun = {
+  provider: ProviderId;
+  status: "processing" | "done" | "error";
+  progress: Progress | null;
+  result?: { llmsFullTxt: string; pageCount: number; estimatedCost?: number; latencyMs?: number };
+  error?: string;
+};
+
+type Column = { provider: ProviderId; sections: Map<number, PageSection> };
+
+const DIFF_STYLES: Record<DiffPart["type"], string> = {
+  equal: "",
+  delete: "bg-red-500/15 text-red-300 line-through decoration-red-400/60",
+  insert: "bg-green-500/15 text-green-300",
+};
+
+function providerName(id: ProviderId): string {
+  return PROVIDERS.find((p) => p.id === id)?.name ?? id;
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+/**
+ * The same file converted by several providers, page by page. The first
+ * finished provider is the reference: the other columns show a word diff
+ * against it. A pick per page, the reference's by default, makes up the
+ * merged download.
+ */
+export function CompareView({
+  filename,
+  runs,
+  done,
+  onCancel,
+  onReset,
+  onDownload,
+}: {
+  filename: string;
+  runs: CompareRun[];
+  done: boolean;
+  onCancel: () => void;
+  onReset: () => void;
+  onDownload: (blob: Blob, name: string) => void;
+}) {
+  const [picks, setPicks] = useState<Record<number, ProviderId>>({});
+
+  const columns: Column[] = useMemo(
+    () =>
+      runs.flatMap((run) =>
+        run.result
+          ? [{ provider: run.provider, sections: new Map(splitPages(run.result.llmsFullTxt).map((s) => [s.page, s])) }]
+          : []
+      ),
+    [runs]
+  );
+  const reference = columns[0];
+  const pageNumbers = useMemo(() => alignPages(columns.map((column) => column.sections)), [columns]);
+
+  // Each column against the reference, per page, plus totals per pair.
+  // Left until every run has finished, so progress updates stay cheap.
+  const diffs = useMemo(() => {
+    if (!done) return new Map<number, TextComparison[]>();
+    const byColumn = columns.map((column) => comparePages(reference.sections, column.sections, pageNumbers));
+    return new Map(pageNumbers.map((page) => [page, byColumn.map((comparisons) => comparisons.get(page)!)]));
+  }, [done, pageNumbers, columns, reference]);
+
+  const pairs = useMemo(() => {
+    const result: { left: ProviderId; right: ProviderId; agreement: number }[] = [];
+    if (!done) return result;
+    columns.forEach((left, i) =>
+      columns.slice(i + 1).forEach((right) => {
+        const total = { words: [0, 0] as [number, number], common: 0 };
+        for (const comparison of comparePages(left.sections, right.sections, pageNumbers).values()) {
+          total.words[0] += comparison.words[0];
+          total.words[1] += comparison.words[1];
+          total.common += comparison.common;
+        }
+        result.push({ left: left.provider, right: right.provider, agreement: agreement(total) });
+      })
+    );
+    return result;
+  }, [done, columns, pageNumbers]);
+
+  const pickFor = (page: number): Column | undefined =>
+    columns.find((column) => column.provider === picks[page] && column.sections.has(page)) ??
+    columns.find((column) => column.sections.has(page));
+
+  const pickAll = (provider: ProviderId) =>
+    setPicks(Object.fromEntries(pageNumbers.map((page) => [page, provider])));
+
+  const handleDownloadMerged = () => {
+    const sections = pageNumbers.flatMap((page) => {
+      const section = pickFor(page)?.sections.get(page);
+      return section ? [section] : [];
+    });
+    const pageCount = Math.max(...runs.map((run) => run.result?.pageCount ?? 0));
+    const files = buildLlmsTxt({ markdown: mergePages(sections), filename, pageCount });
+    const zip = zipFiles(documentFiles(files));
+    onDownload(new Blob([zip.slice().buffer], { type: "application/zip" }), "llms.zip");
+  };
+
+  const gridStyle = { gridTemplateColumns: `repeat(${columns.length}, minmax(0, 1fr))` };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-neutral-500">
+          {filename} · {runs.length} providers
+        </span>
+        <button onClick={done ? onReset : onCancel} className="text-neutral-500 hover:text-white transition-colors">
+          {done ? "New file" : "Cancel"}
+        </button>
+      </div>
+
+      {/* Runs */}
+      <ul className="bg-neutral-900/50 border border-neutral-800 rounded-xl divide-y divide-neutral-800/50">
+        {runs.map((run) => {
+          const sections = columns.find((column) => column.provider === run.provider)?.sections;
+          const words = [...(sections?.values() ?? [])].reduce(
+            (sum, section) => sum + (section.markdown.match(/\S+/g)?.length ?? 0),
+            0
+          );
+          return (
+            <li key={run.provider} className="px-4 py-3 text-xs space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-neutral-300">{providerName(run.provider)}</span>
+                <span
+                  className={`shrink-0 ${
+                    run.status === "done" ? "text-blue-400" : run.status === "error" ? "text-red-400" : "text-neutral-500"
+                  }`}
+                >
+                  {run.status === "done" && run.result
+                    ? [
+                        `${words.toLocaleString()} words`,
+                        run.result.latencyMs !== undefined && `${(run.result.latencyMs / 1000).toFixed(1)}s`,
+                        run.result.estimatedCost ? `~$${run.result.estimatedCost.toFixed(4)}` : null,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")
+                    : run.status === "error"
+                      ? "Failed"
+                      : run.progress
+                        ? `Page ${run.progress.pagesDone} of ${run.progress.totalPages}`
+                        : "Processing..."}
+                </span>
+              </div>
+              {run.status === "processing" && run.progress && run.progress.totalPages > 0 && (
+                <div className="h-1 bg-neutral-800 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-blue-500 transition-all duration-300"
+                    style={{ width: `${(run.progress.pagesDone / run.progress.totalPages) * 100}%` }}
+                  />
+                </div>
+              )}
+              {run.error && <p className="text-red-400/80">{run.error}</p>}
+            </li>
+          );
+        })}
+      </ul>
+
+      {done && columns.length > 0 && (
+        <>
+          {/* Agreement */}
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-neutral-500">
+            {pairs.map((pair) => (
+              <span key={`${pair.left}-${pair.right}`} title="Share of words both providers agree on">
+                {providerName(pair.left)} ↔ {providerName(pair.right)}:{" "}
+                <span className="text-neutral-300">{percent(pair.agreement)} agreement</span>
+              </span>
+            ))}
+            <span className="ml-auto flex items-center gap-2">
+              Use for every page:
+              {columns.map((column) => (
+                <button
+                  key={column.provider}
+                  onClick={() => pickAll(column.provider)}
+                  className="px-2 py-1 rounded-lg bg-neutral-900 hover:bg-neutral-800 text-neutral-300 transition-colors"
+                >
+                  {providerName(column.provider)}
+                </button>
+              ))}
+            </span>
+          </div>
+
+          {/* Pages */}
+          {pageNumbers.map((page) => {
+            const picked = pickFor(page)?.provider;
+            const comparisons = diffs.get(page)!;
+            return (
+              <div key={page} className="space-y-2">
+                <div className="text-xs text-neutral-500">
+                  {reference.sections.get(page)?.label ?? `Page ${page}`}
+                </div>
+                <div className="grid gap-2" style={gridStyle}>
+                  {columns.map((column, index) => {
+                    const section = column.sections.get(page);
+                    const comparison = comparisons[index];
+                    return (
+                      <div
+                        key={column.provider}
+                        className={`rounded-xl border ${
+                          picked === column.provider ? "border-blue-500/50" : "border-neutral-800"
+                        } bg-neutral-900 overflow-hidden`}
+                      >
+                        <div className="flex items-center gap-2 px-4 py-2 text-xs border-b border-neutral-800">
+                          <span className="text-neutral-300">{providerName(column.provider)}</span>
+                          {index > 0 && (
+                            <span className="text-neutral-500" title={`Agreement with ${providerName(reference.provider)}`}>
+                              {percent(agreement(comparison))}
+                            </span>
+                          )}
+                          <button
+                            onClick={() => setPicks((current) => ({ ...current, [page]: column.provider }))}
+                            disabled={!section}
+                            className={`ml-auto px-2 py-1 rounded-lg transition-colors disabled:opacity-40 ${
+                              picked === column.provider
+                                ? "bg-blue-600 text-white"
+                                : "text-neutral-500 hover:text-neutral-300"
+                            }`}
+                          >
+                            {picked === column.provider ? "Picked" : "Use"}
+                          </button>
+                        </div>
+                        <pre className="p-4 overflow-auto max-h-[400px] text-xs text-neutral-300 leading-relaxed whitespace-pre-wrap font-mono">
+                          {!section ? (
+                            <span className="text-neutral-600">Page missing</span>
+                          ) : index === 0 ? (
+                            section.markdown
+                          ) : (
+                            comparison.parts.map((part, i) => (
+                              <span key={i} className={DIFF_STYLES[part.type]}>
+                                {part.text}
+                              </span>
+                            ))
+                          )}
+                        </pre>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+
+          <div className="flex justify-end">
+            <button
+              onClick={handleDownloadMerged}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-xs transition-colors"
+              title="llms.txt and llms-full.txt built from the picked pages"
+            >
+              Download merged .zip
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
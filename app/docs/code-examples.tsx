@@ -0,0 +1,35 @@
+"use client";
+
+import { useState } from "react";
+import type { ExampleLanguage } from "@/lib/openapi";
+
+const LABELS: Record<ExampleLanguage, string> = { curl: "cURL", javascript: "JS", python: "Python" };
+
+// Snippets generated from the spec, one language at a time
+export function CodeExamples({ examples }: { examples: Record<ExampleLanguage, string> }) {
+  const [lang, setLang] = useState<ExampleLanguage>("curl");
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs uppercase tracking-wider text-neutral-500">Example Request</h3>
+        <div className="flex gap-1">
+          {(Object.keys(LABELS) as ExampleLanguage[]).map((l) => (
+            <button
+              key={l}
+              onClick={() => setLang(l)}
+              className={`px-2.5 py-1 text-xs rounded transition-colors ${
+                lang === l ? "bg-neutral-800 text-white" : "text-neutral-600 hover:text-neutral-400"
+              }`}
+            >
+              {LABELS[l]}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="bg-neutral-900 rounded-lg overflow-hidden border border-neutral-800">
+        <pre className="p-4 text-xs font-mono text-neutral-300 overflow-auto leading-relaxed">{examples[lang]}</pre>
+      </div>
+    </div>
+  );
+}
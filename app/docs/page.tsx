@@ -1,74 +1,422 @@
-"use client";
+import Link from "next/link";
+import { Fragment, type ReactNode } from "react";
+import { MAX_FILES, MAX_FILE_MB, MAX_PAGES } from "@/lib/convert";
+import { INPUT_FORMATS } from "@/lib/inputs/formats";
+import { codeExamples, OPENAPI_SPEC, resolve, type Method, type Operation, type Schema } from "@/lib/openapi";
+import { PASSES, PRESETS, PRESET_IDS } from "@/lib/optimize";
+import { PROVIDERS } from "@/lib/providers/catalog";
+import { CodeExamples } from "./code-examples";
 
-import { useState } from "react";
+const { schemas } = OPENAPI_SPEC.components;
 
-type Lang = "curl" | "javascript" | "python";
+const METHOD_STYLES: Record<Method, string> = {
+  get: "bg-green-500/20 text-green-400",
+  post: "bg-blue-500/20 text-blue-400",
+  delete: "bg-red-500/20 text-red-400",
+};
 
-function highlightCode(code: string, lang: Lang): string {
-  if (lang === "curl") {
-    return code
-      .replace(/(curl|POST)/g, '<span class="text-blue-400">$1</span>')
-      .replace(/(-[A-Z]|-F)/g, '<span class="text-sky-300">$1</span>')
-      .replace(/(https?:\/\/[^\s"\\]+)/g, '<span class="text-neutral-300">$1</span>')
-      .replace(/("file=@[^"]+"|"provider=[^"]+")/g, '<span class="text-sky-200">$1</span>');
-  }
-  if (lang === "javascript") {
-    return code
-      .replace(/\b(const|await|new|async)\b/g, '<span class="text-blue-400">$1</span>')
-      .replace(/\b(fetch|FormData|append|json)\b/g, '<span class="text-sky-300">$1</span>')
-      .replace(/("\/api\/ocr"|"POST"|"file"|"provider"|"mistral")/g, '<span class="text-sky-200">$1</span>')
-      .replace(/(\/\/.*$)/gm, '<span class="text-neutral-600">$1</span>');
-  }
-  if (lang === "python") {
-    return code
-      .replace(/\b(import|with|as|open)\b/g, '<span class="text-blue-400">$1</span>')
-      .replace(/\b(requests|post|json|print)\b/g, '<span class="text-sky-300">$1</span>')
-      .replace(/("https?:\/\/[^"]+"|"[^"]*")/g, '<span class="text-sky-200">$1</span>')
-      .replace(/(#.*$)/gm, '<span class="text-neutral-600">$1</span>');
+// The fields of /api/ocr, which the other conversion endpoints share
+const OCR_FIELDS = resolve({ $ref: "#/components/schemas/OcrRequest" }, schemas).properties ?? {};
+
+const RATE_LIMIT_HEADERS = `X-RateLimit-Limit: 10
+X-RateLimit-Remaining: 9
+X-RateLimit-Reset: 2
+X-RateLimit-Quota-Limit: 5000
+X-RateLimit-Quota-Remaining: 4988
+X-RateLimit-Quota-Reset: 1098274`;
+
+const CLI_EXAMPLE = `# Every supported file below docs/, five at a time
+pdftollstxt docs/ --provider native --out-dir llms --concurrency 5
+
+# One llms.txt collection of the quoted glob's matches
+pdftollstxt "reports/**/*.pdf" --format bundle -o site/
+
+# Pipe a single document's markdown
+pdftollstxt slides.pptx --stdout | wc -w`;
+
+// Spec descriptions, with `code` spans and a line per newline
+function Prose({ text }: { text: string }) {
+  return text.split("\n").map((line, i) => (
+    <Fragment key={i}>
+      {i > 0 && <br />}
+      {line.split(/`([^`]+)`/).map((part, j) => (j % 2 ? <code key={j}>{part}</code> : part))}
+    </Fragment>
+  ));
+}
+
+function schemaName(schema: Schema): string | undefined {
+  return schema.$ref?.replace("#/components/schemas/", "");
+}
+
+function typeLabel(schema: Schema): string {
+  const name = schemaName(schema);
+  if (name) return name;
+  if (schema.format === "binary") return "file";
+  if (schema.type === "array" && schema.items) return `${typeLabel(schema.items)}[]`;
+  return [schema.type ?? "any"].flat().join(" | ");
+}
+
+// Allowed values, default and bounds, as the route checks them
+function constraints(schema: Schema): string[] {
+  const notes: string[] = [];
+  if (schema.enum) notes.push(`One of ${schema.enum.map((value) => JSON.stringify(value)).join(", ")}.`);
+  if (schema.minimum !== undefined && schema.maximum !== undefined) {
+    notes.push(`From ${schema.minimum} to ${schema.maximum}.`);
+  } else if (schema.minimum !== undefined) {
+    notes.push(`At least ${schema.minimum}.`);
   }
-  return code;
-}
-
-const EXAMPLES = {
-  curl: `curl -X POST https://your-domain.com/api/ocr \\
-  -F "file=@document.pdf" \\
-  -F "provider=mistral"`,
-  javascript: `const formData = new FormData();
-formData.append("file", pdfFile);
-formData.append("provider", "mistral");
-
-const response = await fetch("/api/ocr", {
-  method: "POST",
-  body: formData,
-});
-
-const { text, pageCount } = await response.json();`,
-  python: `import requests
-
-with open("document.pdf", "rb") as f:
-    response = requests.post(
-        "https://your-domain.com/api/ocr",
-        files={"file": f},
-        data={"provider": "mistral"}
-    )
-
-result = response.json()
-print(result["text"])`,
-};
+  if (schema.default !== undefined) notes.push(`Defaults to ${JSON.stringify(schema.default)}.`);
+  return notes;
+}
+
+// The object schema whose fields describe a response, if it has one
+function fieldsSchema(schema: Schema): string | undefined {
+  if (schema.oneOf) return schemaName(schema.oneOf[0]);
+  const properties = Object.values(schema.properties ?? {});
+  if (properties.length === 1 && properties[0].items) return schemaName(properties[0].items);
+  return schemaName(schema);
+}
+
+function exampleText(example: unknown): string {
+  return typeof example === "string" ? example : JSON.stringify(example, null, 2);
+}
 
-const RESPONSE = `{
-  "text": "# Document Title\\n\\nExtracted markdown...",
-  "pageCount": 5,
-  "filename": "document.pdf",
-  "provider": "mistral"
-}`;
+function MethodBadge({ method }: { method: Method }) {
+  return (
+    <span className={`px-2.5 py-1 text-xs font-mono rounded ${METHOD_STYLES[method]}`}>{method.toUpperCase()}</span>
+  );
+}
+
+function SectionTitle({ children }: { children: ReactNode }) {
+  return <h3 className="text-xs uppercase tracking-wider text-neutral-500 mb-4">{children}</h3>;
+}
+
+function CodeBlock({ children, error = false }: { children: string; error?: boolean }) {
+  return (
+    <div className={`bg-neutral-900 rounded-lg overflow-hidden border ${error ? "border-red-900/30" : "border-neutral-800"}`}>
+      <pre className={`p-4 text-xs font-mono overflow-auto leading-relaxed max-h-96 ${error ? "text-neutral-400" : "text-neutral-300"}`}>
+        {children}
+      </pre>
+    </div>
+  );
+}
 
-const ERROR_RESPONSE = `{
-  "error": "Only PDF files are supported"
-}`;
+function Status({ status }: { status: string }) {
+  const ok = status.startsWith("2");
+  return (
+    <span className="flex items-center gap-1.5 text-xs">
+      <span className={`w-1.5 h-1.5 rounded-full ${ok ? "bg-green-500" : "bg-red-500"}`}></span>
+      <span className={ok ? "text-green-500" : "text-red-500"}>{status}</span>
+    </span>
+  );
+}
+
+function RequestField({ name, schema, required }: { name: string; schema: Schema; required: boolean }) {
+  const field = resolve(schema, schemas);
+  return (
+    <div className="p-4 bg-neutral-900/50 rounded-lg border border-neutral-800">
+      <div className="flex items-center gap-2 mb-1">
+        <code className="text-blue-400 text-sm font-mono">{name}</code>
+        <span className="text-neutral-600 text-xs">{typeLabel(field)}</span>
+        <span
+          className={`text-[10px] uppercase tracking-wider ml-auto ${required ? "text-amber-500" : "text-neutral-600"}`}
+        >
+          {required ? "required" : "optional"}
+        </span>
+      </div>
+      <p className="text-neutral-500 text-sm">
+        {field.description && <Prose text={field.description} />} {constraints(field).join(" ")}
+      </p>
+    </div>
+  );
+}
+
+function ResponseFields({ name }: { name: string }) {
+  const { properties = {} } = resolve({ $ref: `#/components/schemas/${name}` }, schemas);
+  const entries = Object.entries(properties);
+  return (
+    <div>
+      <h3 className="text-xs uppercase tracking-wider text-neutral-500 mb-3">{name} Fields</h3>
+      <div className="space-y-2 text-xs">
+        {entries.map(([field, schema], i) => {
+          const resolved = resolve(schema, schemas);
+          const notes = [schema.description ?? resolved.description, resolved.enum && constraints(resolved)[0]];
+          return (
+            <div
+              key={field}
+              className={`flex items-start gap-3 py-2 ${i < entries.length - 1 ? "border-b border-neutral-800/50" : ""}`}
+            >
+              <code className="text-blue-400 font-mono shrink-0">{field}</code>
+              <span className="text-neutral-600 font-mono shrink-0">{typeLabel(schema)}</span>
+              <span className="text-neutral-500">
+                <Prose text={notes.filter(Boolean).join(" ")} />
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function OperationSection({
+  path,
+  method,
+  operation,
+  fieldsName,
+}: {
+  path: string;
+  method: Method;
+  operation: Operation;
+  // The response schema whose fields to list; each is listed once
+  fieldsName?: string;
+}) {
+  const form = operation.requestBody?.content["multipart/form-data"];
+  const body = form && resolve(form.schema, schemas);
+  const fields = Object.entries(body?.properties ?? {});
+  // Conversion options other endpoints share are listed once, under /api/ocr
+  const shared = path === "/api/ocr" ? [] : fields.filter(([name, schema]) => OCR_FIELDS[name] === schema);
+  const own = fields.filter(([name]) => !shared.some(([sharedName]) => sharedName === name));
+
+  const responses = Object.entries(operation.responses);
+  const success = responses.filter(([status]) => status.startsWith("2"));
+  const errors = responses.filter(([status]) => !status.startsWith("2"));
+
+  return (
+    <section className="grid lg:grid-cols-2 border-b border-neutral-900">
+      {/* Left: Request */}
+      <div className="p-8 lg:border-r border-neutral-900">
+        <div className="flex items-center gap-3 mb-2">
+          <MethodBadge method={method} />
+          <code className="text-white font-mono">{path}</code>
+        </div>
+        <p className="text-white text-sm mb-4">{operation.summary}</p>
+        {operation.description && (
+          <p className="text-neutral-400 text-sm mb-8">
+            <Prose text={operation.description} />
+          </p>
+        )}
+
+        <div className="space-y-6">
+          {operation.parameters?.length ? (
+            <div>
+              <SectionTitle>Path Parameters</SectionTitle>
+              <div className="space-y-4">
+                {operation.parameters.map((parameter) => (
+                  <RequestField
+                    key={parameter.name}
+                    name={parameter.name}
+                    schema={parameter.schema}
+                    required={Boolean(parameter.required)}
+                  />
+                ))}
+              </div>
+            </div>
+          ) : null}
+
+          {body && (
+            <div>
+              <SectionTitle>Request Body</SectionTitle>
+              <p className="text-neutral-600 text-xs mb-3">
+                Content-Type: multipart/form-data
+                {shared.length > 0 && (
+                  <>
+                    . Also takes {shared.map(([name]) => name).join(", ")} as described under /api/ocr.
+                  </>
+                )}
+              </p>
+              <div className="space-y-4">
+                {own.map(([name, schema]) => (
+                  <RequestField key={name} name={name} schema={schema} required={Boolean(body.required?.includes(name))} />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Right: Examples and responses */}
+      <div className="bg-neutral-950 p-8">
+        <div className="space-y-6">
+          <CodeExamples examples={codeExamples(OPENAPI_SPEC, path, method)} />
+
+          {success.map(([status, response]) => (
+            <div key={status} className="space-y-6">
+              {Object.entries(response.content ?? {}).length === 0 && (
+                <div className="flex items-center gap-2">
+                  <h3 className="text-xs uppercase tracking-wider text-neutral-500">Response</h3>
+                  <Status status={status} />
+                  <span className="text-neutral-600 text-xs">{response.description}</span>
+                </div>
+              )}
+              {Object.entries(response.content ?? {}).map(([type, media]) => {
+                const examples = media.examples
+                  ? Object.values(media.examples)
+                  : [{ summary: "", value: media.example }];
+                return examples.map(({ summary, value }) => (
+                  <div key={`${type}${summary}`}>
+                    <div className="flex items-center gap-2 mb-3">
+                      <h3 className="text-xs uppercase tracking-wider text-neutral-500">Response</h3>
+                      <Status status={status} />
+                      <span className="text-neutral-600 text-xs">
+                        {summary ? `${summary}, ` : ""}
+                        {type}
+                      </span>
+                    </div>
+                    {value !== undefined ? (
+                      <CodeBlock>{exampleText(value)}</CodeBlock>
+                    ) : (
+                      <p className="text-neutral-500 text-sm">{response.description}</p>
+                    )}
+                  </div>
+                ));
+              })}
+            </div>
+          ))}
+
+          {errors.length > 0 && (
+            <div>
+              <div className="flex items-center gap-2 mb-3">
+                <h3 className="text-xs uppercase tracking-wider text-neutral-500">Errors</h3>
+              </div>
+              <div className="space-y-4">
+                {errors.map(([status, response]) => (
+                  <div key={status}>
+                    <div className="flex items-start gap-3 mb-2 text-xs">
+                      <Status status={status} />
+                      <span className="text-neutral-500">
+                        <Prose text={response.description} />
+                      </span>
+                    </div>
+                    {response.content?.["application/json"]?.example !== undefined && (
+                      <CodeBlock error>{exampleText(response.content["application/json"].example)}</CodeBlock>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {fieldsName && <ResponseFields name={fieldsName} />}
+        </div>
+      </div>
+    </section>
+  );
+}
+
+// Each operation in the spec, listing a response schema's fields where it
+// first appears
+function operations() {
+  const listed = new Set<string>();
+  return Object.entries(OPENAPI_SPEC.paths).flatMap(([path, methods]) =>
+    Object.entries(methods).map(([method, operation]) => {
+      const success = Object.entries(operation.responses).find(([status]) => status.startsWith("2"))?.[1];
+      const json = success?.content?.["application/json"];
+      const name = json && fieldsSchema(json.schema);
+      const fieldsName = name && !listed.has(name) ? name : undefined;
+      if (name) listed.add(name);
+      return { path, method: method as Method, operation, fieldsName };
+    })
+  );
+}
+
+function ReferenceSection() {
+  return (
+    <section className="grid lg:grid-cols-2 border-b border-neutral-900">
+      <div className="p-8 lg:border-r border-neutral-900 space-y-6">
+        <div>
+          <h3 className="text-xs uppercase tracking-wider text-neutral-500 mb-4">Providers</h3>
+          <div className="text-sm space-y-2">
+            {PROVIDERS.map((p, i) => (
+              <div
+                key={p.id}
+                className={`flex items-center justify-between py-2 ${
+                  i < PROVIDERS.length - 1 ? "border-b border-neutral-800/50" : ""
+                }`}
+              >
+                <code className="text-blue-400 font-mono text-xs">{p.id}</code>
+                <span className="text-neutral-500 text-xs">{p.model} • {p.description}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-xs uppercase tracking-wider text-neutral-500 mb-4">Limits</h3>
+          <div className="text-sm space-y-2">
+            <div className="flex items-center justify-between text-neutral-500">
+              <span>Max file size</span>
+              <span className="text-white font-mono text-xs">{MAX_FILE_MB} MB</span>
+            </div>
+            <div className="flex items-center justify-between text-neutral-500">
+              <span>Files per request</span>
+              <span className="text-white font-mono text-xs">{MAX_FILES}</span>
+            </div>
+            <div className="flex items-center justify-between text-neutral-500">
+              <span>Selected pages per document</span>
+              <span className="text-white font-mono text-xs">{MAX_PAGES.toLocaleString("en-US")}</span>
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-xs uppercase tracking-wider text-neutral-500 mb-4">Post-processing</h3>
+          <div className="text-sm space-y-2">
+            {PASSES.map((pass, i) => (
+              <div
+                key={pass.id}
+                className={`flex items-start justify-between gap-4 py-2 ${
+                  i < PASSES.length - 1 ? "border-b border-neutral-800/50" : ""
+                }`}
+              >
+                <code className="text-blue-400 font-mono text-xs shrink-0">{pass.id}</code>
+                <span className="text-neutral-500 text-xs text-right">
+                  {pass.description}
+                  <span className="text-neutral-700">
+                    {" "}
+                    · {PRESET_IDS.filter((id) => (PRESETS[id] as readonly string[]).includes(pass.id)).join(", ")}
+                  </span>
+                </span>
+              </div>
+            ))}
+          </div>
+          <p className="text-neutral-600 text-xs mt-3">
+            Passes always run in this order and leave fenced code untouched. Page separators are never
+            rewritten.
+          </p>
+        </div>
+      </div>
+
+      <div className="bg-neutral-950 p-8">
+        <h3 className="text-xs uppercase tracking-wider text-neutral-500 mb-4">Supported Formats</h3>
+        <div className="text-sm space-y-2">
+          {INPUT_FORMATS.map((format, i) => (
+            <div
+              key={format.id}
+              className={`flex items-start justify-between gap-4 py-2 ${
+                i < INPUT_FORMATS.length - 1 ? "border-b border-neutral-800/50" : ""
+              }`}
+            >
+              <span className="shrink-0">
+                <span className="text-white text-xs">{format.name}</span>{" "}
+                <code className="text-blue-400 font-mono text-xs">{format.extensions.join(" ")}</code>
+              </span>
+              <span className="text-neutral-500 text-xs text-right">{format.description}</span>
+            </div>
+          ))}
+        </div>
+        <p className="text-neutral-600 text-xs mt-3">
+          Images, slides and chapters are numbered like pages in <code>pages</code>, the page anchors and{" "}
+          <code>pageCount</code>. Embedded images follow the <code>images</code> option, as figures in
+          PDFs do. Only PDFs and images count towards the monthly page quota.
+        </p>
+      </div>
+    </section>
+  );
+}
 
 export default function DocsPage() {
-  const [lang, setLang] = useState<Lang>("curl");
+  const [first, ...rest] = operations();
 
   return (
     <div className="min-h-screen bg-[#050505] text-white">
@@ -76,175 +424,114 @@ export default function DocsPage() {
       <header className="border-b border-neutral-900">
         <div className="max-w-7xl mx-auto px-6 py-4 flex items-center justify-between">
           <div className="flex items-center gap-6">
-            <a href="/" className="text-white font-light text-lg">
+            <Link href="/" className="text-white font-light text-lg">
               pdf<span className="text-blue-500">→</span>llms.txt
-            </a>
+            </Link>
             <span className="text-neutral-700">/</span>
             <span className="text-neutral-400 text-sm">API Reference</span>
+            <span className="text-neutral-700 text-xs font-mono">v{OPENAPI_SPEC.info.version}</span>
+          </div>
+          <div className="flex items-center gap-6">
+            <a href="/api/openapi.json" className="text-neutral-500 text-sm hover:text-white transition-colors">
+              OpenAPI 3.1
+            </a>
+            <Link href="/" className="text-neutral-500 text-sm hover:text-white transition-colors">
+              ← Back to app
+            </Link>
           </div>
-          <a href="/" className="text-neutral-500 text-sm hover:text-white transition-colors">
-            ← Back to app
-          </a>
         </div>
       </header>
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto">
-        {/* Endpoint Section */}
+        <OperationSection {...first} />
+        <ReferenceSection />
+        {rest.map((operation) => (
+          <OperationSection key={`${operation.method} ${operation.path}`} {...operation} />
+        ))}
+
+        {/* Authentication Section */}
         <section className="grid lg:grid-cols-2 border-b border-neutral-900">
-          {/* Left: Request */}
           <div className="p-8 lg:border-r border-neutral-900">
-            <div className="flex items-center gap-3 mb-6">
-              <span className="px-2.5 py-1 bg-blue-500/20 text-blue-400 text-xs font-mono rounded">
-                POST
-              </span>
-              <code className="text-white font-mono">/api/ocr</code>
+            <h2 className="text-white font-mono mb-6">Authentication</h2>
+            <div className="space-y-4 text-neutral-400 text-sm">
+              <p>
+                Once the server has keys configured, every endpoint needs{" "}
+                <code className="text-neutral-300">Authorization: Bearer &lt;key&gt;</code>. Keys come from{" "}
+                <code className="text-neutral-300">API_KEYS</code> (<code>name:key,…</code>) or a JSON file at{" "}
+                <code className="text-neutral-300">API_KEYS_FILE</code> holding SHA-256 hashes and per-key limits.
+                The web app uses a same-origin session cookie instead.
+              </p>
+              <p>
+                Each key has a token bucket of <code className="text-neutral-300">API_BURST</code> requests
+                that refills at <code className="text-neutral-300">API_REQUESTS_PER_MINUTE</code>, and an
+                optional <code className="text-neutral-300">API_MONTHLY_PAGES</code> quota. Cached results
+                don&apos;t count toward the quota. Each web app session has a bucket of its own, set by{" "}
+                <code className="text-neutral-300">WEB_BURST</code> and{" "}
+                <code className="text-neutral-300">WEB_REQUESTS_PER_MINUTE</code>, and all sessions share one
+                quota, <code className="text-neutral-300">WEB_MONTHLY_PAGES</code> (1000 pages by default).
+              </p>
+              <p>
+                The session cookie is an anonymous allowance, not a credential: anyone who loads the app gets
+                one, scripts included. It only counts on same-origin requests, which keeps other sites from
+                spending a visitor&apos;s session, and the shared quota caps what sessions convert together.
+                Size <code className="text-neutral-300">WEB_MONTHLY_PAGES</code> for what you are willing to
+                give away, and hand out keys for anything more.
+              </p>
+              <p>
+                A missing or unknown key gets a 401 <code>UNAUTHORIZED</code>; an empty bucket or used-up
+                quota gets a 429 <code>RATE_LIMITED</code> or <code>QUOTA_EXCEEDED</code> with{" "}
+                <code className="text-neutral-300">Retry-After</code> in seconds.
+              </p>
             </div>
-            
-            <p className="text-neutral-400 text-sm mb-8">
-              Convert a PDF file to optimized LLM-ready text using OCR.
-            </p>
-
-            <div className="space-y-6">
-              <div>
-                <h3 className="text-xs uppercase tracking-wider text-neutral-500 mb-4">Request Body</h3>
-                <p className="text-neutral-600 text-xs mb-3">Content-Type: multipart/form-data</p>
-                <div className="space-y-4">
-                  <div className="p-4 bg-neutral-900/50 rounded-lg border border-neutral-800">
-                    <div className="flex items-center gap-2 mb-1">
-                      <code className="text-blue-400 text-sm font-mono">file</code>
-                      <span className="text-neutral-600 text-xs">File</span>
-                      <span className="text-[10px] uppercase tracking-wider text-amber-500 ml-auto">required</span>
-                    </div>
-                    <p className="text-neutral-500 text-sm">The PDF file to process</p>
-                  </div>
-                  <div className="p-4 bg-neutral-900/50 rounded-lg border border-neutral-800">
-                    <div className="flex items-center gap-2 mb-1">
-                      <code className="text-blue-400 text-sm font-mono">provider</code>
-                      <span className="text-neutral-600 text-xs">string</span>
-                      <span className="text-[10px] uppercase tracking-wider text-neutral-600 ml-auto">optional</span>
-                    </div>
-                    <p className="text-neutral-500 text-sm">&quot;mistral&quot; (default) or &quot;openai&quot;</p>
-                  </div>
-                </div>
-              </div>
+          </div>
 
-              <div>
-                <h3 className="text-xs uppercase tracking-wider text-neutral-500 mb-4">Providers</h3>
-                <div className="text-sm space-y-2">
-                  <div className="flex items-center justify-between py-2 border-b border-neutral-800/50">
-                    <code className="text-blue-400 font-mono text-xs">mistral</code>
-                    <span className="text-neutral-500 text-xs">mistral-ocr-latest • Native OCR</span>
-                  </div>
-                  <div className="flex items-center justify-between py-2">
-                    <code className="text-blue-400 font-mono text-xs">openai</code>
-                    <span className="text-neutral-500 text-xs">gpt-5.1 • Vision-based</span>
-                  </div>
-                </div>
-              </div>
+          <div className="bg-neutral-950 p-8">
+            <h3 className="text-xs uppercase tracking-wider text-neutral-500 mb-3">Response Headers</h3>
+            <div className="bg-neutral-900 rounded-lg overflow-hidden border border-neutral-800">
+              <pre className="p-4 text-xs font-mono text-neutral-300 overflow-auto leading-relaxed">
+                {RATE_LIMIT_HEADERS}
+              </pre>
+            </div>
+            <p className="text-neutral-600 text-xs mt-3">
+              Resets are in seconds: until the bucket is full, and until the quota renews on the 1st (UTC).
+            </p>
+          </div>
+        </section>
 
-              <div>
-                <h3 className="text-xs uppercase tracking-wider text-neutral-500 mb-4">Limits</h3>
-                <div className="text-sm space-y-2">
-                  <div className="flex items-center justify-between text-neutral-500">
-                    <span>Max file size</span>
-                    <span className="text-white font-mono text-xs">50 MB</span>
-                  </div>
-                  <div className="flex items-center justify-between text-neutral-500">
-                    <span>Formats</span>
-                    <span className="text-white font-mono text-xs">PDF</span>
-                  </div>
-                </div>
-              </div>
+        {/* Command Line Section */}
+        <section className="grid lg:grid-cols-2 border-b border-neutral-900">
+          <div className="p-8 lg:border-r border-neutral-900">
+            <h2 className="text-white font-mono mb-6">Command Line</h2>
+            <div className="space-y-4 text-neutral-400 text-sm">
+              <p>
+                <code className="text-neutral-300">pdftollstxt</code> converts local files, directories
+                and globs without a running server, using the same providers and post-processing as the API.
+                Provider keys and other settings come from the environment or a{" "}
+                <code className="text-neutral-300">.env</code> file in the working directory. In a checkout,
+                run it as <code className="text-neutral-300">npm run cli -- &lt;args&gt;</code>, or{" "}
+                <code className="text-neutral-300">npm link</code> to install the command.
+              </p>
+              <p>
+                <code className="text-neutral-300">--format</code> is <code>markdown</code> (the default),{" "}
+                <code>llms</code>, <code>json</code>, <code>chunks</code> or <code>bundle</code>. Each file is
+                written under <code className="text-neutral-300">--out-dir</code> as it finishes, or with{" "}
+                <code className="text-neutral-300">--stdout</code> everything is printed once all files are
+                done. Run <code className="text-neutral-300">pdftollstxt --help</code> for every flag.
+              </p>
+              <p>
+                The exit code is 0 when every file converted, 1 when any file failed or was only partly
+                converted, and 2 for invalid options or inputs that match nothing.
+              </p>
             </div>
           </div>
 
-          {/* Right: Response & Examples */}
           <div className="bg-neutral-950 p-8">
-            <div className="space-y-6">
-              {/* Code Examples */}
-              <div>
-                <div className="flex items-center justify-between mb-3">
-                  <h3 className="text-xs uppercase tracking-wider text-neutral-500">Example Request</h3>
-                  <div className="flex gap-1">
-                    {(["curl", "javascript", "python"] as const).map((l) => (
-                      <button
-                        key={l}
-                        onClick={() => setLang(l)}
-                        className={`px-2.5 py-1 text-xs rounded transition-colors ${
-                          lang === l 
-                            ? "bg-neutral-800 text-white" 
-                            : "text-neutral-600 hover:text-neutral-400"
-                        }`}
-                      >
-                        {l === "curl" ? "cURL" : l === "javascript" ? "JS" : "Python"}
-                      </button>
-                    ))}
-                  </div>
-                </div>
-                <div className="bg-neutral-900 rounded-lg overflow-hidden border border-neutral-800">
-                  <pre className="p-4 text-xs font-mono overflow-auto leading-relaxed">
-                    <code 
-                      dangerouslySetInnerHTML={{ __html: highlightCode(EXAMPLES[lang], lang) }}
-                    />
-                  </pre>
-                </div>
-              </div>
-
-              {/* Success Response */}
-              <div>
-                <div className="flex items-center gap-2 mb-3">
-                  <h3 className="text-xs uppercase tracking-wider text-neutral-500">Response</h3>
-                  <span className="flex items-center gap-1.5 text-xs">
-                    <span className="w-1.5 h-1.5 rounded-full bg-green-500"></span>
-                    <span className="text-green-500">200</span>
-                  </span>
-                </div>
-                <div className="bg-neutral-900 rounded-lg overflow-hidden border border-neutral-800">
-                  <pre className="p-4 text-xs font-mono text-neutral-300 overflow-auto leading-relaxed">
-                    {RESPONSE}
-                  </pre>
-                </div>
-              </div>
-
-              {/* Error Response */}
-              <div>
-                <div className="flex items-center gap-2 mb-3">
-                  <h3 className="text-xs uppercase tracking-wider text-neutral-500">Error</h3>
-                  <span className="flex items-center gap-1.5 text-xs">
-                    <span className="w-1.5 h-1.5 rounded-full bg-red-500"></span>
-                    <span className="text-red-500">4xx</span>
-                  </span>
-                </div>
-                <div className="bg-neutral-900 rounded-lg overflow-hidden border border-red-900/30">
-                  <pre className="p-4 text-xs font-mono text-neutral-400 overflow-auto leading-relaxed">
-                    {ERROR_RESPONSE}
-                  </pre>
-                </div>
-              </div>
-
-              {/* Response Fields */}
-              <div>
-                <h3 className="text-xs uppercase tracking-wider text-neutral-500 mb-3">Response Fields</h3>
-                <div className="space-y-2 text-xs">
-                  <div className="flex items-start gap-3 py-2 border-b border-neutral-800/50">
-                    <code className="text-blue-400 font-mono shrink-0">text</code>
-                    <span className="text-neutral-500">Extracted content as markdown</span>
-                  </div>
-                  <div className="flex items-start gap-3 py-2 border-b border-neutral-800/50">
-                    <code className="text-blue-400 font-mono shrink-0">pageCount</code>
-                    <span className="text-neutral-500">Number of pages processed</span>
-                  </div>
-                  <div className="flex items-start gap-3 py-2 border-b border-neutral-800/50">
-                    <code className="text-blue-400 font-mono shrink-0">filename</code>
-                    <span className="text-neutral-500">Original file name</span>
-                  </div>
-                  <div className="flex items-start gap-3 py-2">
-                    <code className="text-blue-400 font-mono shrink-0">provider</code>
-                    <span className="text-neutral-500">OCR provider used</span>
-                  </div>
-                </div>
-              </div>
+            <h3 className="text-xs uppercase tracking-wider text-neutral-500 mb-3">Examples</h3>
+            <div className="bg-neutral-900 rounded-lg overflow-hidden border border-neutral-800">
+              <pre className="p-4 text-xs font-mono text-neutral-300 overflow-auto leading-relaxed">
+                {CLI_EXAMPLE}
+              </pre>
             </div>
           </div>
         </section>
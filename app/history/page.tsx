@@ -0,0 +1,190 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import type { ConversionResult } from "@/lib/convert";
+import type { HistorySummary } from "@/lib/history";
+import { documentFiles } from "@/lib/llmstxt";
+import { PROVIDERS, type ProviderId } from "@/lib/providers/catalog";
+import { zipFiles } from "@/lib/zip";
+import { countLabel, downloadBlob, errorMessage } from "../ui";
+
+type Action = "download" | "rerun" | "delete";
+
+function providerName(id: ProviderId): string {
+  return PROVIDERS.find((p) => p.id === id)?.name ?? id;
+}
+
+export default function HistoryPage() {
+  const [entries, setEntries] = useState<HistorySummary[] | null>(null);
+  const [error, setError] = useState("");
+  // The action running on each entry, one at a time
+  const [busy, setBusy] = useState<Record<string, Action>>({});
+  const [rerunProviders, setRerunProviders] = useState<Record<string, ProviderId>>({});
+
+  const load = useCallback(async () => {
+    const response = await fetch("/api/history");
+    const body = await response.json();
+    if (!response.ok) {
+      setError(errorMessage(body));
+      return;
+    }
+    setEntries(body.entries);
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const run = useCallback(async (id: string, action: Action, request: () => Promise<void>) => {
+    setBusy((current) => ({ ...current, [id]: action }));
+    setError("");
+    try {
+      await request();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setBusy((current) => {
+        const next = { ...current };
+        delete next[id];
+        return next;
+      });
+    }
+  }, []);
+
+  const handleDownload = (entry: HistorySummary) =>
+    run(entry.id, "download", async () => {
+      const response = await fetch(`/api/history/${entry.id}`);
+      const body = await response.json();
+      if (!response.ok) throw new Error(errorMessage(body));
+      const { result } = body as { result: ConversionResult };
+      const zip = zipFiles(documentFiles(result));
+      downloadBlob(new Blob([zip.slice().buffer], { type: "application/zip" }), "llms.zip");
+    });
+
+  const handleRerun = (entry: HistorySummary) =>
+    run(entry.id, "rerun", async () => {
+      const formData = new FormData();
+      formData.append("provider", rerunProviders[entry.id] ?? entry.provider);
+      const response = await fetch(`/api/history/${entry.id}`, { method: "POST", body: formData });
+      if (!response.ok) throw new Error(errorMessage(await response.json()));
+      await load();
+    });
+
+  const handleDelete = (entry: HistorySummary) =>
+    run(entry.id, "delete", async () => {
+      const response = await fetch(`/api/history/${entry.id}`, { method: "DELETE" });
+      if (!response.ok) throw new Error(errorMessage(await response.json()));
+      setEntries((current) => current?.filter((e) => e.id !== entry.id) ?? null);
+    });
+
+  return (
+    <div className="min-h-screen bg-[#050505] text-white">
+      <div className="max-w-3xl mx-auto px-6 py-20">
+        <header className="mb-12 flex items-baseline justify-between">
+          <h1 className="text-2xl font-light tracking-tight">History</h1>
+          <Link href="/" className="text-neutral-500 text-sm hover:text-white transition-colors">
+            ← Back to app
+          </Link>
+        </header>
+
+        {error && (
+          <p className="mb-6 text-xs text-red-400/80 bg-red-500/5 border border-red-500/20 rounded-lg px-4 py-3">
+            {error}
+          </p>
+        )}
+
+        {entries === null ? (
+          !error && <p className="text-sm text-neutral-500">Loading...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-neutral-500">No conversions yet. History is only kept when the server turns it on.</p>
+        ) : (
+          <ul className="bg-neutral-900/50 border border-neutral-800 rounded-xl divide-y divide-neutral-800/50">
+            {entries.map((entry) => (
+              <li key={entry.id} className="px-4 py-3 text-xs space-y-2">
+                <div className="flex items-center justify-between gap-3">
+                  <span className="text-neutral-300 truncate" title={entry.title}>
+                    {entry.filename}
+                  </span>
+                  <span className="shrink-0 text-neutral-500" title={`Started ${new Date(entry.startedAt).toLocaleString()}`}>
+                    {new Date(entry.finishedAt).toLocaleString()}
+                  </span>
+                </div>
+                <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-neutral-500">
+                  <span className="text-blue-400">{providerName(entry.provider)}</span>
+                  {countLabel(entry.pageCount, entry.format) && (
+                    <>
+                      <span className="text-neutral-700">·</span>
+                      <span>{countLabel(entry.pageCount, entry.format)}</span>
+                    </>
+                  )}
+                  {entry.options.pages && (
+                    <>
+                      <span className="text-neutral-700">·</span>
+                      <span>pages {entry.options.pages}</span>
+                    </>
+                  )}
+                  {entry.options.math && (
+                    <>
+                      <span className="text-neutral-700">·</span>
+                      <span>LaTeX math</span>
+                    </>
+                  )}
+                  {entry.estimatedCost ? (
+                    <>
+                      <span className="text-neutral-700">·</span>
+                      <span>~${entry.estimatedCost.toFixed(4)}</span>
+                    </>
+                  ) : null}
+                  <span className="text-neutral-700">·</span>
+                  <span className="font-mono" title={`SHA-256 ${entry.hash}`}>
+                    {entry.hash.slice(0, 8)}
+                  </span>
+
+                  <span className="ml-auto flex items-center gap-2">
+                    <button
+                      onClick={() => handleDownload(entry)}
+                      disabled={Boolean(busy[entry.id])}
+                      className="px-2 py-1 rounded-lg text-neutral-400 hover:text-white disabled:opacity-40 transition-colors"
+                      title="llms.txt, llms-full.txt, tables and images"
+                    >
+                      {busy[entry.id] === "download" ? "Preparing..." : "llms.zip ↓"}
+                    </button>
+                    <select
+                      value={rerunProviders[entry.id] ?? entry.provider}
+                      onChange={(e) =>
+                        setRerunProviders((current) => ({ ...current, [entry.id]: e.target.value as ProviderId }))
+                      }
+                      className="bg-neutral-900 border border-neutral-800 rounded-lg px-2 py-1 text-neutral-300 outline-none"
+                    >
+                      {PROVIDERS.map((p) => (
+                        <option key={p.id} value={p.id}>
+                          {p.name}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => handleRerun(entry)}
+                      disabled={Boolean(busy[entry.id])}
+                      className="px-2 py-1 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-neutral-300 disabled:opacity-40 transition-colors"
+                      title="Convert the same file again with the same options"
+                    >
+                      {busy[entry.id] === "rerun" ? "Converting..." : "Re-run"}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(entry)}
+                      disabled={Boolean(busy[entry.id])}
+                      className="px-2 py-1 rounded-lg text-neutral-500 hover:text-red-400 disabled:opacity-40 transition-colors"
+                    >
+                      Delete
+                    </button>
+                  </span>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
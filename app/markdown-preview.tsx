@@ -0,0 +1,291 @@
+import { createElement, Fragment, type ReactNode } from "react";
+import { createSlugger } from "@/lib/llmstxt/markdown";
+import { findMath } from "@/lib/math";
+import { Equation, MathText } from "./math-text";
+
+// Renders the markdown our conversions produce (CommonMark blocks, GFM
+// tables, $ math) as React elements. Raw HTML is shown as text, apart from
+// the page anchors, and only web and mailto links are followed.
+
+// Code spans, images, links, strong, emphasis, escapes and hard breaks
+const INLINE =
+  /(`+)([\s\S]*?[^`])\1(?!`)|!\[([^\]]*)\]\(((?:[^()\s]|\([^()\s]*\))*)(?:\s+"[^"]*")?\)|\[([^\]]+)\]\(((?:[^()\s]|\([^()\s]*\))*)(?:\s+"[^"]*")?\)|\*\*(.+?)\*\*|__(.+?)__|\*(\S(?:.*?\S)?)\*|(?<!\w)_(\S(?:.*?\S)?)_(?!\w)|\\([\\`*_{}[\]()#+\-.!$|>~])| {2,}\n|\\\n/;
+const SAFE_HREF = /^(?:https?:|mailto:|#)/i;
+
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TABLE_DELIMITER = /^\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+const PAGE_ANCHOR = /^<a id="([^"]+)"><\/a>$/;
+// Lines that end a paragraph by starting a block of their own
+const BLOCK_START = /^(?:#{1,6}\s|```|~~~|>|\$\$|\s*(?:[-*+]|\d+[.)])\s|(?:[-*_][ \t]*){3,}$|<a id=|\|)/;
+
+const HEADING_STYLES = [
+  "text-2xl font-semibold mt-8 mb-4",
+  "text-xl font-semibold mt-8 mb-3",
+  "text-lg font-semibold mt-6 mb-3",
+  "text-base font-semibold mt-6 mb-2",
+  "text-sm font-semibold mt-4 mb-2",
+  "text-sm font-semibold text-neutral-400 mt-4 mb-2",
+];
+
+function indentOf(line: string): number {
+  return line.match(/^\s*/)![0].length;
+}
+
+function inlineElement(match: RegExpExecArray): ReactNode {
+  const [whole, ticks, code, alt, src, label, href, strong, strongAlt, em, emAlt, escaped] = match;
+  if (ticks) return <code className="bg-neutral-800 rounded px-1 text-[0.9em]">{code}</code>;
+  if (src !== undefined) {
+    return <span className="text-neutral-500 italic">[image: {alt || src}]</span>;
+  }
+  if (label !== undefined) {
+    return SAFE_HREF.test(href) ? (
+      <a href={href} target="_blank" rel="noreferrer" className="text-blue-400 underline">
+        {formatted(label)}
+      </a>
+    ) : (
+      formatted(label)
+    );
+  }
+  if (strong ?? strongAlt) return <strong>{formatted(strong ?? strongAlt)}</strong>;
+  if (em ?? emAlt) return <em>{formatted(em ?? emAlt)}</em>;
+  if (escaped) return escaped;
+  return whole.endsWith("\n") ? <br /> : whole;
+}
+
+// Inline markdown without math
+function formatted(text: string): ReactNode {
+  const nodes: ReactNode[] = [];
+  let rest = text;
+  for (let match = INLINE.exec(rest); match; match = INLINE.exec(rest)) {
+    nodes.push(rest.slice(0, match.index), inlineElement(match));
+    rest = rest.slice(match.index + match[0].length);
+  }
+  nodes.push(rest);
+  return createElement(Fragment, null, ...nodes);
+}
+
+function inline(text: string): ReactNode {
+  const nodes: ReactNode[] = [];
+  let last = 0;
+  for (const span of findMath(text)) {
+    nodes.push(
+      formatted(text.slice(last, span.start)),
+      <Equation tex={span.tex} display={span.display} source={text.slice(span.start, span.end)} />
+    );
+    last = span.end;
+  }
+  nodes.push(formatted(text.slice(last)));
+  return createElement(Fragment, null, ...nodes);
+}
+
+function tableCells(row: string): string[] {
+  return row
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/(?<!\\)\|$/, "")
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replace(/\\\|/g, "|"));
+}
+
+function alignment(delimiter: string): "left" | "center" | "right" | undefined {
+  const left = delimiter.startsWith(":");
+  const right = delimiter.endsWith(":");
+  return left && right ? "center" : right ? "right" : left ? "left" : undefined;
+}
+
+// Items without blank lines keep their text inline, the way a tight list
+// is rendered
+function listItem(lines: string[], slug: (heading: string) => string): ReactNode {
+  if (lines.some((line) => !line.trim())) return blocks(lines.join("\n"), slug);
+  const end = lines.findIndex((line, n) => n > 0 && BLOCK_START.test(line));
+  const text = end < 0 ? lines : lines.slice(0, end);
+  return (
+    <>
+      {inline(text.join("\n"))}
+      {end >= 0 && blocks(lines.slice(end).join("\n"), slug)}
+    </>
+  );
+}
+
+function blocks(markdown: string, slug: (heading: string) => string): ReactNode[] {
+  const lines = markdown.split("\n");
+  const nodes: ReactNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const key = i;
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(/^(```|~~~)/)?.[1];
+    if (fence) {
+      const end = lines.findIndex((candidate, j) => j > i && candidate.startsWith(fence));
+      const close = end < 0 ? lines.length : end;
+      nodes.push(
+        <pre key={key} className="bg-neutral-950 rounded-lg p-4 my-3 overflow-auto text-xs font-mono">
+          {lines.slice(i + 1, close).join("\n")}
+        </pre>
+      );
+      i = close + 1;
+      continue;
+    }
+
+    if (line.trimStart().startsWith("$$")) {
+      // Up to the line that closes it, which may be this one
+      let end = i;
+      while (end < lines.length && !(end === i ? /\$\$.*\$\$/ : /\$\$/).test(lines[end])) end++;
+      const block = lines.slice(i, Math.min(end, lines.length - 1) + 1).join("\n");
+      nodes.push(
+        <div key={key} className="my-3 overflow-x-auto">
+          <MathText text={block} />
+        </div>
+      );
+      i = end + 1;
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/);
+    if (heading) {
+      const level = heading[1].length;
+      nodes.push(
+        createElement(
+          `h${level}`,
+          { key, "data-anchor": slug(heading[2]), className: HEADING_STYLES[level - 1] },
+          inline(heading[2])
+        )
+      );
+      i++;
+      continue;
+    }
+
+    const anchor = line.match(PAGE_ANCHOR);
+    if (anchor) {
+      nodes.push(<span key={key} data-anchor={anchor[1]} />);
+      i++;
+      continue;
+    }
+
+    if (/^(?:[-*_][ \t]*){3,}$/.test(line)) {
+      nodes.push(<hr key={key} className="border-neutral-800 my-6" />);
+      i++;
+      continue;
+    }
+
+    if (line.trimStart().startsWith("|") && TABLE_DELIMITER.test(lines[i + 1] ?? "")) {
+      const header = tableCells(line);
+      const aligns = tableCells(lines[i + 1]).map(alignment);
+      const rows: string[][] = [];
+      for (i += 2; i < lines.length && lines[i].trimStart().startsWith("|"); i++) rows.push(tableCells(lines[i]));
+      nodes.push(
+        <div key={key} className="my-3 overflow-x-auto">
+          <table className="text-xs border-collapse">
+            <thead>
+              <tr>
+                {header.map((cell, c) => (
+                  <th key={c} style={{ textAlign: aligns[c] }} className="border border-neutral-800 px-2 py-1 font-semibold">
+                    {inline(cell)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, r) => (
+                <tr key={r}>
+                  {header.map((_, c) => (
+                    <td key={c} style={{ textAlign: aligns[c] }} className="border border-neutral-800 px-2 py-1">
+                      {inline(row[c] ?? "")}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+      continue;
+    }
+
+    if (line.startsWith(">")) {
+      const quoted: string[] = [];
+      for (; i < lines.length && lines[i].startsWith(">"); i++) quoted.push(lines[i].replace(/^> ?/, ""));
+      nodes.push(
+        <blockquote key={key} className="border-l-2 border-neutral-700 pl-4 my-3 text-neutral-400">
+          {blocks(quoted.join("\n"), slug)}
+        </blockquote>
+      );
+      continue;
+    }
+
+    const first = line.match(LIST_ITEM);
+    if (first) {
+      const base = first[1].length;
+      const ordered = /\d/.test(first[2]);
+      const items: string[][] = [];
+      let contentIndent = 0;
+      while (i < lines.length) {
+        const item = lines[i].match(LIST_ITEM);
+        if (item && item[1].length === base && /\d/.test(item[2]) === ordered) {
+          items.push([item[3]]);
+          contentIndent = item[0].length - item[3].length;
+          i++;
+          continue;
+        }
+        if (!item && !lines[i].trim()) {
+          // A blank line ends the list unless the item or list goes on
+          let next = i;
+          while (next < lines.length && !lines[next].trim()) next++;
+          const following = lines[next]?.match(LIST_ITEM);
+          if (next < lines.length && indentOf(lines[next]) > base) {
+            items[items.length - 1].push(...lines.slice(i, next));
+          } else if (!following || following[1].length !== base || /\d/.test(following[2]) !== ordered) {
+            break;
+          }
+          i = next;
+          continue;
+        }
+        if (indentOf(lines[i]) <= base && BLOCK_START.test(lines[i])) break;
+        // Nested blocks and lazy continuation lines
+        items[items.length - 1].push(lines[i].slice(Math.min(indentOf(lines[i]), contentIndent)));
+        i++;
+      }
+
+      const start = ordered ? parseInt(first[2], 10) : undefined;
+      nodes.push(
+        createElement(
+          ordered ? "ol" : "ul",
+          {
+            key,
+            start: start !== 1 ? start : undefined,
+            className: `${ordered ? "list-decimal" : "list-disc"} pl-6 my-3 space-y-1`,
+          },
+          ...items.map((item, n) => (
+            <li key={n}>{listItem(item, slug)}</li>
+          ))
+        )
+      );
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    for (; i < lines.length && lines[i].trim() && (!paragraph.length || !BLOCK_START.test(lines[i])); i++) {
+      paragraph.push(lines[i]);
+    }
+    nodes.push(
+      <p key={key} className={`my-3 ${line.startsWith("<") ? "text-neutral-500 font-mono text-xs" : ""}`}>
+        {inline(paragraph.join("\n"))}
+      </p>
+    );
+  }
+  return nodes;
+}
+
+/**
+ * Rendered markdown. Headings and page anchors carry their anchor in
+ * `data-anchor`, so a page or section can be scrolled into view.
+ */
+export function MarkdownPreview({ markdown }: { markdown: string }) {
+  return <div className="text-sm text-neutral-300 leading-relaxed">{blocks(markdown, createSlugger())}</div>;
+}
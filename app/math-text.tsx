@@ -0,0 +1,48 @@
+import { createElement, Fragment, type ReactNode } from "react";
+import { findMath, latexToMathml, type MathNode } from "@/lib/math";
+
+// "color: red; font-weight: bold" as a React style object
+function parseStyle(style: string): Record<string, string> {
+  return Object.fromEntries(
+    style
+      .split(";")
+      .map((rule) => rule.split(":").map((part) => part.trim()))
+      .filter(([property, value]) => property && value)
+      .map(([property, value]) => [property.replace(/-([a-z])/g, (_, c: string) => c.toUpperCase()), value])
+  );
+}
+
+function renderNode(node: MathNode | string, key: number): ReactNode {
+  if (typeof node === "string") return node;
+  const { style, ...attrs } = node.attrs ?? {};
+  return createElement(
+    node.tag,
+    { key, ...attrs, ...(style && { style: parseStyle(style) }) },
+    ...node.children.map(renderNode)
+  );
+}
+
+// One equation as MathML, with its LaTeX source as the tooltip
+export function Equation({ tex, display, source }: { tex: string; display: boolean; source: string }) {
+  return (
+    <span title={source} className="text-neutral-100">
+      {renderNode(latexToMathml(tex, display), 0)}
+    </span>
+  );
+}
+
+// Markdown text with its $...$ and $$...$$ equations rendered as MathML;
+// everything else is shown as written
+export function MathText({ text }: { text: string }) {
+  const parts: ReactNode[] = [];
+  let last = 0;
+  for (const span of findMath(text)) {
+    parts.push(text.slice(last, span.start));
+    parts.push(
+      <Equation key={span.start} tex={span.tex} display={span.display} source={text.slice(span.start, span.end)} />
+    );
+    last = span.end;
+  }
+  parts.push(text.slice(last));
+  return createElement(Fragment, null, ...parts);
+}
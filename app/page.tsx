@@ -1,36 +1,240 @@
 "use client";
 
-import { useState, useCallback, useRef } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import type { BoilerplateLine } from "@/lib/boilerplate";
+import { ERROR_CODES, type ErrorCode } from "@/lib/errors";
+import { DEFAULT_IMAGE_MODE, IMAGE_MODES, type ImageAsset, type ImageMode } from "@/lib/figures";
+import { ACCEPTED_FILES, OCR_FORMATS, getInputFormat, guessInputFormat, type InputFormatId } from "@/lib/inputs/formats";
+import { buildCollection, documentFiles } from "@/lib/llmstxt";
+import { findMath } from "@/lib/math";
+import { DEFAULT_PRESET, PRESETS, PRESET_IDS, type PresetId } from "@/lib/optimize";
+import { selectedPages } from "@/lib/pdf/ranges";
+import { tableToCsv, tableToJson, type ExtractedTable } from "@/lib/tables";
+import { DEFAULT_PROVIDER, PROVIDERS, type ProviderId } from "@/lib/providers/catalog";
+import type { ProviderUsage } from "@/lib/providers/types";
+import { readEvents } from "@/lib/sse";
+import type { TokenizerId } from "@/lib/tokens";
+import { zipFiles } from "@/lib/zip";
+import { CompareView, type CompareRun } from "./compare-view";
+import { MathText } from "./math-text";
+import { countLabel, downloadBlob, errorMessage } from "./ui";
+import { ResultEditor, editsId, loadEdits, saveEdits } from "./result-editor";
 
 type Status = "idle" | "uploading" | "processing" | "done" | "error";
-type Provider = "mistral" | "openai";
+type Extraction = { native: number[]; ocr: number[] };
+type Progress = { pagesDone: number; totalPages: number };
+type FailedBatch = { pages: string; error: string; code?: ErrorCode };
+type FallbackBatch = { pages: string; provider: ProviderId; code: ErrorCode };
+type OutputFile = "llms.txt" | "llms-full.txt";
 
-const PROVIDERS: { id: Provider; name: string; model: string }[] = [
-  { id: "mistral", name: "Mistral", model: "mistral-ocr-latest" },
-  { id: "openai", name: "OpenAI", model: "gpt-5.1" },
-];
+type Conversion = {
+  text: string;
+  llmsTxt: string;
+  llmsFullTxt: string;
+  title: string;
+  summary: string;
+  filename: string;
+  pageCount: number;
+  format?: InputFormatId;
+  provider: ProviderId;
+  extraction?: Extraction;
+  tables?: ExtractedTable[];
+  images?: ImageAsset[];
+  boilerplate?: BoilerplateLine[];
+  failedBatches?: FailedBatch[];
+  fallbacks?: FallbackBatch[];
+  cache?: "hit" | "miss" | "bypass";
+  usage?: ProviderUsage;
+  estimatedCost?: number;
+  latencyMs?: number;
+  tokens?: { tokenizer: TokenizerId; count: number };
+};
+
+// What saved edits keep of their conversion: enough to show them again
+type SavedConversion = Pick<
+  Conversion,
+  "llmsTxt" | "llmsFullTxt" | "title" | "summary" | "filename" | "pageCount" | "format" | "provider"
+>;
+
+function savedConversion(conversion: Conversion): SavedConversion {
+  const { llmsTxt, llmsFullTxt, title, summary, filename, pageCount, format, provider } = conversion;
+  return { llmsTxt, llmsFullTxt, title, summary, filename, pageCount, format, provider };
+}
+
+// Edits are saved once typing pauses, not on every keystroke
+const SAVE_DELAY_MS = 500;
+
+// The URL fragment naming the saved edits on screen, so a reload shows them again
+const EDITS_FRAGMENT = /^#edits=(\w+)$/;
+
+function setEditsFragment(id: string | null): void {
+  history.replaceState(history.state, "", id ? `#edits=${id}` : location.pathname + location.search);
+}
+
+type Stats = Pick<Conversion, "usage" | "estimatedCost" | "latencyMs" | "tokens">;
+
+type BatchItem = {
+  filename: string;
+  status: "queued" | "processing" | "done" | "error";
+  progress: Progress | null;
+  result?: Conversion;
+  error?: string;
+};
+
+function validateFile(file: File): string | null {
+  if (!guessInputFormat(file)) return "Please upload a PDF, image, Word, PowerPoint, EPUB or HTML file";
+  if (file.size > 50 * 1024 * 1024) return "File size must be under 50MB";
+  return null;
+}
+
+// "12 pages billed", "4,210 in / 1,380 out tokens"
+function usageLabel(usage: ProviderUsage): string {
+  const parts: string[] = [];
+  if (usage.pages !== undefined) parts.push(`${usage.pages} page${usage.pages !== 1 ? "s" : ""} billed`);
+  if (usage.inputTokens !== undefined || usage.outputTokens !== undefined) {
+    parts.push(`${(usage.inputTokens ?? 0).toLocaleString()} in / ${(usage.outputTokens ?? 0).toLocaleString()} out tokens`);
+  }
+  return parts.join(", ");
+}
+
+// POST to the streaming endpoint and resolve with the final `done` payload
+async function streamConversion(
+  formData: FormData,
+  signal: AbortSignal,
+  handlers: {
+    onStart?: (totalPages: number) => void;
+    onPage?: (page: { markdown: string; pagesDone: number; totalPages: number }) => void;
+  }
+): Promise<Conversion> {
+  const response = await fetch("/api/ocr/stream", {
+    method: "POST",
+    body: formData,
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(errorMessage(data));
+  }
+
+  for await (const { event, data } of readEvents(response.body)) {
+    const payload = JSON.parse(data);
+    if (event === "start") {
+      handlers.onStart?.(payload.totalPages);
+    } else if (event === "page") {
+      handlers.onPage?.(payload);
+    } else if (event === "error") {
+      throw new Error(errorMessage(payload));
+    } else if (event === "done") {
+      return payload;
+    }
+  }
+  throw new Error("Connection closed before the conversion finished");
+}
 
 export default function Home() {
   const [status, setStatus] = useState<Status>("idle");
   const [result, setResult] = useState<string>("");
+  // llms-full.txt as edited in the result editor, null while unchanged
+  const [edited, setEdited] = useState<string | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [llmsTxt, setLlmsTxt] = useState<string>("");
+  const [view, setView] = useState<OutputFile>("llms-full.txt");
   const [error, setError] = useState<string>("");
   const [filename, setFilename] = useState<string>("");
   const [pageCount, setPageCount] = useState<number>(0);
+  const [format, setFormat] = useState<InputFormatId>("pdf");
   const [isDragging, setIsDragging] = useState(false);
   const [copied, setCopied] = useState(false);
-  const [provider, setProvider] = useState<Provider>("mistral");
-  const [usedProvider, setUsedProvider] = useState<Provider>("mistral");
+  const [provider, setProvider] = useState<ProviderId>(DEFAULT_PROVIDER);
+  const [usedProvider, setUsedProvider] = useState<ProviderId>(DEFAULT_PROVIDER);
+  const [extraction, setExtraction] = useState<Extraction | null>(null);
+  const [pages, setPages] = useState<string>("");
+  const [imageMode, setImageMode] = useState<ImageMode>(DEFAULT_IMAGE_MODE);
+  const [preset, setPreset] = useState<PresetId>(DEFAULT_PRESET);
+  const [math, setMath] = useState(false);
+  // Show equations rendered, or as their LaTeX source
+  const [renderMath, setRenderMath] = useState(true);
+  const [password, setPassword] = useState<string>("");
+  const [failedBatches, setFailedBatches] = useState<FailedBatch[]>([]);
+  const [fallbacks, setFallbacks] = useState<FallbackBatch[]>([]);
+  const [cacheHit, setCacheHit] = useState(false);
+  const [stats, setStats] = useState<Stats>({});
+  const [tables, setTables] = useState<ExtractedTable[]>([]);
+  const [images, setImages] = useState<ImageAsset[]>([]);
+  const [boilerplate, setBoilerplate] = useState<BoilerplateLine[]>([]);
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [partial, setPartial] = useState<string>("");
+  const [batch, setBatch] = useState<BatchItem[]>([]);
+  // Compare mode sends one file to several providers at once
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareProviders, setCompareProviders] = useState<ProviderId[]>(PROVIDERS.slice(0, 2).map((p) => p.id));
+  const [comparison, setComparison] = useState<CompareRun[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // The conversion on screen, saved with any edits made to it
+  const conversionRef = useRef<Conversion | null>(null);
+  // The save waiting for typing to pause, run early if the page is left
+  const pendingSaveRef = useRef<{ timer: ReturnType<typeof setTimeout>; save: () => void } | null>(null);
+  const [saveError, setSaveError] = useState("");
 
-  const processFile = useCallback(async (file: File) => {
-    if (file.type !== "application/pdf") {
-      setError("Please upload a PDF file");
-      setStatus("error");
-      return;
-    }
+  const cancelSave = useCallback(() => {
+    if (pendingSaveRef.current) clearTimeout(pendingSaveRef.current.timer);
+    pendingSaveRef.current = null;
+  }, []);
+
+  const buildForm = useCallback((file: File) => {
+    const formData = new FormData();
+    formData.append("file", file);
+    formData.append("provider", provider);
+    if (pages.trim()) formData.append("pages", pages.trim());
+    if (imageMode !== DEFAULT_IMAGE_MODE) formData.append("images", imageMode);
+    if (preset !== DEFAULT_PRESET) formData.append("preset", preset);
+    if (math) formData.append("math", "true");
+    if (password) formData.append("password", password);
+    return formData;
+  }, [provider, pages, imageMode, preset, math, password]);
+
+  const showConversion = useCallback((payload: Conversion, edits: string | null) => {
+    const original = payload.llmsFullTxt ?? payload.text;
+    conversionRef.current = payload;
+    setSaveError("");
+    setResult(original);
+    setEdited(edits);
+    setEditsFragment(edits === null ? null : editsId(original));
+    setLlmsTxt(payload.llmsTxt ?? "");
+    setFilename(payload.filename);
+    setPageCount(payload.pageCount);
+    setFormat(payload.format ?? "pdf");
+    setUsedProvider(payload.provider);
+    setExtraction(payload.extraction ?? null);
+    setFailedBatches(payload.failedBatches ?? []);
+    setFallbacks(payload.fallbacks ?? []);
+    setCacheHit(payload.cache === "hit");
+    setStats({
+      usage: payload.usage,
+      estimatedCost: payload.estimatedCost,
+      latencyMs: payload.latencyMs,
+      tokens: payload.tokens,
+    });
+    setTables(payload.tables ?? []);
+    setImages(payload.images ?? []);
+    setBoilerplate(payload.boilerplate ?? []);
+    setStatus("done");
+  }, []);
 
-    if (file.size > 50 * 1024 * 1024) {
-      setError("File size must be under 50MB");
+  // Back to the edited result that was on screen before a reload
+  useEffect(() => {
+    const id = location.hash.match(EDITS_FRAGMENT)?.[1];
+    const saved = id ? loadEdits<SavedConversion>(id) : null;
+    if (saved) showConversion({ ...saved.result, text: saved.result.llmsFullTxt }, saved.text);
+    else if (id) setEditsFragment(null);
+  }, [showConversion]);
+
+  const processFile = useCallback(async (file: File) => {
+    const invalid = validateFile(file);
+    if (invalid) {
+      setError(invalid);
       setStatus("error");
       return;
     }
@@ -38,43 +242,143 @@ export default function Home() {
     setStatus("uploading");
     setError("");
     setResult("");
+    setEdited(null);
+    cancelSave();
+    setEditsFragment(null);
+    setPartial("");
+    setProgress(null);
 
-    const formData = new FormData();
-    formData.append("file", file);
-    formData.append("provider", provider);
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
       setStatus("processing");
-      const response = await fetch("/api/ocr", {
-        method: "POST",
-        body: formData,
+      const payload = await streamConversion(buildForm(file), controller.signal, {
+        onStart: (totalPages) => setProgress({ pagesDone: 0, totalPages }),
+        onPage: ({ markdown, pagesDone, totalPages }) => {
+          setProgress({ pagesDone, totalPages });
+          setPartial((prev) => (prev ? `${prev}\n\n` : "") + markdown);
+        },
       });
 
-      const data = await response.json();
+      const saved = loadEdits<SavedConversion>(editsId(payload.llmsFullTxt ?? payload.text));
+      showConversion(payload, saved?.text ?? null);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setError(err instanceof Error ? err.message : "Something went wrong");
+      setStatus("error");
+    } finally {
+      abortRef.current = null;
+    }
+  }, [buildForm, showConversion, cancelSave]);
+
+  // Several files: convert one after another, tracking each file's status
+  const processFiles = useCallback(async (files: File[]) => {
+    const update = (index: number, patch: Partial<BatchItem>) =>
+      setBatch((items) => items.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+
+    setBatch(
+      files.map((file) => {
+        const invalid = validateFile(file);
+        return invalid
+          ? { filename: file.name, status: "error", progress: null, error: invalid }
+          : { filename: file.name, status: "queued", progress: null };
+      })
+    );
+    setError("");
+    setStatus("processing");
 
-      if (!response.ok) {
-        throw new Error(data.error || "Failed to process PDF");
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    for (const [index, file] of files.entries()) {
+      if (validateFile(file)) continue;
+      if (controller.signal.aborted) break;
+
+      update(index, { status: "processing" });
+      try {
+        const payload = await streamConversion(buildForm(file), controller.signal, {
+          onStart: (totalPages) => update(index, { progress: { pagesDone: 0, totalPages } }),
+          onPage: ({ pagesDone, totalPages }) => update(index, { progress: { pagesDone, totalPages } }),
+        });
+        update(index, { status: "done", result: payload });
+      } catch (err) {
+        if (controller.signal.aborted) break;
+        update(index, { status: "error", error: err instanceof Error ? err.message : "Something went wrong" });
       }
+    }
 
-      setResult(data.text);
-      setFilename(data.filename);
-      setPageCount(data.pageCount);
-      setUsedProvider(data.provider || provider);
-      setStatus("done");
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Something went wrong");
+    abortRef.current = null;
+    if (!controller.signal.aborted) setStatus("done");
+  }, [buildForm]);
+
+  const processCompare = useCallback(async (files: File[]) => {
+    const [file] = files;
+    const invalid =
+      files.length > 1
+        ? "Compare one file at a time"
+        : compareProviders.length < 2
+          ? "Pick at least two providers to compare"
+          : (validateFile(file) ??
+            (OCR_FORMATS.includes(guessInputFormat(file)!.id)
+              ? null
+              : "Compare works on PDFs and images; other formats convert the same with every provider"));
+    if (invalid) {
+      setError(invalid);
       setStatus("error");
+      return;
     }
-  }, [provider]);
+
+    const update = (index: number, patch: Partial<CompareRun>) =>
+      setComparison((runs) => runs.map((run, i) => (i === index ? { ...run, ...patch } : run)));
+
+    setFilename(file.name);
+    setComparison(compareProviders.map((id) => ({ provider: id, status: "processing", progress: null })));
+    setError("");
+    setStatus("processing");
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    await Promise.all(
+      compareProviders.map(async (id, index) => {
+        const formData = buildForm(file);
+        formData.set("provider", id);
+        try {
+          const payload = await streamConversion(formData, controller.signal, {
+            onStart: (totalPages) => update(index, { progress: { pagesDone: 0, totalPages } }),
+            onPage: ({ pagesDone, totalPages }) => update(index, { progress: { pagesDone, totalPages } }),
+          });
+          update(index, { status: "done", result: payload });
+        } catch (err) {
+          if (controller.signal.aborted) return;
+          update(index, { status: "error", error: err instanceof Error ? err.message : "Something went wrong" });
+        }
+      })
+    );
+
+    abortRef.current = null;
+    if (!controller.signal.aborted) setStatus("done");
+  }, [buildForm, compareProviders]);
+
+  const toggleCompareProvider = useCallback((id: ProviderId) => {
+    setCompareProviders((current) =>
+      current.includes(id)
+        ? current.filter((p) => p !== id)
+        : PROVIDERS.map((p) => p.id).filter((p) => p === id || current.includes(p))
+    );
+  }, []);
 
   const handleDrop = useCallback(
     (e: React.DragEvent) => {
       e.preventDefault();
       setIsDragging(false);
-      const file = e.dataTransfer.files[0];
-      if (file) processFile(file);
+      const files = Array.from(e.dataTransfer.files);
+      if (compareMode && files.length) processCompare(files);
+      else if (files.length > 1) processFiles(files);
+      else if (files[0]) processFile(files[0]);
     },
-    [processFile]
+    [compareMode, processCompare, processFile, processFiles]
   );
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -89,98 +393,322 @@ export default function Home() {
 
   const handleFileSelect = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
-      const file = e.target.files?.[0];
-      if (file) processFile(file);
+      const files = Array.from(e.target.files ?? []);
+      if (compareMode && files.length) processCompare(files);
+      else if (files.length > 1) processFiles(files);
+      else if (files[0]) processFile(files[0]);
     },
-    [processFile]
+    [compareMode, processCompare, processFile, processFiles]
   );
 
+  const fullText = edited ?? result;
+  const output = view === "llms.txt" ? llmsTxt : fullText;
+  const hasMath = useMemo(() => view === "llms-full.txt" && findMath(fullText).length > 0, [view, fullText]);
+  const isEditing = editing && view === "llms-full.txt" && Boolean(result);
+
+  // Saved once typing pauses, so edits survive a reload of the same result
+  const handleEdit = useCallback((text: string) => {
+    setEdited(text === result ? null : text);
+    cancelSave();
+    const conversion = conversionRef.current;
+    if (!conversion) return;
+    const save = () => {
+      pendingSaveRef.current = null;
+      try {
+        setEditsFragment(saveEdits(savedConversion(conversion), result, text));
+        setSaveError("");
+      } catch (err) {
+        setEditsFragment(null);
+        setSaveError(err instanceof Error ? err.message : "Your edits could not be saved");
+      }
+    };
+    pendingSaveRef.current = { timer: setTimeout(save, SAVE_DELAY_MS), save };
+  }, [result, cancelSave]);
+
+  // Save right away when the page is closed or reloaded mid-pause
+  useEffect(() => {
+    const flush = () => {
+      const pending = pendingSaveRef.current;
+      if (!pending) return;
+      clearTimeout(pending.timer);
+      pending.save();
+    };
+    window.addEventListener("pagehide", flush);
+    return () => window.removeEventListener("pagehide", flush);
+  }, []);
+
+  const handleRevert = useCallback(() => handleEdit(result), [handleEdit, result]);
+
   const handleCopy = useCallback(async () => {
-    await navigator.clipboard.writeText(result);
+    await navigator.clipboard.writeText(output);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
-  }, [result]);
+  }, [output]);
 
+  // llms.txt links to llms-full.txt by name, so keep the spec file names
   const handleDownload = useCallback(() => {
-    const blob = new Blob([result], { type: "text/plain" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = filename.replace(/\.pdf$/i, "") + "_llms.txt";
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  }, [result, filename]);
+    downloadBlob(new Blob([output], { type: "text/plain" }), view);
+  }, [output, view]);
+
+  // The tokenizer is large, so it is only loaded when chunks are requested
+  const downloadChunks = useCallback(async (docs: Pick<Conversion, "llmsFullTxt" | "filename" | "pageCount">[]) => {
+    const { chunkMarkdown, toJsonl } = await import("@/lib/chunks");
+    const jsonl = docs
+      .map((doc) =>
+        toJsonl(
+          chunkMarkdown(doc.llmsFullTxt, { pages: selectedPages(pages.trim() || undefined, doc.pageCount) }),
+          doc.filename
+        )
+      )
+      .join("");
+    downloadBlob(new Blob([jsonl], { type: "application/x-ndjson" }), "chunks.jsonl");
+  }, [pages]);
+
+  const handleDownloadChunks = useCallback(() => {
+    downloadChunks([{ llmsFullTxt: fullText, filename, pageCount }]);
+  }, [downloadChunks, fullText, filename, pageCount]);
+
+  // Extracted images are referenced relative to llms-full.txt, so they
+  // ship together with it
+  const handleDownloadBundle = useCallback(() => {
+    const zip = zipFiles(documentFiles({ llmsTxt, llmsFullTxt: fullText, tables, images }));
+    downloadBlob(new Blob([zip.slice().buffer], { type: "application/zip" }), "llms.zip");
+  }, [llmsTxt, fullText, tables, images]);
+
+  const handleDownloadTable = useCallback((table: ExtractedTable, format: "csv" | "json") => {
+    const base = filename.replace(/\.[a-z0-9]+$/i, "");
+    const contents = format === "csv" ? tableToCsv(table) : tableToJson(table);
+    downloadBlob(
+      new Blob([contents], { type: format === "csv" ? "text/csv" : "application/json" }),
+      `${base}-table-${table.index}.${format}`
+    );
+  }, [filename]);
+
+  const isBatch = batch.length > 0;
+  const isCompare = comparison.length > 0;
+
+  const collection = useMemo(() => {
+    const converted = batch.flatMap((item) => (item.result ? [item.result] : []));
+    if (status !== "done" || !converted.length) return null;
+    return buildCollection(
+      converted.map((doc) => ({
+        filename: doc.filename,
+        title: doc.title,
+        summary: doc.summary,
+        markdown: doc.llmsFullTxt,
+        pageCount: doc.pageCount,
+        unit: getInputFormat(doc.format ?? "pdf").unit,
+        tables: doc.tables,
+        images: doc.images,
+      }))
+    );
+  }, [batch, status]);
+
+  const handleDownloadZip = useCallback(() => {
+    if (!collection) return;
+    const zip = zipFiles(collection.files);
+    downloadBlob(new Blob([zip.slice().buffer], { type: "application/zip" }), "llms.zip");
+  }, [collection]);
+
+  const handleDownloadBatchChunks = useCallback(() => {
+    downloadChunks(batch.flatMap((item) => (item.result ? [item.result] : [])));
+  }, [batch, downloadChunks]);
+
+  const handleCopyIndex = useCallback(async () => {
+    if (!collection) return;
+    await navigator.clipboard.writeText(collection.llmsTxt);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  }, [collection]);
+
+  const handleCancel = useCallback(() => {
+    abortRef.current?.abort();
+    setStatus("idle");
+    setBatch([]);
+    setComparison([]);
+    setPartial("");
+    setProgress(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  }, []);
 
   const handleReset = useCallback(() => {
     setStatus("idle");
     setResult("");
+    setEdited(null);
+    cancelSave();
+    setEditsFragment(null);
+    conversionRef.current = null;
+    setEditing(false);
+    setLlmsTxt("");
+    setView("llms-full.txt");
     setError("");
     setFilename("");
     setPageCount(0);
+    setExtraction(null);
+    setFailedBatches([]);
+    setFallbacks([]);
+    setCacheHit(false);
+    setStats({});
+    setTables([]);
+    setImages([]);
+    setBoilerplate([]);
+    setBatch([]);
+    setComparison([]);
+    setPartial("");
+    setProgress(null);
     if (fileInputRef.current) fileInputRef.current.value = "";
-  }, []);
+  }, [cancelSave]);
 
   const currentProvider = PROVIDERS.find((p) => p.id === provider);
 
+  // Copy and download, over the output or in the editor toolbar
+  const actionButtons = (
+    <>
+      <button
+        onClick={handleCopy}
+        className="p-2 bg-neutral-800 hover:bg-neutral-700 rounded-lg transition-colors"
+        title="Copy"
+      >
+        {copied ? (
+          <svg className="w-4 h-4 text-blue-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+          </svg>
+        ) : (
+          <svg className="w-4 h-4 text-neutral-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+          </svg>
+        )}
+      </button>
+      <button
+        onClick={handleDownload}
+        className="p-2 bg-blue-600 hover:bg-blue-500 rounded-lg transition-colors"
+        title="Download"
+      >
+        <svg className="w-4 h-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+        </svg>
+      </button>
+    </>
+  );
+
   return (
     <div className="min-h-screen bg-[#050505] text-white">
-      <div className="max-w-2xl mx-auto px-6 py-20">
+      <div className={`${isCompare || isEditing ? "max-w-6xl" : "max-w-2xl"} mx-auto px-6 py-20`}>
         {/* Header */}
         <header className="mb-16 text-center">
           <h1 className="text-4xl font-light tracking-tight mb-3">
             pdf<span className="text-blue-500">→</span>llms.txt
           </h1>
           <p className="text-neutral-500 text-sm font-light">
-            Extract text from PDFs for LLM consumption
+            Extract text from PDFs, Office documents, EPUBs and web pages for LLM consumption
           </p>
         </header>
 
         {/* Provider Toggle */}
-        {status !== "done" && (
-          <div className="flex justify-center mb-8">
+        {status !== "done" && !isBatch && !isCompare && (
+          <div className="flex justify-center items-center gap-2 mb-8">
             <div className="inline-flex bg-neutral-900 rounded-full p-1">
-              <button
-                onClick={() => setProvider("mistral")}
-                disabled={status === "processing" || status === "uploading"}
-                className={`
-                  flex items-center gap-2 px-5 py-2 text-sm rounded-full transition-all duration-200
-                  ${provider === "mistral"
-                    ? "bg-white text-black"
-                    : "text-neutral-400 hover:text-white"
-                  }
-                  disabled:opacity-50 disabled:cursor-not-allowed
-                `}
-              >
-                <img src="/m-boxed-orange.svg" alt="Mistral" className="w-4 h-4 rounded-sm" />
-                Mistral
-              </button>
-              <button
-                onClick={() => setProvider("openai")}
-                disabled={status === "processing" || status === "uploading"}
-                className={`
-                  flex items-center gap-2 px-5 py-2 text-sm rounded-full transition-all duration-200
-                  ${provider === "openai"
-                    ? "bg-white text-black"
-                    : "text-neutral-400 hover:text-white"
-                  }
-                  disabled:opacity-50 disabled:cursor-not-allowed
-                `}
-              >
-                <img 
-                  src={provider === "openai" ? "/OpenAI-black-monoblossom.svg" : "/OpenAI-white-monoblossom.svg"} 
-                  alt="OpenAI" 
-                  className="w-4 h-4" 
-                />
-                OpenAI
-              </button>
+              {PROVIDERS.map((p) => {
+                const selected = compareMode ? compareProviders.includes(p.id) : provider === p.id;
+                return (
+                  <button
+                    key={p.id}
+                    onClick={() => (compareMode ? toggleCompareProvider(p.id) : setProvider(p.id))}
+                    disabled={status === "processing" || status === "uploading"}
+                    className={`
+                      flex items-center gap-2 px-5 py-2 text-sm rounded-full transition-all duration-200
+                      ${selected
+                        ? "bg-white text-black"
+                        : "text-neutral-400 hover:text-white"
+                      }
+                      disabled:opacity-50 disabled:cursor-not-allowed
+                    `}
+                  >
+                    <img
+                      src={selected ? p.icon.active : p.icon.inactive}
+                      alt={p.name}
+                      className="w-4 h-4 rounded-sm"
+                    />
+                    {p.name}
+                  </button>
+                );
+              })}
             </div>
+            <button
+              onClick={() => setCompareMode((value) => !value)}
+              disabled={status === "processing" || status === "uploading"}
+              title="Convert one PDF with several providers and compare them page by page"
+              className={`px-4 py-2 text-sm rounded-full transition-colors disabled:opacity-50 ${
+                compareMode ? "bg-blue-600 text-white" : "bg-neutral-900 text-neutral-400 hover:text-white"
+              }`}
+            >
+              Compare
+            </button>
+          </div>
+        )}
+
+        {/* Page Range */}
+        {status !== "done" && !isBatch && !isCompare && (
+          <div className="flex justify-center gap-2 mb-8">
+            <input
+              type="text"
+              value={pages}
+              onChange={(e) => setPages(e.target.value)}
+              disabled={status === "processing" || status === "uploading"}
+              placeholder="All pages (e.g. 1-10,15,20-)"
+              className="w-64 bg-neutral-900 rounded-full px-4 py-2 text-xs text-center text-neutral-300 placeholder:text-neutral-600 outline-none focus:ring-1 focus:ring-neutral-700 disabled:opacity-50"
+            />
+            <select
+              value={imageMode}
+              onChange={(e) => setImageMode(e.target.value as ImageMode)}
+              disabled={status === "processing" || status === "uploading"}
+              title="How figures appear in the output"
+              className="bg-neutral-900 rounded-full px-4 py-2 text-xs text-neutral-300 outline-none focus:ring-1 focus:ring-neutral-700 disabled:opacity-50"
+            >
+              {IMAGE_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  Figures: {mode}
+                </option>
+              ))}
+            </select>
+            <select
+              value={preset}
+              onChange={(e) => setPreset(e.target.value as PresetId)}
+              disabled={status === "processing" || status === "uploading"}
+              title={`Post-processing: ${PRESETS[preset].join(", ")}`}
+              className="bg-neutral-900 rounded-full px-4 py-2 text-xs text-neutral-300 outline-none focus:ring-1 focus:ring-neutral-700 disabled:opacity-50"
+            >
+              {PRESET_IDS.map((id) => (
+                <option key={id} value={id}>
+                  Cleanup: {id}
+                </option>
+              ))}
+            </select>
+            <select
+              value={math ? "latex" : "plain"}
+              onChange={(e) => setMath(e.target.value === "latex")}
+              disabled={status === "processing" || status === "uploading"}
+              title="Keep equations as $...$ and $$...$$ LaTeX"
+              className="bg-neutral-900 rounded-full px-4 py-2 text-xs text-neutral-300 outline-none focus:ring-1 focus:ring-neutral-700 disabled:opacity-50"
+            >
+              <option value="plain">Math: plain</option>
+              <option value="latex">Math: LaTeX</option>
+            </select>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              disabled={status === "processing" || status === "uploading"}
+              placeholder="PDF password"
+              autoComplete="off"
+              title="Only needed for password-protected PDFs"
+              className="w-36 bg-neutral-900 rounded-full px-4 py-2 text-xs text-center text-neutral-300 placeholder:text-neutral-600 outline-none focus:ring-1 focus:ring-neutral-700 disabled:opacity-50"
+            />
           </div>
         )}
 
         {/* Drop Zone */}
-        {status !== "done" && (
+        {status !== "done" && !isBatch && !isCompare && (
           <div
             onDrop={handleDrop}
             onDragOver={handleDragOver}
@@ -199,7 +727,8 @@ export default function Home() {
             <input
               ref={fileInputRef}
               type="file"
-              accept=".pdf,application/pdf"
+              accept={ACCEPTED_FILES}
+              multiple
               onChange={handleFileSelect}
               className="hidden"
             />
@@ -213,9 +742,9 @@ export default function Home() {
                 </div>
                 <div>
                   <p className="text-neutral-300 text-sm">
-                    Drop PDF or <span className="text-blue-400">browse</span>
+                    Drop files or <span className="text-blue-400">browse</span>
                   </p>
-                  <p className="text-neutral-600 text-xs mt-1">Max 50MB</p>
+                  <p className="text-neutral-600 text-xs mt-1">PDF, PNG, JPEG, DOCX, PPTX, EPUB or HTML · Max 50MB</p>
                 </div>
               </div>
             )}
@@ -229,6 +758,25 @@ export default function Home() {
                 <p className="text-neutral-400 text-sm">
                   {status === "uploading" ? "Uploading..." : `Processing with ${currentProvider?.name}...`}
                 </p>
+                {progress && progress.totalPages > 0 && (
+                  <div className="max-w-xs mx-auto space-y-2">
+                    <div className="h-1 bg-neutral-800 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-blue-500 transition-all duration-300"
+                        style={{ width: `${(progress.pagesDone / progress.totalPages) * 100}%` }}
+                      />
+                    </div>
+                    <p className="text-neutral-600 text-xs">
+                      Page {progress.pagesDone} of {progress.totalPages}
+                    </p>
+                  </div>
+                )}
+                <button
+                  onClick={(e) => { e.stopPropagation(); handleCancel(); }}
+                  className="pointer-events-auto text-neutral-500 text-xs hover:text-white transition-colors"
+                >
+                  Cancel
+                </button>
               </div>
             )}
 
@@ -253,19 +801,191 @@ export default function Home() {
           </div>
         )}
 
+        {/* Partial Output */}
+        {status === "processing" && partial && (
+          <pre className="mt-6 bg-neutral-900 rounded-xl p-6 overflow-auto max-h-[300px] text-sm text-neutral-500 leading-relaxed whitespace-pre-wrap font-mono">
+            {partial}
+          </pre>
+        )}
+
+        {/* Batch */}
+        {isBatch && (
+          <div className="space-y-6">
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-neutral-500">
+                {batch.filter((item) => item.status === "done").length} of {batch.length} converted
+              </span>
+              {status === "done" ? (
+                <button
+                  onClick={handleReset}
+                  className="text-neutral-500 hover:text-white transition-colors"
+                >
+                  New files
+                </button>
+              ) : (
+                <button
+                  onClick={handleCancel}
+                  className="text-neutral-500 hover:text-white transition-colors"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+
+            <ul className="bg-neutral-900/50 border border-neutral-800 rounded-xl divide-y divide-neutral-800/50">
+              {batch.map((item, index) => (
+                <li key={index} className="px-4 py-3 text-xs space-y-2">
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="text-neutral-300 truncate">{item.filename}</span>
+                    <span
+                      className={`shrink-0 ${
+                        item.status === "done"
+                          ? "text-blue-400"
+                          : item.status === "error"
+                            ? "text-red-400"
+                            : "text-neutral-500"
+                      }`}
+                    >
+                      {item.status === "done"
+                        ? (item.result && countLabel(item.result.pageCount, item.result.format)) || "Done"
+                        : item.status === "error"
+                          ? "Failed"
+                          : item.status === "processing"
+                            ? item.progress
+                              ? `Page ${item.progress.pagesDone} of ${item.progress.totalPages}`
+                              : "Processing..."
+                            : "Queued"}
+                    </span>
+                  </div>
+                  {item.status === "processing" && item.progress && item.progress.totalPages > 0 && (
+                    <div className="h-1 bg-neutral-800 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-blue-500 transition-all duration-300"
+                        style={{ width: `${(item.progress.pagesDone / item.progress.totalPages) * 100}%` }}
+                      />
+                    </div>
+                  )}
+                  {item.error && <p className="text-red-400/80">{item.error}</p>}
+                </li>
+              ))}
+            </ul>
+
+            {collection && (
+              <div className="relative group">
+                <pre className="bg-neutral-900 rounded-xl p-6 overflow-auto max-h-[400px] text-sm text-neutral-300 leading-relaxed whitespace-pre-wrap font-mono">
+                  {collection.llmsTxt}
+                </pre>
+                <div className="absolute top-4 right-4 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={handleCopyIndex}
+                    className="px-3 py-2 bg-neutral-800 hover:bg-neutral-700 rounded-lg text-xs transition-colors"
+                  >
+                    {copied ? "Copied" : "Copy llms.txt"}
+                  </button>
+                  <button
+                    onClick={handleDownloadBatchChunks}
+                    className="px-3 py-2 bg-neutral-800 hover:bg-neutral-700 rounded-lg text-xs transition-colors"
+                    title="Token-bounded chunks with page and heading provenance"
+                  >
+                    chunks.jsonl
+                  </button>
+                  <button
+                    onClick={handleDownloadZip}
+                    className="px-3 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-xs transition-colors"
+                  >
+                    Download .zip
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Comparison */}
+        {isCompare && (
+          <CompareView
+            filename={filename}
+            runs={comparison}
+            done={status === "done"}
+            onCancel={handleCancel}
+            onReset={handleReset}
+            onDownload={downloadBlob}
+          />
+        )}
+
         {/* Result */}
-        {status === "done" && (
+        {status === "done" && !isBatch && !isCompare && (
           <div className="space-y-6">
             {/* Meta Bar */}
             <div className="flex items-center justify-between text-xs">
               <div className="flex items-center gap-3 text-neutral-500">
                 <span>{filename}</span>
+                {countLabel(pageCount, format) && (
+                  <>
+                    <span className="text-neutral-700">·</span>
+                    <span>{countLabel(pageCount, format)}</span>
+                  </>
+                )}
+                {extraction && (
+                  <>
+                    <span className="text-neutral-700">·</span>
+                    <span title={extraction.ocr.length ? `OCR pages: ${extraction.ocr.join(", ")}` : undefined}>
+                      {extraction.native.length} native / {extraction.ocr.length} OCR
+                    </span>
+                  </>
+                )}
+                {boilerplate.length > 0 && (
+                  <>
+                    <span className="text-neutral-700">·</span>
+                    <span
+                      title={boilerplate
+                        .map((line) => `${line.position}: ${line.text} (${line.pages.length} pages)`)
+                        .join("\n")}
+                    >
+                      {boilerplate.length} repeated line{boilerplate.length !== 1 ? "s" : ""} removed
+                    </span>
+                  </>
+                )}
                 <span className="text-neutral-700">·</span>
-                <span>{pageCount} page{pageCount !== 1 ? "s" : ""}</span>
-                <span className="text-neutral-700">·</span>
-                <span>{(result.length / 1024).toFixed(1)}KB</span>
-                <span className="text-neutral-700">·</span>
-                <span className="text-blue-400">{PROVIDERS.find((p) => p.id === usedProvider)?.name}</span>
+                <span>{(output.length / 1024).toFixed(1)}KB</span>
+                {stats.tokens && (
+                  <>
+                    <span className="text-neutral-700">·</span>
+                    <span title={`llms-full.txt, counted with ${stats.tokens.tokenizer}`}>
+                      {stats.tokens.count.toLocaleString()} tokens
+                    </span>
+                  </>
+                )}
+                {stats.usage && (
+                  <>
+                    <span className="text-neutral-700">·</span>
+                    <span title="As reported by the provider">{usageLabel(stats.usage)}</span>
+                  </>
+                )}
+                {stats.estimatedCost !== undefined && stats.estimatedCost > 0 && (
+                  <>
+                    <span className="text-neutral-700">·</span>
+                    <span title="Estimated from the provider price table">~${stats.estimatedCost.toFixed(4)}</span>
+                  </>
+                )}
+                {stats.latencyMs !== undefined && (
+                  <>
+                    <span className="text-neutral-700">·</span>
+                    <span title="Conversion time on the server">{(stats.latencyMs / 1000).toFixed(1)}s</span>
+                  </>
+                )}
+                {OCR_FORMATS.includes(format) && (
+                  <>
+                    <span className="text-neutral-700">·</span>
+                    <span className="text-blue-400">{PROVIDERS.find((p) => p.id === usedProvider)?.name}</span>
+                  </>
+                )}
+                {cacheHit && (
+                  <>
+                    <span className="text-neutral-700">·</span>
+                    <span title="Same file and options as an earlier conversion">cached</span>
+                  </>
+                )}
               </div>
               <button
                 onClick={handleReset}
@@ -275,45 +995,139 @@ export default function Home() {
               </button>
             </div>
 
-            {/* Output */}
-            <div className="relative group">
-              <pre className="bg-neutral-900 rounded-xl p-6 overflow-auto max-h-[500px] text-sm text-neutral-300 leading-relaxed whitespace-pre-wrap font-mono">
-                {result}
-              </pre>
-              
-              {/* Action Buttons */}
-              <div className="absolute top-4 right-4 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+            {failedBatches.length + fallbacks.length > 0 && (
+              <div className="text-xs text-amber-400/80 bg-amber-500/5 border border-amber-500/20 rounded-lg px-4 py-3 space-y-1">
+                {failedBatches.map((batch) => (
+                  <p key={batch.pages}>
+                    Pages {batch.pages} failed: {batch.error}. Convert them again with the page range{" "}
+                    <code className="text-amber-300">{batch.pages}</code>.
+                  </p>
+                ))}
+                {fallbacks.map((batch) => (
+                  <p key={`fallback-${batch.pages}`}>
+                    Pages {batch.pages} were converted with {PROVIDERS.find((p) => p.id === batch.provider)?.name ?? batch.provider}{" "}
+                    instead: {ERROR_CODES[batch.code].hint}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {/* File Tabs */}
+            <div className="flex gap-1 text-xs">
+              {(["llms.txt", "llms-full.txt"] as const).map((file) => (
                 <button
-                  onClick={handleCopy}
-                  className="p-2 bg-neutral-800 hover:bg-neutral-700 rounded-lg transition-colors"
-                  title="Copy"
+                  key={file}
+                  onClick={() => setView(file)}
+                  className={`px-3 py-1.5 rounded-lg font-mono transition-colors ${
+                    view === file ? "bg-neutral-800 text-white" : "text-neutral-500 hover:text-neutral-300"
+                  }`}
                 >
-                  {copied ? (
-                    <svg className="w-4 h-4 text-blue-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                    </svg>
-                  ) : (
-                    <svg className="w-4 h-4 text-neutral-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                    </svg>
-                  )}
+                  {file}
                 </button>
+              ))}
+              {view === "llms-full.txt" && (
                 <button
-                  onClick={handleDownload}
-                  className="p-2 bg-blue-600 hover:bg-blue-500 rounded-lg transition-colors"
-                  title="Download"
+                  onClick={() => setEditing((value) => !value)}
+                  className={`px-3 py-1.5 rounded-lg font-mono transition-colors ${
+                    isEditing ? "bg-neutral-800 text-white" : "text-neutral-500 hover:text-neutral-300"
+                  }`}
+                  title="Fix the text by hand; copy and download use the edited version"
                 >
-                  <svg className="w-4 h-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-                  </svg>
+                  {edited !== null ? "edit*" : "edit"}
                 </button>
-              </div>
+              )}
+              {hasMath && !isEditing && (
+                <button
+                  onClick={() => setRenderMath((value) => !value)}
+                  className="px-3 py-1.5 rounded-lg font-mono text-neutral-500 hover:text-neutral-300 transition-colors"
+                  title="Switch between rendered equations and their LaTeX source"
+                >
+                  {renderMath ? "show LaTeX" : "render math"}
+                </button>
+              )}
+              <button
+                onClick={handleDownloadChunks}
+                className="ml-auto px-3 py-1.5 rounded-lg font-mono text-neutral-500 hover:text-neutral-300 transition-colors"
+                title="Download token-bounded chunks with page and heading provenance"
+              >
+                chunks.jsonl ↓
+              </button>
+              {images.length > 0 && (
+                <button
+                  onClick={handleDownloadBundle}
+                  className="px-3 py-1.5 rounded-lg font-mono text-neutral-500 hover:text-neutral-300 transition-colors"
+                  title={`llms.txt, llms-full.txt and ${images.length} extracted image${images.length !== 1 ? "s" : ""}`}
+                >
+                  llms.zip ↓
+                </button>
+              )}
             </div>
+
+            {/* Output */}
+            {saveError && (
+              <p className="text-xs text-amber-400/80 bg-amber-500/5 border border-amber-500/20 rounded-lg px-4 py-3">
+                {saveError}
+              </p>
+            )}
+            {isEditing ? (
+              <ResultEditor
+                text={fullText}
+                edited={edited !== null}
+                onChange={handleEdit}
+                onRevert={handleRevert}
+                actions={actionButtons}
+              />
+            ) : (
+              <div className="relative group">
+                <pre className="bg-neutral-900 rounded-xl p-6 overflow-auto max-h-[500px] text-sm text-neutral-300 leading-relaxed whitespace-pre-wrap font-mono">
+                  {hasMath && renderMath ? <MathText text={output} /> : output}
+                </pre>
+
+                {/* Action Buttons */}
+                <div className="absolute top-4 right-4 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                  {actionButtons}
+                </div>
+              </div>
+            )}
+
+            {/* Tables */}
+            {tables.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-xs text-neutral-500">
+                  {tables.length} table{tables.length !== 1 ? "s" : ""} found
+                </h3>
+                <ul className="text-xs divide-y divide-neutral-900 border border-neutral-900 rounded-lg">
+                  {tables.map((table) => (
+                    <li key={table.index} className="flex items-center gap-3 px-4 py-2">
+                      <span className="text-neutral-300">Table {table.index}</span>
+                      <span className="text-neutral-600">page {table.page}</span>
+                      <span className="text-neutral-600">
+                        {table.rows.length} × {table.headers.length}
+                      </span>
+                      <span className="text-neutral-500 truncate">
+                        {table.caption ?? table.headers.filter(Boolean).join(", ")}
+                      </span>
+                      <span className="ml-auto flex gap-2 font-mono">
+                        {(["csv", "json"] as const).map((format) => (
+                          <button
+                            key={format}
+                            onClick={() => handleDownloadTable(table, format)}
+                            className="text-neutral-500 hover:text-white transition-colors"
+                          >
+                            .{format}
+                          </button>
+                        ))}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
         )}
 
         {/* Info Section */}
-        {status !== "done" && (
+        {status !== "done" && !isBatch && !isCompare && (
           <div className="mt-16 pt-8 border-t border-neutral-900">
             <details className="group">
               <summary className="text-neutral-500 text-xs cursor-pointer hover:text-neutral-300 transition-colors list-none flex items-center gap-2">
@@ -342,6 +1156,8 @@ export default function Home() {
         <footer className="mt-16 flex items-center justify-center gap-6 text-xs text-neutral-600">
           <a href="/docs" className="hover:text-white transition-colors">API</a>
           <span className="text-neutral-800">·</span>
+          <a href="/history" className="hover:text-white transition-colors">History</a>
+          <span className="text-neutral-800">·</span>
           <a href="https://github.com" target="_blank" rel="noopener noreferrer" className="hover:text-white transition-colors">GitHub</a>
         </footer>
       </div>
@@ -0,0 +1,275 @@
+import { useDeferredValue, useMemo, useRef, useState, type ReactNode } from "react";
+import { MarkdownPreview } from "./markdown-preview";
+
+// The anchors pageSeparator writes before each page heading
+const PAGE_MARKER = /^<a id="((?:page|slide|chapter)-\d+)"><\/a>$/gm;
+const STORAGE_PREFIX = "llmstxt-edits:";
+// Edited results kept in storage: the most recently edited few, for a month
+const MAX_SAVED = 5;
+const MAX_SAVED_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+type PageMarker = { id: string; label: string; offset: number };
+
+// An edited conversion as saved: the edited llms-full.txt with the few
+// result fields a reload needs to show it again, never images or stats
+export type SavedEdits<T> = { result: T; text: string; savedAt: number };
+
+// FNV-1a, so saved edits are found again by the conversion they were made to
+function hash(text: string): string {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return (value >>> 0).toString(16);
+}
+
+// Id of the edits made to this llms-full.txt
+export function editsId(original: string): string {
+  return hash(original);
+}
+
+function readSaved<T>(key: string): SavedEdits<T> | null {
+  try {
+    const saved = JSON.parse(localStorage.getItem(key) ?? "null");
+    return typeof saved?.text === "string" && typeof saved.savedAt === "number" ? saved : null;
+  } catch {
+    return null;
+  }
+}
+
+// Drop expired edits, entries in an older format and all but the most
+// recently saved few, never the one given
+function pruneEdits(keep: string, now: number): void {
+  const saved = Object.keys(localStorage)
+    .filter((key) => key.startsWith(STORAGE_PREFIX) && key !== keep)
+    .map((key) => ({ key, savedAt: readSaved(key)?.savedAt ?? 0 }))
+    .sort((a, b) => b.savedAt - a.savedAt);
+  saved.forEach(({ key, savedAt }, index) => {
+    if (index >= MAX_SAVED - 1 || now - savedAt > MAX_SAVED_AGE_MS) localStorage.removeItem(key);
+  });
+}
+
+// Edits saved under this id, with the conversion they were made to
+export function loadEdits<T>(id: string): SavedEdits<T> | null {
+  return readSaved<T>(STORAGE_PREFIX + id);
+}
+
+/**
+ * Save the edits made to the conversion whose llms-full.txt was `original`,
+ * with `result` holding what a reload needs to show them again. Returns
+ * their id, or null once the text is back to the original. Throws when
+ * the browser refuses to store them.
+ */
+export function saveEdits<T>(result: T, original: string, text: string): string | null {
+  const id = editsId(original);
+  const key = STORAGE_PREFIX + id;
+  if (text === original) {
+    try {
+      localStorage.removeItem(key);
+    } catch {
+      // Storage disabled: there was nothing saved to remove
+    }
+    return null;
+  }
+  const now = Date.now();
+  try {
+    // Only a new entry can push the saved ones over their limit
+    if (localStorage.getItem(key) === null) pruneEdits(key, now);
+    localStorage.setItem(key, JSON.stringify({ result, text, savedAt: now } satisfies SavedEdits<T>));
+  } catch {
+    // Whatever was saved before is older than the text on screen
+    try {
+      localStorage.removeItem(key);
+    } catch {
+      // Storage disabled
+    }
+    throw new Error(
+      "Your edits could not be saved in this browser, so they will be lost on reload. Download them to keep them."
+    );
+  }
+  return id;
+}
+
+function pageMarkers(text: string): PageMarker[] {
+  return [...text.matchAll(PAGE_MARKER)].map((match) => {
+    const offset = match.index + match[0].length;
+    const heading = text.slice(offset).match(/^\n+## (.+)/);
+    return { id: match[1], label: heading?.[1] ?? match[1], offset };
+  });
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * llms-full.txt as an editable textarea next to its rendered preview, with
+ * page jumps and find and replace. Changes go to `onChange` as they are
+ * typed.
+ */
+export function ResultEditor({
+  text,
+  edited,
+  onChange,
+  onRevert,
+  actions,
+}: {
+  text: string;
+  edited: boolean;
+  onChange: (text: string) => void;
+  onRevert: () => void;
+  actions?: ReactNode;
+}) {
+  const [query, setQuery] = useState("");
+  const [replacement, setReplacement] = useState("");
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [current, setCurrent] = useState(0);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const previewRef = useRef<HTMLDivElement>(null);
+  // Typing stays responsive while a long preview catches up
+  const previewText = useDeferredValue(text);
+
+  const markers = useMemo(() => pageMarkers(text), [text]);
+  const pattern = useMemo(
+    () => (query ? new RegExp(escapeRegExp(query), caseSensitive ? "g" : "gi") : null),
+    [query, caseSensitive]
+  );
+  const matches = useMemo(
+    () => (pattern ? [...text.matchAll(pattern)].map((match) => ({ start: match.index, end: match.index + match[0].length })) : []),
+    [pattern, text]
+  );
+  const active = matches.length ? Math.min(current, matches.length - 1) : -1;
+
+  // Blurring first makes the browser scroll the selection into view
+  const select = (start: number, end: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.blur();
+    textarea.setSelectionRange(start, end);
+    textarea.focus();
+  };
+
+  const goTo = (index: number) => {
+    if (!matches.length) return;
+    const next = (index + matches.length) % matches.length;
+    setCurrent(next);
+    select(matches[next].start, matches[next].end);
+  };
+
+  const jumpToPage = (id: string) => {
+    const marker = markers.find((m) => m.id === id);
+    if (!marker) return;
+    select(marker.offset, marker.offset);
+    const preview = previewRef.current;
+    const target = preview?.querySelector<HTMLElement>(`[data-anchor="${id}"]`);
+    if (preview && target) preview.scrollTop = target.offsetTop;
+  };
+
+  const replaceCurrent = () => {
+    if (active < 0) return;
+    const { start, end } = matches[active];
+    onChange(text.slice(0, start) + replacement + text.slice(end));
+    // The next match now sits at the same index
+    setCurrent(active);
+  };
+
+  const replaceAll = () => {
+    if (!pattern) return;
+    onChange(text.replace(pattern, () => replacement));
+    setCurrent(0);
+  };
+
+  const inputClass =
+    "bg-neutral-900 border border-neutral-800 rounded-lg px-2 py-1 text-xs text-neutral-300 placeholder-neutral-600 outline-none focus:border-neutral-600 w-36";
+  const buttonClass =
+    "px-2 py-1 rounded-lg text-neutral-500 hover:text-neutral-300 disabled:opacity-40 disabled:hover:text-neutral-500 transition-colors";
+
+  return (
+    <div className="space-y-2">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {markers.length > 1 && (
+          <select
+            value=""
+            onChange={(e) => jumpToPage(e.target.value)}
+            className="bg-neutral-900 border border-neutral-800 rounded-lg px-2 py-1 text-neutral-300 outline-none"
+          >
+            <option value="" disabled>
+              Jump to…
+            </option>
+            {markers.map((marker) => (
+              <option key={marker.id} value={marker.id}>
+                {marker.label}
+              </option>
+            ))}
+          </select>
+        )}
+        <input
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setCurrent(0);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") goTo(e.shiftKey ? active - 1 : active + 1);
+          }}
+          placeholder="Find"
+          className={inputClass}
+        />
+        <input
+          value={replacement}
+          onChange={(e) => setReplacement(e.target.value)}
+          placeholder="Replace with"
+          className={inputClass}
+        />
+        <button
+          onClick={() => setCaseSensitive((value) => !value)}
+          className={`px-2 py-1 rounded-lg font-mono transition-colors ${
+            caseSensitive ? "bg-neutral-800 text-white" : "text-neutral-500 hover:text-neutral-300"
+          }`}
+          title="Match case"
+        >
+          Aa
+        </button>
+        {query && (
+          <span className="text-neutral-500 tabular-nums">
+            {matches.length ? `${active + 1} of ${matches.length}` : "No matches"}
+          </span>
+        )}
+        <button onClick={() => goTo(active - 1)} disabled={!matches.length} className={buttonClass} title="Previous match">
+          ↑
+        </button>
+        <button onClick={() => goTo(active + 1)} disabled={!matches.length} className={buttonClass} title="Next match">
+          ↓
+        </button>
+        <button onClick={replaceCurrent} disabled={!matches.length} className={buttonClass}>
+          Replace
+        </button>
+        <button onClick={replaceAll} disabled={!matches.length} className={buttonClass}>
+          Replace all
+        </button>
+        {edited && (
+          <button onClick={onRevert} className={buttonClass} title="Discard every edit to this conversion">
+            Revert
+          </button>
+        )}
+        {actions && <div className="ml-auto flex gap-2">{actions}</div>}
+      </div>
+
+      {/* Source and preview */}
+      <div className="grid grid-cols-2 gap-2">
+        <textarea
+          ref={textareaRef}
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          spellCheck={false}
+          className="h-[500px] bg-neutral-900 rounded-xl p-6 text-sm text-neutral-300 leading-relaxed font-mono resize-none outline-none focus:ring-1 focus:ring-neutral-700"
+        />
+        <div ref={previewRef} className="relative h-[500px] overflow-auto bg-neutral-900 rounded-xl p-6">
+          <MarkdownPreview markdown={previewText} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { ERROR_CODES, type ErrorCode } from "@/lib/errors";
+import { getInputFormat, type InputFormatId } from "@/lib/inputs/formats";
+
+// Helpers shared by the app's pages
+
+// "12 slides"; null for formats without pages (DOCX, HTML)
+export function countLabel(count: number, format: InputFormatId = "pdf"): string | null {
+  const { unit } = getInputFormat(format);
+  return unit && `${count} ${unit}${count !== 1 ? "s" : ""}`;
+}
+
+export function downloadBlob(blob: Blob, name: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// An API error with the hint for its code, e.g. what to do about a rate limit
+export function errorMessage(body: { error?: string; code?: ErrorCode }): string {
+  const message = body.error || "Failed to process file";
+  const hint = body.code && ERROR_CODES[body.code]?.hint;
+  return hint ? `${message}. ${hint}` : message;
+}
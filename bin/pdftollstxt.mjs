@@ -0,0 +1,16 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI in cli/ without a build step, resolving "@/"
+// imports like the app does. Env files are loaded first, as `next start`
+// would, since lib/ reads its settings when imported.
+import nextEnv from "@next/env";
+import { createJiti } from "jiti";
+import { fileURLToPath } from "node:url";
+
+const root = fileURLToPath(new URL("..", import.meta.url));
+
+nextEnv.loadEnvConfig(process.cwd(), false, { info: () => {}, error: console.error });
+
+const jiti = createJiti(import.meta.url, { alias: { "@/": root } });
+const { main } = await jiti.import("../cli/index.ts");
+
+process.exitCode = await main(process.argv.slice(2));
@@ -0,0 +1,186 @@
+import { FILE_CONCURRENCY } from "@/lib/batch";
+
+export const OUTPUT_FORMATS = ["markdown", "llms", "json", "chunks", "bundle"] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+const MAX_FILE_CONCURRENCY = 16;
+
+export interface CliArgs {
+  inputs: string[];
+  format: OutputFormat;
+  outDir: string;
+  // Files converted at once
+  concurrency: number;
+  stdout: boolean;
+  help: boolean;
+  version: boolean;
+  // Conversion and chunking fields, named as in the /api/ocr form and
+  // validated by the same parsers
+  form: FormData;
+}
+
+// A bad flag or value; reported with a hint to run --help
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+// Flags that map straight onto /api/ocr form fields
+const FORM_FLAGS: Record<string, string> = {
+  "--provider": "provider",
+  "-p": "provider",
+  "--ocr-provider": "ocrProvider",
+  "--pages": "pages",
+  "--images": "images",
+  "--preset": "preset",
+  "--tokenizer": "tokenizer",
+  "--passes": "passes",
+  "--password": "password",
+  "--page-concurrency": "concurrency",
+  "--chunk-size": "chunkSize",
+  "--chunk-overlap": "chunkOverlap",
+};
+
+export const HELP = `Usage: pdftollstxt [options] <file|directory|glob>...
+
+Convert PDFs, images, Word, PowerPoint, EPUB and HTML files to llms.txt
+markdown. Directories are searched recursively for supported files; quote
+globs such as "docs/**/*.pdf" to let pdftollstxt expand them.
+
+Options:
+  -p, --provider <id>         mistral, openai, native or mock (default: mistral)
+      --ocr-provider <id>     OCR for scanned pages with --provider native
+  -f, --format <format>       markdown   <name>.md with the full text (default)
+                              llms       <name>/ with llms.txt, llms-full.txt,
+                                         tables and images
+                              json       <name>.json with the full API result
+                              chunks     <name>.jsonl retrieval chunks
+                              bundle     one llms.txt collection of all files
+  -o, --out-dir <dir>         Where to write output (default: .)
+  -c, --concurrency <n>       Files converted at once (default: ${FILE_CONCURRENCY})
+      --page-concurrency <n>  Provider calls at once per file
+      --pages <spec>          Pages, slides or chapters, e.g. 1-10,15
+      --images <mode>         strip, placeholder, describe or extract
+      --preset <preset>       Post-processing: minimal, default or aggressive
+      --passes <list>         Passes to add or, with "-", remove, e.g. -unwrap
+      --math                  Keep equations as $...$ and $$...$$ LaTeX
+      --password <password>   Password for encrypted PDFs
+      --tokenizer <id>        Tokenizer for reported counts: cl100k_base or
+                              o200k_base (default: cl100k_base)
+      --chunk-size <tokens>   Tokens per chunk with --format chunks
+      --chunk-overlap <n>     Tokens repeated between chunks
+      --no-cache              Skip the result cache lookup
+      --stdout                Write to stdout instead of files; bundle is
+                              written as a zip
+  -h, --help                  Show this help
+  -v, --version               Show the version
+
+Environment variables (API keys, OCR_BATCH_PAGES, RESULT_CACHE, ...) are read
+from the environment and from .env files in the current directory, as for
+the server.
+
+Exit codes:
+  0  every file was converted
+  1  one or more files failed or were only partly converted
+  2  invalid options, or no files matched
+`;
+
+function isFormat(value: string): value is OutputFormat {
+  return (OUTPUT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Parse command-line arguments. Options take their value as the next
+ * argument or after "="; everything after "--" is an input.
+ */
+export function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = {
+    inputs: [],
+    format: "markdown",
+    outDir: ".",
+    concurrency: FILE_CONCURRENCY,
+    stdout: false,
+    help: false,
+    version: false,
+    form: new FormData(),
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--") {
+      args.inputs.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith("-") || arg === "-") {
+      args.inputs.push(arg);
+      continue;
+    }
+
+    const eq = arg.startsWith("--") ? arg.indexOf("=") : -1;
+    const flag = eq > 0 ? arg.slice(0, eq) : arg;
+    const inline = eq > 0 ? arg.slice(eq + 1) : undefined;
+    const value = () => {
+      if (inline !== undefined) return inline;
+      const next = argv[++i];
+      if (next === undefined) throw new UsageError(`${flag} expects a value`);
+      return next;
+    };
+
+    if (flag in FORM_FLAGS) {
+      args.form.set(FORM_FLAGS[flag], value());
+      continue;
+    }
+
+    switch (flag) {
+      case "-f":
+      case "--format": {
+        const format = value();
+        if (!isFormat(format)) {
+          throw new UsageError(`Unknown format "${format}". Expected one of: ${OUTPUT_FORMATS.join(", ")}`);
+        }
+        args.format = format;
+        break;
+      }
+      case "-o":
+      case "--out-dir":
+        args.outDir = value();
+        break;
+      case "-c":
+      case "--concurrency": {
+        const concurrency = Number(value());
+        if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_FILE_CONCURRENCY) {
+          throw new UsageError(`--concurrency must be an integer from 1 to ${MAX_FILE_CONCURRENCY}`);
+        }
+        args.concurrency = concurrency;
+        break;
+      }
+      case "--no-cache":
+        args.form.set("noCache", "true");
+        break;
+      case "--math":
+        args.form.set("math", "true");
+        break;
+      case "--stdout":
+        args.stdout = true;
+        break;
+      case "-h":
+      case "--help":
+        args.help = true;
+        break;
+      case "-v":
+      case "--version":
+        args.version = true;
+        break;
+      default:
+        throw new UsageError(`Unknown option ${flag}`);
+    }
+  }
+
+  if (args.stdout && args.format === "llms") {
+    throw new UsageError("--format llms writes a directory per file; use --format bundle with --stdout");
+  }
+
+  return args;
+}
@@ -0,0 +1,126 @@
+import { readdir, stat } from "node:fs/promises";
+import path from "node:path";
+import { INPUT_FORMATS } from "@/lib/inputs";
+
+// Directories are searched for these; explicit files and globs are
+// converted whatever their extension, since detection reads the contents
+const EXTENSIONS = new Set<string>(INPUT_FORMATS.flatMap((format) => format.extensions));
+const SKIPPED_DIRS = new Set(["node_modules"]);
+
+export interface InputFile {
+  path: string;
+  // Output path relative to the output directory, without an extension:
+  // the file's name, or its path below the directory or glob base it was
+  // found under
+  name: string;
+}
+
+export interface ExpandedInputs {
+  files: InputFile[];
+  // Arguments that matched no files
+  unmatched: string[];
+}
+
+const isGlob = (arg: string) => /[*?[{]/.test(arg);
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^$()|\\/]/g, "\\$&");
+}
+
+// Translate a glob to a regular expression source. "*" and "?" stay within
+// one path segment, "**/" spans any number of directories, and {a,b} and
+// [abc] work as in a shell.
+function globSource(glob: string): string {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      const slash = glob[i + 2] === "/";
+      source += slash ? "(?:[^/]*/)*" : ".*";
+      i += slash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{" && glob.indexOf("}", i) > i) {
+      const end = glob.indexOf("}", i);
+      source += `(?:${glob.slice(i + 1, end).split(",").map(globSource).join("|")})`;
+      i = end;
+    } else if (char === "[" && glob.indexOf("]", i + 2) > i) {
+      const end = glob.indexOf("]", i + 2);
+      source += `[${glob.slice(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\")}]`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return source;
+}
+
+// Files below `dir` as paths relative to it, with "/" separators. Hidden
+// entries and node_modules are skipped.
+async function walk(dir: string, maxDepth = Infinity, prefix = ""): Promise<string[]> {
+  const entries = await readdir(path.join(dir, prefix), { withFileTypes: true }).catch(() => []);
+  const found: string[] = [];
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    if (entry.name.startsWith(".")) continue;
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory() && !SKIPPED_DIRS.has(entry.name) && maxDepth > 1) {
+      found.push(...(await walk(dir, maxDepth - 1, relative)));
+    } else if (entry.isFile()) {
+      found.push(relative);
+    }
+  }
+  return found;
+}
+
+async function expandGlob(pattern: string): Promise<InputFile[]> {
+  const segments = pattern.split(/[\\/]/);
+  const firstGlob = segments.findIndex(isGlob);
+  const base = segments.slice(0, firstGlob).join("/") || (pattern.startsWith("/") ? "/" : ".");
+  const rest = segments.slice(firstGlob);
+  const matcher = new RegExp(`^${globSource(rest.join("/"))}$`);
+  const depth = rest.some((segment) => segment.includes("**")) ? Infinity : rest.length;
+
+  return (await walk(base, depth))
+    .filter((relative) => matcher.test(relative))
+    .map((relative) => ({ path: path.join(base, relative), name: stripExtension(relative) }));
+}
+
+function stripExtension(relative: string): string {
+  return relative.replace(/\.[a-z0-9]+$/i, "");
+}
+
+/**
+ * Resolve command-line inputs to files, in argument order. A file path is
+ * taken as is, a directory contributes every supported file below it, and
+ * a glob every file it matches. Files reached twice are converted once.
+ */
+export async function expandInputs(args: string[]): Promise<ExpandedInputs> {
+  const files: InputFile[] = [];
+  const unmatched: string[] = [];
+  const seen = new Set<string>();
+
+  for (const arg of args) {
+    const info = await stat(arg).catch(() => null);
+    let found: InputFile[];
+    if (info?.isFile()) {
+      found = [{ path: arg, name: stripExtension(path.basename(arg)) }];
+    } else if (info?.isDirectory()) {
+      found = (await walk(arg))
+        .filter((relative) => EXTENSIONS.has(path.extname(relative).toLowerCase()))
+        .map((relative) => ({ path: path.join(arg, relative), name: stripExtension(relative) }));
+    } else {
+      found = isGlob(arg) ? await expandGlob(arg) : [];
+    }
+
+    const fresh = found.filter((file) => !seen.has(path.resolve(file.path)));
+    if (!found.length) unmatched.push(arg);
+    for (const file of fresh) {
+      seen.add(path.resolve(file.path));
+      files.push(file);
+    }
+  }
+
+  return { files, unmatched };
+}
@@ -0,0 +1,167 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import packageJson from "@/package.json";
+import { bundleDocuments, failedDocument, isConverted, type BatchDocument } from "@/lib/batch";
+import { chunkResults, parseChunkForm, type ChunkOptions } from "@/lib/chunks";
+import { mapSettled } from "@/lib/concurrency";
+import { RequestError, convertDocument, parseConvertOptions, type ConversionResult, type ConvertOptions } from "@/lib/convert";
+import { getInputFormat } from "@/lib/inputs";
+import { documentFiles } from "@/lib/llmstxt";
+import { zipFiles } from "@/lib/zip";
+import { HELP, UsageError, parseArgs, type CliArgs, type OutputFormat } from "./args";
+import { expandInputs, type InputFile } from "./files";
+
+export const EXIT_OK = 0;
+export const EXIT_FAILED = 1;
+export const EXIT_USAGE = 2;
+
+type Files = Record<string, string | Uint8Array>;
+
+// What one document writes below the output directory; bundles are
+// written once for all documents instead
+function outputFiles(
+  result: ConversionResult,
+  name: string,
+  format: Exclude<OutputFormat, "bundle">,
+  options: ConvertOptions,
+  chunking: ChunkOptions
+): Files {
+  switch (format) {
+    case "markdown":
+      return { [`${name}.md`]: result.llmsFullTxt };
+    case "llms":
+      return Object.fromEntries(Object.entries(documentFiles(result)).map(([file, contents]) => [`${name}/${file}`, contents]));
+    case "json":
+      return { [`${name}.json`]: JSON.stringify(result, null, 2) + "\n" };
+    case "chunks":
+      return { [`${name}.jsonl`]: chunkResults([result], options, chunking) };
+  }
+}
+
+async function writeFiles(dir: string, files: Files): Promise<string[]> {
+  const written: string[] = [];
+  for (const [file, contents] of Object.entries(files)) {
+    const target = path.join(dir, file);
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, contents);
+    written.push(target);
+  }
+  return written;
+}
+
+// Two inputs such as report.pdf and report.docx would write the same
+// output, so later ones keep their extension in the name
+function outputName(file: InputFile, used: Set<string>): string {
+  let name = file.name;
+  if (used.has(name)) name = `${file.name}-${path.extname(file.path).slice(1).toLowerCase()}`;
+  for (let n = 2; used.has(name); n++) name = `${file.name}-${n}`;
+  used.add(name);
+  return name;
+}
+
+function describe(result: ConversionResult): string {
+  const unit = getInputFormat(result.format).unit;
+  const count = unit ? `${result.pageCount} ${unit}${result.pageCount !== 1 ? "s" : ""}` : result.format.toUpperCase();
+  return [
+    count,
+    result.tokens && `${result.tokens.count} tokens`,
+    result.latencyMs !== undefined && `${(result.latencyMs / 1000).toFixed(1)}s`,
+    result.estimatedCost ? `~$${result.estimatedCost.toFixed(4)}` : null,
+    result.cache === "hit" && "cached",
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+function report(doc: BatchDocument, source: string, written: string[]): string {
+  if (!isConverted(doc)) return `failed     ${source}: ${doc.error} (${doc.code})\n`;
+  const target = written.length === 1 ? ` -> ${written[0]}` : written.length ? ` -> ${path.dirname(written[0])}/` : "";
+  const failed = doc.failedBatches?.map((batch) => `${batch.pages} (${batch.code})`).join(", ");
+  return failed
+    ? `partial    ${source}${target}: pages ${failed} failed\n`
+    : `converted  ${source}${target} (${describe(doc)})\n`;
+}
+
+/**
+ * Run the command line and resolve to the exit code. Conversions share the
+ * server's validation, providers and post-processing; each file is read,
+ * converted and written independently, so one failure never stops the
+ * others.
+ */
+export async function main(argv: string[]): Promise<number> {
+  let args: CliArgs;
+  let options: ConvertOptions;
+  let chunking: ChunkOptions = {};
+  try {
+    args = parseArgs(argv);
+    if (args.help || args.version) {
+      process.stdout.write(args.help ? HELP : `${packageJson.version}\n`);
+      return EXIT_OK;
+    }
+    if (!args.inputs.length) throw new UsageError("No input files");
+    options = parseConvertOptions(args.form);
+    if (args.format === "chunks") chunking = parseChunkForm(args.form);
+  } catch (error) {
+    if (!(error instanceof UsageError || error instanceof RequestError)) throw error;
+    process.stderr.write(`pdftollstxt: ${error.message}\nRun pdftollstxt --help for usage.\n`);
+    return EXIT_USAGE;
+  }
+
+  const { files, unmatched } = await expandInputs(args.inputs);
+  for (const input of unmatched) process.stderr.write(`failed     ${input}: no such file, or no supported files found\n`);
+  if (!files.length) return EXIT_USAGE;
+
+  const used = new Set<string>();
+  const names = files.map((file) => outputName(file, used));
+  const { format } = args;
+  // Per-file output; bundles and stdout wait for every file
+  const perFile = args.stdout || format === "bundle" ? null : format;
+
+  const settled = await mapSettled(files, args.concurrency, async (file, index): Promise<BatchDocument> => {
+    let doc: BatchDocument;
+    let written: string[] = [];
+    try {
+      const bytes = await readFile(file.path);
+      doc = await convertDocument(
+        bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer,
+        path.basename(file.path),
+        options
+      );
+      if (perFile) written = await writeFiles(args.outDir, outputFiles(doc, names[index], perFile, options, chunking));
+    } catch (error) {
+      doc = failedDocument(path.basename(file.path), error);
+    }
+    process.stderr.write(report(doc, file.path, written));
+    return doc;
+  });
+
+  // The worker catches everything, so every outcome is fulfilled
+  const documents = settled.map((outcome) => (outcome as PromiseFulfilledResult<BatchDocument>).value);
+  const converted = documents.filter(isConverted);
+
+  if (converted.length && !perFile) {
+    const bundle = format === "bundle" || (format === "markdown" && converted.length > 1) ? bundleDocuments(converted) : null;
+    if (!args.stdout) {
+      const written = await writeFiles(args.outDir, bundle!.files);
+      process.stderr.write(`bundle     ${converted.length} documents -> ${path.join(args.outDir, "llms.txt")} (${written.length} files)\n`);
+    } else if (format === "bundle") {
+      process.stdout.write(zipFiles(bundle!.files));
+    } else if (format === "json") {
+      process.stdout.write(converted.map((result) => JSON.stringify(result) + "\n").join(""));
+    } else if (format === "chunks") {
+      process.stdout.write(chunkResults(converted, options, chunking));
+    } else {
+      process.stdout.write(bundle ? bundle.llmsFullTxt : converted[0].llmsFullTxt);
+    }
+  }
+
+  const failures = unmatched.length + documents.filter((doc) => !isConverted(doc) || doc.failedBatches).length;
+  if (files.length + unmatched.length > 1) {
+    const cost = converted.reduce((sum, result) => sum + (result.estimatedCost ?? 0), 0);
+    process.stderr.write(
+      `${files.length + unmatched.length - failures} of ${files.length + unmatched.length} inputs converted` +
+        (cost ? `, ~$${cost.toFixed(4)} estimated\n` : "\n")
+    );
+  }
+  return failures ? EXIT_FAILED : EXIT_OK;
+}
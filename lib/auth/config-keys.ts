@@ -0,0 +1,24 @@
+import { createHash } from "crypto";
+import type { ApiKey, KeyLimits, KeyStore } from "./types";
+
+export function hashKey(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// API_KEYS="acme:sk_abc,ci:sk_def": named keys that share the default limits
+export class ConfigKeyStore implements KeyStore {
+  private keys = new Map<string, ApiKey>();
+
+  constructor(config: string, limits: KeyLimits) {
+    for (const entry of config.split(",")) {
+      const separator = entry.indexOf(":");
+      const id = entry.slice(0, separator).trim();
+      const token = entry.slice(separator + 1).trim();
+      if (separator > 0 && token) this.keys.set(hashKey(token), { id, limits });
+    }
+  }
+
+  async find(token: string): Promise<ApiKey | null> {
+    return this.keys.get(hashKey(token)) ?? null;
+  }
+}
@@ -0,0 +1,38 @@
+import { readFile, stat } from "fs/promises";
+import { hashKey } from "./config-keys";
+import type { ApiKey, KeyLimits, KeyStore } from "./types";
+
+interface KeyEntry extends Partial<KeyLimits> {
+  id: string;
+  // Hex SHA-256 of the key, e.g. from `printf %s "$KEY" | sha256sum`
+  sha256: string;
+}
+
+// A JSON file of hashed keys with optional per-key limits:
+// { "keys": [{ "id": "acme", "sha256": "…", "monthlyPages": 10000 }] }
+// It is re-read when it changes, so keys can be added or revoked live.
+export class FileKeyStore implements KeyStore {
+  private keys = new Map<string, ApiKey>();
+  private loadedAt = 0;
+
+  constructor(
+    private file: string,
+    private defaults: KeyLimits
+  ) {}
+
+  private async load(): Promise<void> {
+    const { mtimeMs } = await stat(this.file);
+    if (mtimeMs === this.loadedAt) return;
+
+    const { keys } = JSON.parse(await readFile(this.file, "utf8")) as { keys: KeyEntry[] };
+    this.keys = new Map(
+      keys.map(({ id, sha256, ...limits }) => [sha256.toLowerCase(), { id, limits: { ...this.defaults, ...limits } }])
+    );
+    this.loadedAt = mtimeMs;
+  }
+
+  async find(token: string): Promise<ApiKey | null> {
+    await this.load();
+    return this.keys.get(hashKey(token)) ?? null;
+  }
+}
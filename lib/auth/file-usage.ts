@@ -0,0 +1,44 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import type { UsageStore } from "./types";
+
+// One JSON file per month mapping key ids to pages, so quotas survive
+// restarts. Writes from this process are serialized; processes sharing the
+// directory can lose each other's concurrent updates.
+export class FileUsageStore implements UsageStore {
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(private dir: string) {}
+
+  private file(month: string): string {
+    return path.join(this.dir, `${path.basename(month)}.json`);
+  }
+
+  private async read(month: string): Promise<Record<string, number>> {
+    try {
+      return JSON.parse(await readFile(this.file(month), "utf8")) as Record<string, number>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+      throw error;
+    }
+  }
+
+  async get(id: string, month: string): Promise<number> {
+    return (await this.read(month))[id] ?? 0;
+  }
+
+  add(id: string, month: string, pages: number): Promise<number> {
+    const update = this.writes.then(async () => {
+      const usage = await this.read(month);
+      usage[id] = (usage[id] ?? 0) + pages;
+      await mkdir(this.dir, { recursive: true });
+      const target = this.file(month);
+      const tmp = `${target}.${process.pid}.tmp`;
+      await writeFile(tmp, JSON.stringify(usage));
+      await rename(tmp, target);
+      return usage[id];
+    });
+    this.writes = update.catch(() => {});
+    return update;
+  }
+}
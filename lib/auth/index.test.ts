@@ -0,0 +1,90 @@
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ConversionResult } from "@/lib/convert";
+import { authenticate, authorize, recordUsage, requestOwner } from ".";
+import { SESSION_COOKIE, createSession } from "./session";
+
+const globalForAuth = globalThis as unknown as { keyStore?: unknown; buckets?: unknown; usageStore?: unknown };
+
+function request(headers: Record<string, string> = {}, session = createSession()): NextRequest {
+  return new NextRequest("http://localhost:3000/api/ocr", {
+    method: "POST",
+    headers: { host: "localhost:3000", cookie: `${SESSION_COOKIE}=${session}`, ...headers },
+  });
+}
+
+beforeEach(() => {
+  vi.stubEnv("API_KEYS", "ci:sk_test");
+  delete globalForAuth.keyStore;
+  delete globalForAuth.buckets;
+  delete globalForAuth.usageStore;
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("authenticate", () => {
+  it("accepts API keys", async () => {
+    const caller = await authenticate(request({ authorization: "Bearer sk_test" }));
+    expect(caller).toMatchObject({ id: "ci", owner: "key:ci" });
+  });
+
+  it("accepts the session cookie on same-origin requests", async () => {
+    expect(await authenticate(request({ "sec-fetch-site": "same-origin" }))).toMatchObject({ id: "web" });
+    expect(await authenticate(request({ origin: "http://localhost:3000" }))).toMatchObject({ id: "web" });
+  });
+
+  it("refuses the session cookie from other sites and clients that do not say where they are", async () => {
+    await expect(authenticate(request({ "sec-fetch-site": "cross-site" }))).rejects.toThrow("Missing API key");
+    await expect(authenticate(request({ origin: "https://evil.example" }))).rejects.toThrow("Missing API key");
+    await expect(authenticate(request())).rejects.toThrow("Missing API key");
+  });
+});
+
+describe("authorize", () => {
+  it("rate limits each session from a bucket of its own", async () => {
+    vi.stubEnv("WEB_BURST", "2");
+    const sameOrigin = { "sec-fetch-site": "same-origin" };
+    const session = createSession();
+
+    await authorize(request(sameOrigin, session));
+    await authorize(request(sameOrigin, session));
+    await expect(authorize(request(sameOrigin, session))).rejects.toThrow("Rate limit exceeded");
+    // One busy session leaves the others their requests
+    expect(await authorize(request(sameOrigin))).toMatchObject({ headers: { "X-RateLimit-Remaining": "1" } });
+  });
+
+  it("gives sessions a monthly quota by default", async () => {
+    const access = await authorize(request({ "sec-fetch-site": "same-origin" }));
+    expect(access?.headers["X-RateLimit-Quota-Limit"]).toBe("1000");
+  });
+
+  it("counts every session against the one web quota", async () => {
+    vi.stubEnv("WEB_MONTHLY_PAGES", "10");
+    const sameOrigin = { "sec-fetch-site": "same-origin" };
+    const access = await authorize(request(sameOrigin));
+    await recordUsage(access, [{ pageCount: 10, format: "pdf" } as ConversionResult]);
+
+    // A fresh session gets no fresh quota
+    await expect(authorize(request(sameOrigin))).rejects.toThrow("Monthly quota of 10 pages exceeded");
+  });
+});
+
+describe("requestOwner", () => {
+  it("tells browser sessions apart, and API keys apart from sessions", async () => {
+    const first = request({ "sec-fetch-site": "same-origin" });
+    const second = request({ "sec-fetch-site": "same-origin" });
+    const owners = await Promise.all([first, second].map(async (r) => requestOwner(r, await authenticate(r))));
+
+    expect(owners[0]).toMatch(/^session:/);
+    expect(owners[0]).not.toBe(owners[1]);
+    const key = request({ authorization: "Bearer sk_test" });
+    expect(requestOwner(key, await authenticate(key))).toBe("key:ci");
+  });
+
+  it("uses the session cookie while the API is open", () => {
+    expect(requestOwner(request(), null)).toMatch(/^session:/);
+    expect(requestOwner(new NextRequest("http://localhost:3000/api/history"), null)).toBe("open");
+  });
+});
@@ -0,0 +1,220 @@
+import path from "path";
+import type { NextRequest } from "next/server";
+import type { ConversionResult } from "@/lib/convert";
+import { OCR_FORMATS } from "@/lib/inputs/formats";
+import { RequestError } from "@/lib/errors";
+import { ConfigKeyStore } from "./config-keys";
+import { FileKeyStore } from "./file-keys";
+import { FileUsageStore } from "./file-usage";
+import { MemoryUsageStore } from "./memory-usage";
+import { TokenBuckets } from "./rate-limit";
+import { SESSION_COOKIE, verifySession } from "./session";
+import type { KeyLimits, KeyStore, UsageStore } from "./types";
+
+export type { ApiKey, KeyLimits, KeyStore, UsageStore } from "./types";
+export { ConfigKeyStore, hashKey } from "./config-keys";
+export { FileKeyStore } from "./file-keys";
+export { MemoryUsageStore } from "./memory-usage";
+export { FileUsageStore } from "./file-usage";
+
+// Browser sessions share one monthly quota under this id
+const WEB_USAGE_ID = "web";
+
+function limitsFromEnv(): KeyLimits {
+  return {
+    requestsPerMinute: Number(process.env.API_REQUESTS_PER_MINUTE) || 30,
+    burst: Number(process.env.API_BURST) || 10,
+    monthlyPages: Number(process.env.API_MONTHLY_PAGES) || 0,
+  };
+}
+
+// Anyone who loads the app gets a session, scripts included, so each
+// session gets a bucket of its own and sessions together a quota that is
+// never unlimited
+function webLimitsFromEnv(): KeyLimits {
+  return {
+    requestsPerMinute: Number(process.env.WEB_REQUESTS_PER_MINUTE) || 60,
+    burst: Number(process.env.WEB_BURST) || 20,
+    monthlyPages: Number(process.env.WEB_MONTHLY_PAGES) || 1000,
+  };
+}
+
+// No keys configured means the API is open, as it is in development
+function createKeyStore(): KeyStore | null {
+  if (process.env.API_KEYS_FILE) return new FileKeyStore(process.env.API_KEYS_FILE, limitsFromEnv());
+  if (process.env.API_KEYS) return new ConfigKeyStore(process.env.API_KEYS, limitsFromEnv());
+  return null;
+}
+
+function createUsageStore(): UsageStore {
+  const kind = process.env.USAGE_STORE || "memory";
+  if (kind === "file") {
+    return new FileUsageStore(process.env.USAGE_STORE_DIR || path.join(process.cwd(), ".data", "usage"));
+  }
+  if (kind !== "memory") {
+    throw new Error(`Unknown USAGE_STORE "${kind}". Expected "memory" or "file"`);
+  }
+  return new MemoryUsageStore();
+}
+
+// Keep one of each per process, including across dev-server module reloads
+const globalForAuth = globalThis as unknown as {
+  keyStore?: KeyStore | null;
+  usageStore?: UsageStore;
+  buckets?: TokenBuckets;
+};
+
+export function getKeyStore(): KeyStore | null {
+  if (globalForAuth.keyStore === undefined) {
+    globalForAuth.keyStore = createKeyStore();
+  }
+  return globalForAuth.keyStore;
+}
+
+export function getUsageStore(): UsageStore {
+  globalForAuth.usageStore ??= createUsageStore();
+  return globalForAuth.usageStore;
+}
+
+// Owner of what callers make while the API is open and they have no session
+const OPEN_OWNER = "open";
+
+// Who a request is from. Each session has its own bucket, and all of them
+// share the web monthly quota.
+export interface Caller {
+  // Usage is counted under this id
+  id: string;
+  // Rate limited under this id
+  bucket: string;
+  // Jobs and history belong to this id: the key, or the browser session
+  owner: string;
+  limits: KeyLimits;
+}
+
+export interface Access {
+  caller: Caller;
+  // X-RateLimit-* headers for the response
+  headers: Record<string, string>;
+}
+
+function currentMonth(now: Date): string {
+  return now.toISOString().slice(0, 7);
+}
+
+function secondsToNextMonth(now: Date): number {
+  const next = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1);
+  return Math.ceil((next - now.getTime()) / 1000);
+}
+
+function quotaHeaders(limit: number, used: number, now: Date): Record<string, string> {
+  return {
+    "X-RateLimit-Quota-Limit": String(limit),
+    "X-RateLimit-Quota-Remaining": String(Math.max(0, limit - used)),
+    "X-RateLimit-Quota-Reset": String(secondsToNextMonth(now)),
+  };
+}
+
+// The session cookie only stands in for a key on requests the app's own
+// pages make: browsers say so in Sec-Fetch-Site, older ones with Origin.
+// This keeps other sites from spending a visitor's session. It does not
+// keep out clients that set the headers themselves; they get the same
+// anonymous allowance as anyone who loads the app.
+function isSameOrigin(request: NextRequest): boolean {
+  const site = request.headers.get("sec-fetch-site");
+  if (site) return site === "same-origin";
+  const origin = request.headers.get("origin");
+  if (!origin || !URL.canParse(origin)) return false;
+  return new URL(origin).host === (request.headers.get("host") ?? request.nextUrl.host);
+}
+
+/**
+ * Identify the caller from an `Authorization: Bearer <key>` header, or
+ * the session cookie the app sets for the web UI, which only counts on
+ * same-origin requests. Sessions are anonymous: each is rate limited on
+ * its own, and the shared web quota caps what they convert together.
+ * Returns null when no keys are configured.
+ */
+export async function authenticate(request: NextRequest): Promise<Caller | null> {
+  const keys = getKeyStore();
+  if (!keys) return null;
+
+  const token = request.headers.get("authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (token) {
+    const key = await keys.find(token);
+    if (key) return { id: key.id, bucket: `key:${key.id}`, owner: `key:${key.id}`, limits: key.limits };
+  } else {
+    const session = verifySession(request.cookies.get(SESSION_COOKIE)?.value);
+    if (session && isSameOrigin(request)) {
+      const owner = `session:${session}`;
+      return { id: WEB_USAGE_ID, bucket: owner, owner, limits: webLimitsFromEnv() };
+    }
+  }
+  throw new RequestError(token ? "Invalid API key" : "Missing API key", "UNAUTHORIZED", {
+    "WWW-Authenticate": "Bearer",
+  });
+}
+
+/**
+ * Whose jobs and history a request may see. While the API is open there is
+ * no caller, so browsers are told apart by their session cookie; other
+ * clients share one owner.
+ */
+export function requestOwner(request: NextRequest, caller: Caller | null): string {
+  if (caller) return caller.owner;
+  const session = verifySession(request.cookies.get(SESSION_COOKIE)?.value);
+  return session ? `session:${session}` : OPEN_OWNER;
+}
+
+// Authenticate, take a request from the caller's bucket and check their
+// monthly quota. Returns null when the API is open.
+export async function authorize(request: NextRequest): Promise<Access | null> {
+  const caller = await authenticate(request);
+  if (!caller) return null;
+
+  const now = new Date();
+  globalForAuth.buckets ??= new TokenBuckets();
+  const rate = globalForAuth.buckets.take(caller.bucket, caller.limits, now.getTime());
+  const headers: Record<string, string> = {
+    "X-RateLimit-Limit": String(rate.limit),
+    "X-RateLimit-Remaining": String(rate.remaining),
+    "X-RateLimit-Reset": String(rate.reset),
+  };
+  if (!rate.allowed) {
+    throw new RequestError("Rate limit exceeded", "RATE_LIMITED", {
+      ...headers,
+      "Retry-After": String(rate.retryAfter),
+    });
+  }
+
+  const { monthlyPages } = caller.limits;
+  if (monthlyPages) {
+    const used = await getUsageStore().get(caller.id, currentMonth(now));
+    Object.assign(headers, quotaHeaders(monthlyPages, used, now));
+    if (used >= monthlyPages) {
+      throw new RequestError(`Monthly quota of ${monthlyPages} pages exceeded`, "QUOTA_EXCEEDED", {
+        ...headers,
+        "Retry-After": String(secondsToNextMonth(now)),
+      });
+    }
+  }
+
+  return { caller, headers };
+}
+
+/**
+ * Count converted pages against the caller's quota and update the quota
+ * headers. Cache hits and locally converted formats cost no provider
+ * credits, so they are free. A conversion that starts under quota always
+ * finishes, even if it ends over.
+ */
+export async function recordUsage(access: Access | null, results: ConversionResult[]): Promise<void> {
+  if (!access) return;
+  const billable = (result: ConversionResult) => result.cache !== "hit" && OCR_FORMATS.includes(result.format);
+  const pages = results.reduce((n, result) => n + (billable(result) ? result.pageCount : 0), 0);
+  if (!pages) return;
+
+  const now = new Date();
+  const used = await getUsageStore().add(access.caller.id, currentMonth(now), pages);
+  const { monthlyPages } = access.caller.limits;
+  if (monthlyPages) Object.assign(access.headers, quotaHeaders(monthlyPages, used, now));
+}
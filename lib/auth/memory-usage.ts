@@ -0,0 +1,16 @@
+import type { UsageStore } from "./types";
+
+// Usage lives in process memory and resets on restart
+export class MemoryUsageStore implements UsageStore {
+  private pages = new Map<string, number>();
+
+  async get(id: string, month: string): Promise<number> {
+    return this.pages.get(`${month}:${id}`) ?? 0;
+  }
+
+  async add(id: string, month: string, pages: number): Promise<number> {
+    const total = (await this.get(id, month)) + pages;
+    this.pages.set(`${month}:${id}`, total);
+    return total;
+  }
+}
@@ -0,0 +1,57 @@
+import type { KeyLimits } from "./types";
+
+// Drop idle buckets once there are this many, so sessions don't pile up
+const MAX_BUCKETS = 10_000;
+
+export interface RateLimit {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the bucket is full again
+  reset: number;
+  // Seconds until the next request is allowed, when this one was not
+  retryAfter: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  burst: number;
+  perSecond: number;
+}
+
+function refill({ tokens, updatedAt, burst, perSecond }: Bucket, now: number): number {
+  return Math.min(burst, tokens + ((now - updatedAt) / 1000) * perSecond);
+}
+
+// Token buckets in process memory: each bucket holds up to `burst` requests
+// and refills at `requestsPerMinute`. Every instance limits on its own.
+export class TokenBuckets {
+  private buckets = new Map<string, Bucket>();
+
+  take(id: string, { requestsPerMinute, burst }: KeyLimits, now = Date.now()): RateLimit {
+    const perSecond = requestsPerMinute / 60;
+    const bucket = this.buckets.get(id) ?? { tokens: burst, updatedAt: now, burst, perSecond };
+    Object.assign(bucket, { tokens: refill(bucket, now), updatedAt: now, burst, perSecond });
+
+    const allowed = bucket.tokens >= 1;
+    if (allowed) bucket.tokens -= 1;
+    if (!this.buckets.has(id) && this.buckets.size >= MAX_BUCKETS) this.prune(now);
+    this.buckets.set(id, bucket);
+
+    return {
+      allowed,
+      limit: burst,
+      remaining: Math.floor(bucket.tokens),
+      reset: Math.ceil((burst - bucket.tokens) / perSecond),
+      retryAfter: allowed ? 0 : Math.ceil((1 - bucket.tokens) / perSecond),
+    };
+  }
+
+  // Forget buckets that would have refilled by now; they start full anyway
+  private prune(now: number): void {
+    for (const [id, bucket] of this.buckets) {
+      if (refill(bucket, now) >= bucket.burst) this.buckets.delete(id);
+    }
+  }
+}
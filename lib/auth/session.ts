@@ -0,0 +1,30 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+
+export const SESSION_COOKIE = "session";
+export const SESSION_MAX_AGE = 7 * 24 * 60 * 60;
+
+// SESSION_SECRET keeps sessions valid across restarts and instances; without
+// it each process signs with a random secret of its own
+const globalForSession = globalThis as unknown as { sessionSecret?: string };
+
+function sign(payload: string): string {
+  const secret = process.env.SESSION_SECRET || (globalForSession.sessionSecret ??= randomBytes(32).toString("hex"));
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+// A signed "<id>.<expiry>.<signature>" cookie value for a new session
+export function createSession(now = Date.now()): string {
+  const payload = `${randomUUID()}.${Math.floor(now / 1000) + SESSION_MAX_AGE}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+// The session id, if the cookie was signed by us and has not expired
+export function verifySession(value: string | undefined, now = Date.now()): string | null {
+  const [id, expires, signature] = value?.split(".") ?? [];
+  if (!signature) return null;
+
+  const expected = Buffer.from(sign(`${id}.${expires}`));
+  const given = Buffer.from(signature);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+  return Number(expires) * 1000 > now ? id : null;
+}
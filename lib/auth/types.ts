@@ -0,0 +1,24 @@
+export interface KeyLimits {
+  // Token bucket: refill rate, and how many requests may arrive at once
+  requestsPerMinute: number;
+  burst: number;
+  // Pages converted per calendar month (UTC); 0 means unlimited
+  monthlyPages: number;
+}
+
+export interface ApiKey {
+  // Stable name used for usage accounting; never the key itself
+  id: string;
+  limits: KeyLimits;
+}
+
+export interface KeyStore {
+  find(token: string): Promise<ApiKey | null>;
+}
+
+export interface UsageStore {
+  // Pages used by `id` in `month` (YYYY-MM)
+  get(id: string, month: string): Promise<number>;
+  // Add pages and return the new total
+  add(id: string, month: string, pages: number): Promise<number>;
+}
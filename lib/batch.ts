@@ -0,0 +1,63 @@
+import { mapSettled } from "@/lib/concurrency";
+import { convertDocument, type ConversionResult, type ConvertOptions } from "@/lib/convert";
+import { ProviderError, RequestError, type ErrorCode } from "@/lib/errors";
+import { getInputFormat } from "@/lib/inputs/formats";
+import { buildCollection, type CollectionBundle } from "@/lib/llmstxt";
+
+// Files converted at once; each file already batches its own pages
+export const FILE_CONCURRENCY = 2;
+
+export type BatchDocument = ConversionResult | { filename: string; error: string; code: ErrorCode };
+
+export interface BatchResult {
+  documents: BatchDocument[];
+  bundle: CollectionBundle;
+}
+
+export function isConverted(doc: BatchDocument): doc is ConversionResult {
+  return !("error" in doc);
+}
+
+// The error entry reported in place of a document that failed to convert
+export function failedDocument(filename: string, reason: unknown): BatchDocument {
+  return {
+    filename,
+    error: reason instanceof Error ? reason.message : "OCR processing failed",
+    code: reason instanceof ProviderError || reason instanceof RequestError ? reason.code : "INTERNAL_ERROR",
+  };
+}
+
+// Index converted documents together as one llms.txt collection
+export function bundleDocuments(converted: ConversionResult[]): CollectionBundle {
+  return buildCollection(
+    converted.map((doc) => ({
+      filename: doc.filename,
+      title: doc.title,
+      summary: doc.summary,
+      markdown: doc.llmsFullTxt,
+      pageCount: doc.pageCount,
+      unit: getInputFormat(doc.format).unit,
+      tables: doc.tables,
+      images: doc.images,
+    }))
+  );
+}
+
+// Convert several documents and index them together. Per-file failures are
+// reported in `documents`; only a batch where every file fails throws.
+export async function convertBatch(files: File[], options: ConvertOptions): Promise<BatchResult> {
+  const settled = await mapSettled(files, FILE_CONCURRENCY, async (file) =>
+    convertDocument(await file.arrayBuffer(), file.name, options)
+  );
+
+  const documents: BatchDocument[] = settled.map((outcome, index) =>
+    outcome.status === "fulfilled" ? outcome.value : failedDocument(files[index].name, outcome.reason)
+  );
+
+  const converted = documents.filter(isConverted);
+  if (!converted.length) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+
+  return { documents, bundle: bundleDocuments(converted) };
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { removeBoilerplate } from "./boilerplate";
+
+// Pages 1..count, each made by `page`
+function pages(count: number, page: (n: number) => string): string[] {
+  return Array.from({ length: count }, (_, i) => page(i + 1));
+}
+
+describe("removeBoilerplate", () => {
+  it("removes running headers and page-number footers", () => {
+    const input = pages(
+      5,
+      (n) => `ACME Annual Report\n\nBody of page ${n} is here.\n\nIt has a second paragraph.\n\nPage ${n} of 5`
+    );
+    const { pages: output, removed } = removeBoilerplate(input);
+
+    expect(output[2]).toBe("Body of page 3 is here.\n\nIt has a second paragraph.");
+    expect(removed).toEqual([
+      { text: "ACME Annual Report", position: "header", pages: [1, 2, 3, 4, 5] },
+      { text: "Page 1 of 5", position: "footer", pages: [1, 2, 3, 4, 5] },
+    ]);
+  });
+
+  it("matches printed page numbers that are offset from the page index", () => {
+    const input = pages(4, (n) => `Intro text.\n\nMore text on this page.\n\nFinal line here.\n\n${n + 10}`);
+    const { pages: output } = removeBoilerplate(input, [3, 4, 5, 6]);
+    expect(output.every((page) => page.endsWith("Final line here."))).toBe(true);
+  });
+
+  it("matches roman page numbers", () => {
+    const input = ["i", "ii", "iii", "iv"].map((n) => `Preface text.\n\nMore preface.\n\nLast line.\n\n${n}`);
+    expect(removeBoilerplate(input).removed).toContainEqual({ text: "i", position: "footer", pages: [1, 2, 3, 4] });
+  });
+
+  it("keeps headings, even when they repeat with the page number", () => {
+    const input = pages(4, (n) => `# Chapter ${n}\n\nOpening paragraph.\n\nClosing paragraph.\n\n## Summary`);
+    expect(removeBoilerplate(input)).toEqual({ pages: input, removed: [] });
+  });
+
+  it("keeps numbered lines whose numbers do not follow the page", () => {
+    const steps = [2, 5, 9, 14];
+    const input = steps.map((step) => `Step ${step}: Configure\n\nDetails.\n\nMore details.\n\nSee step ${step + 1}.`);
+    expect(removeBoilerplate(input).removed).toEqual([]);
+  });
+
+  it("keeps the body of short pages", () => {
+    const input = pages(4, (n) => `# Part ${n}\n\nMore content ${n}.\n\nPage ${n}`);
+    const { pages: output, removed } = removeBoilerplate(input);
+
+    expect(output[1]).toBe("# Part 2\n\nMore content 2.");
+    expect(removed.map((line) => line.text)).toEqual(["Page 1"]);
+  });
+
+  it("leaves documents with too few pages alone", () => {
+    const input = pages(2, (n) => `Header\n\nBody.\n\nMore body.\n\nPage ${n}`);
+    expect(removeBoilerplate(input).pages).toBe(input);
+  });
+});
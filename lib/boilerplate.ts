@@ -0,0 +1,154 @@
+// Lines this far from the top or bottom of a page can be running headers
+// or footers
+const EDGE_LINES = 3;
+// A line must repeat on this share of pages, and on at least MIN_PAGES
+const MIN_SHARE = 0.5;
+const MIN_PAGES = 3;
+// Lines that only match once numbers are ignored must be this short, so
+// body text that happens to mention the page number survives
+const MAX_NUMBERED_WORDS = 8;
+
+const ROMAN_DIGITS: Record<string, number> = { i: 1, v: 5, x: 10, l: 50, c: 100, d: 500, m: 1000 };
+
+export interface BoilerplateLine {
+  // First occurrence, as it appeared in the document
+  text: string;
+  position: "header" | "footer";
+  // Pages it was removed from
+  pages: number[];
+}
+
+// Where a line shape was seen, with the numbers it had there
+interface Occurrence {
+  page: number;
+  line: number;
+  numbers: number[];
+}
+
+// Compare lines ignoring case and markdown decoration
+function lineKey(line: string): string {
+  return line
+    .toLowerCase()
+    .replace(/[*_`~>]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function romanValue(numeral: string): number {
+  const digits = [...numeral].map((digit) => ROMAN_DIGITS[digit]);
+  return digits.reduce((sum, digit, i) => sum + (digit < (digits[i + 1] ?? 0) ? -digit : digit), 0);
+}
+
+// The line with its numbers taken out, and the numbers in order, so
+// "page 3 of 20" is "page # of #" with [3, 20]. A lone roman numeral
+// ("iv", "page iv") counts as a number.
+function lineShape(key: string): { template: string; numbers: number[] } {
+  const roman = key.match(/^(page )?([ivxlcdm]+)$/);
+  if (roman) return { template: `${roman[1] ?? ""}#`, numbers: [romanValue(roman[2])] };
+  return { template: key.replace(/\d+/g, "#"), numbers: [...key.matchAll(/\d+/g)].map(([n]) => Number(n)) };
+}
+
+// The largest group of occurrences sharing a value, by pages covered
+function largestGroup(occurrences: Occurrence[], value: (o: Occurrence) => number): Occurrence[] {
+  const groups = new Map<number, Occurrence[]>();
+  for (const o of occurrences) {
+    if (!groups.has(value(o))) groups.set(value(o), []);
+    groups.get(value(o))!.push(o);
+  }
+  return [...groups.values()].reduce<Occurrence[]>(
+    (best, group) => (pageCount(group) > pageCount(best) ? group : best),
+    []
+  );
+}
+
+function pageCount(occurrences: Occurrence[]): number {
+  return new Set(occurrences.map((o) => o.page)).size;
+}
+
+// The occurrences of one line shape that are boilerplate. Each number in
+// it must either stay the same on every page ("of 20") or move with the
+// page index, as printed page numbers do, so headings and body text that
+// number things differently ("Step 2", "Chapter 3") never match.
+function recurring(occurrences: Occurrence[], pageNumbers: number[], threshold: number): Occurrence[] {
+  let matching = occurrences;
+  for (let slot = 0; slot < occurrences[0].numbers.length; slot++) {
+    const fixed = largestGroup(matching, (o) => o.numbers[slot]);
+    const moving = largestGroup(matching, (o) => o.numbers[slot] - pageNumbers[o.page]);
+    matching = pageCount(moving) > pageCount(fixed) ? moving : fixed;
+  }
+  return pageCount(matching) >= threshold ? matching : [];
+}
+
+// Indexes of the first and last few non-empty lines of a page. At least
+// one line is left between them, so a short page is not all header and
+// footer.
+function edgeLines(lines: string[]): { header: number[]; footer: number[] } {
+  const filled = lines.flatMap((line, i) => (line.trim() ? [i] : []));
+  const size = Math.min(EDGE_LINES, Math.floor((filled.length - 1) / 2));
+  return { header: filled.slice(0, size), footer: size ? filled.slice(-size).reverse() : [] };
+}
+
+/**
+ * Remove running headers, footers, page numbers and banners: lines that
+ * recur near the top or bottom of most pages, identical or with a number
+ * that follows the page. `pageNumbers` labels the pages in the report and
+ * is what page numbers are matched against. Markdown headings are always
+ * kept, as they are content even when they repeat.
+ */
+export function removeBoilerplate(
+  pages: string[],
+  pageNumbers: number[] = pages.map((_, i) => i + 1)
+): { pages: string[]; removed: BoilerplateLine[] } {
+  if (pages.length < MIN_PAGES) return { pages, removed: [] };
+
+  const split = pages.map((page) => page.split("\n"));
+  const edges = split.map(edgeLines);
+  const threshold = Math.max(MIN_PAGES, Math.ceil(pages.length * MIN_SHARE));
+
+  // Where each line shape appears, per position
+  const seen = { header: new Map<string, Occurrence[]>(), footer: new Map<string, Occurrence[]>() };
+  edges.forEach((edge, page) => {
+    for (const position of ["header", "footer"] as const) {
+      for (const line of edge[position]) {
+        const text = split[page][line].trim();
+        if (/^#{1,6}\s/.test(text)) continue;
+        const key = lineKey(text);
+        // Rules, table rows (a table continued from the last page) and
+        // display math delimiters stay
+        if (!key || /^(---|\||<|\$\$|\\[[\]])/.test(key)) continue;
+        const { template, numbers } = lineShape(key);
+        if (numbers.length && template.split(" ").length > MAX_NUMBERED_WORDS) continue;
+        if (!seen[position].has(template)) seen[position].set(template, []);
+        seen[position].get(template)!.push({ page, line, numbers });
+      }
+    }
+  });
+
+  const removed = new Map<string, BoilerplateLine>();
+  const drop = split.map(() => new Set<number>());
+
+  for (const position of ["header", "footer"] as const) {
+    for (const [template, occurrences] of seen[position]) {
+      for (const { page, line } of recurring(occurrences, pageNumbers, threshold)) {
+        if (drop[page].has(line)) continue;
+        drop[page].add(line);
+        const id = `${position}:${template}`;
+        if (!removed.has(id)) removed.set(id, { text: split[page][line].trim(), position, pages: [] });
+        removed.get(id)!.pages.push(pageNumbers[page]);
+      }
+    }
+  }
+
+  return {
+    pages: split.map((lines, page) =>
+      drop[page].size
+        ? lines
+            .filter((_, i) => !drop[page].has(i))
+            .join("\n")
+            .replace(/\n{3,}/g, "\n\n")
+            .trim()
+        : pages[page]
+    ),
+    removed: [...removed.values()],
+  };
+}
@@ -0,0 +1,71 @@
+import { mkdir, readFile, readdir, rename, stat, unlink, utimes, writeFile } from "fs/promises";
+import path from "path";
+import type { ConversionResult } from "@/lib/convert";
+import type { CacheLimits, ResultCache } from "./types";
+
+interface Entry {
+  value: ConversionResult;
+  expiresAt: number;
+}
+
+// One JSON file per key. Reads touch the file's mtime, so trimming by
+// oldest mtime evicts the least recently used entries first.
+export class FileResultCache implements ResultCache {
+  constructor(private dir: string, private limits: CacheLimits) {}
+
+  private file(key: string): string {
+    return path.join(this.dir, `${path.basename(key)}.json`);
+  }
+
+  async get(key: string): Promise<ConversionResult | null> {
+    const file = this.file(key);
+    let entry: Entry;
+    try {
+      entry = JSON.parse(await readFile(file, "utf8")) as Entry;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      await unlink(file).catch(() => {});
+      return null;
+    }
+    const now = new Date();
+    await utimes(file, now, now).catch(() => {});
+    return entry.value;
+  }
+
+  async set(key: string, value: ConversionResult): Promise<void> {
+    const body = JSON.stringify({ value, expiresAt: Date.now() + this.limits.ttlMs } satisfies Entry);
+    if (body.length > this.limits.maxBytes) return;
+
+    await mkdir(this.dir, { recursive: true });
+    const target = this.file(key);
+    const tmp = `${target}.${process.pid}.tmp`;
+    await writeFile(tmp, body);
+    await rename(tmp, target);
+    await this.trim();
+  }
+
+  private async trim(): Promise<void> {
+    const names = (await readdir(this.dir)).filter((name) => name.endsWith(".json"));
+    const files = await Promise.all(
+      names.map(async (name) => {
+        const file = path.join(this.dir, name);
+        const info = await stat(file).catch(() => null);
+        return { file, size: info?.size ?? 0, mtime: info?.mtimeMs ?? 0 };
+      })
+    );
+    files.sort((a, b) => a.mtime - b.mtime);
+
+    let count = files.length;
+    let bytes = files.reduce((sum, f) => sum + f.size, 0);
+    for (const f of files) {
+      if (count <= this.limits.maxEntries && bytes <= this.limits.maxBytes) break;
+      await unlink(f.file).catch(() => {});
+      count--;
+      bytes -= f.size;
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { createHash } from "crypto";
+import path from "path";
+import { FileResultCache } from "./file-cache";
+import { MemoryResultCache } from "./memory-cache";
+import type { CacheLimits, ResultCache } from "./types";
+
+export type { CacheLimits, ResultCache } from "./types";
+export { MemoryResultCache } from "./memory-cache";
+export { FileResultCache } from "./file-cache";
+
+export type CacheStatus = "hit" | "miss" | "bypass";
+
+function limitsFromEnv(): CacheLimits {
+  return {
+    ttlMs: (Number(process.env.RESULT_CACHE_TTL) || 7 * 24 * 60 * 60) * 1000,
+    maxEntries: Number(process.env.RESULT_CACHE_MAX_ENTRIES) || 500,
+    maxBytes: (Number(process.env.RESULT_CACHE_MAX_MB) || 200) * 1024 * 1024,
+  };
+}
+
+function createResultCache(): ResultCache | null {
+  const kind = process.env.RESULT_CACHE || "memory";
+  if (kind === "off") return null;
+  if (kind === "file") {
+    return new FileResultCache(
+      process.env.RESULT_CACHE_DIR || path.join(process.cwd(), ".data", "cache"),
+      limitsFromEnv()
+    );
+  }
+  if (kind !== "memory") {
+    throw new Error(`Unknown RESULT_CACHE "${kind}". Expected "memory", "file" or "off"`);
+  }
+  return new MemoryResultCache(limitsFromEnv());
+}
+
+// Keep one cache per process, including across dev-server module reloads
+const globalForCache = globalThis as unknown as { resultCache?: ResultCache | null };
+
+export function getResultCache(): ResultCache | null {
+  if (globalForCache.resultCache === undefined) {
+    globalForCache.resultCache = createResultCache();
+  }
+  return globalForCache.resultCache;
+}
+
+export function hashBytes(bytes: Uint8Array): string {
+  return createHash("sha256").update(bytes).digest("hex");
+}
+
+// Content hash plus every option that changes the output
+export function cacheKey(hash: string, options: Record<string, unknown>): string {
+  const normalized = Object.keys(options)
+    .sort()
+    .filter((key) => options[key] !== undefined)
+    .map((key) => [key, options[key]]);
+  const digest = createHash("sha256").update(JSON.stringify(normalized)).digest("hex");
+  return `${hash}-${digest.slice(0, 16)}`;
+}
@@ -0,0 +1,48 @@
+import type { ConversionResult } from "@/lib/convert";
+import type { CacheLimits, ResultCache } from "./types";
+
+interface Entry {
+  value: ConversionResult;
+  size: number;
+  expiresAt: number;
+}
+
+// Least-recently-used cache in process memory. Map iteration order is
+// insertion order, so re-inserting on read keeps the oldest entry first.
+export class MemoryResultCache implements ResultCache {
+  private entries = new Map<string, Entry>();
+  private bytes = 0;
+
+  constructor(private limits: CacheLimits) {}
+
+  async get(key: string): Promise<ConversionResult | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      this.bytes -= entry.size;
+      return null;
+    }
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: ConversionResult): Promise<void> {
+    const size = JSON.stringify(value).length;
+    if (size > this.limits.maxBytes) return;
+
+    const existing = this.entries.get(key);
+    if (existing) {
+      this.entries.delete(key);
+      this.bytes -= existing.size;
+    }
+    this.entries.set(key, { value, size, expiresAt: Date.now() + this.limits.ttlMs });
+    this.bytes += size;
+
+    for (const [oldest, entry] of this.entries) {
+      if (this.entries.size <= this.limits.maxEntries && this.bytes <= this.limits.maxBytes) break;
+      this.entries.delete(oldest);
+      this.bytes -= entry.size;
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import type { ConversionResult } from "@/lib/convert";
+
+export interface ResultCache {
+  get(key: string): Promise<ConversionResult | null>;
+  set(key: string, value: ConversionResult): Promise<void>;
+}
+
+export interface CacheLimits {
+  // Entries older than this are treated as missing
+  ttlMs: number;
+  maxEntries: number;
+  maxBytes: number;
+}
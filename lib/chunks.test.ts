@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { chunkMarkdown } from "./chunks";
+import { countTokens } from "./tokens";
+
+// Numbered sentences, so where each one ended up can be checked
+function sentences(count: number, from = 1): string {
+  return Array.from({ length: count }, (_, i) => `Sentence number ${from + i} says something.`).join(" ");
+}
+
+describe("chunkMarkdown", () => {
+  it("keeps every chunk within the size, splitting long paragraphs at sentences", () => {
+    const markdown = `# Report\n\n${sentences(200)}\n\nShort closing paragraph.`;
+    const chunks = chunkMarkdown(markdown, { size: 64, overlap: 0 });
+
+    expect(chunks.length).toBeGreaterThan(10);
+    for (const chunk of chunks) {
+      expect(chunk.tokens).toBeLessThanOrEqual(64);
+      expect(chunk.tokens).toBe(countTokens(chunk.text));
+      expect(chunk.text).toMatch(/^(# Report\n\n)?Sentence number \d+|^Short/);
+    }
+    // Without overlap, each sentence lands in exactly one chunk
+    const found = chunks.flatMap((chunk) => [...chunk.text.matchAll(/Sentence number (\d+) /g)].map((m) => Number(m[1])));
+    expect(found).toEqual(Array.from({ length: 200 }, (_, i) => i + 1));
+  });
+
+  it("splits a sentence longer than a chunk at words", () => {
+    const long = Array.from({ length: 300 }, (_, i) => `word${i}`).join(" ");
+    const chunks = chunkMarkdown(long, { size: 40, overlap: 0 });
+
+    expect(chunks.every((chunk) => chunk.tokens <= 40)).toBe(true);
+    expect(chunks.map((chunk) => chunk.text).join(" ")).toBe(long);
+  });
+
+  it("starts each chunk with the last sentences of the one before, up to the overlap", () => {
+    const markdown = sentences(60);
+    const chunks = chunkMarkdown(markdown, { size: 64, overlap: 16 });
+
+    expect(chunks.length).toBeGreaterThan(2);
+    for (let i = 1; i < chunks.length; i++) {
+      const repeated = markdown.slice(chunks[i].start, chunks[i - 1].end);
+      expect(repeated).toMatch(/^Sentence number \d+ .*\.$/);
+      expect(countTokens(repeated)).toBeLessThanOrEqual(16);
+      expect(chunks[i].text.startsWith(repeated)).toBe(true);
+      expect(chunks[i].tokens).toBeLessThanOrEqual(64);
+    }
+  });
+
+  it("starts a chunk at each heading and records the heading path", () => {
+    const markdown = [
+      "# Guide",
+      "Intro text.",
+      "## Install",
+      "Install text.",
+      "### Linux",
+      "Linux text.",
+      "## Use",
+      "Use text.",
+    ].join("\n\n");
+    const chunks = chunkMarkdown(markdown, { size: 512 });
+
+    expect(chunks.map((chunk) => [chunk.headings, chunk.text])).toEqual([
+      [["Guide"], "# Guide\n\nIntro text."],
+      [["Guide", "Install"], "## Install\n\nInstall text."],
+      [["Guide", "Install", "Linux"], "### Linux\n\nLinux text."],
+      [["Guide", "Use"], "## Use\n\nUse text."],
+    ]);
+  });
+
+  it("attributes text to the pages its markers name, with spans into the source", () => {
+    const markdown = "Before.\n\n## Page 2\n\nSecond page.\n\n---\n\n## Pages 3-4\n\nThird and fourth.";
+    const chunks = chunkMarkdown(markdown, { size: 8, overlap: 0, pages: [1] });
+
+    expect(chunks.map(({ pages, text }) => ({ pages, text }))).toEqual([
+      { pages: [1, 2], text: "Before.\n\nSecond page." },
+      { pages: [3, 4], text: "Third and fourth." },
+    ]);
+    for (const chunk of chunks) expect(markdown.slice(chunk.start, chunk.end)).toContain(chunk.text.split("\n")[0]);
+  });
+});
@@ -0,0 +1,288 @@
+import type { ConversionResult, ConvertOptions } from "@/lib/convert";
+import { RequestError } from "@/lib/errors";
+import { plainText } from "@/lib/llmstxt/markdown";
+import { selectedPages } from "@/lib/pdf/ranges";
+import { countTokens, tokenEnds } from "@/lib/tokens";
+
+export const DEFAULT_CHUNK_SIZE = 512;
+export const DEFAULT_CHUNK_OVERLAP = 64;
+export const MIN_CHUNK_SIZE = 32;
+export const MAX_CHUNK_SIZE = 8192;
+
+// The "## Page N" / "## Pages a-b" separators added by the converter
+const PAGE_MARKER = /^## (?:Pages?|Slide|Chapter) ([\d,-]+)$/;
+
+export interface ChunkOptions {
+  // Maximum tokens per chunk
+  size?: number;
+  // Tokens repeated from the end of the previous chunk
+  overlap?: number;
+  // Pages to attribute text to before the first page marker
+  pages?: number[];
+}
+
+export interface Chunk {
+  index: number;
+  text: string;
+  // Source pages the text came from
+  pages: number[];
+  // Enclosing headings, outermost first
+  headings: string[];
+  // Character offsets of the chunk's span in llms-full.txt
+  start: number;
+  end: number;
+  tokens: number;
+}
+
+// Read `chunkSize` and `chunkOverlap` from an /api/ocr form
+export function parseChunkForm(formData: FormData): ChunkOptions {
+  const size = Number((formData.get("chunkSize") as string | null) || DEFAULT_CHUNK_SIZE);
+  const overlap = Number((formData.get("chunkOverlap") as string | null) || DEFAULT_CHUNK_OVERLAP);
+
+  if (!Number.isInteger(size) || size < MIN_CHUNK_SIZE || size > MAX_CHUNK_SIZE) {
+    throw new RequestError(`chunkSize must be an integer from ${MIN_CHUNK_SIZE} to ${MAX_CHUNK_SIZE}`);
+  }
+  if (!Number.isInteger(overlap) || overlap < 0 || overlap >= size / 2) {
+    throw new RequestError("chunkOverlap must be a non-negative integer under half of chunkSize");
+  }
+  return { size, overlap };
+}
+
+interface Unit {
+  start: number;
+  end: number;
+  pages: number[];
+  headings: string[];
+  heading?: boolean;
+  // Repeated from the previous chunk
+  overlap?: boolean;
+  // Token ends of the unit this was split from, as offsets from `origin`
+  tokens?: { origin: number; ends: number[] };
+}
+
+function expandPageLabel(label: string): number[] {
+  return label.split(",").flatMap((part) => {
+    const [start, end = start] = part.split("-").map(Number);
+    return Array.from({ length: end - start + 1 }, (_, i) => start + i);
+  });
+}
+
+// Split markdown into paragraph-level units, tracking pages and the heading
+// path. Page markers and rules are dropped; code fences stay whole.
+function splitUnits(markdown: string, initialPages: number[]): Unit[] {
+  const units: Unit[] = [];
+  let pages = initialPages;
+  let path: string[] = [];
+  let inFence = false;
+  let blockStart = -1;
+  let offset = 0;
+
+  const close = (end: number) => {
+    if (blockStart < 0) return;
+    const raw = markdown.slice(blockStart, end);
+    const start = blockStart + (raw.length - raw.trimStart().length);
+    const text = raw.trim();
+    blockStart = -1;
+
+    const marker = text.match(PAGE_MARKER);
+    if (marker) {
+      pages = expandPageLabel(marker[1]);
+      return;
+    }
+    // Rules and page anchors carry no content
+    if (/^(---|\*\*\*|___|<a id="(?:page|slide|chapter)-\d+"><\/a>)$/.test(text)) return;
+
+    const heading = text.match(/^(#{1,6})\s+(.+?)\s*#*\s*(?:\n|$)/);
+    if (heading) {
+      path = [...path.slice(0, heading[1].length - 1), plainText(heading[2])];
+    }
+    units.push({
+      start,
+      end: start + text.length,
+      pages,
+      headings: path,
+      ...(heading && !text.includes("\n") && { heading: true }),
+    });
+  };
+
+  for (const line of markdown.split("\n")) {
+    if (/^(```|~~~)/.test(line)) inFence = !inFence;
+    if (!inFence && !line.trim()) {
+      close(offset);
+    } else if (blockStart < 0) {
+      blockStart = offset;
+    }
+    offset += line.length + 1;
+  }
+  close(markdown.length);
+
+  return units;
+}
+
+// Sentence spans within a unit, falling back to words for long sentences
+function* segments(markdown: string, unit: Unit, words = false): Generator<Unit> {
+  const pattern = words ? /\S+\s*/g : /[^.!?\n]+(?:[.!?]+|\n|$)\s*/g;
+  for (const match of markdown.slice(unit.start, unit.end).matchAll(pattern)) {
+    const start = unit.start + match.index;
+    yield { ...unit, start, end: start + match[0].trimEnd().length, heading: undefined };
+  }
+}
+
+type Measured = Unit & { tokens: NonNullable<Unit["tokens"]> };
+
+// The unit with its tokens, so the pieces split from it never encode them again
+function measure(markdown: string, unit: Unit): Measured {
+  if (unit.tokens) return unit as Measured;
+  return { ...unit, tokens: { origin: unit.start, ends: tokenEnds(markdown.slice(unit.start, unit.end)) } };
+}
+
+// Tokens of a measured unit's text between two offsets, counting any a
+// boundary cuts through
+function spanTokens({ origin, ends }: Measured["tokens"], start: number, end: number): number {
+  const before = end > origin ? Math.min(firstEndFrom(ends, end - origin) + 1, ends.length) : 0;
+  return before - firstEndFrom(ends, start - origin + 1);
+}
+
+// Index of the first of the sorted `ends` at or after `offset`
+function firstEndFrom(ends: number[], offset: number): number {
+  let low = 0;
+  let high = ends.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (ends[mid] < offset) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+// Split a unit into its longest prefix within `budget` tokens and the rest.
+// At least one word is always taken so the caller makes progress. Sentences
+// and words are measured on the unit's tokens, and only up to the budget.
+function splitToFit(markdown: string, unit: Unit, budget: number): [Unit, Unit | null] {
+  const measured = measure(markdown, unit);
+  for (const words of [false, true]) {
+    let last: Unit | null = null;
+    for (const part of segments(markdown, measured, words)) {
+      if (spanTokens(measured.tokens, measured.start, part.end) > budget) {
+        if (!last) break;
+        return [{ ...measured, end: last.end }, { ...measured, start: part.start }];
+      }
+      last = part;
+    }
+    if (last) return [measured, null];
+  }
+
+  const [first, second] = segments(markdown, measured, true);
+  if (!second) return [measured, null];
+  return [{ ...measured, end: first.end }, { ...measured, start: second.start }];
+}
+
+// Trailing sentences of a chunk's content, up to `budget` tokens
+function overlapTail(markdown: string, units: Unit[], budget: number): Unit[] {
+  const tail: Unit[] = [];
+  for (const unit of [...units].reverse()) {
+    if (unit.heading) break;
+    const measured = measure(markdown, unit);
+    const parts = [...segments(markdown, measured)];
+    let first = parts.length;
+    while (first > 0 && spanTokens(measured.tokens, parts[first - 1].start, measured.end) <= budget) first--;
+    if (first === parts.length) break;
+    const piece = { ...measured, start: parts[first].start, overlap: true };
+    budget -= spanTokens(measured.tokens, piece.start, piece.end);
+    tail.unshift(piece);
+    if (first > 0) break;
+  }
+  return tail;
+}
+
+/**
+ * Split converted markdown (llms-full.txt) into token-bounded chunks for
+ * retrieval. Chunks break at headings and paragraphs where possible, and
+ * record the pages, heading path and character span they came from.
+ */
+export function chunkMarkdown(markdown: string, options: ChunkOptions = {}): Chunk[] {
+  const size = options.size ?? DEFAULT_CHUNK_SIZE;
+  const overlap = Math.min(options.overlap ?? DEFAULT_CHUNK_OVERLAP, Math.floor(size / 2));
+  const queue = splitUnits(markdown, options.pages ?? [1]);
+  const chunks: Chunk[] = [];
+  let current: Unit[] = [];
+
+  // Pieces of one paragraph are rejoined with a space rather than a break
+  const render = (units: Unit[]) =>
+    units
+      .map((u, i) => {
+        const gap = i ? markdown.slice(units[i - 1].end, u.start) : "";
+        return (i ? (gap.includes("\n\n") ? "\n\n" : " ") : "") + markdown.slice(u.start, u.end);
+      })
+      .join("");
+  const hasContent = () => current.some((u) => !u.heading && !u.overlap);
+
+  const emit = () => {
+    const text = render(current);
+    chunks.push({
+      index: chunks.length,
+      text,
+      pages: [...new Set(current.flatMap((u) => u.pages))].sort((a, b) => a - b),
+      headings: current[current.length - 1].headings,
+      start: current[0].start,
+      end: current[current.length - 1].end,
+      tokens: countTokens(text),
+    });
+  };
+
+  while (queue.length) {
+    let unit = queue.shift()!;
+    // Tokens never outnumber characters, so only longer units need counting
+    if (unit.end - unit.start > size) unit = measure(markdown, unit);
+
+    // A heading always starts a new chunk, without overlap
+    if (unit.heading) {
+      if (hasContent()) emit();
+      current = hasContent() ? [] : current.filter((u) => u.heading);
+    }
+
+    const fits = !unit.tokens || spanTokens(unit.tokens, unit.start, unit.end) <= size;
+    if (fits && countTokens(render([...current, unit])) <= size) {
+      current.push(unit);
+      continue;
+    }
+
+    if (hasContent()) {
+      emit();
+      current = overlapTail(markdown, current, overlap);
+      queue.unshift(unit);
+      continue;
+    }
+
+    // Only headings or overlap so far: fill the rest of this chunk with the
+    // start of the unit and carry the remainder over
+    const used = current.length ? countTokens(render(current)) + 1 : 0;
+    const [head, rest] = splitToFit(markdown, unit, size - used);
+    current.push({ ...head, heading: undefined });
+    if (rest) queue.unshift(rest);
+  }
+  if (current.length) emit();
+
+  return chunks;
+}
+
+// One JSON object per line; `source` identifies the document in a batch
+export function toJsonl(chunks: Chunk[], source: string): string {
+  return chunks.map((chunk) => JSON.stringify({ source, ...chunk })).join("\n") + (chunks.length ? "\n" : "");
+}
+
+// Chunk each converted document as JSON Lines, attributing text before the
+// first page marker to the document's first selected page
+export function chunkResults(results: ConversionResult[], options: ConvertOptions, chunking: ChunkOptions): string {
+  return results
+    .map((result) =>
+      toJsonl(
+        chunkMarkdown(result.llmsFullTxt, {
+          ...chunking,
+          pages: selectedPages(options.pages, result.pageCount),
+        }),
+        result.filename
+      )
+    )
+    .join("");
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { pageSeparator } from "@/lib/providers/pages";
+import { agreement, alignPages, comparePages, compareTexts, mergePages, splitPages, type PageSection } from ".";
+
+// llms-full.txt as the pipeline writes it, with one separator per section
+function document(sections: [label: string, page: number, markdown: string][], anchor = "page"): string {
+  return sections.map(([label, page, markdown]) => pageSeparator(label, page, anchor) + markdown).join("").trim() + "\n";
+}
+
+function byPage(markdown: string): Map<number, PageSection> {
+  return new Map(splitPages(markdown).map((section) => [section.page, section]));
+}
+
+describe("splitPages", () => {
+  it("splits at each separator, keeping its label and page", () => {
+    const markdown = document([
+      ["Page 1", 1, "First page."],
+      ["Pages 2-3", 2, "Second and third."],
+      ["Page 4", 4, "Fourth."],
+    ]);
+    expect(splitPages(markdown)).toEqual([
+      { page: 1, label: "Page 1", markdown: "First page." },
+      { page: 2, label: "Pages 2-3", markdown: "Second and third." },
+      { page: 4, label: "Page 4", markdown: "Fourth." },
+    ]);
+  });
+
+  it("reads slide and chapter separators", () => {
+    const markdown = document(
+      [
+        ["Slide 1", 1, "Title"],
+        ["Slide 2", 2, "Agenda"],
+      ],
+      "slide"
+    );
+    expect(splitPages(markdown).map((section) => section.label)).toEqual(["Slide 1", "Slide 2"]);
+  });
+
+  it("gives a document without separators back as page 1", () => {
+    expect(splitPages("\nJust one page.\n")).toEqual([{ page: 1, label: "Page 1", markdown: "Just one page." }]);
+  });
+
+  it("keeps text before the first separator with the first page", () => {
+    const markdown = "# Title\n\n" + document([["Page 1", 1, "Body."], ["Page 2", 2, "More."]]);
+    expect(splitPages(markdown)[0]).toEqual({ page: 1, label: "Page 1", markdown: "# Title\n\nBody." });
+  });
+});
+
+describe("mergePages", () => {
+  it("rejoins sections in page order with their separators", () => {
+    const markdown = document([
+      ["Page 1", 1, "First page."],
+      ["Pages 2-3", 2, "Second and third."],
+      ["Page 4", 4, "Fourth."],
+    ]);
+    expect(mergePages(splitPages(markdown).reverse())).toBe(markdown);
+  });
+
+  it("writes a single section without a separator", () => {
+    expect(mergePages([{ page: 1, label: "Page 1", markdown: "Only page." }])).toBe("Only page.\n");
+  });
+
+  it("merges sections picked from different documents", () => {
+    const a = byPage(document([["Page 1", 1, "A one."], ["Page 2", 2, "A two."]]));
+    const b = byPage(document([["Page 1", 1, "B one."], ["Page 2", 2, "B two."]]));
+    expect(mergePages([b.get(2)!, a.get(1)!])).toBe(document([["Page 1", 1, "A one."], ["Page 2", 2, "B two."]]));
+  });
+});
+
+describe("compareTexts", () => {
+  it("finds no differences between equal texts", () => {
+    const comparison = compareTexts("The same words.", "The same words.");
+    expect(comparison).toEqual({ parts: [{ type: "equal", text: "The same words." }], words: [3, 3], common: 3 });
+    expect(agreement(comparison)).toBe(1);
+  });
+
+  it("marks words only in the first text as deleted and words only in the second as inserted", () => {
+    const comparison = compareTexts("The quick brown fox", "The slow brown fox jumps");
+    expect(comparison.parts).toEqual([
+      { type: "equal", text: "The " },
+      { type: "delete", text: "quick " },
+      { type: "insert", text: "slow " },
+      { type: "equal", text: "brown fox " },
+      { type: "insert", text: "jumps" },
+    ]);
+    expect(comparison.words).toEqual([4, 5]);
+    expect(comparison.common).toBe(3);
+    expect(agreement(comparison)).toBeCloseTo(6 / 9);
+  });
+
+  it("ignores emphasis and code marks", () => {
+    const comparison = compareTexts("Call **run** now", "Call `run` now");
+    expect(comparison.common).toBe(3);
+    expect(comparison.parts.every((part) => part.type === "equal")).toBe(true);
+  });
+
+  it("treats two empty texts as agreeing", () => {
+    expect(agreement(compareTexts("", ""))).toBe(1);
+  });
+});
+
+describe("page alignment", () => {
+  const reference = byPage(
+    document([
+      ["Page 1", 1, "Introduction text."],
+      ["Page 2", 2, "Methods text."],
+      ["Page 3", 3, "Results text."],
+    ])
+  );
+  // A provider that returned the first two pages as one batch and skipped the last
+  const batched = byPage(
+    document([
+      ["Pages 1-2", 1, "Introduction text. Methods text."],
+      ["Page 4", 4, "Appendix."],
+    ])
+  );
+
+  it("lines pages up by number across documents", () => {
+    expect(alignPages([reference, batched])).toEqual([1, 2, 3, 4]);
+    expect(alignPages([])).toEqual([]);
+  });
+
+  it("compares pages only one side has against nothing", () => {
+    const comparisons = comparePages(reference, batched);
+    expect([...comparisons.keys()]).toEqual([1, 2, 3, 4]);
+    expect(comparisons.get(1)).toMatchObject({ words: [2, 4], common: 2 });
+    expect(comparisons.get(2)).toEqual({ parts: [{ type: "delete", text: "Methods text." }], words: [2, 0], common: 0 });
+    expect(comparisons.get(3)).toMatchObject({ words: [2, 0], common: 0 });
+    expect(comparisons.get(4)).toEqual({ parts: [{ type: "insert", text: "Appendix." }], words: [0, 1], common: 0 });
+    expect(agreement(comparisons.get(4)!)).toBe(0);
+  });
+
+  it("compares only the pages it is given", () => {
+    expect([...comparePages(reference, batched, [2]).keys()]).toEqual([2]);
+  });
+});
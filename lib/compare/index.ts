@@ -0,0 +1,165 @@
+import { collapseBlankLines } from "@/lib/optimize/passes";
+import { pageSeparator } from "@/lib/providers/pages";
+
+// A page of llms-full.txt, or a batch of pages a provider returned as one
+export interface PageSection {
+  page: number;
+  // Heading of its separator, such as "Page 3" or "Pages 4-6"
+  label: string;
+  markdown: string;
+}
+
+export interface DiffPart {
+  type: "equal" | "insert" | "delete";
+  // Words with the whitespace that followed them
+  text: string;
+}
+
+export interface TextComparison {
+  parts: DiffPart[];
+  // Words in each text, and words the two have in common
+  words: [number, number];
+  common: number;
+}
+
+// The separators pageSeparator writes, once optimizeForLLMs has run
+const SEPARATOR = /^---\n+<a id="(?:page|slide|chapter)-(\d+)"><\/a>\n+## (.+)$/gm;
+
+// Diffs bigger than this many word pairs are shown as replaced outright,
+// since the table would take too long to fill
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Split llms-full.txt at its page separators. A single-page document has
+ * none and comes back as page 1.
+ */
+export function splitPages(markdown: string): PageSection[] {
+  const markers = [...markdown.matchAll(SEPARATOR)];
+  if (!markers.length) return [{ page: 1, label: "Page 1", markdown: markdown.trim() }];
+
+  return markers.map((marker, i) => {
+    const end = markers[i + 1]?.index ?? markdown.length;
+    const text = markdown.slice(marker.index + marker[0].length, end).trim();
+    // Anything before the first separator belongs to the first page
+    const before = i ? "" : markdown.slice(0, marker.index).trim();
+    return { page: Number(marker[1]), label: marker[2], markdown: before ? `${before}\n\n${text}` : text };
+  });
+}
+
+// Rejoin sections, in page order, into llms-full.txt markdown
+export function mergePages(sections: PageSection[]): string {
+  const sorted = [...sections].sort((a, b) => a.page - b.page);
+  if (sorted.length === 1) return sorted[0].markdown + "\n";
+  const markdown = sorted.map((section) => pageSeparator(section.label, section.page) + section.markdown).join("");
+  return collapseBlankLines(markdown).trim() + "\n";
+}
+
+function words(text: string): string[] {
+  return text.match(/^\s+|\S+\s*/g) ?? [];
+}
+
+// Markdown emphasis and code marks are not disagreements over the text
+function wordKey(word: string): string {
+  return word.trim().replace(/[*_`]/g, "");
+}
+
+/**
+ * Word-level diff of `a` against `b`, from their longest common
+ * subsequence of words. Deletions are words only in `a`, insertions words
+ * only in `b`.
+ */
+export function compareTexts(a: string, b: string): TextComparison {
+  const left = words(a);
+  const right = words(b);
+  const leftKeys = left.map(wordKey);
+  const rightKeys = right.map(wordKey);
+  const counted = (list: string[]) => list.filter(Boolean).length;
+
+  // Common prefix and suffix need no table
+  let prefix = 0;
+  while (prefix < left.length && prefix < right.length && leftKeys[prefix] === rightKeys[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < left.length - prefix &&
+    suffix < right.length - prefix &&
+    leftKeys[left.length - 1 - suffix] === rightKeys[right.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart["type"], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+
+  for (const word of right.slice(0, prefix)) push("equal", word);
+  let common = counted(leftKeys.slice(0, prefix)) + counted(leftKeys.slice(left.length - suffix));
+
+  const x = leftKeys.slice(prefix, left.length - suffix);
+  const y = rightKeys.slice(prefix, right.length - suffix);
+  const width = y.length + 1;
+
+  if (x.length * y.length > MAX_DIFF_CELLS) {
+    for (const word of left.slice(prefix, left.length - suffix)) push("delete", word);
+    for (const word of right.slice(prefix, right.length - suffix)) push("insert", word);
+  } else {
+    // lengths[i * width + j]: common words of x[i..] and y[j..]
+    const lengths = new Uint32Array((x.length + 1) * width);
+    for (let i = x.length - 1; i >= 0; i--) {
+      for (let j = y.length - 1; j >= 0; j--) {
+        lengths[i * width + j] =
+          x[i] === y[j]
+            ? lengths[(i + 1) * width + j + 1] + 1
+            : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < x.length || j < y.length) {
+      if (i < x.length && j < y.length && x[i] === y[j]) {
+        push("equal", right[prefix + j]);
+        if (x[i]) common++;
+        i++;
+        j++;
+      } else if (i < x.length && (j === y.length || lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+        push("delete", left[prefix + i++]);
+      } else {
+        push("insert", right[prefix + j++]);
+      }
+    }
+  }
+
+  for (const word of right.slice(right.length - suffix)) push("equal", word);
+  return { parts, words: [counted(leftKeys), counted(rightKeys)], common };
+}
+
+/**
+ * Page numbers found in any of the documents, in order. A provider that
+ * returned a batch of pages as one section leaves the rest of the batch to
+ * the others.
+ */
+export function alignPages(documents: Map<number, PageSection>[]): number[] {
+  return [...new Set(documents.flatMap((sections) => [...sections.keys()]))].sort((a, b) => a - b);
+}
+
+/**
+ * `compareTexts` for each of `pages`. A page only one document has is
+ * compared against nothing, so its words are all deletions or insertions.
+ */
+export function comparePages(
+  a: Map<number, PageSection>,
+  b: Map<number, PageSection>,
+  pages = alignPages([a, b])
+): Map<number, TextComparison> {
+  return new Map(
+    pages.map((page) => [page, compareTexts(a.get(page)?.markdown ?? "", b.get(page)?.markdown ?? "")])
+  );
+}
+
+// Share of words two texts agree on, from 0 to 1; two empty texts agree
+export function agreement({ words: [left, right], common }: Pick<TextComparison, "words" | "common">): number {
+  return left + right ? (2 * common) / (left + right) : 1;
+}
@@ -0,0 +1,677 @@
+import { removeBoilerplate, type BoilerplateLine } from "@/lib/boilerplate";
+import { cacheKey, getResultCache, hashBytes, type CacheStatus } from "@/lib/cache";
+import { mapSettled } from "@/lib/concurrency";
+import { ProviderError, RequestError, type ErrorCode } from "@/lib/errors";
+import { DEFAULT_IMAGE_MODE, IMAGE_MODES, createFigureRewriter, isImageMode, type ImageAsset, type ImageMode } from "@/lib/figures";
+import {
+  INPUT_FORMATS,
+  detectFormat,
+  getInputFormat,
+  imageToPdf,
+  readLocalDocument,
+  type InputFormatId,
+  type LocalFormatId,
+} from "@/lib/inputs";
+import { DEFAULT_PRESET, PASSES, PRESETS, PRESET_IDS, isPassId, isPresetId, optimizeForLLMs, type PassId } from "@/lib/optimize";
+import { formatPageSpec, parsePageSpec, resolvePages } from "@/lib/pdf/ranges";
+import { buildLlmsTxt, validateLlmsFullTxt, validateLlmsTxt } from "@/lib/llmstxt";
+import { openPdf, type OpenedPdf } from "@/lib/pdf/open";
+import { extractPages } from "@/lib/pdf/subset";
+import { readTextStyle } from "@/lib/pdf/text-layer";
+import { estimateCost } from "@/lib/pricing";
+import { normalizeTables, type ExtractedTable } from "@/lib/tables";
+import { DEFAULT_TOKENIZER, TOKENIZERS, countTokens, isTokenizerId, type TokenizerId } from "@/lib/tokens";
+import {
+  DEFAULT_OCR_PROVIDER,
+  DEFAULT_PROVIDER,
+  PROVIDERS,
+  getProviderInfo,
+  processWithFallback,
+  isProviderId,
+  sumUsage,
+  type OcrImage,
+  type ProviderUsage,
+  type OcrResult,
+  type ProviderId,
+} from "@/lib/providers";
+import { pageSeparator } from "@/lib/providers/pages";
+
+export { RequestError } from "@/lib/errors";
+
+// Pages per provider call, and how many calls may run at once
+const BATCH_PAGES = Number(process.env.OCR_BATCH_PAGES) || 10;
+const DEFAULT_CONCURRENCY = Number(process.env.OCR_CONCURRENCY) || 3;
+export const MAX_CONCURRENCY = 10;
+export const MAX_FILES = 20;
+export const MAX_FILE_MB = Number(process.env.MAX_FILE_MB) || 50;
+// Whole request body for batches; single-file requests get MAX_FILE_MB
+// plus room for the other fields
+const MAX_UPLOAD_MB = Number(process.env.MAX_UPLOAD_MB) || 200;
+const FORM_OVERHEAD_MB = 1;
+// Pages, slides or chapters selected for one conversion
+export const MAX_PAGES = Number(process.env.MAX_PAGES) || 1000;
+// Part of the cache key; bump when post-processing changes the output
+const PIPELINE_VERSION = 10;
+
+export interface ConvertOptions {
+  provider: ProviderId;
+  ocrProvider: ProviderId;
+  // Page selection such as "1-10,15,20-"; all pages when omitted. Selects
+  // slides in presentations and chapters in EPUBs.
+  pages?: string;
+  concurrency?: number;
+  batchSize?: number;
+  // Skip the result cache lookup (the fresh result is still stored)
+  noCache?: boolean;
+  // How figures appear in the output; "strip" when omitted
+  images?: ImageMode;
+  // Decrypts password-protected PDFs locally. Never stored or cached.
+  password?: string;
+  // Post-processing passes (lib/optimize); the default preset when omitted
+  passes?: PassId[];
+  // Keep equations as $...$ and $$...$$ LaTeX (lib/math)
+  math?: boolean;
+  // Tokenizer for the reported token count; cl100k_base when omitted
+  tokenizer?: TokenizerId;
+}
+
+export interface FailedBatch {
+  // Page spec that can be sent back as `pages` to retry just this batch
+  pages: string;
+  error: string;
+  code: ErrorCode;
+}
+
+// A batch converted by a fallback after the requested provider failed
+export interface FallbackBatch {
+  pages: string;
+  provider: ProviderId;
+  // Why the requested provider failed
+  code: ErrorCode;
+}
+
+export interface ConversionResult {
+  // Same as llmsFullTxt; kept for existing clients
+  text: string;
+  llmsTxt: string;
+  llmsFullTxt: string;
+  title: string;
+  summary: string;
+  // Pages, slides or chapters converted; 1 for DOCX and HTML
+  pageCount: number;
+  filename: string;
+  // Detected from the file's contents
+  format: InputFormatId;
+  // Only used for PDFs and images; other formats are converted locally
+  provider: ProviderId;
+  extraction?: { native: number[]; ocr: number[] };
+  // Tables found in the document, also rendered as GFM in the text
+  tables?: ExtractedTable[];
+  // Figures saved as separate files (images=extract)
+  images?: ImageAsset[];
+  // Running headers, footers and page numbers removed from the text
+  boilerplate?: BoilerplateLine[];
+  failedBatches?: FailedBatch[];
+  fallbacks?: FallbackBatch[];
+  cache?: CacheStatus;
+  // Billing the providers reported, summed over every batch; absent for
+  // local formats and cache hits
+  usage?: ProviderUsage;
+  // USD, estimated from the price table in lib/pricing
+  estimatedCost?: number;
+  // Wall-clock time of the conversion, cache lookup included
+  latencyMs?: number;
+  // Size of llms-full.txt under the requested tokenizer
+  tokens?: { tokenizer: TokenizerId; count: number };
+}
+
+export interface ConvertedPage {
+  page: number;
+  markdown: string;
+}
+
+export interface ConvertHooks {
+  signal?: AbortSignal;
+  // Number of selected pages (slides, chapters), before any provider call
+  onStart?: (totalPages: number) => void;
+  // Finished pages, always delivered in document order
+  onPages?: (pages: ConvertedPage[], pagesDone: number, totalPages: number) => void;
+}
+
+/**
+ * Read a multipart body, refusing it by Content-Length and again while
+ * streaming once it passes the size limit, so oversized uploads are never
+ * buffered whole.
+ */
+export async function readUploadForm(request: Request, { multiple = false } = {}): Promise<FormData> {
+  const limitMb = multiple ? MAX_UPLOAD_MB : MAX_FILE_MB + FORM_OVERHEAD_MB;
+  const tooLarge = () =>
+    new RequestError(
+      multiple ? `Uploads must be under ${MAX_UPLOAD_MB}MB in total` : `Files must be under ${MAX_FILE_MB}MB`,
+      "FILE_TOO_LARGE"
+    );
+
+  if (Number(request.headers.get("content-length")) > limitMb * 1024 * 1024) throw tooLarge();
+  if (!request.body) throw new RequestError("No file provided");
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = request.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > limitMb * 1024 * 1024) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+
+  try {
+    const body = new Blob(chunks as BlobPart[]);
+    return await new Response(body, { headers: { "Content-Type": request.headers.get("content-type") ?? "" } }).formData();
+  } catch {
+    throw new RequestError("Expected a multipart/form-data body");
+  }
+}
+
+// Validate the multipart fields shared by /api/ocr and /api/jobs. Repeated
+// `file` fields are only accepted when `multiple` is set. Files are checked
+// by their contents; corrupt and encrypted files are caught when the
+// conversion opens them.
+export async function parseConvertForm(
+  formData: FormData,
+  { multiple = false } = {}
+): Promise<{ files: File[]; options: ConvertOptions }> {
+  const files = formData.getAll("file").filter((entry): entry is File => typeof entry !== "string");
+
+  if (!files.length) {
+    throw new RequestError("No file provided");
+  }
+
+  if (files.length > 1 && !multiple) {
+    throw new RequestError("This endpoint accepts one file; use /api/ocr for batches");
+  }
+
+  if (files.length > MAX_FILES) {
+    throw new RequestError(`At most ${MAX_FILES} files can be converted at once`);
+  }
+
+  for (const file of files) {
+    const which = files.length > 1 ? ` (${file.name})` : "";
+    if (file.size > MAX_FILE_MB * 1024 * 1024) {
+      throw new RequestError(`Files must be under ${MAX_FILE_MB}MB${which}`, "FILE_TOO_LARGE");
+    }
+    if (!detectFormat(new Uint8Array(await file.arrayBuffer()), file.name)) {
+      throw unsupportedType(which);
+    }
+  }
+
+  return { files, options: parseConvertOptions(formData) };
+}
+
+// Validate the conversion options in a form, without its files. The CLI
+// passes its flags through here so they are checked like API fields.
+export function parseConvertOptions(formData: FormData): ConvertOptions {
+  const provider = (formData.get("provider") as string) || DEFAULT_PROVIDER;
+  const ocrProvider = (formData.get("ocrProvider") as string) || DEFAULT_OCR_PROVIDER;
+  const pages = (formData.get("pages") as string | null)?.trim() || undefined;
+  const concurrency = formData.get("concurrency") as string | null;
+  const noCache = ["true", "1", "on"].includes((formData.get("noCache") as string | null) ?? "");
+  const math = ["true", "1", "on"].includes((formData.get("math") as string | null) ?? "");
+  const images = (formData.get("images") as string) || DEFAULT_IMAGE_MODE;
+  const password = (formData.get("password") as string | null) || undefined;
+  const preset = (formData.get("preset") as string) || DEFAULT_PRESET;
+  const tokenizer = (formData.get("tokenizer") as string) || DEFAULT_TOKENIZER;
+  const passOverrides = (formData.get("passes") as string | null)?.trim();
+
+  if (!isProviderId(provider)) {
+    throw new RequestError(
+      `Unknown provider "${provider}". Expected one of: ${PROVIDERS.map((p) => p.id).join(", ")}`
+    );
+  }
+
+  if (!isProviderId(ocrProvider) || ocrProvider === "native") {
+    throw new RequestError(`Invalid ocrProvider "${ocrProvider}"`);
+  }
+
+  if (!isImageMode(images)) {
+    throw new RequestError(`Unknown images mode "${images}". Expected one of: ${IMAGE_MODES.join(", ")}`);
+  }
+
+  if (!isPresetId(preset)) {
+    throw new RequestError(`Unknown preset "${preset}". Expected one of: ${PRESET_IDS.join(", ")}`);
+  }
+
+  if (!isTokenizerId(tokenizer)) {
+    throw new RequestError(`Unknown tokenizer "${tokenizer}". Expected one of: ${TOKENIZERS.join(", ")}`);
+  }
+
+  // Syntax only; bounds are checked once the page count is known
+  if (pages) parsePageSpec(pages);
+
+  const passes = passOverrides ? applyPassOverrides(PRESETS[preset], passOverrides) : [...PRESETS[preset]];
+
+  const options: ConvertOptions = {
+    provider,
+    ocrProvider,
+    pages,
+    ...(noCache && { noCache }),
+    ...(images !== DEFAULT_IMAGE_MODE && { images }),
+    ...(password && { password }),
+    ...(passes.join() !== PRESETS[DEFAULT_PRESET].join() && { passes }),
+    ...(math && { math }),
+    ...(tokenizer !== DEFAULT_TOKENIZER && { tokenizer }),
+  };
+
+  if (concurrency) {
+    const value = Number(concurrency);
+    if (!Number.isInteger(value) || value < 1 || value > MAX_CONCURRENCY) {
+      throw new RequestError(`concurrency must be an integer from 1 to ${MAX_CONCURRENCY}`);
+    }
+    options.concurrency = value;
+  }
+
+  return options;
+}
+
+// Turn passes on ("punctuation") or off ("-unwrap") on top of a preset
+function applyPassOverrides(preset: readonly PassId[], overrides: string): PassId[] {
+  const passes = new Set(preset);
+  for (const entry of overrides.split(",").map((part) => part.trim()).filter(Boolean)) {
+    const id = entry.replace(/^[-+]/, "");
+    if (!isPassId(id)) {
+      throw new RequestError(`Unknown pass "${id}". Expected one of: ${PASSES.map((pass) => pass.id).join(", ")}`);
+    }
+    if (entry.startsWith("-")) passes.delete(id);
+    else passes.add(id);
+  }
+  return PASSES.map((pass) => pass.id).filter((id) => passes.has(id));
+}
+
+function unsupportedType(which = ""): RequestError {
+  const extensions = INPUT_FORMATS.flatMap((format) => format.extensions);
+  return new RequestError(`Unsupported file type${which}. Expected one of: ${extensions.join(", ")}`, "UNSUPPORTED_TYPE");
+}
+
+// Resolve the `pages` option against a document's pages (slides, chapters)
+function selectPages(spec: string | undefined, count: number): number[] {
+  const selected = spec ? resolvePages(parsePageSpec(spec), count) : Array.from({ length: count }, (_, i) => i + 1);
+  if (selected.length > MAX_PAGES) {
+    throw new RequestError(
+      `At most ${MAX_PAGES} pages can be converted at once; ${selected.length} are selected`,
+      "TOO_MANY_PAGES"
+    );
+  }
+  return selected;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+// Split a batch result into pages when the provider returned them separately
+function batchPages(batch: number[], result: OcrResult): ConvertedPage[] | null {
+  if (result.pages?.length !== batch.length) return null;
+  return batch.map((page, i) => ({ page, markdown: result.pages![i] }));
+}
+
+/**
+ * Convert an upload of any supported format. PDFs go to the provider, and
+ * images too, as a one-page PDF. Office documents, EPUBs and HTML are
+ * converted locally. Every format then goes through the same
+ * post-processing and llms.txt output, and the result reports what it
+ * cost, how long it took and how many tokens it came to.
+ */
+export async function convertDocument(
+  bytes: ArrayBuffer,
+  filename: string,
+  options: ConvertOptions,
+  hooks: ConvertHooks = {}
+): Promise<ConversionResult> {
+  const started = performance.now();
+  const input = new Uint8Array(bytes);
+  const format = detectFormat(input, filename);
+  if (!format) throw unsupportedType();
+
+  const result =
+    format === "pdf"
+      ? await convertPdf(input, filename, format, options, hooks)
+      : format === "image"
+        ? await convertPdf(await imageToPdf(input), filename, format, options, hooks)
+        : await convertLocal(input, filename, format, options, hooks);
+
+  const tokenizer = options.tokenizer ?? DEFAULT_TOKENIZER;
+  return {
+    ...result,
+    estimatedCost: result.estimatedCost ?? 0,
+    latencyMs: Math.round(performance.now() - started),
+    tokens: { tokenizer, count: countTokens(result.llmsFullTxt, tokenizer) },
+  };
+}
+
+/**
+ * Run a PDF through its provider and the llms.txt optimizations, or return
+ * the cached result for the same bytes and output-affecting options.
+ * Partial results (with failed batches) are never cached. Corrupt,
+ * truncated and locked PDFs, and selections over MAX_PAGES, are rejected
+ * with a RequestError before any provider is called.
+ */
+async function convertPdf(
+  bytes: Uint8Array,
+  filename: string,
+  format: "pdf" | "image",
+  options: ConvertOptions,
+  hooks: ConvertHooks
+): Promise<ConversionResult> {
+  const pdf = await openPdf(bytes, options.password);
+  const selected = selectPages(options.pages, pdf.pageCount);
+
+  const cache = getResultCache();
+  if (!cache) return runConversion(pdf, selected, filename, format, options, hooks);
+
+  // Decrypted bytes, so a cached result is only served to whoever can
+  // open the document
+  const key = cacheKey(hashBytes(pdf.bytes), {
+    provider: options.provider,
+    model: getProviderInfo(options.provider).model,
+    ...(options.provider === "native" && {
+      ocrProvider: options.ocrProvider,
+      ocrModel: getProviderInfo(options.ocrProvider).model,
+    }),
+    pages: options.pages,
+    // Providers see one batch at a time, so it shapes the output
+    batchSize: options.batchSize ?? BATCH_PAGES,
+    images: options.images,
+    passes: options.passes?.join(","),
+    math: options.math,
+    pipeline: PIPELINE_VERSION,
+  });
+
+  if (!options.noCache) {
+    const cached = await cache.get(key);
+    if (cached) {
+      hooks.onStart?.(cached.pageCount);
+      // Nothing was billed this time
+      return { ...cached, filename, cache: "hit", usage: undefined, estimatedCost: 0 };
+    }
+  }
+
+  // Partial and fallback results would mask the provider recovering
+  const result = await runConversion(pdf, selected, filename, format, options, hooks);
+  if (!result.failedBatches && !result.fallbacks) {
+    await cache.set(key, result).catch((error) => console.warn("Result cache write failed:", error));
+  }
+  return { ...result, cache: options.noCache ? "bypass" : "miss" };
+}
+
+/**
+ * Selected pages are sent in batches of `batchSize`, up to `concurrency`
+ * at a time, and merged back in order. A failed batch is reported in
+ * `failedBatches` instead of failing the whole conversion, unless every
+ * batch fails.
+ */
+async function runConversion(
+  pdf: OpenedPdf,
+  selected: number[],
+  filename: string,
+  format: "pdf" | "image",
+  options: ConvertOptions,
+  hooks: ConvertHooks
+): Promise<ConversionResult> {
+  const { bytes: source, pageCount: documentPages, title: metadataTitle } = pdf;
+
+  const batches = chunk(selected, options.batchSize ?? BATCH_PAGES);
+  // Small documents go to the provider untouched
+  const whole = selected.length === documentPages && batches.length === 1;
+  // Batches of the native provider rank headings over the whole document
+  const textStyle = options.provider === "native" && !whole ? await readTextStyle(source) : undefined;
+  hooks.onStart?.(selected.length);
+
+  const completed: (ConvertedPage[] | null)[] = [];
+  let emitted = 0;
+  let pagesDone = 0;
+
+  // Report the finished prefix so pages always arrive in document order
+  const flush = () => {
+    while (emitted < batches.length && emitted in completed) {
+      const pages = completed[emitted++];
+      if (pages) hooks.onPages?.(pages, pagesDone, selected.length);
+    }
+  };
+
+  const settled = await mapSettled(batches, options.concurrency ?? DEFAULT_CONCURRENCY, async (batch, index) => {
+    hooks.signal?.throwIfAborted();
+    try {
+      const input = whole ? source : await extractPages(source, batch);
+      const outcome = await processWithFallback(options.provider, Buffer.from(input).toString("base64"), {
+        ocrProvider: options.ocrProvider,
+        signal: hooks.signal,
+        images: options.images,
+        math: options.math,
+        textStyle,
+      });
+      const { result } = outcome;
+      pagesDone += batch.length;
+      completed[index] = batchPages(batch, result) ?? [{ page: batch[0], markdown: result.text }];
+      return outcome;
+    } catch (error) {
+      completed[index] = null;
+      throw error;
+    } finally {
+      flush();
+    }
+  });
+
+  hooks.signal?.throwIfAborted();
+
+  const sections: Section[] = [];
+  const failedBatches: FailedBatch[] = [];
+  // Pages per fallback provider and reason, merged across batches
+  const fallbackPages = new Map<string, { provider: ProviderId; code: ErrorCode; pages: number[] }>();
+  let failedPages = 0;
+  const extraction = { native: [] as number[], ocr: [] as number[] };
+  const usages: ProviderUsage[] = [];
+  let cost = 0;
+
+  settled.forEach((outcome, index) => {
+    const batch = batches[index];
+    if (outcome.status === "rejected") {
+      const error = outcome.reason;
+      failedBatches.push({
+        pages: formatPageSpec(batch),
+        error: error instanceof Error ? error.message : "OCR processing failed",
+        code: error instanceof ProviderError ? error.code : "INTERNAL_ERROR",
+      });
+      failedPages += batch.length;
+      return;
+    }
+
+    const { result, provider, failures } = outcome.value;
+    if (result.usage) {
+      usages.push(result.usage);
+      // The native provider only bills through its OCR provider
+      cost += estimateCost(provider === "native" ? options.ocrProvider : provider, result.usage);
+    }
+    if (failures.length) {
+      const { code } = failures[0];
+      const key = `${provider}:${code}`;
+      if (!fallbackPages.has(key)) fallbackPages.set(key, { provider, code, pages: [] });
+      fallbackPages.get(key)!.pages.push(...batch);
+    }
+    const pages = batchPages(batch, result);
+    if (pages) {
+      pages.forEach(({ page, markdown }) =>
+        sections.push({ label: `Page ${page}`, page, markdown, images: result.images })
+      );
+    } else {
+      const spec = formatPageSpec(batch);
+      sections.push({
+        label: batch.length > 1 ? `Pages ${spec}` : `Page ${spec}`,
+        page: batch[0],
+        markdown: result.text,
+        images: result.images,
+      });
+    }
+
+    // Provider page numbers are relative to the batch
+    if (result.extraction) {
+      extraction.native.push(...result.extraction.native.map((n) => batch[n - 1]));
+      extraction.ocr.push(...result.extraction.ocr.map((n) => batch[n - 1]));
+    }
+  });
+
+  if (!sections.length) {
+    throw settled.find((s): s is PromiseRejectedResult => s.status === "rejected")!.reason;
+  }
+
+  const fallbacks: FallbackBatch[] = [...fallbackPages.values()].map(({ pages, ...rest }) => ({
+    pages: formatPageSpec(pages.sort((x, y) => x - y)),
+    ...rest,
+  }));
+  const usage = sumUsage(usages);
+
+  return {
+    ...finishConversion(sections, {
+      filename,
+      format,
+      options,
+      pageCount: selected.length - failedPages,
+      metadataTitle,
+      partial: failedBatches.length > 0,
+    }),
+    ...(options.provider === "native" && { extraction }),
+    ...(failedBatches.length && { failedBatches }),
+    ...(fallbacks.length && { fallbacks }),
+    ...(usage && { usage }),
+    // To 1/100 of a cent
+    estimatedCost: Math.round(cost * 10_000) / 10_000,
+  };
+}
+
+/**
+ * Convert DOCX, PPTX, EPUB and HTML without a provider. Slides and
+ * chapters are sections that `pages` can select; DOCX and HTML are one
+ * section. Results are not cached, since converting again is cheap.
+ */
+async function convertLocal(
+  bytes: Uint8Array,
+  filename: string,
+  format: LocalFormatId,
+  options: ConvertOptions,
+  hooks: ConvertHooks
+): Promise<ConversionResult> {
+  const document = readLocalDocument(format, bytes);
+  const selected = selectPages(options.pages, document.sections.length);
+  const { unit } = getInputFormat(format);
+  hooks.onStart?.(selected.length);
+
+  const sections: Section[] = selected.map((n) => ({
+    label: `${unit === "slide" ? "Slide" : unit === "chapter" ? "Chapter" : "Page"} ${n}`,
+    page: n,
+    ...document.sections[n - 1],
+  }));
+  hooks.onPages?.(
+    sections.map(({ page, markdown }) => ({ page, markdown })),
+    selected.length,
+    selected.length
+  );
+
+  return finishConversion(sections, {
+    filename,
+    format,
+    options,
+    pageCount: selected.length,
+    metadataTitle: document.title,
+  });
+}
+
+// A page, slide or chapter, or a batch of pages the provider returned as one
+interface Section {
+  label: string;
+  page: number;
+  markdown: string;
+  images?: OcrImage[];
+}
+
+/**
+ * Post-processing shared by every format: boilerplate removal (for pages
+ * and slides), figures, tables, separators between sections, then the
+ * llms.txt files, validated before they are returned.
+ */
+function finishConversion(
+  sections: Section[],
+  {
+    filename,
+    format,
+    options,
+    pageCount,
+    metadataTitle,
+    partial = false,
+  }: {
+    filename: string;
+    format: InputFormatId;
+    options: ConvertOptions;
+    pageCount: number;
+    metadataTitle?: string;
+    // Some pages failed, so separators show which ones are present
+    partial?: boolean;
+  }
+): ConversionResult {
+  const { unit } = getInputFormat(format);
+
+  // Chapters often open with the same kind of heading ("Chapter 3"), which
+  // must not be mistaken for a running header
+  const boilerplate =
+    unit === "page" || unit === "slide"
+      ? removeBoilerplate(
+          sections.map((section) => section.markdown),
+          sections.map((section) => section.page)
+        )
+      : { pages: sections.map((section) => section.markdown), removed: [] };
+  sections.forEach((section, i) => (section.markdown = boilerplate.pages[i]));
+
+  // Tables and figures in a multi-page section are attributed to its first page
+  const figures = createFigureRewriter(options.images ?? DEFAULT_IMAGE_MODE);
+  const tables: ExtractedTable[] = [];
+  for (const section of sections) {
+    const normalized = normalizeTables(figures.rewrite(section.markdown, section.page, section.images));
+    section.markdown = normalized.markdown;
+    for (const table of normalized.tables) {
+      tables.push({ ...table, index: tables.length + 1, page: section.page });
+    }
+  }
+
+  const text = sections
+    .map(({ label, page, markdown }) =>
+      sections.length > 1 || partial ? pageSeparator(label, page, unit ?? "page") + markdown : markdown
+    )
+    .join("");
+
+  // Optimize for LLMs.txt format
+  const markdown = optimizeForLLMs(text, { passes: options.passes, math: options.math });
+  const { llmsTxt, llmsFullTxt, title, summary } = buildLlmsTxt({ markdown, filename, pageCount, unit, metadataTitle });
+
+  const problems = [...validateLlmsTxt(llmsTxt), ...validateLlmsFullTxt(llmsFullTxt, llmsTxt)];
+  if (problems.length) {
+    console.warn(`llms.txt validation failed for ${filename}:`, problems);
+  }
+
+  return {
+    text: llmsFullTxt,
+    llmsTxt,
+    llmsFullTxt,
+    title,
+    summary,
+    pageCount,
+    filename,
+    format,
+    provider: options.provider,
+    ...(tables.length && { tables }),
+    ...(figures.assets.length && { images: figures.assets }),
+    ...(boilerplate.removed.length && { boilerplate: boilerplate.removed }),
+  };
+}
@@ -0,0 +1,91 @@
+// Machine-readable error codes returned as `{ error, code }`, with the HTTP
+// status each maps to and a hint the UI and docs show for it
+export const ERROR_CODES = {
+  INVALID_REQUEST: { status: 400, hint: "Check the request fields and try again." },
+  UNAUTHORIZED: {
+    status: 401,
+    hint: "Send an API key as an Authorization: Bearer header, or reload the page to start a new session.",
+  },
+  UNSUPPORTED_TYPE: {
+    status: 415,
+    hint: "Upload a PDF, PNG or JPEG image, Word (DOCX), PowerPoint (PPTX), EPUB or HTML file.",
+  },
+  FILE_TOO_LARGE: { status: 413, hint: "The file is over the size limit. Split it or upload fewer pages." },
+  TOO_MANY_PAGES: { status: 413, hint: "Select fewer pages with the pages field, or split the document." },
+  CORRUPT_PDF: { status: 422, hint: "The file is damaged or incomplete. Re-export or download it again." },
+  CORRUPT_FILE: { status: 422, hint: "The file is damaged or incomplete. Re-save or download it again." },
+  PASSWORD_REQUIRED: { status: 422, hint: "The PDF is encrypted. Enter its password and convert again." },
+  INVALID_PASSWORD: { status: 422, hint: "The password is wrong. Either the user or the owner password works." },
+  NOT_FOUND: { status: 404, hint: "Nothing exists at this id; it may have expired." },
+  RATE_LIMITED: { status: 429, hint: "Too many requests. Wait the Retry-After seconds and try again." },
+  QUOTA_EXCEEDED: { status: 429, hint: "The monthly page quota is used up. It resets on the 1st (UTC)." },
+  PROVIDER_RATE_LIMITED: {
+    status: 429,
+    hint: "The OCR provider is rate limiting requests. Wait a minute, or switch provider.",
+  },
+  PROVIDER_UNAVAILABLE: {
+    status: 503,
+    hint: "The OCR provider is down or timing out. Try again shortly, or switch provider.",
+  },
+  PROVIDER_ERROR: {
+    status: 502,
+    hint: "The OCR provider rejected the document. Another provider may handle it.",
+  },
+  INTERNAL_ERROR: { status: 500, hint: "Something went wrong on our side. Try again." },
+} as const;
+
+export type ErrorCode = keyof typeof ERROR_CODES;
+
+export interface ErrorBody {
+  error: string;
+  code: ErrorCode;
+}
+
+// A client error that routes turn into a JSON `{ error, code }` response,
+// with any `headers` (such as Retry-After) set on it
+export class RequestError extends Error {
+  public status: number;
+
+  constructor(
+    message: string,
+    public code: ErrorCode = "INVALID_REQUEST",
+    public headers?: Record<string, string>
+  ) {
+    super(message);
+    this.name = "RequestError";
+    this.status = ERROR_CODES[code].status;
+  }
+}
+
+// An upstream OCR failure after retries. `retryable` failures are the ones
+// worth retrying or sending to a fallback provider.
+export class ProviderError extends Error {
+  public status: number;
+
+  constructor(
+    message: string,
+    public code: "PROVIDER_RATE_LIMITED" | "PROVIDER_UNAVAILABLE" | "PROVIDER_ERROR",
+    public provider: string,
+    public retryable = code !== "PROVIDER_ERROR"
+  ) {
+    super(message);
+    this.name = "ProviderError";
+    this.status = ERROR_CODES[code].status;
+  }
+}
+
+// Status and body for any error a route catches. Unexpected errors are
+// logged and reported without their internal message.
+export function toErrorResponse(
+  error: unknown,
+  context = "OCR Error"
+): { status: number; body: ErrorBody; headers?: Record<string, string> } {
+  if (error instanceof RequestError) {
+    return { status: error.status, body: { error: error.message, code: error.code }, headers: error.headers };
+  }
+  if (error instanceof ProviderError) {
+    return { status: error.status, body: { error: error.message, code: error.code } };
+  }
+  console.error(`${context}:`, error);
+  return { status: 500, body: { error: "OCR processing failed", code: "INTERNAL_ERROR" } };
+}
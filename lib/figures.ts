@@ -0,0 +1,95 @@
+import { linkText, plainText } from "@/lib/llmstxt/markdown";
+import type { OcrImage } from "@/lib/providers/types";
+
+export const IMAGE_MODES = ["strip", "placeholder", "describe", "extract"] as const;
+export type ImageMode = (typeof IMAGE_MODES)[number];
+export const DEFAULT_IMAGE_MODE: ImageMode = "strip";
+
+export function isImageMode(value: string): value is ImageMode {
+  return (IMAGE_MODES as readonly string[]).includes(value);
+}
+
+// An image saved next to the markdown in `extract` mode
+export interface ImageAsset {
+  // Relative path used in the markdown, e.g. images/figure-1.jpeg
+  path: string;
+  page: number;
+  mimeType: string;
+  // Base64 without the data: prefix
+  data: string;
+  caption?: string;
+}
+
+// A markdown image or <img> tag, optionally followed by a caption line such
+// as "Figure 3: Revenue by region"
+const FIGURE =
+  /(!\[([^\]]*)\]\(\s*<?([^)\s>]*)>?(?:\s+"([^"]*)")?\s*\)|<img\b[^>]*>)(?:[ \t]*\n(?:[ \t]*\n)?[ \t]*((?:\*\*|\*|_)?(?:Figure|Fig\.|Chart|Diagram)\s*\d+[^\n]*))?/gi;
+const CAPTION_PREFIX = /^(?:Figure|Fig\.|Chart|Diagram)\s*\d+[.:]?\s*/i;
+// Alt text that is just the provider's file name for the image
+const GENERATED_ALT = /^(img-\d+(\.\w+)?|image\d*|figure|picture|)$|\.(png|jpe?g|gif|webp|svg)$/i;
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpeg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/svg+xml": "svg",
+};
+
+function attribute(tag: string, name: string): string {
+  return tag.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`, "i"))?.[1] ?? "";
+}
+
+function parseDataUri(uri: string): { mimeType: string; data: string } | null {
+  const match = uri.match(/^data:([\w/+.-]+);base64,(.+)$/);
+  return match ? { mimeType: match[1], data: match[2] } : null;
+}
+
+/**
+ * Rewrites figure references according to the image mode, numbering
+ * figures across calls so a document split into batches reads as one.
+ * `extract` collects the provider's image data into `assets`; figures
+ * without data fall back to placeholders.
+ */
+export function createFigureRewriter(mode: ImageMode) {
+  const assets: ImageAsset[] = [];
+  let count = 0;
+
+  function rewrite(markdown: string, page: number, images: OcrImage[] = []): string {
+    const byId = new Map(images.map((image) => [image.id, image]));
+
+    return markdown.replace(FIGURE, (match, ref: string, alt = "", src = "", title = "", captionLine?: string) => {
+      if (mode === "strip") return match.slice(ref.length);
+
+      if (ref.startsWith("<")) {
+        alt = attribute(ref, "alt");
+        src = attribute(ref, "src");
+        title = attribute(ref, "title");
+      }
+      const n = ++count;
+      const caption =
+        (captionLine && plainText(captionLine).replace(CAPTION_PREFIX, "")) ||
+        (GENERATED_ALT.test(alt.trim()) ? "" : plainText(alt).replace(CAPTION_PREFIX, ""));
+      const marker = `[Figure ${n}${caption ? `: ${caption}` : ""}]`;
+      const image = byId.get(src);
+
+      if (mode === "describe") {
+        const description = image?.description ?? title.trim();
+        return description ? `${marker}\n\n${description}` : marker;
+      }
+
+      const uri = mode === "extract" ? parseDataUri(image?.data ?? src) : null;
+      if (!uri) return marker;
+
+      const path = `images/figure-${n}.${EXTENSIONS[uri.mimeType] ?? "bin"}`;
+      assets.push({ path, page, ...uri, ...(caption && { caption }) });
+      return `![Figure ${n}${caption ? `: ${linkText(caption)}` : ""}](${path})`;
+    });
+  }
+
+  return { rewrite, assets };
+}
+
+// Decode an asset for a zip; works in the browser and on the server
+export function assetBytes(asset: ImageAsset): Uint8Array {
+  return Uint8Array.from(atob(asset.data), (c) => c.charCodeAt(0));
+}
@@ -0,0 +1,99 @@
+import { mkdtemp, readdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { ConversionResult } from "@/lib/convert";
+import { FileHistoryStore } from "./file-store";
+import { MemoryHistoryStore } from "./memory-store";
+import type { HistoryEntry } from "./types";
+
+function entry(id: string, owner: string, finishedAt: string): HistoryEntry {
+  return {
+    id,
+    owner,
+    filename: `${id}.pdf`,
+    hash: "abc",
+    size: 3,
+    provider: "mock",
+    options: { provider: "mock", ocrProvider: "mock" },
+    startedAt: finishedAt,
+    finishedAt,
+    result: { title: `Title ${id}`, pageCount: 1, format: "pdf", llmsFullTxt: "# Output\n" } as ConversionResult,
+  };
+}
+
+const SOURCE = new Uint8Array([1, 2, 3]);
+const LIMITS = { maxEntries: 10, maxBytes: 1024 * 1024 };
+
+describe("FileHistoryStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "history-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("lists an owner's summaries, newest first, from the summary files alone", async () => {
+    const store = new FileHistoryStore(dir, LIMITS);
+    await store.add(entry("a", "session:1", "2025-01-01T00:00:00.000Z"), SOURCE);
+    await store.add(entry("b", "session:2", "2025-01-02T00:00:00.000Z"), SOURCE);
+    await store.add(entry("c", "session:1", "2025-01-03T00:00:00.000Z"), SOURCE);
+
+    // Listing must not need the outputs
+    await writeFile(path.join(dir, "a.json"), "not json");
+
+    const listed = await store.list("session:1");
+    expect(listed.map((summary) => summary.id)).toEqual(["c", "a"]);
+    expect(listed[0]).toMatchObject({ title: "Title c", pageCount: 1, format: "pdf" });
+    expect(JSON.parse(JSON.stringify(listed[0]))).not.toHaveProperty("owner");
+    expect(listed[0]).not.toHaveProperty("result");
+  });
+
+  it("deletes and trims every file of an entry", async () => {
+    const store = new FileHistoryStore(dir, { ...LIMITS, maxEntries: 2 });
+    for (const id of ["a", "b", "c"]) await store.add(entry(id, "key:ci", "2025-01-01T00:00:00.000Z"), SOURCE);
+    expect(await store.delete("c")).toBe(true);
+    expect(await store.delete("c")).toBe(false);
+
+    expect((await readdir(dir)).sort()).toEqual(["b.bin", "b.json", "b.summary.json"]);
+    expect((await store.list("key:ci")).map((summary) => summary.id)).toEqual(["b"]);
+  });
+
+  it("trims each owner's history on its own", async () => {
+    const store = new FileHistoryStore(dir, { ...LIMITS, maxEntries: 1 });
+    await store.add(entry("a", "session:1", "2025-01-01T00:00:00.000Z"), SOURCE);
+    await store.add(entry("b", "key:ci", "2025-01-02T00:00:00.000Z"), SOURCE);
+    await store.add(entry("c", "key:ci", "2025-01-03T00:00:00.000Z"), SOURCE);
+
+    expect((await store.list("session:1")).map((summary) => summary.id)).toEqual(["a"]);
+    expect((await store.list("key:ci")).map((summary) => summary.id)).toEqual(["c"]);
+  });
+});
+
+describe("MemoryHistoryStore", () => {
+  it("lists an owner's summaries, newest first", async () => {
+    const store = new MemoryHistoryStore(LIMITS);
+    await store.add(entry("a", "session:1", "2025-01-01T00:00:00.000Z"), SOURCE);
+    await store.add(entry("b", "session:2", "2025-01-02T00:00:00.000Z"), SOURCE);
+    await store.add(entry("c", "session:1", "2025-01-03T00:00:00.000Z"), SOURCE);
+
+    const listed = await store.list("session:1");
+    expect(listed.map((summary) => summary.id)).toEqual(["c", "a"]);
+    expect(listed[0]).not.toHaveProperty("owner");
+  });
+
+  it("trims each owner's history on its own", async () => {
+    // Room for two entries per owner
+    const size = SOURCE.length + JSON.stringify(entry("a", "key:ci", "2025-01-02T00:00:00.000Z")).length;
+    const store = new MemoryHistoryStore({ ...LIMITS, maxBytes: 2 * size });
+    for (const id of ["a", "b", "c"]) await store.add(entry(id, "key:ci", "2025-01-02T00:00:00.000Z"), SOURCE);
+    await store.add(entry("d", "session:1", "2025-01-01T00:00:00.000Z"), SOURCE);
+
+    expect(await store.get("a")).toBeNull();
+    expect((await store.list("key:ci")).map((summary) => summary.id)).toEqual(["c", "b"]);
+    expect((await store.list("session:1")).map((summary) => summary.id)).toEqual(["d"]);
+  });
+});
@@ -0,0 +1,121 @@
+import { mkdir, readFile, readdir, rename, stat, unlink, writeFile } from "fs/promises";
+import path from "path";
+import { summarize } from "./summary";
+import type { HistoryEntry, HistoryLimits, HistoryStore, HistorySummary } from "./types";
+
+// What a summary file holds: the listing, and who may see it
+type StoredSummary = HistorySummary & { owner: string };
+
+const SUMMARY = ".summary.json";
+
+// Each entry is a JSON file next to a copy of the uploaded file, so history
+// survives restarts, plus a small summary file so listing never reads the
+// outputs. Trimming drops the owner's entries written longest ago.
+export class FileHistoryStore implements HistoryStore {
+  constructor(private dir: string, private limits: HistoryLimits) {}
+
+  private file(id: string, extension: "json" | "bin" | "summary.json"): string {
+    // Ids are generated by us, but never let one escape the directory
+    return path.join(this.dir, `${path.basename(id)}.${extension}`);
+  }
+
+  private async write(target: string, body: string | Uint8Array): Promise<void> {
+    const tmp = `${target}.${process.pid}.tmp`;
+    await writeFile(tmp, body);
+    await rename(tmp, target);
+  }
+
+  async add(entry: HistoryEntry, source: Uint8Array): Promise<void> {
+    const body = JSON.stringify(entry);
+    if (body.length + source.length > this.limits.maxBytes) return;
+
+    await mkdir(this.dir, { recursive: true });
+    // The summary last, so a listed entry always has its source and output
+    await this.write(this.file(entry.id, "bin"), source);
+    await this.write(this.file(entry.id, "json"), body);
+    await this.write(this.file(entry.id, "summary.json"), JSON.stringify({ ...summarize(entry), owner: entry.owner }));
+    await this.trim(entry.owner);
+  }
+
+  // The owner's summaries, newest first
+  private async summaries(owner: string): Promise<StoredSummary[]> {
+    let names: string[];
+    try {
+      names = (await readdir(this.dir)).filter((name) => name.endsWith(SUMMARY));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+    const summaries = await Promise.all(
+      names.map((name) =>
+        readFile(path.join(this.dir, name), "utf8")
+          .then((body) => JSON.parse(body) as StoredSummary)
+          // Deleted since the directory was read
+          .catch(() => null)
+      )
+    );
+    return summaries
+      .filter((summary): summary is StoredSummary => summary?.owner === owner)
+      .sort((a, b) => b.finishedAt.localeCompare(a.finishedAt));
+  }
+
+  async list(owner: string): Promise<HistorySummary[]> {
+    return (await this.summaries(owner)).map((summary) => ({ ...summary, owner: undefined }));
+  }
+
+  async get(id: string): Promise<HistoryEntry | null> {
+    try {
+      return JSON.parse(await readFile(this.file(id, "json"), "utf8")) as HistoryEntry;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async source(id: string): Promise<Uint8Array | null> {
+    try {
+      return new Uint8Array(await readFile(this.file(id, "bin")));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    // Out of the listing first
+    await unlink(this.file(id, "summary.json")).catch(() => {});
+    try {
+      await unlink(this.file(id, "json"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return false;
+      throw error;
+    }
+    await unlink(this.file(id, "bin")).catch(() => {});
+    return true;
+  }
+
+  private async trim(owner: string): Promise<void> {
+    const ids = (await this.summaries(owner)).map((summary) => summary.id);
+    const entries = await Promise.all(
+      ids.map(async (id) => {
+        const [json, bin, summary] = await Promise.all([
+          stat(this.file(id, "json")).catch(() => null),
+          stat(this.file(id, "bin")).catch(() => null),
+          stat(this.file(id, "summary.json")).catch(() => null),
+        ]);
+        const size = (json?.size ?? 0) + (bin?.size ?? 0) + (summary?.size ?? 0);
+        return { id, size, mtime: json?.mtimeMs ?? 0 };
+      })
+    );
+    entries.sort((a, b) => a.mtime - b.mtime);
+
+    let count = entries.length;
+    let bytes = entries.reduce((sum, e) => sum + e.size, 0);
+    for (const e of entries) {
+      if (count <= this.limits.maxEntries && bytes <= this.limits.maxBytes) break;
+      await this.delete(e.id).catch(() => {});
+      count--;
+      bytes -= e.size;
+    }
+  }
+}
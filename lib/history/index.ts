@@ -0,0 +1,87 @@
+import { randomUUID } from "crypto";
+import path from "path";
+import { hashBytes } from "@/lib/cache";
+import type { ConversionResult, ConvertOptions } from "@/lib/convert";
+import { FileHistoryStore } from "./file-store";
+import { MemoryHistoryStore } from "./memory-store";
+import type { HistoryEntry, HistoryLimits, HistoryStore } from "./types";
+
+export type { HistoryEntry, HistoryLimits, HistoryOptions, HistoryStore, HistorySummary } from "./types";
+export { MemoryHistoryStore } from "./memory-store";
+export { FileHistoryStore } from "./file-store";
+export { summarize } from "./summary";
+
+// Limits per owner. Uploads held in process memory count against the
+// server's RAM, so the memory store gets a smaller default budget.
+function limitsFromEnv(defaultMb: number): HistoryLimits {
+  return {
+    maxEntries: Number(process.env.HISTORY_MAX_ENTRIES) || 20,
+    maxBytes: (Number(process.env.HISTORY_MAX_MB) || defaultMb) * 1024 * 1024,
+  };
+}
+
+// History keeps uploaded files, so it is off unless the server opts in
+function createHistoryStore(): HistoryStore | null {
+  const kind = process.env.HISTORY_STORE || "off";
+  if (kind === "off") return null;
+  if (kind === "file") {
+    return new FileHistoryStore(
+      process.env.HISTORY_STORE_DIR || path.join(process.cwd(), ".data", "history"),
+      limitsFromEnv(100)
+    );
+  }
+  if (kind !== "memory") {
+    throw new Error(`Unknown HISTORY_STORE "${kind}". Expected "memory", "file" or "off"`);
+  }
+  return new MemoryHistoryStore(limitsFromEnv(10));
+}
+
+// Keep one store per process, including across dev-server module reloads
+const globalForHistory = globalThis as unknown as { historyStore?: HistoryStore | null };
+
+export function getHistoryStore(): HistoryStore | null {
+  if (globalForHistory.historyStore === undefined) {
+    globalForHistory.historyStore = createHistoryStore();
+  }
+  return globalForHistory.historyStore;
+}
+
+/**
+ * Save a finished conversion with its uploaded file under `owner`, as
+ * requestOwner (lib/auth) tells it.
+ * History is a convenience: failing to save it is logged, and never fails
+ * the conversion it records.
+ */
+export async function recordHistory(
+  owner: string,
+  bytes: ArrayBuffer,
+  filename: string,
+  options: ConvertOptions,
+  result: ConversionResult
+): Promise<HistoryEntry | null> {
+  const store = getHistoryStore();
+  if (!store) return null;
+
+  const source = new Uint8Array(bytes);
+  const finished = Date.now();
+  const entry: HistoryEntry = {
+    id: randomUUID(),
+    owner,
+    filename,
+    hash: hashBytes(source),
+    size: source.length,
+    provider: options.provider,
+    options: { ...options, password: undefined },
+    startedAt: new Date(finished - (result.latencyMs ?? 0)).toISOString(),
+    finishedAt: new Date(finished).toISOString(),
+    result,
+  };
+
+  try {
+    await store.add(entry, source);
+    return entry;
+  } catch (error) {
+    console.error(`Saving ${filename} to history failed:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,56 @@
+import { summarize } from "./summary";
+import type { HistoryEntry, HistoryLimits, HistoryStore, HistorySummary } from "./types";
+
+interface Stored {
+  entry: HistoryEntry;
+  source: Uint8Array;
+  size: number;
+}
+
+// History in process memory, lost on restart. Map iteration order is
+// insertion order, so the oldest entry comes first.
+export class MemoryHistoryStore implements HistoryStore {
+  private entries = new Map<string, Stored>();
+
+  constructor(private limits: HistoryLimits) {}
+
+  async add(entry: HistoryEntry, source: Uint8Array): Promise<void> {
+    const size = source.length + JSON.stringify(entry).length;
+    if (size > this.limits.maxBytes) return;
+    this.entries.set(entry.id, { entry, source, size });
+
+    // Only the owner's own entries make room for it
+    const owned = [...this.entries.values()].filter((stored) => stored.entry.owner === entry.owner);
+    let count = owned.length;
+    let bytes = owned.reduce((sum, stored) => sum + stored.size, 0);
+    for (const stored of owned) {
+      if (count <= this.limits.maxEntries && bytes <= this.limits.maxBytes) break;
+      this.entries.delete(stored.entry.id);
+      count--;
+      bytes -= stored.size;
+    }
+  }
+
+  async list(owner: string): Promise<HistorySummary[]> {
+    return [...this.entries.values()]
+      .map((stored) => stored.entry)
+      .filter((entry) => entry.owner === owner)
+      .map(summarize)
+      .reverse();
+  }
+
+  async get(id: string): Promise<HistoryEntry | null> {
+    return this.entries.get(id)?.entry ?? null;
+  }
+
+  async source(id: string): Promise<Uint8Array | null> {
+    return this.entries.get(id)?.source ?? null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const stored = this.entries.get(id);
+    if (!stored) return false;
+    this.entries.delete(id);
+    return true;
+  }
+}
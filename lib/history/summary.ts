@@ -0,0 +1,19 @@
+import type { HistoryEntry, HistorySummary } from "./types";
+
+export function summarize(entry: HistoryEntry): HistorySummary {
+  const { id, filename, hash, size, provider, options, startedAt, finishedAt, result } = entry;
+  return {
+    id,
+    filename,
+    hash,
+    size,
+    provider,
+    options,
+    startedAt,
+    finishedAt,
+    title: result.title,
+    pageCount: result.pageCount,
+    format: result.format,
+    estimatedCost: result.estimatedCost,
+  };
+}
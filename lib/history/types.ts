@@ -0,0 +1,45 @@
+import type { ConversionResult, ConvertOptions } from "@/lib/convert";
+import type { ProviderId } from "@/lib/providers";
+
+// The options a conversion ran with. Passwords are never stored.
+export type HistoryOptions = ConvertOptions & { password?: undefined };
+
+export interface HistoryEntry {
+  id: string;
+  // Who the conversion was made for (an API key or a browser session, see
+  // requestOwner); only they see the entry
+  owner: string;
+  filename: string;
+  // SHA-256 of the uploaded file
+  hash: string;
+  // Bytes
+  size: number;
+  provider: ProviderId;
+  options: HistoryOptions;
+  startedAt: string;
+  finishedAt: string;
+  result: ConversionResult;
+}
+
+// An entry as GET /api/history lists it: everything but the output
+export type HistorySummary = Omit<HistoryEntry, "owner" | "result"> &
+  Pick<ConversionResult, "title" | "pageCount" | "format" | "estimatedCost">;
+
+export interface HistoryStore {
+  // Save an entry with the uploaded file, so it can be converted again
+  add(entry: HistoryEntry, source: Uint8Array): Promise<void>;
+  // Summaries of an owner's entries, newest first
+  list(owner: string): Promise<HistorySummary[]>;
+  get(id: string): Promise<HistoryEntry | null>;
+  source(id: string): Promise<Uint8Array | null>;
+  // False when there was no such entry
+  delete(id: string): Promise<boolean>;
+}
+
+// Per owner: one caller's history never pushes out another's
+export interface HistoryLimits {
+  // An owner's oldest entries are dropped past either limit
+  maxEntries: number;
+  // Uploaded files plus outputs
+  maxBytes: number;
+}
@@ -0,0 +1,68 @@
+import { strToU8, zipSync } from "fflate";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createFigureRewriter } from "@/lib/figures";
+import { imageDataUri, openArchive } from "./archive";
+
+// A zip whose headers claim every entry inflates to `size` bytes
+function understated(zip: Uint8Array, size: number): Uint8Array {
+  const bytes = zip.slice();
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < bytes.length - 4; i++) {
+    const signature = view.getUint32(i, true);
+    if (signature === 0x04034b50) view.setUint32(i + 22, size, true);
+    if (signature === 0x02014b50) view.setUint32(i + 24, size, true);
+  }
+  return bytes;
+}
+
+async function withLimit(mb: number): Promise<typeof openArchive> {
+  vi.stubEnv("MAX_UNZIPPED_MB", String(mb));
+  vi.resetModules();
+  return (await import("./archive")).openArchive;
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("openArchive", () => {
+  it("reads stored and deflated entries", () => {
+    const files = {
+      "word/document.xml": strToU8("<w:document/>".repeat(1000)),
+      "media/image1.png": new Uint8Array([137, 80, 78, 71]),
+      "empty.txt": new Uint8Array(),
+    };
+    expect(openArchive(zipSync(files), "DOCX")).toEqual(files);
+    expect(openArchive(zipSync(files, { level: 0 }), "DOCX")).toEqual(files);
+  });
+
+  it("refuses archives that declare more than the limit", async () => {
+    const open = await withLimit(1);
+    const zip = zipSync({ "a.xml": new Uint8Array(2 * 1024 * 1024) });
+    expect(() => open(zip, "DOCX")).toThrow("The DOCX file expands to over 1MB");
+  });
+
+  it("counts the bytes it inflates rather than the sizes entries declare", async () => {
+    const open = await withLimit(1);
+    const zip = understated(zipSync({ "a.xml": new Uint8Array(3 * 1024 * 1024) }), 1);
+    expect(() => open(zip, "DOCX")).toThrow(expect.objectContaining({ code: "FILE_TOO_LARGE" }));
+  });
+
+  it("reports files that are not zips as corrupt", () => {
+    expect(() => openArchive(strToU8("not a zip at all"), "EPUB")).toThrow(
+      expect.objectContaining({ code: "CORRUPT_FILE", message: "The EPUB file is corrupt and could not be read" })
+    );
+  });
+});
+
+describe("imageDataUri", () => {
+  it("extracts SVG images as .svg figures", () => {
+    const archive = { "word/media/logo.svg": strToU8("<svg/>") };
+    const uri = imageDataUri(archive, "word/media/logo.svg");
+    expect(uri).toBe("data:image/svg+xml;base64,PHN2Zy8+");
+
+    const { rewrite, assets } = createFigureRewriter("extract");
+    expect(rewrite(`![logo](${uri})`, 1)).toBe("![Figure 1: logo](images/figure-1.svg)");
+    expect(assets).toMatchObject([{ path: "images/figure-1.svg", mimeType: "image/svg+xml" }]);
+  });
+});
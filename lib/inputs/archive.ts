@@ -0,0 +1,148 @@
+import path from "path";
+import { strFromU8, Unzip, UnzipInflate, unzipSync } from "fflate";
+import { RequestError } from "@/lib/errors";
+import { childElements, findFirst, parseMarkup, textContent, type MarkupNode } from "./markup";
+
+// Uncompressed size allowed for one upload, so a zip bomb is refused
+// before it is inflated
+const MAX_UNZIPPED_MB = Number(process.env.MAX_UNZIPPED_MB) || 500;
+// Compressed bytes inflated at a time. Deflate expands at most about
+// 1000-fold, so no step inflates much more than this many MB.
+const INFLATE_CHUNK = 64 * 1024;
+const IMAGE_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+};
+
+// A zip-based package (DOCX, PPTX, EPUB): part path -> contents
+export type Archive = Record<string, Uint8Array>;
+
+export interface Relationship {
+  type: string;
+  // Part path within the archive, or the URL itself when external
+  target: string;
+  external: boolean;
+}
+
+export function corruptFile(name: string, detail = "could not be read"): RequestError {
+  return new RequestError(`The ${name} file is corrupt and ${detail}`, "CORRUPT_FILE");
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  if (chunks.length === 1) return chunks[0];
+  const bytes = new Uint8Array(chunks.reduce((n, chunk) => n + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+/**
+ * Unzip a package. Sizes declared in the zip can lie, so entries are
+ * inflated a chunk at a time and counted as they come out: the upload is
+ * refused as soon as it passes MAX_UNZIPPED_MB.
+ */
+export function openArchive(bytes: Uint8Array, name: string): Archive {
+  const limit = MAX_UNZIPPED_MB * 1024 * 1024;
+  const tooLarge = () => new RequestError(`The ${name} file expands to over ${MAX_UNZIPPED_MB}MB`, "FILE_TOO_LARGE");
+  const archive: Archive = {};
+  let total = 0;
+
+  try {
+    // The central directory lists the entries; an archive that already
+    // declares too much is refused without inflating anything
+    const entries = new Set<string>();
+    let declared = 0;
+    unzipSync(bytes, {
+      filter: (file) => {
+        declared += file.originalSize;
+        if (declared > limit) throw tooLarge();
+        entries.add(file.name);
+        return false;
+      },
+    });
+
+    const unzip = new Unzip((file) => {
+      if (!entries.has(file.name)) return;
+      const chunks: Uint8Array[] = [];
+      file.ondata = (error, chunk, final) => {
+        if (error) throw error;
+        total += chunk.length;
+        if (total > limit) throw tooLarge();
+        chunks.push(chunk);
+        if (final) archive[file.name] = concat(chunks);
+      };
+      file.start();
+    });
+    unzip.register(UnzipInflate);
+    for (let offset = 0; offset < bytes.length; offset += INFLATE_CHUNK) {
+      unzip.push(bytes.subarray(offset, offset + INFLATE_CHUNK), offset + INFLATE_CHUNK >= bytes.length);
+    }
+  } catch (error) {
+    if (error instanceof RequestError) throw error;
+    throw corruptFile(name);
+  }
+  return archive;
+}
+
+// Part names in zip entries have no leading slash and may be percent-encoded
+// in references
+export function resolvePart(from: string, target: string): string {
+  const decoded = safeDecode(target.split("#")[0]);
+  if (decoded.startsWith("/")) return path.posix.normalize(decoded.slice(1));
+  return path.posix.normalize(path.posix.join(path.posix.dirname(from), decoded));
+}
+
+function safeDecode(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
+
+export function readText(archive: Archive, part: string): string | undefined {
+  const bytes = archive[part];
+  return bytes && strFromU8(bytes).replace(/^\uFEFF/, "");
+}
+
+export function readXml(archive: Archive, part: string): MarkupNode | undefined {
+  const text = readText(archive, part);
+  return text === undefined ? undefined : parseMarkup(text);
+}
+
+// The part's .rels file, keyed by relationship id
+export function readRelationships(archive: Archive, part: string): Map<string, Relationship> {
+  const rels = readXml(archive, path.posix.join(path.posix.dirname(part), "_rels", `${path.posix.basename(part)}.rels`));
+  const relationships = new Map<string, Relationship>();
+  const root = rels && childElements(rels, "Relationships")[0];
+  for (const rel of root ? childElements(root, "Relationship") : []) {
+    const external = rel.attrs.TargetMode === "External";
+    relationships.set(rel.attrs.Id, {
+      type: rel.attrs.Type ?? "",
+      target: external ? rel.attrs.Target : resolvePart(part, rel.attrs.Target ?? ""),
+      external,
+    });
+  }
+  return relationships;
+}
+
+// An image part as a data: URI, for figures in `extract` mode
+export function imageDataUri(archive: Archive, part: string): string | undefined {
+  const type = IMAGE_TYPES[path.posix.extname(part).toLowerCase()];
+  const bytes = archive[part];
+  return type && bytes ? `data:${type};base64,${Buffer.from(bytes).toString("base64")}` : undefined;
+}
+
+// Dublin Core title from docProps/core.xml, shared by DOCX and PPTX
+export function coreTitle(archive: Archive): string | undefined {
+  const core = readXml(archive, "docProps/core.xml");
+  const title = core && findFirst(core, "dc:title");
+  return (title && textContent(title).replace(/\s+/g, " ").trim()) || undefined;
+}
@@ -0,0 +1,84 @@
+import { strFromU8, unzipSync } from "fflate";
+import { hasPdfHeader } from "@/lib/pdf/open";
+import type { InputFormatId } from "./formats";
+
+// Markup is recognized by what appears in the first KB
+const SNIFF_BYTES = 1024;
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const JPEG_SIGNATURE = [0xff, 0xd8, 0xff];
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+const ZIP_FORMATS: Record<string, InputFormatId> = { ".docx": "docx", ".pptx": "pptx", ".epub": "epub" };
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+  return signature.every((byte, i) => bytes[i] === byte);
+}
+
+export function isPng(bytes: Uint8Array): boolean {
+  return startsWith(bytes, PNG_SIGNATURE);
+}
+
+function extension(filename: string): string {
+  return filename.toLowerCase().match(/\.[a-z0-9]+$/)?.[0] ?? "";
+}
+
+// Office documents and EPUBs are zip packages told apart by their parts.
+// Only the entry names are read, plus the EPUB mimetype file.
+function detectPackage(bytes: Uint8Array, filename: string): InputFormatId | null {
+  const names = new Set<string>();
+  let mimetype = "";
+  try {
+    const files = unzipSync(bytes, {
+      filter: (file) => {
+        names.add(file.name);
+        return file.name === "mimetype";
+      },
+    });
+    if (files.mimetype) mimetype = strFromU8(files.mimetype).trim();
+  } catch {
+    // A damaged package is still reported as what its name says, so the
+    // conversion can fail with CORRUPT_FILE rather than UNSUPPORTED_TYPE
+    return ZIP_FORMATS[extension(filename)] ?? null;
+  }
+
+  if (names.has("word/document.xml")) return "docx";
+  if (names.has("ppt/presentation.xml")) return "pptx";
+  if (mimetype === "application/epub+zip" || names.has("META-INF/container.xml")) return "epub";
+  return null;
+}
+
+function looksLikeHtml(bytes: Uint8Array, filename: string): boolean {
+  const head = bytes.subarray(0, SNIFF_BYTES);
+  if (head.includes(0)) return false;
+  const text = Buffer.from(head).toString("latin1").toLowerCase();
+  if (/<!doctype html|<html[\s>]|<head[\s>]|<body[\s>]/.test(text)) return true;
+  return [".html", ".htm", ".xhtml"].includes(extension(filename)) && /^\s*</.test(text.replace(/^\xef\xbb\xbf/, ""));
+}
+
+/**
+ * Identify an upload by its leading bytes, since the client-supplied MIME
+ * type proves nothing. The filename only breaks ties: HTML fragments
+ * without an <html> tag, and zip packages too damaged to list.
+ */
+export function detectFormat(bytes: Uint8Array, filename = ""): InputFormatId | null {
+  if (hasPdfHeader(bytes)) return "pdf";
+  if (isPng(bytes) || startsWith(bytes, JPEG_SIGNATURE)) return "image";
+  if (startsWith(bytes, ZIP_SIGNATURE)) return detectPackage(bytes, filename);
+  if (looksLikeHtml(bytes, filename)) return "html";
+  return null;
+}
+
+// Decode markup by its BOM or declared charset, defaulting to UTF-8
+export function decodeText(bytes: Uint8Array): string {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder("utf-16le").decode(bytes);
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder("utf-16be").decode(bytes);
+
+  const head = Buffer.from(bytes.subarray(0, SNIFF_BYTES)).toString("latin1");
+  const charset =
+    head.match(/<meta[^>]+charset\s*=\s*["']?([\w-]+)/i)?.[1] ??
+    head.match(/<\?xml[^>]+encoding\s*=\s*["']([\w-]+)/i)?.[1];
+  try {
+    return new TextDecoder(charset ?? "utf-8").decode(bytes);
+  } catch {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
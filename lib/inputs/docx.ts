@@ -0,0 +1,233 @@
+import type { OcrImage } from "@/lib/providers/types";
+import {
+  coreTitle,
+  corruptFile,
+  imageDataUri,
+  openArchive,
+  readRelationships,
+  readXml,
+  type Archive,
+  type Relationship,
+} from "./archive";
+import { tableHtml, type TableCell } from "./html";
+import { childElements, findAll, findFirst, textContent, type MarkupNode } from "./markup";
+import { joinBlocks, renderRuns, type Run } from "./runs";
+import type { LocalDocument } from "./types";
+
+const DOCUMENT = "word/document.xml";
+// Wrappers whose runs are part of the paragraph: tracked insertions,
+// fields, smart tags and inline content controls
+const RUN_CONTAINERS = new Set(["w:ins", "w:fldSimple", "w:smartTag", "w:sdt", "w:sdtContent", "w:customXml"]);
+
+interface Context {
+  archive: Archive;
+  rels: Map<string, Relationship>;
+  // Style id -> heading level
+  headings: Map<string, number>;
+  // numId -> list format per level ("bullet", "decimal", ...)
+  numbering: Map<string, string[]>;
+  // Current number per "numId:level"
+  counters: Map<string, number>;
+  images: Map<string, OcrImage>;
+}
+
+function attr(node: MarkupNode | undefined, name = "w:val"): string | undefined {
+  return node?.attrs[name];
+}
+
+// w:b, w:i and friends are on unless their value says otherwise
+function toggled(props: MarkupNode | undefined, name: string): boolean {
+  const node = props && childElements(props, name)[0];
+  return !!node && !["0", "false", "off"].includes(attr(node) ?? "");
+}
+
+function readHeadingStyles(archive: Archive): Map<string, number> {
+  const headings = new Map<string, number>();
+  const styles = readXml(archive, "word/styles.xml");
+  for (const style of styles ? findAll(styles, "w:style") : []) {
+    const id = style.attrs["w:styleId"];
+    const name = (attr(childElements(style, "w:name")[0]) ?? "").toLowerCase();
+    const outline = attr(findFirst(style, "w:outlineLvl"));
+    const level =
+      name === "title" ? 1 : Number(name.match(/^heading (\d)$/)?.[1]) || (outline ? Number(outline) + 1 : 0);
+    if (id && level >= 1 && level <= 6) headings.set(id, level);
+  }
+  return headings;
+}
+
+function readNumbering(archive: Archive): Map<string, string[]> {
+  const numbering = readXml(archive, "word/numbering.xml");
+  if (!numbering) return new Map();
+
+  const abstract = new Map<string, string[]>();
+  for (const node of findAll(numbering, "w:abstractNum")) {
+    const formats: string[] = [];
+    for (const level of childElements(node, "w:lvl")) {
+      formats[Number(level.attrs["w:ilvl"]) || 0] = attr(childElements(level, "w:numFmt")[0]) ?? "bullet";
+    }
+    abstract.set(node.attrs["w:abstractNumId"], formats);
+  }
+
+  const lists = new Map<string, string[]>();
+  for (const num of findAll(numbering, "w:num")) {
+    const formats = abstract.get(attr(childElements(num, "w:abstractNumId")[0]) ?? "");
+    if (formats) lists.set(num.attrs["w:numId"], formats);
+  }
+  return lists;
+}
+
+function image(blipId: string | undefined, alt: string, ctx: Context): Run | null {
+  const rel = blipId ? ctx.rels.get(blipId) : undefined;
+  if (!rel || rel.external) return null;
+  if (!ctx.images.has(rel.target)) {
+    ctx.images.set(rel.target, { id: rel.target, data: imageDataUri(ctx.archive, rel.target) });
+  }
+  return { text: `![${alt.replace(/[[\]\n]/g, " ").trim()}](${rel.target})` };
+}
+
+// The runs of a paragraph or hyperlink, in order
+function readRuns(node: MarkupNode, ctx: Context, link?: string): Run[] {
+  const runs: Run[] = [];
+  for (const child of childElements(node)) {
+    if (child.name === "w:hyperlink") {
+      const rel = ctx.rels.get(child.attrs["r:id"] ?? "");
+      runs.push(...readRuns(child, ctx, rel?.external ? rel.target : link));
+    } else if (RUN_CONTAINERS.has(child.name)) {
+      runs.push(...readRuns(child, ctx, link));
+    } else if (child.name === "w:r") {
+      const props = childElements(child, "w:rPr")[0];
+      const format = { bold: toggled(props, "w:b"), italic: toggled(props, "w:i"), link };
+      for (const part of childElements(child)) {
+        if (part.name === "w:t") runs.push({ text: textContent(part), ...format });
+        else if (part.name === "w:tab") runs.push({ text: " ", ...format });
+        else if (part.name === "w:noBreakHyphen") runs.push({ text: "-", ...format });
+        else if ((part.name === "w:br" && attr(part, "w:type") !== "page") || part.name === "w:cr") {
+          runs.push({ text: "\n" });
+        } else if (part.name === "w:drawing" || part.name === "w:pict") {
+          const docPr = findFirst(part, "wp:docPr");
+          const blip = findFirst(part, "a:blip") ?? findFirst(part, "v:imagedata");
+          const run = image(blip?.attrs["r:embed"] ?? blip?.attrs["r:id"], docPr?.attrs.descr ?? "", ctx);
+          if (run) runs.push(run);
+        }
+      }
+    }
+  }
+  return runs;
+}
+
+function paragraphText(node: MarkupNode, ctx: Context): string {
+  return renderRuns(readRuns(node, ctx))
+    .split("\n")
+    .map((line) => line.trim())
+    .join("\n")
+    .trim();
+}
+
+function paragraph(node: MarkupNode, ctx: Context): string {
+  const props = childElements(node, "w:pPr")[0];
+  const style = attr(props && childElements(props, "w:pStyle")[0]) ?? "";
+  const level = ctx.headings.get(style);
+  if (level) {
+    const text = renderRuns(readRuns(node, ctx).map(({ text }) => ({ text })))
+      .replace(/\s+/g, " ")
+      .trim();
+    return text ? `${"#".repeat(level)} ${text}` : "";
+  }
+
+  const text = paragraphText(node, ctx);
+  const numPr = props && childElements(props, "w:numPr")[0];
+  const numId = attr(numPr && childElements(numPr, "w:numId")[0]);
+  if (!text || !numId || numId === "0") return text;
+
+  const depth = Number(attr(childElements(numPr!, "w:ilvl")[0])) || 0;
+  const format = ctx.numbering.get(numId)?.[depth] ?? "bullet";
+  // A shallower item restarts the numbering below it
+  for (const key of ctx.counters.keys()) {
+    const [id, keyDepth] = key.split(":");
+    if (id === numId && Number(keyDepth) > depth) ctx.counters.delete(key);
+  }
+  const key = `${numId}:${depth}`;
+  const n = (ctx.counters.get(key) ?? 0) + 1;
+  ctx.counters.set(key, n);
+
+  const marker = format === "bullet" || format === "none" ? "- " : `${n}. `;
+  const pad = "  ".repeat(depth);
+  return pad + marker + text.replace(/\n/g, `\n${pad}${" ".repeat(marker.length)}`);
+}
+
+// Vertically merged cells become rowspans on the cell that starts them
+function table(node: MarkupNode, ctx: Context): string {
+  const rows: TableCell[][] = [];
+  // Cell covering each column from above, while a vertical merge continues
+  const above: (TableCell | undefined)[] = [];
+
+  childElements(node, "w:tr").forEach((tr, r) => {
+    const header = r === 0 || !!findFirst(childElements(tr, "w:trPr")[0] ?? tr, "w:tblHeader");
+    const row: TableCell[] = [];
+    let column = 0;
+    for (const tc of childElements(tr, "w:tc")) {
+      const props = childElements(tc, "w:tcPr")[0];
+      const colspan = Number(attr(props && childElements(props, "w:gridSpan")[0])) || 1;
+      const merge = props && childElements(props, "w:vMerge")[0];
+
+      if (merge && attr(merge) !== "restart" && above[column]) {
+        above[column]!.rowspan = (above[column]!.rowspan ?? 1) + 1;
+      } else {
+        const text = childElements(tc, "w:p")
+          .map((p) => paragraphText(p, ctx))
+          .filter(Boolean)
+          .join(" ");
+        const cell: TableCell = { text, header, colspan };
+        row.push(cell);
+        for (let k = 0; k < colspan; k++) above[column + k] = merge ? cell : undefined;
+      }
+      column += colspan;
+    }
+    rows.push(row);
+  });
+
+  return tableHtml(rows);
+}
+
+function blocks(parent: MarkupNode, ctx: Context): string[] {
+  const out: string[] = [];
+  for (const child of childElements(parent)) {
+    if (child.name === "w:p") {
+      const text = paragraph(child, ctx);
+      if (text) out.push(text);
+    } else if (child.name === "w:tbl") {
+      const html = table(child, ctx);
+      if (html) out.push(html);
+    } else if (child.name === "w:sdt" || child.name === "w:sdtContent" || child.name === "w:customXml") {
+      out.push(...blocks(child, ctx));
+    }
+  }
+  return out;
+}
+
+/**
+ * Convert a Word document's body to markdown: heading styles become
+ * headings, numbered and bulleted paragraphs become lists, tables are
+ * left as HTML for normalizeTables, and embedded images are returned for
+ * the figure modes. Headers, footers and comments are skipped.
+ */
+export function readDocx(bytes: Uint8Array): LocalDocument {
+  const archive = openArchive(bytes, "DOCX");
+  const document = readXml(archive, DOCUMENT);
+  const body = document && findFirst(document, "w:body");
+  if (!body) throw corruptFile("DOCX", "has no document body");
+
+  const ctx: Context = {
+    archive,
+    rels: readRelationships(archive, DOCUMENT),
+    headings: readHeadingStyles(archive),
+    numbering: readNumbering(archive),
+    counters: new Map(),
+    images: new Map(),
+  };
+  const markdown = joinBlocks(blocks(body, ctx));
+  return {
+    title: coreTitle(archive),
+    sections: [{ markdown, images: [...ctx.images.values()] }],
+  };
+}
@@ -0,0 +1,71 @@
+import { RequestError } from "@/lib/errors";
+import type { OcrImage } from "@/lib/providers/types";
+import { corruptFile, imageDataUri, openArchive, readXml, resolvePart, type Archive } from "./archive";
+import { decodeText } from "./detect";
+import { htmlToMarkdown } from "./html";
+import { childElements, findAll, findFirst, textContent } from "./markup";
+import type { LocalDocument } from "./types";
+
+// Font obfuscation is the only encryption a readable EPUB may use
+const FONT_OBFUSCATION = ["http://www.idpf.org/2008/embedding", "http://ns.adobe.com/pdf/enc#RC"];
+
+// Content documents (not fonts) listed in META-INF/encryption.xml mean
+// DRM. The XML Encryption namespace may or may not be prefixed.
+function isDrmProtected(archive: Archive): boolean {
+  const encryption = readXml(archive, "META-INF/encryption.xml");
+  if (!encryption) return false;
+  return [...findAll(encryption, "EncryptedData"), ...findAll(encryption, "enc:EncryptedData")].some((data) => {
+    const method = findFirst(data, "EncryptionMethod") ?? findFirst(data, "enc:EncryptionMethod");
+    return !FONT_OBFUSCATION.includes(method?.attrs.Algorithm ?? "");
+  });
+}
+
+/**
+ * Convert an EPUB's spine, in reading order, to one section per content
+ * document. Images resolve to the package's own files; links between
+ * chapters are reduced to their text, since the chapters are joined into
+ * one document.
+ */
+export function readEpub(bytes: Uint8Array): LocalDocument {
+  const archive = openArchive(bytes, "EPUB");
+  if (isDrmProtected(archive)) {
+    throw new RequestError("The EPUB is DRM protected and cannot be converted", "UNSUPPORTED_TYPE");
+  }
+
+  const container = readXml(archive, "META-INF/container.xml");
+  const opfPath = container && findFirst(container, "rootfile")?.attrs["full-path"];
+  const opf = opfPath ? readXml(archive, opfPath) : undefined;
+  if (!opfPath || !opf) throw corruptFile("EPUB", "has no package document");
+
+  const manifest = new Map(
+    findAll(opf, "item").map((item) => [item.attrs.id, { href: item.attrs.href ?? "", type: item.attrs["media-type"] }])
+  );
+  const titleNode = findFirst(opf, "dc:title");
+  const title = titleNode && textContent(titleNode).replace(/\s+/g, " ").trim();
+  const spine = findFirst(opf, "spine");
+
+  const sections: LocalDocument["sections"] = [];
+  for (const ref of spine ? childElements(spine, "itemref") : []) {
+    const item = manifest.get(ref.attrs.idref);
+    if (!item || ref.attrs.linear === "no" || !/html/.test(item.type ?? "html")) continue;
+    const part = resolvePart(opfPath, item.href);
+    const bytes = archive[part];
+    if (!bytes) continue;
+
+    const images = new Map<string, OcrImage>();
+    const { markdown } = htmlToMarkdown(decodeText(bytes), {
+      resolveImage: (src) => {
+        if (/^[a-z]+:/i.test(src)) return src.startsWith("data:") ? src : undefined;
+        const target = resolvePart(part, src);
+        if (!archive[target]) return undefined;
+        if (!images.has(target)) images.set(target, { id: target, data: imageDataUri(archive, target) });
+        return target;
+      },
+      resolveLink: (href) => (/^https?:/i.test(href) ? href : undefined),
+    });
+    if (markdown.trim()) sections.push({ markdown, images: [...images.values()] });
+  }
+
+  if (!sections.length) throw corruptFile("EPUB", "has no readable chapters");
+  return { ...(title && { title }), sections };
+}
@@ -0,0 +1,77 @@
+// Upload formats. Safe to import from client components.
+export const INPUT_FORMATS = [
+  {
+    id: "pdf",
+    name: "PDF",
+    extensions: [".pdf"],
+    mimeTypes: ["application/pdf"],
+    unit: "page",
+    description: "Text layer or OCR, depending on the provider",
+  },
+  {
+    id: "image",
+    name: "Image (PNG, JPEG)",
+    extensions: [".png", ".jpg", ".jpeg"],
+    mimeTypes: ["image/png", "image/jpeg"],
+    unit: "page",
+    description: "OCR as a one-page document",
+  },
+  {
+    id: "docx",
+    name: "Word (DOCX)",
+    extensions: [".docx"],
+    mimeTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+    unit: null,
+    description: "Converted locally: headings, lists, tables, links and images",
+  },
+  {
+    id: "pptx",
+    name: "PowerPoint (PPTX)",
+    extensions: [".pptx"],
+    mimeTypes: ["application/vnd.openxmlformats-officedocument.presentationml.presentation"],
+    unit: "slide",
+    description: "Converted locally, one section per slide with speaker notes",
+  },
+  {
+    id: "epub",
+    name: "EPUB",
+    extensions: [".epub"],
+    mimeTypes: ["application/epub+zip"],
+    unit: "chapter",
+    description: "Converted locally, one section per chapter in reading order",
+  },
+  {
+    id: "html",
+    name: "HTML",
+    extensions: [".html", ".htm", ".xhtml"],
+    mimeTypes: ["text/html", "application/xhtml+xml"],
+    unit: null,
+    description: "Converted locally; scripts, styles and navigation are dropped",
+  },
+] as const;
+
+export type InputFormat = (typeof INPUT_FORMATS)[number];
+export type InputFormatId = InputFormat["id"];
+// What `pages` selects and pageCount counts; null for formats without pages
+export type InputUnit = InputFormat["unit"];
+
+// PDFs and images go through the OCR provider; the rest never leave the server
+export const OCR_FORMATS: readonly InputFormatId[] = ["pdf", "image"];
+
+// For <input accept>
+export const ACCEPTED_FILES = INPUT_FORMATS.flatMap((format) => [...format.extensions, ...format.mimeTypes]).join(",");
+
+export function getInputFormat(id: InputFormatId): InputFormat {
+  return INPUT_FORMATS.find((format) => format.id === id)!;
+}
+
+// Client-side guess from the name and browser-reported type. The server
+// sniffs the bytes.
+export function guessInputFormat(file: { name: string; type: string }): InputFormat | undefined {
+  const name = file.name.toLowerCase();
+  return INPUT_FORMATS.find(
+    (format) =>
+      (format.mimeTypes as readonly string[]).includes(file.type) ||
+      format.extensions.some((extension) => name.endsWith(extension))
+  );
+}
@@ -0,0 +1,263 @@
+import { childElements, findAll, findFirst, parseMarkup, textContent, type MarkupNode } from "./markup";
+import { wrap } from "./runs";
+
+// Never content
+const SKIPPED = new Set([
+  "head", "script", "style", "noscript", "template", "nav", "iframe", "svg", "canvas", "button", "select",
+  "input", "textarea", "form", "dialog",
+]);
+// Site chrome around the content when a page has no <main>
+const CHROME = new Set(["header", "footer", "aside"]);
+const BLOCKS = new Set([
+  "address", "article", "aside", "blockquote", "body", "center", "dd", "details", "div", "dl", "dt",
+  "fieldset", "figcaption", "figure", "footer", "h1", "h2", "h3", "h4", "h5", "h6", "header", "hr", "html",
+  "li", "main", "ol", "p", "pre", "section", "summary", "table", "ul",
+]);
+
+export interface TableCell {
+  text: string;
+  header?: boolean;
+  colspan?: number;
+  rowspan?: number;
+}
+
+export interface HtmlOptions {
+  // Maps an <img> src to the id used in the markdown, or undefined to
+  // drop the image (EPUB resolves these against the package)
+  resolveImage?: (src: string) => string | undefined;
+  // Maps an <a> href to the link target, or undefined to keep just the text
+  resolveLink?: (href: string) => string | undefined;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Write a table as HTML on one line, for normalizeTables to turn into GFM
+ * along with the tables providers return. Spans are kept so merged cells
+ * are expanded the same way.
+ */
+export function tableHtml(rows: TableCell[][]): string {
+  const body = rows
+    .filter((row) => row.length)
+    .map((row) => {
+      const cells = row.map(({ text, header, colspan = 1, rowspan = 1 }) => {
+        const tag = header ? "th" : "td";
+        const spans = `${colspan > 1 ? ` colspan="${colspan}"` : ""}${rowspan > 1 ? ` rowspan="${rowspan}"` : ""}`;
+        return `<${tag}${spans}>${escapeHtml(text.replace(/\s+/g, " ").trim())}</${tag}>`;
+      });
+      return `<tr>${cells.join("")}</tr>`;
+    });
+  return body.length ? `<table>${body.join("")}</table>` : "";
+}
+
+function isElement(node: MarkupNode | string): node is MarkupNode {
+  return typeof node !== "string";
+}
+
+class Renderer {
+  constructor(private options: HtmlOptions) {}
+
+  inline(node: MarkupNode | string): string {
+    if (!isElement(node)) return node.replace(/\s+/g, " ");
+    if (SKIPPED.has(node.name)) return "";
+    const inner = () => node.children.map((child) => this.inline(child)).join("");
+
+    switch (node.name) {
+      case "br":
+        return "\n";
+      case "strong":
+      case "b":
+        return wrap(inner(), "**");
+      case "em":
+      case "i":
+      case "cite":
+        return wrap(inner(), "*");
+      case "del":
+      case "s":
+      case "strike":
+        return wrap(inner(), "~~");
+      case "code":
+      case "kbd":
+      case "samp":
+      case "tt": {
+        const code = textContent(node).replace(/\s+/g, " ");
+        return code.trim() ? `\`${code.trim()}\`` : code;
+      }
+      case "img": {
+        const src = node.attrs.src?.trim();
+        const ref = src && (this.options.resolveImage ? this.options.resolveImage(src) : src);
+        return ref ? `![${(node.attrs.alt ?? "").replace(/[[\]\n]/g, " ").trim()}](${ref})` : "";
+      }
+      case "a": {
+        const text = inner();
+        const raw = node.attrs.href?.trim();
+        const href = raw && (this.options.resolveLink ? this.options.resolveLink(raw) : raw);
+        if (!text.trim() || !href || href.startsWith("#") || /^javascript:/i.test(href)) return text;
+        return `[${text.trim()}](${href.replace(/\s/g, "%20")})`;
+      }
+      default:
+        return inner();
+    }
+  }
+
+  // Inline content as a paragraph: whitespace collapsed, <br> kept
+  paragraph(nodes: (MarkupNode | string)[]): string {
+    return nodes
+      .map((node) => this.inline(node))
+      .join("")
+      .split("\n")
+      .map((line) => line.replace(/\s+/g, " ").trim())
+      .filter(Boolean)
+      .join("\n");
+  }
+
+  // Render block-level content. Runs of inline children between blocks
+  // become paragraphs.
+  blocks(node: MarkupNode, dropChrome = false): string[] {
+    const out: string[] = [];
+    let run: (MarkupNode | string)[] = [];
+    const flush = () => {
+      const text = this.paragraph(run);
+      if (text) out.push(text);
+      run = [];
+    };
+
+    for (const child of node.children) {
+      if (!isElement(child) || !BLOCKS.has(child.name)) {
+        run.push(child);
+        continue;
+      }
+      flush();
+      if (dropChrome && CHROME.has(child.name)) continue;
+      out.push(...this.block(child));
+    }
+    flush();
+    return out;
+  }
+
+  block(node: MarkupNode): string[] {
+    const heading = node.name.match(/^h([1-6])$/);
+    if (heading) {
+      const text = this.paragraph(node.children).replace(/\n/g, " ");
+      return text ? [`${"#".repeat(Number(heading[1]))} ${text}`] : [];
+    }
+
+    switch (node.name) {
+      case "p":
+      case "dd":
+      case "figcaption":
+      case "summary": {
+        const text = childElements(node).some((child) => BLOCKS.has(child.name))
+          ? this.blocks(node).join("\n\n")
+          : this.paragraph(node.children);
+        return text ? [text] : [];
+      }
+      case "dt": {
+        const text = this.paragraph(node.children).replace(/\n/g, " ");
+        return text ? [`**${text}**`] : [];
+      }
+      case "hr":
+        return ["---"];
+      case "pre": {
+        const code = findFirst(node, "code");
+        const language = (code?.attrs.class ?? "").match(/(?:lang|language)-([\w+-]+)/)?.[1] ?? "";
+        const text = textContent(node).replace(/^\n/, "").trimEnd();
+        return text ? [`\`\`\`${language}\n${text}\n\`\`\``] : [];
+      }
+      case "blockquote": {
+        const inner = this.blocks(node).join("\n\n");
+        return inner ? [inner.split("\n").map((line) => (line ? `> ${line}` : ">")).join("\n")] : [];
+      }
+      case "ul":
+      case "ol":
+        return this.list(node);
+      case "table":
+        return this.table(node);
+      case "li":
+        // Outside a list
+        return this.list({ name: "ul", attrs: {}, children: [node] });
+      default:
+        return this.blocks(node);
+    }
+  }
+
+  list(node: MarkupNode): string[] {
+    const ordered = node.name === "ol";
+    let n = Number(node.attrs.start) || 1;
+    const items: string[] = [];
+
+    for (const item of childElements(node)) {
+      if (item.name !== "li") {
+        // Lists nested directly in lists, as some editors write them
+        if (item.name === "ul" || item.name === "ol") items.push(...this.list(item).map((l) => indent(l, "  ")));
+        continue;
+      }
+      const marker = ordered ? `${n++}. ` : "- ";
+      const content = this.blocks(item);
+      if (!content.length) continue;
+      const pad = " ".repeat(marker.length);
+      items.push(
+        marker +
+          content
+            .map((block, i) => (i ? indent(block, pad) : block.replace(/\n/g, `\n${pad}`)))
+            .join("\n")
+      );
+    }
+    return items.length ? [items.join("\n")] : [];
+  }
+
+  table(node: MarkupNode): string[] {
+    const rows: TableCell[][] = [];
+    const caption = findFirst(node, "caption");
+    const visit = (parent: MarkupNode, head: boolean) => {
+      for (const child of childElements(parent)) {
+        if (child.name === "thead" || child.name === "tbody" || child.name === "tfoot") {
+          visit(child, child.name === "thead");
+        } else if (child.name === "tr") {
+          rows.push(
+            childElements(child)
+              .filter((cell) => cell.name === "td" || cell.name === "th")
+              .map((cell) => ({
+                text: this.blocks(cell).join(" "),
+                header: head || cell.name === "th",
+                colspan: Number(cell.attrs.colspan) || 1,
+                rowspan: Number(cell.attrs.rowspan) || 1,
+              }))
+          );
+        }
+      }
+    };
+    visit(node, false);
+
+    const html = tableHtml(rows);
+    const title = caption && this.paragraph(caption.children);
+    return html ? [title ? html.replace("<table>", `<table><caption>${escapeHtml(title)}</caption>`) : html] : [];
+  }
+}
+
+function indent(text: string, pad: string): string {
+  return text
+    .split("\n")
+    .map((line) => (line ? pad + line : line))
+    .join("\n");
+}
+
+/**
+ * Convert an HTML or XHTML document to markdown. Prefers <main> (or the
+ * only <article>) when the page has one, and otherwise drops the
+ * header, footer and sidebars around the body. Tables are left as HTML
+ * for normalizeTables.
+ */
+export function htmlToMarkdown(html: string, options: HtmlOptions = {}): { markdown: string; title?: string } {
+  const root = parseMarkup(html, { html: true });
+  const titleNode = findFirst(root, "title");
+  const title = titleNode && textContent(titleNode).replace(/\s+/g, " ").trim();
+  const articles = findAll(root, "article");
+  const main = findFirst(root, "main") ?? (articles.length === 1 ? articles[0] : undefined);
+
+  const body = main ?? findFirst(root, "body") ?? root;
+  const markdown = new Renderer(options).blocks(body, !main).join("\n\n");
+  return { markdown, ...(title && { title }) };
+}
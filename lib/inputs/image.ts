@@ -0,0 +1,29 @@
+import { PDFDocument } from "pdf-lib";
+import { RequestError } from "@/lib/errors";
+import { isPng } from "./detect";
+
+// Scans are usually 150-300 DPI; at 72 points per inch a full-resolution
+// page would be several feet wide, so pages are scaled to fit this box
+const MAX_PAGE_POINTS = 1200;
+
+/**
+ * Wrap a PNG or JPEG in a one-page PDF, so images take the same provider
+ * path as scanned documents. The image keeps its full resolution; only
+ * the page it is drawn on is scaled.
+ */
+export async function imageToPdf(bytes: Uint8Array): Promise<Uint8Array> {
+  // No creation dates, so the same image always hashes to the same cache key
+  const doc = await PDFDocument.create({ updateMetadata: false });
+  let image;
+  try {
+    image = isPng(bytes) ? await doc.embedPng(bytes) : await doc.embedJpg(bytes);
+  } catch {
+    throw new RequestError("The image is corrupt and could not be read", "CORRUPT_FILE");
+  }
+
+  const scale = Math.min(1, MAX_PAGE_POINTS / Math.max(image.width, image.height));
+  const width = image.width * scale;
+  const height = image.height * scale;
+  doc.addPage([width, height]).drawImage(image, { x: 0, y: 0, width, height });
+  return doc.save();
+}
@@ -0,0 +1,37 @@
+import { decodeText } from "./detect";
+import { readDocx } from "./docx";
+import { readEpub } from "./epub";
+import { htmlToMarkdown } from "./html";
+import { readPptx } from "./pptx";
+import type { LocalDocument } from "./types";
+
+export type { LocalDocument, LocalSection } from "./types";
+export { detectFormat } from "./detect";
+export { imageToPdf } from "./image";
+export {
+  ACCEPTED_FILES,
+  INPUT_FORMATS,
+  OCR_FORMATS,
+  getInputFormat,
+  type InputFormat,
+  type InputFormatId,
+  type InputUnit,
+} from "./formats";
+
+// Formats converted on the server without a provider
+export type LocalFormatId = "docx" | "pptx" | "epub" | "html";
+
+export function readLocalDocument(format: LocalFormatId, bytes: Uint8Array): LocalDocument {
+  switch (format) {
+    case "docx":
+      return readDocx(bytes);
+    case "pptx":
+      return readPptx(bytes);
+    case "epub":
+      return readEpub(bytes);
+    case "html": {
+      const { markdown, title } = htmlToMarkdown(decodeText(bytes));
+      return { ...(title && { title }), sections: [{ markdown }] };
+    }
+  }
+}
@@ -0,0 +1,188 @@
+// A forgiving XML/HTML parser: enough for Office XML parts, EPUB packages
+// and real-world HTML, not a validator
+export interface MarkupNode {
+  // As written, including any namespace prefix (w:p). Lowercased for HTML.
+  name: string;
+  attrs: Record<string, string>;
+  children: (MarkupNode | string)[];
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  bull: "•",
+  middot: "·",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  shy: "",
+};
+const VOID_ELEMENTS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr",
+]);
+// Their contents are text, not markup
+const RAW_TEXT_ELEMENTS = new Set(["script", "style", "textarea", "title"]);
+// An open element of the key is closed by a new element of any listed name
+const IMPLIED_END: Record<string, string[]> = {
+  p: [
+    ...["p", "div", "ul", "ol", "li", "dl", "dt", "dd", "table", "tr", "td", "th", "pre", "blockquote"],
+    ...["h1", "h2", "h3", "h4", "h5", "h6", "section", "article", "header", "footer", "figure"],
+  ],
+  li: ["li"],
+  dt: ["dt", "dd"],
+  dd: ["dt", "dd"],
+  tr: ["tr", "tbody", "tfoot"],
+  td: ["td", "th", "tr"],
+  th: ["td", "th", "tr"],
+  option: ["option"],
+};
+const TAG = /<(\/?)([A-Za-z][\w:.-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/y;
+const ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+export function decodeEntities(text: string): string {
+  if (!text.includes("&")) return text;
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+\d*);/gi, (match, entity: string) => {
+    if (entity[0] !== "#") return ENTITIES[entity] ?? ENTITIES[entity.toLowerCase()] ?? match;
+    const hex = entity[1].toLowerCase() === "x";
+    const code = parseInt(entity.slice(hex ? 2 : 1), hex ? 16 : 10);
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const [, name, double, single, bare] of source.matchAll(ATTRIBUTE)) {
+    attrs[name] = decodeEntities(double ?? single ?? bare ?? "");
+  }
+  return attrs;
+}
+
+/**
+ * Parse markup into a tree under a synthetic root. With `html`, names are
+ * lowercased, void elements never take children, script and style bodies
+ * are kept as text, and unclosed paragraphs, list items and cells are
+ * closed the way browsers close them. Stray end tags are ignored.
+ */
+export function parseMarkup(source: string, { html = false } = {}): MarkupNode {
+  const root: MarkupNode = { name: "#root", attrs: {}, children: [] };
+  const stack = [root];
+  const top = () => stack[stack.length - 1];
+  const text = (value: string) => {
+    if (value) top().children.push(decodeEntities(value));
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const open = source.indexOf("<", i);
+    if (open < 0) {
+      text(source.slice(i));
+      break;
+    }
+    text(source.slice(i, open));
+
+    if (source.startsWith("<!--", open)) {
+      const end = source.indexOf("-->", open + 4);
+      i = end < 0 ? source.length : end + 3;
+      continue;
+    }
+    if (source.startsWith("<![CDATA[", open)) {
+      const end = source.indexOf("]]>", open + 9);
+      top().children.push(source.slice(open + 9, end < 0 ? source.length : end));
+      i = end < 0 ? source.length : end + 3;
+      continue;
+    }
+    if (source[open + 1] === "!" || source[open + 1] === "?") {
+      const end = source.indexOf(">", open);
+      i = end < 0 ? source.length : end + 1;
+      continue;
+    }
+
+    TAG.lastIndex = open;
+    const match = TAG.exec(source);
+    if (!match) {
+      // A lone "<" in text
+      text("<");
+      i = open + 1;
+      continue;
+    }
+    i = open + match[0].length;
+    const name = html ? match[2].toLowerCase() : match[2];
+
+    if (match[1]) {
+      const depth = stack.findLastIndex((node) => node.name === name);
+      if (depth > 0) stack.length = depth;
+      continue;
+    }
+
+    if (html) {
+      for (;;) {
+        const closes = IMPLIED_END[top().name];
+        if (!closes?.includes(name)) break;
+        stack.pop();
+      }
+    }
+
+    const selfClosing = match[3].trimEnd().endsWith("/");
+    const node: MarkupNode = {
+      name,
+      attrs: parseAttributes(selfClosing ? match[3].trimEnd().slice(0, -1) : match[3]),
+      children: [],
+    };
+    top().children.push(node);
+    if (selfClosing || (html && VOID_ELEMENTS.has(name))) continue;
+
+    if (html && RAW_TEXT_ELEMENTS.has(name)) {
+      const close = new RegExp(`</${name}\\s*>`, "gi");
+      close.lastIndex = i;
+      const end = close.exec(source);
+      const body = source.slice(i, end ? end.index : source.length);
+      if (body) node.children.push(name === "title" || name === "textarea" ? decodeEntities(body) : body);
+      i = end ? close.lastIndex : source.length;
+      continue;
+    }
+    stack.push(node);
+  }
+
+  return root;
+}
+
+// Element children only, optionally those with the given name
+export function childElements(node: MarkupNode, name?: string): MarkupNode[] {
+  return node.children.filter(
+    (child): child is MarkupNode => typeof child !== "string" && (!name || child.name === name)
+  );
+}
+
+export function findFirst(node: MarkupNode, name: string): MarkupNode | undefined {
+  for (const child of node.children) {
+    if (typeof child === "string") continue;
+    if (child.name === name) return child;
+    const found = findFirst(child, name);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+export function findAll(node: MarkupNode, name: string, found: MarkupNode[] = []): MarkupNode[] {
+  for (const child of node.children) {
+    if (typeof child === "string") continue;
+    if (child.name === name) found.push(child);
+    findAll(child, name, found);
+  }
+  return found;
+}
+
+export function textContent(node: MarkupNode): string {
+  return node.children.map((child) => (typeof child === "string" ? child : textContent(child))).join("");
+}
@@ -0,0 +1,196 @@
+import type { OcrImage } from "@/lib/providers/types";
+import {
+  coreTitle,
+  corruptFile,
+  imageDataUri,
+  openArchive,
+  readRelationships,
+  readXml,
+  type Archive,
+  type Relationship,
+} from "./archive";
+import { tableHtml, type TableCell } from "./html";
+import { childElements, findAll, findFirst, textContent, type MarkupNode } from "./markup";
+import { joinBlocks, renderRuns, type Run } from "./runs";
+import type { LocalDocument } from "./types";
+
+const PRESENTATION = "ppt/presentation.xml";
+// Placeholders repeated from the layout on every slide
+const SKIPPED_PLACEHOLDERS = new Set(["sldNum", "dt", "ftr", "hdr", "sldImg"]);
+
+interface SlideContext {
+  archive: Archive;
+  rels: Map<string, Relationship>;
+  images: Map<string, OcrImage>;
+}
+
+function placeholder(shape: MarkupNode): { type: string } | undefined {
+  const ph = findFirst(childElements(shape)[0] ?? shape, "p:ph");
+  // A placeholder without a type is a body placeholder
+  return ph && { type: ph.attrs.type ?? "body" };
+}
+
+function hasChild(node: MarkupNode | undefined, name: string): boolean {
+  return !!node && childElements(node, name).length > 0;
+}
+
+function paragraphText(p: MarkupNode, ctx: SlideContext): string {
+  const runs: Run[] = [];
+  for (const child of childElements(p)) {
+    if (child.name === "a:br") {
+      runs.push({ text: "\n" });
+    } else if (child.name === "a:r" || child.name === "a:fld") {
+      const props = childElements(child, "a:rPr")[0];
+      const rel = ctx.rels.get(findFirst(props ?? child, "a:hlinkClick")?.attrs["r:id"] ?? "");
+      runs.push({
+        text: textContent(childElements(child, "a:t")[0] ?? child),
+        bold: props?.attrs.b === "1",
+        italic: props?.attrs.i === "1",
+        link: rel?.external ? rel.target : undefined,
+      });
+    }
+  }
+  return renderRuns(runs)
+    .split("\n")
+    .map((line) => line.trim())
+    .join("\n")
+    .trim();
+}
+
+// Paragraphs of a text body. Body placeholders are bulleted unless a
+// paragraph turns bullets off; text boxes only where bullets are set.
+function textBody(body: MarkupNode, ctx: SlideContext, bulleted: boolean): string {
+  const lines: string[] = [];
+  const counters: number[] = [];
+  for (const p of childElements(body, "a:p")) {
+    const text = paragraphText(p, ctx);
+    if (!text) continue;
+    const props = childElements(p, "a:pPr")[0];
+    const depth = Number(props?.attrs.lvl) || 0;
+    const numbered = hasChild(props, "a:buAutoNum");
+    const bullet = numbered || hasChild(props, "a:buChar") || (bulleted && !hasChild(props, "a:buNone"));
+
+    if (!bullet) {
+      lines.push(text);
+      counters.length = 0;
+      continue;
+    }
+    counters.length = depth + 1;
+    counters[depth] = (counters[depth] ?? 0) + 1;
+    const marker = numbered ? `${counters[depth]}. ` : "- ";
+    const pad = "  ".repeat(depth);
+    lines.push(pad + marker + text.replace(/\n/g, `\n${pad}${" ".repeat(marker.length)}`));
+  }
+  return joinBlocks(lines);
+}
+
+function table(tbl: MarkupNode, ctx: SlideContext): string {
+  const rows: TableCell[][] = childElements(tbl, "a:tr").map((tr, r) =>
+    childElements(tr, "a:tc")
+      // Cells covered by a merge are marked and skipped
+      .filter((tc) => tc.attrs.hMerge !== "1" && tc.attrs.vMerge !== "1")
+      .map((tc) => ({
+        text: findAll(tc, "a:p")
+          .map((p) => paragraphText(p, ctx))
+          .filter(Boolean)
+          .join(" "),
+        header: r === 0,
+        colspan: Number(tc.attrs.gridSpan) || 1,
+        rowspan: Number(tc.attrs.rowSpan) || 1,
+      }))
+  );
+  return tableHtml(rows);
+}
+
+function picture(pic: MarkupNode, ctx: SlideContext): string {
+  const rel = ctx.rels.get(findFirst(pic, "a:blip")?.attrs["r:embed"] ?? "");
+  if (!rel || rel.external) return "";
+  if (!ctx.images.has(rel.target)) {
+    ctx.images.set(rel.target, { id: rel.target, data: imageDataUri(ctx.archive, rel.target) });
+  }
+  const alt = findFirst(pic, "p:cNvPr")?.attrs.descr ?? "";
+  return `![${alt.replace(/[[\]\n]/g, " ").trim()}](${rel.target})`;
+}
+
+// Shapes in z-order, which is also the order most slides read in
+function shapes(tree: MarkupNode, ctx: SlideContext, out: { title?: string; blocks: string[] }): void {
+  for (const shape of childElements(tree)) {
+    if (shape.name === "p:grpSp") {
+      shapes(shape, ctx, out);
+    } else if (shape.name === "p:sp") {
+      const ph = placeholder(shape);
+      const body = childElements(shape, "p:txBody")[0];
+      if (!body || (ph && SKIPPED_PLACEHOLDERS.has(ph.type))) continue;
+      if (ph && (ph.type === "title" || ph.type === "ctrTitle") && !out.title) {
+        const title = childElements(body, "a:p").map((p) => paragraphText(p, ctx));
+        out.title = title.join(" ").replace(/\s+/g, " ").trim() || undefined;
+        if (out.title) out.blocks.push(`${ph.type === "ctrTitle" ? "#" : "##"} ${out.title}`);
+        continue;
+      }
+      const text = textBody(body, ctx, ph?.type === "body" || ph?.type === "obj");
+      if (text) out.blocks.push(text);
+    } else if (shape.name === "p:graphicFrame") {
+      const tbl = findFirst(shape, "a:tbl");
+      const html = tbl && table(tbl, ctx);
+      if (html) out.blocks.push(html);
+    } else if (shape.name === "p:pic") {
+      const ref = picture(shape, ctx);
+      if (ref) out.blocks.push(ref);
+    }
+  }
+}
+
+function notes(archive: Archive, rels: Map<string, Relationship>): string {
+  const rel = [...rels.values()].find((r) => r.type.endsWith("/notesSlide"));
+  const xml = rel && readXml(archive, rel.target);
+  const tree = xml && findFirst(xml, "p:spTree");
+  if (!tree) return "";
+  const ctx = { archive, rels: readRelationships(archive, rel.target), images: new Map() };
+  return findAll(tree, "p:sp")
+    .filter((shape) => placeholder(shape)?.type === "body")
+    .map((shape) => textBody(childElements(shape, "p:txBody")[0] ?? shape, ctx, false))
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Convert a presentation to one section per visible slide, in
+ * presentation order. Titles become headings, body placeholders become
+ * bulleted lists, tables are left as HTML for normalizeTables, and
+ * speaker notes follow the slide as a blockquote.
+ */
+export function readPptx(bytes: Uint8Array): LocalDocument {
+  const archive = openArchive(bytes, "PPTX");
+  const presentation = readXml(archive, PRESENTATION);
+  const list = presentation && findFirst(presentation, "p:sldIdLst");
+  if (!list) throw corruptFile("PPTX", "has no slides");
+
+  const presentationRels = readRelationships(archive, PRESENTATION);
+  const sections: LocalDocument["sections"] = [];
+  for (const id of childElements(list, "p:sldId")) {
+    const part = presentationRels.get(id.attrs["r:id"] ?? "")?.target;
+    const slide = part && readXml(archive, part);
+    const root = slide && childElements(slide, "p:sld")[0];
+    if (!root || root.attrs.show === "0") continue;
+
+    const rels = readRelationships(archive, part);
+    const ctx: SlideContext = { archive, rels, images: new Map() };
+    const out: { title?: string; blocks: string[] } = { blocks: [] };
+    const tree = findFirst(root, "p:spTree");
+    if (tree) shapes(tree, ctx, out);
+
+    const speaker = notes(archive, rels);
+    if (speaker) {
+      out.blocks.push(
+        `**Notes:** ${speaker}`
+          .split("\n")
+          .map((line) => (line ? `> ${line}` : ">"))
+          .join("\n")
+      );
+    }
+    sections.push({ markdown: out.blocks.join("\n\n"), images: [...ctx.images.values()] });
+  }
+
+  if (!sections.length) throw corruptFile("PPTX", "has no slides");
+  return { title: coreTitle(archive), sections };
+}
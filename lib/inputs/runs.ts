@@ -0,0 +1,75 @@
+// A stretch of text with one formatting, as Word and PowerPoint store it
+export interface Run {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  // Hyperlink target
+  link?: string;
+}
+
+// Wrap inline text in a marker, keeping its outer spaces outside so
+// "a<b> bold </b>b" reads "a **bold** b"
+export function wrap(text: string, marker: string): string {
+  const inner = text.trim();
+  if (!inner) return text;
+  const lead = /^\s/.test(text) ? " " : "";
+  const trail = /\s$/.test(text) ? " " : "";
+  return `${lead}${marker}${inner}${marker}${trail}`;
+}
+
+function group<T>(items: T[], same: (a: T, b: T) => boolean): T[][] {
+  const groups: T[][] = [];
+  for (const item of items) {
+    const last = groups[groups.length - 1];
+    if (last && same(last[0], item)) last.push(item);
+    else groups.push([item]);
+  }
+  return groups;
+}
+
+function styled(runs: Run[]): string {
+  return group(runs, (a, b) => !!a.bold === !!b.bold && !!a.italic === !!b.italic)
+    .map((same) => {
+      let text = same.map((run) => run.text).join("");
+      if (same[0].italic) text = wrap(text, "*");
+      if (same[0].bold) text = wrap(text, "**");
+      return text;
+    })
+    .join("");
+}
+
+/**
+ * Render runs as inline markdown. Neighbouring runs with the same
+ * formatting are merged first, since editors split text into runs at
+ * arbitrary points ("**Hel****lo**").
+ */
+export function renderRuns(runs: Run[]): string {
+  return group(
+    runs.filter((run) => run.text),
+    (a, b) => a.link === b.link
+  )
+    .map((same) => {
+      const text = styled(same);
+      return same[0].link && text.trim() ? wrapLink(text, same[0].link) : text;
+    })
+    .join("")
+    .replace(/[ \t]+/g, " ");
+}
+
+function wrapLink(text: string, href: string): string {
+  const lead = /^\s/.test(text) ? " " : "";
+  const trail = /\s$/.test(text) ? " " : "";
+  return `${lead}[${text.trim()}](${href.replace(/\s/g, "%20")})${trail}`;
+}
+
+const LIST_ITEM = /^(\s*)(?:(-)|\d+\.) /;
+
+// Separate blocks with blank lines, except between items of the same
+// list, which stay together
+export function joinBlocks(blocks: string[]): string {
+  const sameList = (a: string, b: string) => {
+    const [x, y] = [a.match(LIST_ITEM), b.match(LIST_ITEM)];
+    return !!x && !!y && (!!x[1] || !!y[1] || !!x[2] === !!y[2]);
+  };
+  return blocks.reduce((text, block, i) => text + (i ? (sameList(blocks[i - 1], block) ? "\n" : "\n\n") : "") + block, "");
+}
@@ -0,0 +1,14 @@
+import type { OcrImage } from "@/lib/providers/types";
+
+// One page, slide or chapter of a locally converted document
+export interface LocalSection {
+  markdown: string;
+  // Figures referenced from the markdown, with their data for `extract`
+  images?: OcrImage[];
+}
+
+export interface LocalDocument {
+  // From the document's own metadata, when set
+  title?: string;
+  sections: LocalSection[];
+}
@@ -0,0 +1,10 @@
+import type { Job, JobLimits } from "./types";
+
+export function isFinished(job: Job): boolean {
+  return job.status === "completed" || job.status === "failed";
+}
+
+// Only finished jobs expire: queued and running ones still have a result to deliver
+export function isExpired(job: Job, limits: JobLimits, now: number): boolean {
+  return isFinished(job) && now - Date.parse(job.updatedAt) > limits.ttlMs;
+}
@@ -0,0 +1,68 @@
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { FileJobStore } from "./file-store";
+import { MemoryJobStore } from "./memory-store";
+import type { Job, JobStatus } from "./types";
+
+const HOUR = 60 * 60 * 1000;
+
+function job(id: string, status: JobStatus, updatedAt = new Date().toISOString()): Job {
+  return {
+    id,
+    owner: "key:ci",
+    status,
+    progress: 0,
+    filename: `${id}.pdf`,
+    provider: "mock",
+    createdAt: updatedAt,
+    updatedAt,
+  };
+}
+
+describe("FileJobStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "jobs-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("keeps queued and running jobs past the cap, dropping finished ones", async () => {
+    const store = new FileJobStore(dir, { ttlMs: HOUR, maxJobs: 1 });
+    await store.create(job("a", "queued"));
+    await store.create(job("b", "processing"));
+    expect((await readdir(dir)).sort()).toEqual(["a.json", "b.json"]);
+
+    await store.update("a", { status: "completed", progress: 100 });
+    await store.create(job("c", "queued"));
+    expect((await readdir(dir)).sort()).toEqual(["b.json", "c.json"]);
+    expect(await store.update("b", { status: "completed" })).toMatchObject({ status: "completed" });
+  });
+
+  it("reports finished jobs past the TTL as missing", async () => {
+    const store = new FileJobStore(dir, { ttlMs: HOUR, maxJobs: 10 });
+    const old = new Date(Date.now() - 2 * HOUR).toISOString();
+    await store.create(job("done", "completed", old));
+    await store.create(job("waiting", "queued", old));
+
+    expect(await store.get("done")).toBeNull();
+    expect(await store.get("waiting")).toMatchObject({ status: "queued" });
+  });
+});
+
+describe("MemoryJobStore", () => {
+  it("reports finished jobs past the TTL as missing", async () => {
+    const store = new MemoryJobStore({ ttlMs: HOUR, maxJobs: 10 });
+    const old = new Date(Date.now() - 2 * HOUR).toISOString();
+    await store.create(job("done", "failed", old));
+    await store.create(job("waiting", "processing", old));
+
+    expect(await store.get("done")).toBeNull();
+    expect(await store.get("waiting")).toMatchObject({ status: "processing" });
+  });
+});
@@ -0,0 +1,73 @@
+import { mkdir, readFile, readdir, rename, stat, unlink, writeFile } from "fs/promises";
+import path from "path";
+import { isExpired, isFinished } from "./expiry";
+import type { Job, JobLimits, JobStore } from "./types";
+
+// One JSON file per job, so jobs survive restarts and can be shared by
+// processes on the same disk. Expired jobs are deleted as new ones come in,
+// oldest write first; queued and running jobs are always kept.
+export class FileJobStore implements JobStore {
+  constructor(private dir: string, private limits: JobLimits) {}
+
+  private file(id: string): string {
+    // Ids are generated by us, but never let one escape the directory
+    return path.join(this.dir, `${path.basename(id)}.json`);
+  }
+
+  private async write(job: Job): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const target = this.file(job.id);
+    const tmp = `${target}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(job));
+    await rename(tmp, target);
+  }
+
+  async create(job: Job): Promise<void> {
+    await this.write(job);
+    await this.trim();
+  }
+
+  async get(id: string): Promise<Job | null> {
+    const job = await this.read(this.file(id));
+    return job && !isExpired(job, this.limits, Date.now()) ? job : null;
+  }
+
+  private async read(file: string): Promise<Job | null> {
+    try {
+      return JSON.parse(await readFile(file, "utf8")) as Job;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async update(id: string, patch: Partial<Omit<Job, "id" | "createdAt">>): Promise<Job | null> {
+    const job = await this.get(id);
+    if (!job) return null;
+    const updated = { ...job, ...patch, updatedAt: new Date().toISOString() };
+    await this.write(updated);
+    return updated;
+  }
+
+  // Files are checked oldest write first, and only read once they are past
+  // the cap or the TTL; unfinished jobs among them stay
+  private async trim(): Promise<void> {
+    const now = Date.now();
+    const files = await Promise.all(
+      (await readdir(this.dir))
+        .filter((name) => name.endsWith(".json"))
+        .map(async (name) => ({ name, mtime: (await stat(path.join(this.dir, name)).catch(() => null))?.mtimeMs ?? 0 }))
+    );
+    files.sort((a, b) => a.mtime - b.mtime);
+
+    let count = files.length;
+    for (const { name, mtime } of files) {
+      if (count <= this.limits.maxJobs && now - mtime <= this.limits.ttlMs) break;
+      const file = path.join(this.dir, name);
+      const job = await this.read(file).catch(() => null);
+      if (job && !isFinished(job)) continue;
+      await unlink(file).catch(() => {});
+      count--;
+    }
+  }
+}
@@ -0,0 +1,106 @@
+import { randomUUID } from "crypto";
+import path from "path";
+import { convertDocument, type ConvertOptions } from "@/lib/convert";
+import { ProviderError, RequestError } from "@/lib/errors";
+import { FileJobStore } from "./file-store";
+import { MemoryJobStore } from "./memory-store";
+import type { Job, JobLimits, JobStore } from "./types";
+import { sendWebhook } from "./webhook";
+
+export type { Job, JobLimits, JobStatus, JobStore } from "./types";
+export { MemoryJobStore } from "./memory-store";
+export { FileJobStore } from "./file-store";
+export { checkCallbackUrl } from "./webhook";
+
+function limitsFromEnv(): JobLimits {
+  return {
+    ttlMs: (Number(process.env.JOB_TTL_HOURS) || 24) * 60 * 60 * 1000,
+    maxJobs: Number(process.env.JOB_MAX_ENTRIES) || 100,
+  };
+}
+
+function createJobStore(): JobStore {
+  const kind = process.env.JOB_STORE || "memory";
+  if (kind === "file") {
+    return new FileJobStore(process.env.JOB_STORE_DIR || path.join(process.cwd(), ".data", "jobs"), limitsFromEnv());
+  }
+  if (kind !== "memory") {
+    throw new Error(`Unknown JOB_STORE "${kind}". Expected "memory" or "file"`);
+  }
+  return new MemoryJobStore(limitsFromEnv());
+}
+
+// Keep one store per process, including across dev-server module reloads
+const globalForJobs = globalThis as unknown as { jobStore?: JobStore };
+
+export function getJobStore(): JobStore {
+  globalForJobs.jobStore ??= createJobStore();
+  return globalForJobs.jobStore;
+}
+
+export function webhookSecret(): string | undefined {
+  return process.env.WEBHOOK_SECRET;
+}
+
+export async function createJob(
+  owner: string,
+  filename: string,
+  options: ConvertOptions,
+  callbackUrl?: string
+): Promise<Job> {
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: randomUUID(),
+    owner,
+    status: "queued",
+    progress: 0,
+    filename,
+    provider: options.provider,
+    ...(callbackUrl && { callbackUrl }),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await getJobStore().create(job);
+  return job;
+}
+
+export async function runJob(id: string, bytes: ArrayBuffer, options: ConvertOptions): Promise<Job | null> {
+  const store = getJobStore();
+  let job: Job | null;
+
+  try {
+    const started = await store.update(id, { status: "processing", progress: 10 });
+
+    // Serialize progress writes so none can land after the final update.
+    // Progress is only a hint: a failed write must not fail the job.
+    let writes: Promise<unknown> = Promise.resolve();
+    const result = await convertDocument(bytes, started?.filename ?? "document.pdf", options, {
+      onPages: (_pages, pagesDone, totalPages) => {
+        const progress = 10 + Math.floor((pagesDone / totalPages) * 85);
+        writes = writes
+          .then(() => store.update(id, { progress }))
+          .catch((error) => console.error(`Saving progress of job ${id} failed:`, error));
+      },
+    });
+    await writes;
+
+    job = await store.update(id, { status: "completed", progress: 100, result });
+  } catch (error) {
+    console.error(`Job ${id} failed:`, error);
+    job = await store.update(id, {
+      status: "failed",
+      error: error instanceof Error ? error.message : "OCR processing failed",
+      errorCode: error instanceof ProviderError || error instanceof RequestError ? error.code : "INTERNAL_ERROR",
+    });
+  }
+
+  const secret = webhookSecret();
+  if (job?.callbackUrl && secret) {
+    try {
+      await sendWebhook(job, secret);
+    } catch (error) {
+      console.error(`Webhook for job ${id} failed:`, error);
+    }
+  }
+  return job;
+}
@@ -0,0 +1,42 @@
+import { isExpired, isFinished } from "./expiry";
+import type { Job, JobLimits, JobStore } from "./types";
+
+// Jobs live in process memory and are lost on restart. Finished jobs hold
+// their whole result, so they are dropped once expired or past the cap;
+// queued and running jobs are always kept.
+export class MemoryJobStore implements JobStore {
+  private jobs = new Map<string, Job>();
+
+  constructor(private limits: JobLimits) {}
+
+  async create(job: Job): Promise<void> {
+    this.prune(Date.now());
+    this.jobs.set(job.id, job);
+  }
+
+  async get(id: string): Promise<Job | null> {
+    const job = this.jobs.get(id);
+    if (!job || isExpired(job, this.limits, Date.now())) return null;
+    return job;
+  }
+
+  async update(id: string, patch: Partial<Omit<Job, "id" | "createdAt">>): Promise<Job | null> {
+    const job = this.jobs.get(id);
+    if (!job) return null;
+    const updated = { ...job, ...patch, updatedAt: new Date().toISOString() };
+    // Re-inserting keeps the map ordered by last update, oldest first
+    this.jobs.delete(id);
+    this.jobs.set(id, updated);
+    return updated;
+  }
+
+  private prune(now: number): void {
+    let excess = this.jobs.size + 1 - this.limits.maxJobs;
+    for (const [id, job] of this.jobs) {
+      if (isExpired(job, this.limits, now) || (excess > 0 && isFinished(job))) {
+        this.jobs.delete(id);
+        excess--;
+      }
+    }
+  }
+}
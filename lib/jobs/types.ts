@@ -0,0 +1,35 @@
+import type { ConversionResult } from "@/lib/convert";
+import type { ErrorCode } from "@/lib/errors";
+import type { ProviderId } from "@/lib/providers";
+
+export type JobStatus = "queued" | "processing" | "completed" | "failed";
+
+export interface Job {
+  id: string;
+  // The caller that submitted the job; only they can poll it
+  owner: string;
+  status: JobStatus;
+  // 0-100
+  progress: number;
+  filename: string;
+  provider: ProviderId;
+  callbackUrl?: string;
+  result?: ConversionResult;
+  error?: string;
+  errorCode?: ErrorCode;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface JobStore {
+  create(job: Job): Promise<void>;
+  get(id: string): Promise<Job | null>;
+  update(id: string, patch: Partial<Omit<Job, "id" | "createdAt">>): Promise<Job | null>;
+}
+
+export interface JobLimits {
+  // Finished jobs are dropped this long after their last update
+  ttlMs: number;
+  // Oldest finished jobs are dropped past this many jobs
+  maxJobs: number;
+}
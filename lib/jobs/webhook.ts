@@ -0,0 +1,107 @@
+import { createHmac } from "crypto";
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+import { RequestError } from "@/lib/errors";
+import type { Job } from "./types";
+
+// Unspecified, loopback, private, link-local and shared IPv4 ranges, as a
+// first octet and the range of second octets under it
+const BLOCKED_IPV4: [number, number, number][] = [
+  [0, 0, 255],
+  [10, 0, 255],
+  [100, 64, 127],
+  [127, 0, 255],
+  [169, 254, 254],
+  [172, 16, 31],
+  [192, 168, 168],
+];
+
+// The IPv4 address in an IPv4-mapped IPv6 one, which URLs write in hex
+// ("::ffff:c0a8:1" for 192.168.0.1)
+function mappedIpv4(address: string): string | null {
+  const dotted = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (dotted) return dotted[1];
+  const hex = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i);
+  if (!hex) return null;
+  const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+  return [high >> 8, high & 255, low >> 8, low & 255].join(".");
+}
+
+function isInternalAddress(address: string): boolean {
+  const mapped = mappedIpv4(address);
+  if (mapped) return isInternalAddress(mapped);
+  if (isIP(address) === 4) {
+    const [a, b] = address.split(".").map(Number);
+    return a >= 224 || BLOCKED_IPV4.some(([first, from, to]) => a === first && b >= from && b <= to);
+  }
+  const lower = address.toLowerCase();
+  // Unspecified, loopback, unique local (fc00::/7), link-local (fe80::/10) and multicast
+  return lower === "::" || lower === "::1" || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower) || lower.startsWith("ff");
+}
+
+// WEBHOOK_ALLOWED_HOSTS lists the only hosts callbacks may go to, such as
+// "hooks.example.com,ci.internal"; listed hosts may be internal
+function allowedHosts(): string[] | null {
+  const hosts = process.env.WEBHOOK_ALLOWED_HOSTS?.split(",").map((host) => host.trim().toLowerCase()).filter(Boolean);
+  return hosts?.length ? hosts : null;
+}
+
+/**
+ * Refuse callback URLs that would make the server call itself or its
+ * network: localhost, and hosts that resolve to loopback, private or
+ * link-local addresses. With WEBHOOK_ALLOWED_HOSTS set, only those hosts
+ * are accepted.
+ */
+export async function checkCallbackUrl(url: URL): Promise<void> {
+  const host = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  const allowed = allowedHosts();
+  if (allowed) {
+    if (!allowed.includes(host)) throw new RequestError(`callbackUrl host "${host}" is not allowed`);
+    return;
+  }
+
+  if (host === "localhost" || host.endsWith(".localhost")) {
+    throw new RequestError("callbackUrl must not point at this server or its network");
+  }
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map((entry) => entry.address);
+  } catch {
+    throw new RequestError(`callbackUrl host "${host}" could not be resolved`);
+  }
+  if (addresses.some(isInternalAddress)) {
+    throw new RequestError("callbackUrl must not point at this server or its network");
+  }
+}
+
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+// POST the finished job to its callback URL. The signature covers
+// `<timestamp>.<body>` so receivers can reject replays. The host is checked
+// again, since what it resolves to may have changed since submission.
+export async function sendWebhook(job: Job, secret: string): Promise<void> {
+  if (!job.callbackUrl) return;
+  await checkCallbackUrl(new URL(job.callbackUrl));
+
+  const body = JSON.stringify({ event: `job.${job.status}`, job: { ...job, owner: undefined } });
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+
+  const response = await fetch(job.callbackUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Webhook-Timestamp": timestamp,
+      "X-Webhook-Signature": `sha256=${signPayload(secret, timestamp, body)}`,
+    },
+    body,
+    // A redirect could lead anywhere the host check would have refused
+    redirect: "manual",
+    signal: AbortSignal.timeout(10_000),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Webhook responded with ${response.status}`);
+  }
+}
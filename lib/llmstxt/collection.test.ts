@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { buildCollection, type CollectionDocument } from "./collection";
+
+function doc(filename: string, fields: Partial<CollectionDocument> = {}): CollectionDocument {
+  const markdown = `# ${filename}\n\nText.`;
+  return { filename, title: filename, summary: `About ${filename}.`, markdown, pageCount: 1, ...fields };
+}
+
+describe("buildCollection", () => {
+  it("counts each document in its own unit", () => {
+    const { llmsTxt } = buildCollection([
+      doc("report.pdf", { pageCount: 12 }),
+      doc("deck.pptx", { pageCount: 3, unit: "slide" }),
+      doc("notes.docx", { pageCount: 4, unit: null }),
+      doc("book.epub", { pageCount: 1, unit: "chapter" }),
+      doc("scan.pdf", { pageCount: 2, unit: "page" }),
+    ]);
+    expect(llmsTxt).toContain("> Index of 5 documents (14 pages, 3 slides, 4 sections, 1 chapter) converted to markdown.");
+  });
+
+  it("keeps filenames from closing the comment that labels each document", () => {
+    const { llmsFullTxt } = buildCollection([doc("a-->b.pdf"), doc("c--!>d.pdf")]);
+    expect(llmsFullTxt).toContain("<!-- a->b.pdf -->");
+    expect(llmsFullTxt).toContain("<!-- c-!>d.pdf -->");
+    for (const line of llmsFullTxt.split("\n").filter((line) => line.startsWith("<!--"))) {
+      expect(line.slice(4, -3)).not.toContain("--");
+    }
+  });
+
+  it("gives every document its own file", () => {
+    const { files } = buildCollection([doc("Report.pdf"), doc("report.docx", { unit: null })]);
+    expect(Object.keys(files)).toEqual(["llms.txt", "llms-full.txt", "docs/report.md", "docs/report-2.md"]);
+  });
+});
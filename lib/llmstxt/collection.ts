@@ -0,0 +1,110 @@
+import { assetBytes, type ImageAsset } from "@/lib/figures";
+import type { InputUnit } from "@/lib/inputs/formats";
+import { tableFiles, type ExtractedTable } from "@/lib/tables";
+import { FULL_TXT_PATH, linkText } from "./markdown";
+
+export interface CollectionDocument {
+  filename: string;
+  title: string;
+  summary: string;
+  markdown: string;
+  pageCount: number;
+  // What pageCount counts; null for formats without pages, where it counts
+  // sections. Pages when omitted.
+  unit?: InputUnit;
+  tables?: ExtractedTable[];
+  images?: ImageAsset[];
+}
+
+export interface CollectionBundle {
+  llmsTxt: string;
+  llmsFullTxt: string;
+  // Relative path -> contents, including llms.txt, llms-full.txt, each
+  // document's tables as CSV and JSON, and extracted images
+  files: Record<string, string | Uint8Array>;
+}
+
+// One document's llms.txt files with its tables as CSV and JSON and its
+// extracted images, which llms-full.txt references by relative path
+export function documentFiles(doc: {
+  llmsTxt: string;
+  llmsFullTxt: string;
+  tables?: ExtractedTable[];
+  images?: ImageAsset[];
+}): Record<string, string | Uint8Array> {
+  return {
+    "llms.txt": doc.llmsTxt,
+    [FULL_TXT_PATH]: doc.llmsFullTxt,
+    ...tableFiles(doc.tables ?? [], "tables"),
+    ...Object.fromEntries((doc.images ?? []).map((image) => [image.path, assetBytes(image)])),
+  };
+}
+
+function documentName(filename: string, used: Set<string>): string {
+  const base =
+    filename
+      .replace(/\.[a-z0-9]+$/i, "")
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "document";
+  let name = base;
+  for (let n = 2; used.has(name); n++) name = `${base}-${n}`;
+  used.add(name);
+  return name;
+}
+
+// "12 pages, 3 slides", in the order the units first appear
+function countsLabel(documents: Pick<CollectionDocument, "pageCount" | "unit">[]): string {
+  const counts = new Map<string, number>();
+  for (const { pageCount, unit = "page" } of documents) {
+    const name = unit ?? "section";
+    counts.set(name, (counts.get(name) ?? 0) + pageCount);
+  }
+  if (!counts.size) counts.set("page", 0);
+  return [...counts].map(([name, count]) => `${count} ${name}${count !== 1 ? "s" : ""}`).join(", ");
+}
+
+// A filename inside <!-- -->, where "--" could end the comment early
+function commentText(text: string): string {
+  return text.replace(/-{2,}/g, "-");
+}
+
+/**
+ * Combine several converted documents into one llms.txt index that links
+ * to a markdown file per document, plus an llms-full.txt with all of them.
+ */
+export function buildCollection(documents: CollectionDocument[], name = "Documents"): CollectionBundle {
+  const used = new Set<string>();
+  const entries = documents.map((doc) => {
+    const slug = documentName(doc.filename, used);
+    // Each document's images move under images/<slug>/
+    const images = (doc.images ?? []).map((image) => ({
+      image,
+      path: image.path.replace(/^images\//, `images/${slug}/`),
+    }));
+    const relink = (prefix: string) =>
+      images.reduce((markdown, { image, path }) => markdown.replaceAll(`](${image.path})`, `](${prefix}${path})`), doc.markdown);
+    return { ...doc, slug, path: `docs/${slug}.md`, images, markdown: relink(""), docMarkdown: relink("../") };
+  });
+
+  const llmsTxt = [
+    `# ${name}`,
+    `> Index of ${entries.length} document${entries.length !== 1 ? "s" : ""} (${countsLabel(entries)}) converted to markdown.`,
+    `Each entry links to the document's full markdown. All documents together are in [${FULL_TXT_PATH}](${FULL_TXT_PATH}).`,
+    "## Documents",
+    entries.map((doc) => `- [${linkText(doc.title)}](${doc.path}): ${doc.summary}`).join("\n"),
+  ].join("\n\n") + "\n";
+
+  const llmsFullTxt = entries
+    .map((doc) => `<!-- ${commentText(doc.filename)} -->\n\n${doc.markdown.trim()}\n`)
+    .join("\n---\n\n");
+
+  const files: CollectionBundle["files"] = { "llms.txt": llmsTxt, [FULL_TXT_PATH]: llmsFullTxt };
+  for (const doc of entries) {
+    files[doc.path] = doc.docMarkdown;
+    Object.assign(files, tableFiles(doc.tables ?? [], `tables/${doc.slug}`));
+    for (const { image, path } of doc.images) files[path] = assetBytes(image);
+  }
+
+  return { llmsTxt, llmsFullTxt, files };
+}
@@ -0,0 +1,107 @@
+import type { InputUnit } from "@/lib/inputs/formats";
+import { FULL_TXT_PATH, collectHeadings, linkText, plainText, type Heading } from "./markdown";
+
+export { FULL_TXT_PATH } from "./markdown";
+export { validateLlmsFullTxt, validateLlmsTxt } from "./validate";
+export { buildCollection, documentFiles, type CollectionBundle, type CollectionDocument } from "./collection";
+
+const MAX_SUMMARY = 280;
+const PAGE_HEADING = /^(Pages?|Slide|Chapter) \d/;
+
+export interface LlmsTxtInput {
+  // Cleaned markdown, as returned by optimizeForLLMs
+  markdown: string;
+  filename: string;
+  pageCount: number;
+  // What pageCount counts; null for formats without pages. Pages when omitted.
+  unit?: InputUnit;
+  // Title from the document's metadata, when set
+  metadataTitle?: string;
+}
+
+export interface LlmsTxtFiles {
+  llmsTxt: string;
+  llmsFullTxt: string;
+  // Also used for the document's entry in a batch index
+  title: string;
+  summary: string;
+}
+
+// Authoring tools often leave placeholder titles behind
+function usableTitle(title?: string): string | undefined {
+  if (!title || /^(untitled|microsoft (word|powerpoint) - )|\.(docx?|pptx?|pdf)$/i.test(title)) {
+    return undefined;
+  }
+  return title;
+}
+
+function summarize(markdown: string, fallback: string): string {
+  const paragraph = markdown
+    .split(/\n{2,}/)
+    .map((block) => block.trim())
+    .find(
+      (block) =>
+        block &&
+        !/^(#|>|[-*+] |\d+\. |\||<|---|```|~~~)/.test(block) &&
+        plainText(block).length >= 40
+    );
+  if (!paragraph) return fallback;
+
+  const text = plainText(paragraph);
+  const sentences = text.match(/[^.!?]+[.!?]+(\s|$)/g) ?? [text];
+  let summary = "";
+  for (const sentence of sentences) {
+    if (summary && (summary + sentence).length > MAX_SUMMARY) break;
+    summary += sentence;
+  }
+  summary = summary.trim();
+  return summary.length > MAX_SUMMARY ? `${summary.slice(0, MAX_SUMMARY - 1).trimEnd()}…` : summary;
+}
+
+/**
+ * Build an llms.txt (https://llmstxt.org) index for a converted document:
+ * an H1 title, a blockquote summary, a details line, and an H2 section
+ * linking into llms-full.txt, which holds the full cleaned markdown.
+ */
+export function buildLlmsTxt({
+  markdown,
+  filename,
+  pageCount,
+  unit = "page",
+  metadataTitle,
+}: LlmsTxtInput): LlmsTxtFiles {
+  const headings = collectHeadings(markdown);
+  // Page separators are always H2, so a chapter titled "Chapter 3" is content
+  const isPageHeading = (h: Heading) => h.level === 2 && PAGE_HEADING.test(h.text);
+  const contentHeadings = headings.filter((h) => !isPageHeading(h));
+  const pageHeadings = headings.filter(isPageHeading);
+
+  const title =
+    usableTitle(metadataTitle) ??
+    contentHeadings.find((h) => h.level === 1)?.text ??
+    contentHeadings[0]?.text ??
+    filename.replace(/\.[a-z0-9]+$/i, "");
+
+  const source = unit ? `${filename} (${pageCount} ${unit}${pageCount !== 1 ? "s" : ""})` : filename;
+  const summary = summarize(markdown, `Text extracted from ${source}.`);
+
+  // Index the top two heading levels in use; fall back to page anchors
+  const levels = [...new Set(contentHeadings.map((h) => h.level))].sort().slice(0, 2);
+  const indexed = contentHeadings.filter((h) => levels.includes(h.level) && h.text !== title);
+  const entries = (indexed.length ? indexed : pageHeadings).map(
+    (h) => `- [${linkText(h.text)}](${FULL_TXT_PATH}#${h.slug})`
+  );
+  if (!entries.length) {
+    entries.push(`- [Full text](${FULL_TXT_PATH}): Complete markdown of ${filename}`);
+  }
+
+  const llmsTxt = [
+    `# ${title}`,
+    `> ${summary}`,
+    `Converted from ${source}. The complete text is in [${FULL_TXT_PATH}](${FULL_TXT_PATH}).`,
+    `## ${indexed.length || !unit ? "Sections" : `${unit[0].toUpperCase()}${unit.slice(1)}s`}`,
+    entries.join("\n"),
+  ].join("\n\n");
+
+  return { llmsTxt: `${llmsTxt}\n`, llmsFullTxt: markdown, title, summary };
+}
@@ -0,0 +1,55 @@
+export const FULL_TXT_PATH = "llms-full.txt";
+
+// GitHub-style heading anchors, so links into llms-full.txt resolve in
+// common markdown renderers
+export function createSlugger(): (heading: string) => string {
+  const seen = new Map<string, number>();
+  return (heading) => {
+    const base = plainText(heading)
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s_-]/gu, "")
+      .trim()
+      .replace(/\s/g, "-");
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return count ? `${base}-${count}` : base;
+  };
+}
+
+// Strip inline markdown (emphasis, code, links) from a heading or sentence
+export function plainText(markdown: string): string {
+  return markdown
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/<[^>]+>/g, "")
+    .replace(/(\*\*|__|\*|_|`)/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export interface Heading {
+  level: number;
+  text: string;
+  slug: string;
+}
+
+// Headings outside code fences, with their anchors in document order
+export function collectHeadings(markdown: string): Heading[] {
+  const slug = createSlugger();
+  const headings: Heading[] = [];
+  let inFence = false;
+
+  for (const line of markdown.split("\n")) {
+    if (/^(```|~~~)/.test(line)) inFence = !inFence;
+    const match = !inFence && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (match) {
+      const text = plainText(match[2]);
+      headings.push({ level: match[1].length, text, slug: slug(match[2]) });
+    }
+  }
+  return headings;
+}
+
+// Escape brackets so text is safe inside a markdown link label
+export function linkText(text: string): string {
+  return text.replace(/([[\]])/g, "\\$1");
+}
@@ -0,0 +1,86 @@
+import { PDFDocument } from "pdf-lib";
+import { describe, expect, it } from "vitest";
+import { bundleDocuments } from "@/lib/batch";
+import { convertDocument, type ConversionResult, type ConvertOptions } from "@/lib/convert";
+import type { ImageMode } from "@/lib/figures";
+import { documentFiles, validateLlmsFullTxt, validateLlmsTxt } from ".";
+
+const MOCK: ConvertOptions = { provider: "mock", ocrProvider: "mock", noCache: true };
+
+async function samplePdf(pages: number): Promise<ArrayBuffer> {
+  const pdf = await PDFDocument.create();
+  for (let i = 0; i < pages; i++) pdf.addPage();
+  const bytes = await pdf.save();
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+function html(body: string): ArrayBuffer {
+  return new TextEncoder().encode(`<!doctype html><html><body>${body}</body></html>`).buffer as ArrayBuffer;
+}
+
+function expectValid({ llmsTxt, llmsFullTxt }: Pick<ConversionResult, "llmsTxt" | "llmsFullTxt">) {
+  expect(validateLlmsTxt(llmsTxt)).toEqual([]);
+  expect(validateLlmsFullTxt(llmsFullTxt, llmsTxt)).toEqual([]);
+}
+
+describe("validateLlmsTxt", () => {
+  it("accepts a title, summary and link sections", () => {
+    const text = "# Report\n\n> A summary.\n\nDetails.\n\n## Sections\n\n- [Intro](llms-full.txt#intro): notes\n";
+    expect(validateLlmsTxt(text)).toEqual([]);
+  });
+
+  it("reports a missing title, stray headings and entries that are not links", () => {
+    expect(validateLlmsTxt("Report\n")).toEqual(["File must start with an H1 title"]);
+    expect(validateLlmsTxt("# Report\n\n### Details\n\n## Sections\n\nplain text\n")).toEqual([
+      "Line 3: only H2 section headings may follow the title",
+      'Line 7: section entries must be "- [name](url)" or "- [name](url): notes"',
+    ]);
+  });
+});
+
+describe("validateLlmsFullTxt", () => {
+  it("reports anchors the index links to that do not exist", () => {
+    const llmsTxt = "# Report\n\n## Sections\n\n- [Missing](llms-full.txt#missing)\n";
+    expect(validateLlmsFullTxt("# Report\n\nBody.\n", llmsTxt)).not.toEqual([]);
+  });
+});
+
+describe("built outputs", () => {
+  it("are valid for a single PDF", async () => {
+    const result = await convertDocument(await samplePdf(3), "report.pdf", MOCK);
+    expect(result.pageCount).toBe(3);
+    expectValid(result);
+  });
+
+  it("are valid for a single HTML document", async () => {
+    const body = "<h1>Guide</h1><p>Intro.</p><h2>Install</h2><p>Run it.</p><h2>Use</h2><p>Call it.</p>";
+    expectValid(await convertDocument(html(body), "guide.html", MOCK));
+  });
+
+  it.each<ImageMode>(["strip", "placeholder", "describe", "extract"])(
+    "are valid with images=%s",
+    async (images) => {
+      const result = await convertDocument(await samplePdf(2), "figures.pdf", { ...MOCK, images });
+      expectValid(result);
+      if (images === "extract") {
+        expect(result.images?.length).toBe(1);
+        expect(Object.keys(documentFiles(result))).toContain(result.images![0].path);
+      }
+    }
+  );
+
+  it("are valid for a bundle of documents", async () => {
+    const documents = await Promise.all([
+      convertDocument(await samplePdf(2), "first.pdf", { ...MOCK, images: "extract" }),
+      convertDocument(await samplePdf(1), "second.pdf", MOCK),
+      convertDocument(html("<h1>Notes</h1><p>Text.</p>"), "notes.html", MOCK),
+    ]);
+    const bundle = bundleDocuments(documents);
+
+    expectValid(bundle);
+    for (const [path, contents] of Object.entries(bundle.files)) {
+      if (path.startsWith("docs/")) expect(validateLlmsFullTxt(contents as string)).toEqual([]);
+    }
+    expect(Object.keys(bundle.files).filter((path) => path.startsWith("images/first/"))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,75 @@
+import { collectHeadings } from "./markdown";
+
+const LINK_ITEM = /^[-*] \[(?:[^\]\\]|\\.)+\]\([^)\s]+\)(?::\s*.+)?$/;
+
+/**
+ * Check a file against the llms.txt structure: exactly one H1 first, an
+ * optional blockquote summary, free-form details without headings, then
+ * H2 sections whose bodies are only markdown link lists. Returns a list
+ * of problems; an empty list means the file is valid.
+ */
+export function validateLlmsTxt(text: string): string[] {
+  const errors: string[] = [];
+  const lines = text.split("\n");
+  let i = 0;
+  const skipBlank = () => {
+    while (i < lines.length && !lines[i].trim()) i++;
+  };
+
+  skipBlank();
+  if (!/^# \S/.test(lines[i] ?? "")) {
+    return ["File must start with an H1 title"];
+  }
+  i++;
+  skipBlank();
+
+  if (lines[i]?.startsWith(">")) {
+    while (i < lines.length && lines[i].startsWith(">")) i++;
+  }
+
+  // Details: anything up to the first H2, but no headings
+  for (; i < lines.length && !lines[i].startsWith("## "); i++) {
+    if (/^#{1,6} /.test(lines[i])) {
+      errors.push(`Line ${i + 1}: only H2 section headings may follow the title`);
+    }
+  }
+
+  let sections = 0;
+  for (; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.trim()) continue;
+    if (line.startsWith("## ")) {
+      sections++;
+      continue;
+    }
+    if (/^#{1,6} /.test(line)) {
+      errors.push(`Line ${i + 1}: only H2 headings are allowed for sections`);
+    } else if (!LINK_ITEM.test(line)) {
+      errors.push(`Line ${i + 1}: section entries must be "- [name](url)" or "- [name](url): notes"`);
+    }
+  }
+
+  if (!sections) errors.push("File has no H2 sections");
+  return errors;
+}
+
+/**
+ * Check llms-full.txt: non-empty cleaned markdown, and, when the index is
+ * given, every `llms-full.txt#anchor` it links to must exist.
+ */
+export function validateLlmsFullTxt(text: string, llmsTxt?: string): string[] {
+  const errors: string[] = [];
+  if (!text.trim()) return ["File is empty"];
+  if (!text.endsWith("\n")) errors.push("File must end with a newline");
+  // Only figures saved alongside the file (images=extract) may be linked,
+  // from docs/ in a bundle as ../images/
+  if (/!\[[^\]]*\]\((?!(?:\.\.\/)?images\/)[^)]+\)|<img[^>]*>/.test(text)) errors.push("File contains image references");
+
+  if (llmsTxt) {
+    const anchors = new Set(collectHeadings(text).map((h) => h.slug));
+    for (const [, anchor] of llmsTxt.matchAll(/\(llms-full\.txt#([^)]+)\)/g)) {
+      if (!anchors.has(anchor)) errors.push(`llms.txt links to missing anchor #${anchor}`);
+    }
+  }
+  return errors;
+}
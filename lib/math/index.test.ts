@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { findMath, hasMathGlyphs, normalizeMathDelimiters, protectMath } from ".";
+
+function found(markdown: string) {
+  return findMath(markdown).map(({ tex, display }) => ({ tex, display }));
+}
+
+describe("findMath", () => {
+  it("finds inline and display math in each delimiter style", () => {
+    expect(found("Area $\\pi r^2$ and \\(x\\), then $$\\sum_i x_i$$ and \\[ y \\]")).toEqual([
+      { tex: "\\pi r^2", display: false },
+      { tex: "x", display: false },
+      { tex: "\\sum_i x_i", display: true },
+      { tex: "y", display: true },
+    ]);
+  });
+
+  it("reports where each equation starts and ends", () => {
+    expect(findMath("a $x$ b")).toEqual([{ start: 2, end: 5, tex: "x", display: false }]);
+  });
+
+  it("keeps nested braces and escaped dollars inside an equation", () => {
+    expect(found("$\\frac{a}{\\{b\\}} + \\$1$")).toEqual([{ tex: "\\frac{a}{\\{b\\}} + \\$1", display: false }]);
+  });
+
+  it("does not take prices or escaped dollars for math", () => {
+    expect(found("It costs $5 and $10 today")).toEqual([]);
+    expect(found("Pay \\$5 or \\$6")).toEqual([]);
+    expect(found("$ x $ and $x $")).toEqual([]);
+  });
+
+  it("skips code spans and fences", () => {
+    expect(found("`$x$` and\n```\n$$y$$\n```\n$z$")).toEqual([{ tex: "z", display: false }]);
+  });
+
+  it("leaves unbalanced delimiters alone, and never crosses a blank line", () => {
+    expect(found("$$x + y")).toEqual([]);
+    expect(found("\\[ x")).toEqual([]);
+    expect(found("$$a\n\nb$$")).toEqual([]);
+  });
+});
+
+describe("normalizeMathDelimiters", () => {
+  it("rewrites \\( \\) and \\[ \\] with dollars", () => {
+    expect(normalizeMathDelimiters("\\( x \\) and \\[y\\] and $z$")).toBe("$x$ and $$y$$ and $z$");
+  });
+});
+
+describe("protectMath", () => {
+  it("hides equations from text cleanup and puts them back as written", () => {
+    const markdown = "Let $a_1 -- b$ be\n\n$$\\frac{x}{y}$$\n\nand \\(z\\).";
+    const { text, restore } = protectMath(markdown);
+
+    expect(text).not.toContain("a_1");
+    expect(text).not.toContain("frac");
+    // Display placeholders still read as a block of their own
+    expect(text).toMatch(/\n\n\$\$[^$\n]+\$\$\n\n/);
+    expect(restore(text.replace("Let", "Take"))).toBe(markdown.replace("Let", "Take"));
+  });
+
+  it("leaves text without math unchanged", () => {
+    const { text, restore } = protectMath("Costs $5 and $6.");
+    expect(text).toBe("Costs $5 and $6.");
+    expect(restore(text)).toBe(text);
+  });
+});
+
+describe("hasMathGlyphs", () => {
+  it("needs a few math symbols, not one stray arrow", () => {
+    expect(hasMathGlyphs("∀x ∈ A ⇒ x ≤ 1")).toBe(true);
+    expect(hasMathGlyphs("See page 3 → next")).toBe(false);
+  });
+});
@@ -0,0 +1,121 @@
+export { latexToMathml, type MathNode } from "./mathml";
+
+export interface MathSpan {
+  start: number;
+  end: number;
+  // The LaTeX between the delimiters
+  tex: string;
+  display: boolean;
+}
+
+// Text layers render equations as these: operators, arrows, delimiters and
+// the styled letters of the Mathematical Alphanumeric Symbols block
+const MATH_GLYPHS = /[\u2200-\u22FF\u27C0-\u27EF\u2980-\u2AFF\u{1D400}-\u{1D7FF}]/gu;
+// Glyphs on a page before its text layer is assumed to garble equations
+const MIN_MATH_GLYPHS = 3;
+
+// Find where `close` ends a span opened at `from`, without crossing a
+// blank line (a paragraph break ends any equation)
+function closing(text: string, from: number, close: string): number {
+  const end = text.indexOf(close, from);
+  if (end < 0) return -1;
+  return /\n[ \t]*\n/.test(text.slice(from, end)) ? -1 : end;
+}
+
+/**
+ * Locate the equations in markdown: display math as $$...$$ or \[...\],
+ * inline math as $...$ or \(...\). Inline dollars follow Pandoc's rule, so
+ * "$5 and $10" is not math: the opening $ must be followed, and the
+ * closing $ preceded, by a non-space, and the closing $ must not be
+ * followed by a digit. Code spans and fenced code are skipped, as are
+ * escaped dollars (\$).
+ */
+export function findMath(markdown: string): MathSpan[] {
+  const spans: MathSpan[] = [];
+  let fence: string | null = null;
+
+  for (let i = 0; i < markdown.length; i++) {
+    const atLineStart = i === 0 || markdown[i - 1] === "\n";
+    if (atLineStart) {
+      const marker = markdown.slice(i).match(/^(```|~~~)/)?.[1];
+      if (marker && (!fence || fence === marker)) fence = fence ? null : marker;
+    }
+    if (fence) continue;
+
+    const char = markdown[i];
+    const next = markdown[i + 1];
+    if (char === "`") {
+      const run = markdown.slice(i).match(/^`+/)![0];
+      const end = markdown.indexOf(run, i + run.length);
+      if (end > 0) i = end + run.length - 1;
+      continue;
+    }
+
+    let span: MathSpan | null = null;
+    if (char === "\\" && (next === "[" || next === "(")) {
+      const end = closing(markdown, i + 2, next === "[" ? "\\]" : "\\)");
+      if (end > 0) span = { start: i, end: end + 2, tex: markdown.slice(i + 2, end), display: next === "[" };
+    } else if (char === "\\") {
+      i++;
+      continue;
+    } else if (char === "$" && next === "$") {
+      const end = closing(markdown, i + 2, "$$");
+      if (end > i + 2) span = { start: i, end: end + 2, tex: markdown.slice(i + 2, end), display: true };
+    } else if (char === "$" && next && !/\s/.test(next)) {
+      const match = markdown.slice(i + 1).match(/^((?:\\.|[^$\\\n])*?[^\s\\])\$(?!\d)/);
+      if (match) span = { start: i, end: i + match[0].length + 1, tex: match[1], display: false };
+    }
+
+    if (span) {
+      spans.push({ ...span, tex: span.tex.trim() });
+      i = span.end - 1;
+    }
+  }
+  return spans;
+}
+
+// Rewrite \[...\] and \(...\) with dollar delimiters, the form the prompts
+// ask for and most markdown renderers understand
+export function normalizeMathDelimiters(markdown: string): string {
+  let result = "";
+  let last = 0;
+  for (const span of findMath(markdown)) {
+    const original = markdown.slice(span.start, span.end);
+    const rewritten = original.startsWith("$")
+      ? original
+      : span.display
+        ? `$$${original.slice(2, -2)}$$`
+        : `$${span.tex}$`;
+    result += markdown.slice(last, span.start) + rewritten;
+    last = span.end;
+  }
+  return result + markdown.slice(last);
+}
+
+/**
+ * Swap equations for placeholders that text cleanup leaves alone, and
+ * return a function that puts them back. Display placeholders keep their
+ * $$ so they still read as a block of their own.
+ */
+export function protectMath(markdown: string): { text: string; restore: (text: string) => string } {
+  const spans = findMath(markdown);
+  let text = "";
+  let last = 0;
+  spans.forEach((span, i) => {
+    text += markdown.slice(last, span.start) + (span.display ? `$$\uE000${i}\uE001$$` : `\uE000${i}\uE001`);
+    last = span.end;
+  });
+  text += markdown.slice(last);
+
+  const restore = (cleaned: string) =>
+    cleaned.replace(/(\$\$)?\uE000(\d+)\uE001\1/g, (_, __, index: string) => {
+      const span = spans[Number(index)];
+      return markdown.slice(span.start, span.end);
+    });
+  return { text, restore };
+}
+
+// Whether a page's text layer likely holds equations it cannot represent
+export function hasMathGlyphs(text: string): boolean {
+  return (text.match(MATH_GLYPHS)?.length ?? 0) >= MIN_MATH_GLYPHS;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { latexToMathml, type MathNode } from "./mathml";
+
+// Compact markup for a tree, attributes left out unless asked for
+function markup(node: MathNode | string, attrs = false): string {
+  if (typeof node === "string") return node;
+  const attributes = attrs ? Object.entries(node.attrs ?? {}).map(([name, value]) => ` ${name}="${value}"`) : [];
+  return `<${node.tag}${attributes.join("")}>${node.children.map((child) => markup(child, attrs)).join("")}</${node.tag}>`;
+}
+
+// The markup inside <math><mrow>...</mrow></math>
+function render(tex: string, display = false): string {
+  const [row] = latexToMathml(tex, display).children as MathNode[];
+  return row.children.map((child) => markup(child)).join("");
+}
+
+describe("latexToMathml", () => {
+  it("renders fractions, roots and nested groups", () => {
+    expect(render("\\frac{a+1}{b}")).toBe("<mfrac><mrow><mi>a</mi><mo>+</mo><mn>1</mn></mrow><mi>b</mi></mfrac>");
+    expect(render("\\frac{\\frac{1}{x}}{{y}}")).toBe("<mfrac><mfrac><mn>1</mn><mi>x</mi></mfrac><mi>y</mi></mfrac>");
+    expect(render("\\sqrt[3]{x}")).toBe("<mroot><mi>x</mi><mrow><mn>3</mn></mrow></mroot>");
+  });
+
+  it("renders sub- and superscripts, together and grouped", () => {
+    expect(render("x_i^2")).toBe("<msubsup><mi>x</mi><mi>i</mi><mn>2</mn></msubsup>");
+    expect(render("e^{-x}")).toBe("<msup><mi>e</mi><mrow><mo>−</mo><mi>x</mi></mrow></msup>");
+    expect(render("f'")).toBe("<msup><mi>f</mi><mo>′</mo></msup>");
+  });
+
+  it("puts the limits of large operators under and over them in display math only", () => {
+    expect(render("\\sum_{i=1}^n i", true)).toBe(
+      "<munderover><mo>∑</mo><mrow><mi>i</mi><mo>=</mo><mn>1</mn></mrow><mi>n</mi></munderover><mi>i</mi>"
+    );
+    expect(render("\\sum_{i}^n")).toBe("<msubsup><mo>∑</mo><mi>i</mi><mi>n</mi></msubsup>");
+    expect(markup(latexToMathml("x", true), true)).toBe('<math display="block"><mrow><mi>x</mi></mrow></math>');
+  });
+
+  it("renders symbols, text, fences and environments", () => {
+    expect(render("\\alpha \\leq \\infty")).toBe("<mi>α</mi><mo>≤</mo><mi>∞</mi>");
+    expect(render("\\text{if } x")).toBe("<mtext>if </mtext><mi>x</mi>");
+    expect(render("\\left( x \\right]")).toBe("<mrow><mo>(</mo><mi>x</mi><mo>]</mo></mrow>");
+    expect(render("\\begin{pmatrix} a & b \\\\ c & d \\end{pmatrix}")).toBe(
+      "<mrow><mo>(</mo><mtable><mtr><mtd><mi>a</mi></mtd><mtd><mi>b</mi></mtd></mtr>" +
+        "<mtr><mtd><mi>c</mi></mtd><mtd><mi>d</mi></mtd></mtr></mtable><mo>)</mo></mrow>"
+    );
+  });
+
+  it("shows escaped characters as themselves and unknown commands as written", () => {
+    expect(render("\\$5 \\{x\\}")).toBe("<mo>$</mo><mn>5</mn><mo>{</mo><mi>x</mi><mo>}</mo>");
+    expect(render("\\unknown")).toBe("<mtext>\\unknown</mtext>");
+  });
+
+  it("renders unbalanced input without losing the rest", () => {
+    expect(render("\\frac{a}{b")).toBe("<mfrac><mi>a</mi><mi>b</mi></mfrac>");
+    expect(render("a} + b")).toBe("<mi>a</mi><mo>+</mo><mi>b</mi>");
+    expect(render("{a")).toBe("<mi>a</mi>");
+    expect(render("x^")).toBe("<msup><mi>x</mi><mrow></mrow></msup>");
+    expect(render("\\left( x")).toBe("<mrow><mo>(</mo><mi>x</mi></mrow>");
+    expect(render("\\begin{matrix} a & b")).toBe("<mtable><mtr><mtd><mi>a</mi></mtd><mtd><mi>b</mi></mtd></mtr></mtable>");
+  });
+
+  it("skips alignment marks, line breaks and closers outside any environment", () => {
+    expect(render("a &= b \\\\ c &= d")).toBe("<mi>a</mi><mo>=</mo><mi>b</mi><mi>c</mi><mo>=</mo><mi>d</mi>");
+    expect(render("x \\right) y \\end{cases}")).toBe("<mi>x</mi><mi>y</mi>");
+  });
+});
@@ -0,0 +1,391 @@
+// A MathML element. The UI renders these as React elements rather than as
+// HTML, so nothing in the LaTeX can inject markup.
+export interface MathNode {
+  tag: string;
+  attrs?: Record<string, string>;
+  children: (MathNode | string)[];
+}
+
+function node(tag: string, children: (MathNode | string)[] = [], attrs?: Record<string, string>): MathNode {
+  return attrs ? { tag, attrs, children } : { tag, children };
+}
+
+const GREEK: Record<string, string> = {
+  alpha: "α", beta: "β", gamma: "γ", delta: "δ", epsilon: "ϵ", varepsilon: "ε", zeta: "ζ", eta: "η",
+  theta: "θ", vartheta: "ϑ", iota: "ι", kappa: "κ", lambda: "λ", mu: "μ", nu: "ν", xi: "ξ", pi: "π",
+  varpi: "ϖ", rho: "ρ", varrho: "ϱ", sigma: "σ", varsigma: "ς", tau: "τ", upsilon: "υ", phi: "ϕ",
+  varphi: "φ", chi: "χ", psi: "ψ", omega: "ω", Gamma: "Γ", Delta: "Δ", Theta: "Θ", Lambda: "Λ",
+  Xi: "Ξ", Pi: "Π", Sigma: "Σ", Upsilon: "Υ", Phi: "Φ", Psi: "Ψ", Omega: "Ω",
+};
+
+// Identifiers that are symbols rather than letters
+const IDENTIFIERS: Record<string, string> = {
+  infty: "∞", partial: "∂", nabla: "∇", hbar: "ℏ", ell: "ℓ", emptyset: "∅", varnothing: "∅",
+  aleph: "ℵ", Re: "ℜ", Im: "ℑ", wp: "℘", prime: "′", imath: "ı", jmath: "ȷ",
+};
+
+const OPERATORS: Record<string, string> = {
+  pm: "±", mp: "∓", times: "×", div: "÷", cdot: "⋅", ast: "∗", star: "⋆", circ: "∘", bullet: "∙",
+  leq: "≤", le: "≤", geq: "≥", ge: "≥", neq: "≠", ne: "≠", approx: "≈", equiv: "≡", sim: "∼",
+  simeq: "≃", cong: "≅", propto: "∝", ll: "≪", gg: "≫", in: "∈", notin: "∉", ni: "∋",
+  subset: "⊂", subseteq: "⊆", supset: "⊃", supseteq: "⊇", cup: "∪", cap: "∩", setminus: "∖",
+  forall: "∀", exists: "∃", neg: "¬", lnot: "¬", land: "∧", wedge: "∧", lor: "∨", vee: "∨",
+  oplus: "⊕", otimes: "⊗", perp: "⊥", parallel: "∥", mid: "∣", angle: "∠", to: "→",
+  rightarrow: "→", leftarrow: "←", gets: "←", Rightarrow: "⇒", Leftarrow: "⇐", leftrightarrow: "↔",
+  Leftrightarrow: "⇔", implies: "⟹", iff: "⟺", mapsto: "↦", uparrow: "↑", downarrow: "↓",
+  ldots: "…", cdots: "⋯", vdots: "⋮", ddots: "⋱", dots: "…", colon: ":", vert: "|", Vert: "‖",
+  langle: "⟨", rangle: "⟩", lfloor: "⌊", rfloor: "⌋", lceil: "⌈", rceil: "⌉", lbrace: "{",
+  rbrace: "}", backslash: "∖", triangle: "△", therefore: "∴", because: "∵", dagger: "†",
+};
+
+// Shown larger, with limits under and over them in display math
+const LARGE_OPERATORS: Record<string, string> = {
+  sum: "∑", prod: "∏", coprod: "∐", int: "∫", iint: "∬", iiint: "∭", oint: "∮",
+  bigcup: "⋃", bigcap: "⋂", bigoplus: "⨁", bigotimes: "⨂",
+};
+
+const FUNCTIONS = new Set([
+  "sin", "cos", "tan", "cot", "sec", "csc", "arcsin", "arccos", "arctan", "sinh", "cosh", "tanh",
+  "log", "ln", "lg", "exp", "det", "dim", "ker", "gcd", "deg", "arg", "Pr", "hom",
+]);
+// Functions that take their limits underneath in display math
+const LIMIT_FUNCTIONS = new Set(["lim", "limsup", "liminf", "max", "min", "sup", "inf", "argmax", "argmin"]);
+
+const ACCENTS: Record<string, string> = {
+  hat: "^", widehat: "^", bar: "¯", overline: "¯", vec: "→", tilde: "~", widetilde: "~",
+  dot: "˙", ddot: "¨", check: "ˇ", breve: "˘", acute: "´", grave: "`", overrightarrow: "→",
+};
+
+const SPACES: Record<string, string> = {
+  ",": "0.167em", ":": "0.222em", ";": "0.278em", " ": "0.25em", quad: "1em", qquad: "2em", "!": "-0.167em",
+};
+
+// Sizing commands before a delimiter; the delimiter is drawn at its
+// natural size instead
+const SIZES = new Set(["big", "Big", "bigg", "Bigg", "bigl", "bigr", "Bigl", "Bigr", "biggl", "biggr", "Biggl", "Biggr"]);
+const IGNORED = new Set(["displaystyle", "textstyle", "limits", "nolimits", "nonumber", "notag", "left.", "right."]);
+
+const DELIMITED_MATRICES: Record<string, [string, string]> = {
+  pmatrix: ["(", ")"], bmatrix: ["[", "]"], Bmatrix: ["{", "}"], vmatrix: ["|", "|"], Vmatrix: ["‖", "‖"],
+  cases: ["{", ""],
+};
+
+// Letters in the Mathematical Alphanumeric Symbols block, apart from the
+// ones Unicode had already encoded elsewhere
+const DOUBLE_STRUCK: Record<string, string> = { C: "ℂ", H: "ℍ", N: "ℕ", P: "ℙ", Q: "ℚ", R: "ℝ", Z: "ℤ" };
+const SCRIPT: Record<string, string> = { B: "ℬ", E: "ℰ", F: "ℱ", H: "ℋ", I: "ℐ", L: "ℒ", M: "ℳ", R: "ℛ" };
+
+function styleLetters(text: string, base: number, exceptions: Record<string, string>): string {
+  return text.replace(/[A-Z]/g, (letter) => exceptions[letter] ?? String.fromCodePoint(base + letter.charCodeAt(0) - 65));
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(
+    private readonly src: string,
+    private readonly display: boolean
+  ) {}
+
+  parse(): MathNode {
+    const children: MathNode[] = [];
+    while (this.pos < this.src.length) {
+      children.push(...this.expression());
+      this.skipStray();
+    }
+    return node("mrow", children);
+  }
+
+  // What ended an expression outside any group or environment: a closing
+  // brace, "&", "\\", \right or \end without its opening. Skip it and carry on.
+  private skipStray() {
+    const command = this.peekCommand();
+    if (this.src[this.pos] === "}" || this.src[this.pos] === "&") {
+      this.pos++;
+    } else if (command === "\\") {
+      this.pos += 2;
+      this.optionalArgument();
+    } else if (command === "right") {
+      this.pos += "\\right".length;
+      this.delimiter();
+    } else if (command === "end") {
+      this.pos += "\\end".length;
+      this.rawGroup();
+    }
+  }
+
+  private skipSpace() {
+    while (/\s/.test(this.src[this.pos] ?? "")) this.pos++;
+  }
+
+  private peekCommand(): string | null {
+    return this.src.slice(this.pos).match(/^\\([a-zA-Z]+|.)/)?.[1] ?? null;
+  }
+
+  // Atoms up to a closing brace, "&", "\\", \right or \end
+  private expression(): MathNode[] {
+    const items: MathNode[] = [];
+    for (;;) {
+      this.skipSpace();
+      const char = this.src[this.pos];
+      const command = this.peekCommand();
+      if (char === undefined || char === "}" || char === "&") break;
+      if (command === "\\" || command === "right" || command === "end") break;
+      const atom = this.scripts(this.atom());
+      if (atom) items.push(atom);
+    }
+    return items;
+  }
+
+  private group(): MathNode {
+    this.skipSpace();
+    if (this.src[this.pos] !== "{") return this.atom() ?? node("mrow");
+    this.pos++;
+    const children = this.expression();
+    if (this.src[this.pos] === "}") this.pos++;
+    return children.length === 1 ? children[0] : node("mrow", children);
+  }
+
+  // The raw text of a {...} argument, for \text and environment names
+  private rawGroup(): string {
+    this.skipSpace();
+    if (this.src[this.pos] !== "{") return this.src[this.pos++] ?? "";
+    let depth = 0;
+    const start = this.pos + 1;
+    for (; this.pos < this.src.length; this.pos++) {
+      if (this.src[this.pos] === "\\") this.pos++;
+      else if (this.src[this.pos] === "{") depth++;
+      else if (this.src[this.pos] === "}" && --depth === 0) break;
+    }
+    return this.src.slice(start, this.pos++);
+  }
+
+  private optionalArgument(): string | null {
+    this.skipSpace();
+    if (this.src[this.pos] !== "[") return null;
+    const end = this.src.indexOf("]", this.pos);
+    if (end < 0) return null;
+    const value = this.src.slice(this.pos + 1, end);
+    this.pos = end + 1;
+    return value;
+  }
+
+  private delimiter(): string {
+    this.skipSpace();
+    const command = this.peekCommand();
+    if (command) {
+      this.pos += command.length + 1;
+      if (command === "{" || command === "}" || command === "|") return command === "|" ? "‖" : command;
+      return OPERATORS[command] ?? "";
+    }
+    const char = this.src[this.pos++] ?? "";
+    return char === "." ? "" : char;
+  }
+
+  private scripts(base: MathNode | null): MathNode | null {
+    if (!base) return null;
+    let sub: MathNode | null = null;
+    let sup: MathNode | null = null;
+    for (;;) {
+      this.skipSpace();
+      const char = this.src[this.pos];
+      if (char === "_" && !sub) {
+        this.pos++;
+        sub = this.group();
+      } else if (char === "^" && !sup) {
+        this.pos++;
+        sup = this.group();
+      } else if (char === "'") {
+        let primes = "";
+        for (; this.src[this.pos] === "'"; this.pos++) primes += "′";
+        sup = sup ? node("mrow", [node("mo", [primes]), sup]) : node("mo", [primes]);
+      } else {
+        break;
+      }
+    }
+    if (!sub && !sup) return base;
+
+    const limits = this.display && base.attrs?.["data-limits"] === "true";
+    if (sub && sup) return node(limits ? "munderover" : "msubsup", [base, sub, sup]);
+    if (sub) return node(limits ? "munder" : "msub", [base, sub]);
+    return node(limits ? "mover" : "msup", [base, sup!]);
+  }
+
+  private atom(): MathNode | null {
+    this.skipSpace();
+    const char = this.src[this.pos];
+    if (char === undefined) return null;
+    if (char === "{") return this.group();
+    if (char === "\\") return this.command();
+    if (char === "^" || char === "_") return node("mrow");
+
+    const number = this.src.slice(this.pos).match(/^\d+(?:\.\d+)?/)?.[0];
+    if (number) {
+      this.pos += number.length;
+      return node("mn", [number]);
+    }
+    this.pos++;
+    if (/[a-zA-Z]/.test(char)) return node("mi", [char]);
+    if (char === "-") return node("mo", ["−"]);
+    if (char === "~") return node("mspace", [], { width: "0.25em" });
+    return node("mo", [char]);
+  }
+
+  private command(): MathNode | null {
+    const name = this.peekCommand();
+    if (!name) {
+      this.pos++;
+      return null;
+    }
+    this.pos += name.length + 1;
+
+    if (name in SPACES) return node("mspace", [], { width: SPACES[name] });
+    if (name === "{" || name === "}" || name === "|") return node("mo", [name === "|" ? "‖" : name]);
+    if (name.length === 1) return node("mo", [name]);
+    if (IGNORED.has(name)) return null;
+    if (name in GREEK) return node("mi", [GREEK[name]], /^[A-Z]/.test(name) ? { mathvariant: "normal" } : undefined);
+    if (name in IDENTIFIERS) return node("mi", [IDENTIFIERS[name]]);
+    if (name in OPERATORS) return node("mo", [OPERATORS[name]]);
+    if (name in LARGE_OPERATORS) {
+      const limits = !/^i*int$|^oint$/.test(name);
+      return node("mo", [LARGE_OPERATORS[name]], { largeop: "true", ...(limits && { "data-limits": "true" }) });
+    }
+    if (FUNCTIONS.has(name)) return node("mi", [name], { mathvariant: "normal" });
+    if (LIMIT_FUNCTIONS.has(name)) {
+      return node("mi", [name.replace(/^lim(sup|inf)$/, "lim $1").replace(/^arg(max|min)$/, "arg $1")], {
+        mathvariant: "normal",
+        "data-limits": "true",
+      });
+    }
+    if (name in ACCENTS) {
+      return node("mover", [this.group(), node("mo", [ACCENTS[name]], { stretchy: "true" })], { accent: "true" });
+    }
+    if (SIZES.has(name)) return node("mo", [this.delimiter()]);
+
+    switch (name) {
+      case "frac":
+      case "dfrac":
+      case "tfrac":
+      case "cfrac":
+        return node("mfrac", [this.group(), this.group()]);
+      case "binom":
+        return node("mrow", [node("mo", ["("]), node("mfrac", [this.group(), this.group()], { linethickness: "0" }), node("mo", [")"])]);
+      case "sqrt": {
+        const index = this.optionalArgument();
+        const radicand = this.group();
+        return index === null ? node("msqrt", [radicand]) : node("mroot", [radicand, new Parser(index, false).parse()]);
+      }
+      case "text":
+      case "textrm":
+      case "textit":
+      case "textbf":
+      case "mbox":
+        return node("mtext", [this.rawGroup()]);
+      case "operatorname":
+      case "mathrm":
+        return node("mi", [this.rawGroup()], { mathvariant: "normal" });
+      case "mathbf":
+      case "boldsymbol":
+      case "bm":
+        return node("mrow", [this.group()], { style: "font-weight: bold" });
+      case "mathit":
+        return this.group();
+      case "mathbb":
+        return node("mi", [styleLetters(this.rawGroup(), 0x1d538, DOUBLE_STRUCK)]);
+      case "mathcal":
+      case "mathscr":
+        return node("mi", [styleLetters(this.rawGroup(), 0x1d49c, SCRIPT)]);
+      case "underline":
+        return node("munder", [this.group(), node("mo", ["_"], { stretchy: "true" })], { accentunder: "true" });
+      case "overbrace":
+        return node("mover", [this.group(), node("mo", ["⏞"], { stretchy: "true" })], { "data-limits": "true" });
+      case "underbrace":
+        return node("munder", [this.group(), node("mo", ["⏟"], { stretchy: "true" })], { "data-limits": "true" });
+      case "not": {
+        const negated = this.atom();
+        const text = negated?.children[0];
+        const map: Record<string, string> = { "=": "≠", "∈": "∉", "⊂": "⊄", "⊆": "⊈", "≡": "≢", "∼": "≁" };
+        return node("mo", [typeof text === "string" ? (map[text] ?? `${text}\u0338`) : "/"]);
+      }
+      case "left": {
+        const open = this.delimiter();
+        const inner = this.expression();
+        let close = "";
+        if (this.peekCommand() === "right") {
+          this.pos += "\\right".length;
+          close = this.delimiter();
+        }
+        return node("mrow", [
+          ...(open ? [node("mo", [open], { fence: "true", stretchy: "true" })] : []),
+          ...inner,
+          ...(close ? [node("mo", [close], { fence: "true", stretchy: "true" })] : []),
+        ]);
+      }
+      case "begin":
+        return this.environment(this.rawGroup());
+      case "label":
+      case "tag":
+        this.rawGroup();
+        return null;
+      default:
+        // Shown as written, so unsupported commands are easy to spot
+        return node("mtext", [`\\${name}`], { style: "color: #f87171" });
+    }
+  }
+
+  private environment(name: string): MathNode {
+    // Column spec of array and alignat, e.g. {cc|l}
+    if (name === "array" || name === "alignat" || name === "alignat*") this.rawGroup();
+
+    const rows: MathNode[][] = [[]];
+    for (;;) {
+      rows[rows.length - 1].push(node("mtd", this.expression()));
+      const command = this.peekCommand();
+      if (this.src[this.pos] === "&") {
+        this.pos++;
+      } else if (command === "\\") {
+        this.pos += 2;
+        this.optionalArgument();
+        rows.push([]);
+      } else if (command === "end") {
+        this.pos += "\\end".length;
+        this.rawGroup();
+        break;
+      } else if (this.src[this.pos] === "}" || command === "right") {
+        // Unbalanced; close the table here
+        if (this.src[this.pos] === "}") this.pos++;
+        else break;
+      } else {
+        break;
+      }
+    }
+
+    // A trailing \\ leaves an empty last row
+    if (rows.length > 1 && rows[rows.length - 1].every((cell) => !cell.children.length)) rows.pop();
+    const aligned = /^(align|aligned|split|alignat|gathered)\*?$/.test(name) ? { columnalign: "right left right left" } : undefined;
+    const table = node(
+      "mtable",
+      rows.map((cells) => node("mtr", cells)),
+      name === "cases" ? { columnalign: "left left" } : aligned
+    );
+
+    const [open, close] = DELIMITED_MATRICES[name] ?? ["", ""];
+    if (!open && !close) return table;
+    return node("mrow", [
+      node("mo", [open], { fence: "true", stretchy: "true" }),
+      table,
+      ...(close ? [node("mo", [close], { fence: "true", stretchy: "true" })] : []),
+    ]);
+  }
+}
+
+/**
+ * Convert LaTeX math to a MathML tree, which browsers render natively.
+ * Covers what OCR output uses: fractions, roots, scripts, Greek and
+ * operator symbols, accents, \left...\right, text and font commands, and
+ * matrix, cases and align environments. Anything else is shown as its
+ * command name in red rather than dropped.
+ */
+export function latexToMathml(tex: string, display = false): MathNode {
+  return node("math", [new Parser(tex, display).parse()], display ? { display: "block" } : undefined);
+}
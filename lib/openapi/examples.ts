@@ -0,0 +1,119 @@
+import { resolve, type Schema } from "./schema";
+import type { Method, OpenApiDocument, Operation } from "./spec";
+
+export const EXAMPLE_LANGUAGES = ["curl", "javascript", "python"] as const;
+export type ExampleLanguage = (typeof EXAMPLE_LANGUAGES)[number];
+
+const BASE_URL = "https://your-domain.com";
+
+interface RequestShape {
+  method: Method;
+  url: string;
+  // Form fields in example order; files hold the name of the file to upload
+  fields: { name: string; value: string; file: boolean }[];
+  // How the successful response is read
+  reads: "json" | "events" | "nothing";
+}
+
+function isFile(schema: Schema, schemas: OpenApiDocument["components"]["schemas"]): boolean {
+  const field = resolve(schema, schemas);
+  return field.format === "binary" || (field.items !== undefined && resolve(field.items, schemas).format === "binary");
+}
+
+function requestShape(spec: OpenApiDocument, path: string, method: Method, operation: Operation): RequestShape {
+  let url = BASE_URL + path;
+  for (const parameter of operation.parameters ?? []) {
+    if (parameter.in === "path") url = url.replace(`{${parameter.name}}`, String(parameter.example ?? parameter.name));
+  }
+
+  const form = operation.requestBody?.content["multipart/form-data"];
+  const properties = form ? resolve(form.schema, spec.components.schemas).properties ?? {} : {};
+  const fields = Object.entries((form?.example ?? {}) as Record<string, unknown>).map(([name, value]) => ({
+    name,
+    value: String(value),
+    file: Boolean(properties[name] && isFile(properties[name], spec.components.schemas)),
+  }));
+
+  const success = Object.entries(operation.responses).find(([status]) => status.startsWith("2"));
+  const content = success?.[1].content ?? {};
+  const reads = "text/event-stream" in content ? "events" : Object.keys(content).length ? "json" : "nothing";
+
+  return { method, url, fields, reads };
+}
+
+function curl({ method, url, fields, reads }: RequestShape): string {
+  const lines = [
+    `curl${method === "get" ? "" : ` -X ${method.toUpperCase()}`}${reads === "events" ? " -N" : ""} ${url}`,
+    `  -H "Authorization: Bearer $API_KEY"`,
+    ...fields.map(({ name, value, file }) => `  -F "${name}=${file ? "@" : ""}${value}"`),
+  ];
+  return lines.join(" \\\n");
+}
+
+function javascript({ method, url, fields, reads }: RequestShape): string {
+  const lines: string[] = [];
+  if (fields.length) {
+    lines.push("const formData = new FormData();");
+    for (const { name, value, file } of fields) {
+      lines.push(`formData.append("${name}", ${file ? "file" : JSON.stringify(value)});${file ? ` // ${value}` : ""}`);
+    }
+    lines.push("");
+  }
+  lines.push(`const response = await fetch("${url}", {`);
+  if (method !== "get") lines.push(`  method: "${method.toUpperCase()}",`);
+  lines.push("  headers: { Authorization: `Bearer ${apiKey}` },");
+  if (fields.length) lines.push("  body: formData,");
+  lines.push("});");
+
+  if (reads === "json") lines.push("", "const result = await response.json();");
+  if (reads === "events") {
+    lines.push(
+      "",
+      "for await (const text of response.body.pipeThrough(new TextDecoderStream())) {",
+      "  console.log(text);",
+      "}"
+    );
+  }
+  return lines.join("\n");
+}
+
+function python({ method, url, fields, reads }: RequestShape): string {
+  const file = fields.find((field) => field.file);
+  const data = fields.filter((field) => !field.file);
+  const indent = file ? "        " : "    ";
+
+  const call = [
+    `${file ? "    " : ""}response = requests.${method}(`,
+    `${indent}"${url}",`,
+    `${indent}headers={"Authorization": f"Bearer {api_key}"},`,
+    ...(file ? [`${indent}files={"${file.name}": f},`] : []),
+    ...(data.length
+      ? [`${indent}data={${data.map(({ name, value }) => `"${name}": ${JSON.stringify(value)}`).join(", ")}},`]
+      : []),
+    ...(reads === "events" ? [`${indent}stream=True,`] : []),
+    `${file ? "    " : ""})`,
+  ];
+
+  const lines = ["import requests", ""];
+  if (file) lines.push(`with open("${file.value}", "rb") as f:`);
+  lines.push(...call);
+  if (reads === "json") lines.push("", "result = response.json()");
+  if (reads === "events") lines.push("", "for line in response.iter_lines():", "    print(line.decode())");
+  if (reads === "nothing") lines.push("", "response.raise_for_status()");
+  return lines.join("\n");
+}
+
+/**
+ * Ready-to-run snippets calling an operation, built from its path,
+ * parameters and request example, so they follow the spec as it changes.
+ */
+export function codeExamples(
+  spec: OpenApiDocument,
+  path: string,
+  method: Method
+): Record<ExampleLanguage, string> {
+  const operation = spec.paths[path]?.[method];
+  if (!operation) throw new Error(`No operation ${method.toUpperCase()} ${path}`);
+  const shape = requestShape(spec, path, method, operation);
+  return { curl: curl(shape), javascript: javascript(shape), python: python(shape) };
+}
@@ -0,0 +1,153 @@
+import { NextRequest } from "next/server";
+import { PDFDocument } from "pdf-lib";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GET as getHistory } from "@/app/api/history/route";
+import { GET as getHistoryEntry, POST as rerun } from "@/app/api/history/[id]/route";
+import { POST as createJobRoute } from "@/app/api/jobs/route";
+import { GET as getJobRoute } from "@/app/api/jobs/[id]/route";
+import { POST as ocr } from "@/app/api/ocr/route";
+import { POST as ocrStream } from "@/app/api/ocr/stream/route";
+import type { ConvertOptions } from "@/lib/convert";
+import { getHistoryStore } from "@/lib/history";
+import { createJob, runJob } from "@/lib/jobs";
+import { checkRequestForm, OPENAPI_SPEC, ref, validate, type Method, type Schema } from ".";
+
+const SCHEMAS = OPENAPI_SPEC.components.schemas;
+const MOCK: ConvertOptions = { provider: "mock", ocrProvider: "mock", noCache: true };
+
+async function samplePdf(): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.addPage();
+  return pdf.save();
+}
+
+async function form(fields: Record<string, string> = {}, files = 1): Promise<FormData> {
+  const formData = new FormData();
+  const bytes = await samplePdf();
+  for (let i = 0; i < files; i++) {
+    formData.append("file", new File([bytes.slice()], `doc-${i}.pdf`, { type: "application/pdf" }));
+  }
+  for (const [name, value] of Object.entries(fields)) formData.append(name, value);
+  return formData;
+}
+
+function post(path: string, body: FormData): NextRequest {
+  return new NextRequest(`http://localhost:3000${path}`, { method: "POST", body });
+}
+
+function params(id: string) {
+  return { params: Promise.resolve({ id }) };
+}
+
+// The JSON schema the spec gives for one response of one operation
+function responseSchema(path: string, method: Method, status: number): Schema {
+  const schema = OPENAPI_SPEC.paths[path]?.[method]?.responses[String(status)]?.content?.["application/json"]?.schema;
+  if (!schema) throw new Error(`No JSON response ${status} for ${method.toUpperCase()} ${path}`);
+  return schema;
+}
+
+async function expectConforms(response: Response, path: string, method: Method): Promise<unknown> {
+  const body = await response.json();
+  expect(validate(responseSchema(path, method, response.status), body, SCHEMAS)).toEqual([]);
+  return body;
+}
+
+beforeEach(() => {
+  // An open API, where every caller without a cookie owns "open"
+  vi.stubEnv("API_KEYS", "");
+  vi.stubEnv("API_KEYS_FILE", "");
+  vi.stubEnv("HISTORY_STORE", "memory");
+  delete (globalThis as { keyStore?: unknown }).keyStore;
+  delete (globalThis as { historyStore?: unknown }).historyStore;
+  return () => vi.unstubAllEnvs();
+});
+
+describe("checkRequestForm", () => {
+  it.each(["OcrRequest", "StreamRequest", "JobRequest"])("refuses %s fields outside the schema", async (name) => {
+    expect(() => checkRequestForm(name, new FormData())).toThrow("No file provided");
+    const invalid = await form({ noCache: "maybe" });
+    expect(() => checkRequestForm(name, invalid)).toThrow('noCache must be "true" or "false"');
+    checkRequestForm(name, await form({ noCache: "true", provider: "mock" }));
+  });
+
+  it("refuses unknown providers on re-runs", async () => {
+    const formData = new FormData();
+    formData.append("provider", "nope");
+    expect(() => checkRequestForm("RerunRequest", formData)).toThrow('Unknown provider "nope"');
+  });
+});
+
+describe("endpoints", () => {
+  it.each([
+    ["/api/ocr", ocr],
+    ["/api/ocr/stream", ocrStream],
+    ["/api/jobs", createJobRoute],
+  ])("POST %s refuses forms the spec does not allow, with an Error body", async (path, handler) => {
+    const response = await handler(post(path, await form({ provider: "mock", noCache: "maybe" })));
+    expect(response.status).toBe(400);
+    const body = await expectConforms(response, path, "post");
+    expect(body).toEqual({ error: 'noCache must be "true" or "false"', code: "INVALID_REQUEST" });
+  });
+
+  it("POST /api/ocr responds with a ConversionResult, or a BatchResponse for several files", async () => {
+    const single = await ocr(post("/api/ocr", await form({ provider: "mock", noCache: "true" })));
+    expect(single.status).toBe(200);
+    const result = await expectConforms(single, "/api/ocr", "post");
+    expect(validate(ref("ConversionResult"), result, SCHEMAS)).toEqual([]);
+
+    const batch = await ocr(post("/api/ocr", await form({ provider: "mock", noCache: "true" }, 2)));
+    expect(batch.status).toBe(200);
+    expect(validate(ref("BatchResponse"), await batch.json(), SCHEMAS)).toEqual([]);
+  });
+
+  it("GET /api/jobs/{id} responds with a Job", async () => {
+    const bytes = await samplePdf();
+    const job = await createJob("open", "doc.pdf", MOCK);
+    await runJob(job.id, bytes.slice().buffer, MOCK);
+
+    const response = await getJobRoute(new NextRequest(`http://localhost:3000/api/jobs/${job.id}`), params(job.id));
+    expect(response.status).toBe(200);
+    expect(await expectConforms(response, "/api/jobs/{id}", "get")).toMatchObject({ status: "completed" });
+  });
+
+  it("history responds with summaries, entries and re-runs as the spec describes", async () => {
+    // Conversions join the history of their owner
+    await ocr(post("/api/ocr", await form({ provider: "mock", noCache: "true" })));
+
+    const list = await getHistory(new NextRequest("http://localhost:3000/api/history"));
+    const { entries } = (await expectConforms(list, "/api/history", "get")) as { entries: { id: string }[] };
+    expect(entries).toHaveLength(1);
+    const [{ id }] = entries;
+
+    const entry = await getHistoryEntry(new NextRequest(`http://localhost:3000/api/history/${id}`), params(id));
+    expect(entry.status).toBe(200);
+    await expectConforms(entry, "/api/history/{id}", "get");
+
+    const invalid = new FormData();
+    invalid.append("provider", "nope");
+    const refused = await rerun(post(`/api/history/${id}`, invalid), params(id));
+    expect(refused.status).toBe(400);
+    await expectConforms(refused, "/api/history/{id}", "post");
+
+    const valid = new FormData();
+    valid.append("provider", "mock");
+    const again = await rerun(post(`/api/history/${id}`, valid), params(id));
+    expect(again.status).toBe(200);
+    await expectConforms(again, "/api/history/{id}", "post");
+    expect(await getHistoryStore()?.list("open")).toHaveLength(entries.length + 1);
+  });
+});
+
+describe("OPENAPI_SPEC", () => {
+  it("gives examples that match their own schemas", () => {
+    for (const [path, item] of Object.entries(OPENAPI_SPEC.paths)) {
+      for (const [method, operation] of Object.entries(item)) {
+        for (const [status, response] of Object.entries(operation!.responses)) {
+          const media = response.content?.["application/json"];
+          if (media?.example === undefined) continue;
+          expect(validate(media.schema, media.example, SCHEMAS), `${method} ${path} ${status}`).toEqual([]);
+        }
+      }
+    }
+  });
+});
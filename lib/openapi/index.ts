@@ -0,0 +1,29 @@
+import { RequestError } from "@/lib/errors";
+import { ref, validate, validateForm } from "./schema";
+import { OPENAPI_SPEC } from "./spec";
+
+export { codeExamples, EXAMPLE_LANGUAGES } from "./examples";
+export type { ExampleLanguage } from "./examples";
+export { ref, resolve, validate, validateForm } from "./schema";
+export type { Schema } from "./schema";
+export { OPENAPI_SPEC } from "./spec";
+export type { ApiResponse, MediaType, Method, OpenApiDocument, Operation, Parameter } from "./spec";
+
+/**
+ * Refuse a form that doesn't match the named request schema, with the
+ * same INVALID_REQUEST error the option parsers give.
+ */
+export function checkRequestForm(name: string, formData: FormData): void {
+  const problem = validateForm(ref(name), formData, OPENAPI_SPEC.components.schemas);
+  if (problem) throw new RequestError(problem);
+}
+
+/**
+ * Log a response body that doesn't match the named schema. The response
+ * still goes out: a mismatch means the spec is out of date, not that the
+ * client did anything wrong.
+ */
+export function checkResponseBody(name: string, body: unknown): void {
+  const problems = validate(ref(name), body, OPENAPI_SPEC.components.schemas);
+  if (problems.length) console.error(`Response does not match the ${name} schema:`, problems);
+}
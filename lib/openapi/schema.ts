@@ -0,0 +1,152 @@
+type SchemaType = "object" | "array" | "string" | "integer" | "number" | "boolean" | "null";
+
+// The part of JSON Schema (2020-12, as OpenAPI 3.1 uses it) the spec is
+// written in
+export interface Schema {
+  $ref?: string;
+  type?: SchemaType | SchemaType[];
+  description?: string;
+  enum?: readonly (string | number | null)[];
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  // "binary" marks a file field in a multipart form
+  format?: string;
+  properties?: Record<string, Schema>;
+  required?: readonly string[];
+  additionalProperties?: boolean | Schema;
+  items?: Schema;
+  oneOf?: Schema[];
+  examples?: unknown[];
+}
+
+// Validation stops reporting after this many problems
+const MAX_PROBLEMS = 10;
+
+// Form fields that read as true or false
+const BOOLEAN_VALUES = ["true", "false", "1", "0", "on", "off"];
+
+export function ref(name: string): Schema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+export function resolve(schema: Schema, schemas: Record<string, Schema>): Schema {
+  if (!schema.$ref) return schema;
+  const target = schemas[schema.$ref.replace("#/components/schemas/", "")];
+  if (!target) throw new Error(`Unknown schema ${schema.$ref}`);
+  return resolve(target, schemas);
+}
+
+function typeOf(value: unknown): SchemaType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value as SchemaType;
+}
+
+function matchesType(value: unknown, type: SchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+/**
+ * Check a JSON value against a schema. Returns what is wrong, each
+ * problem prefixed with the path to it, such as "tables[0].rows"; empty
+ * when the value conforms. Absent and undefined properties are the same.
+ */
+export function validate(
+  schema: Schema,
+  value: unknown,
+  schemas: Record<string, Schema>,
+  path = ""
+): string[] {
+  const resolved = resolve(schema, schemas);
+  const at = path || "value";
+
+  if (resolved.oneOf) {
+    const matching = resolved.oneOf.filter((option) => !validate(option, value, schemas, path).length);
+    return matching.length === 1 ? [] : [`${at} matches ${matching.length} of the allowed shapes instead of one`];
+  }
+
+  const types = resolved.type === undefined ? [] : [resolved.type].flat();
+  if (types.length && !types.some((type) => matchesType(value, type))) {
+    return [`${at} should be ${types.join(" or ")}, not ${typeOf(value)}`];
+  }
+  if (resolved.enum && !resolved.enum.includes(value as string)) {
+    return [`${at} should be one of ${resolved.enum.map((option) => JSON.stringify(option)).join(", ")}`];
+  }
+  if (typeof value === "number") {
+    if (resolved.minimum !== undefined && value < resolved.minimum) return [`${at} should be at least ${resolved.minimum}`];
+    if (resolved.maximum !== undefined && value > resolved.maximum) return [`${at} should be at most ${resolved.maximum}`];
+  }
+
+  const problems: string[] = [];
+  if (Array.isArray(value) && resolved.items) {
+    value.forEach((item, i) => problems.push(...validate(resolved.items!, item, schemas, `${path}[${i}]`)));
+  } else if (typeOf(value) === "object") {
+    const object = value as Record<string, unknown>;
+    const prefix = path ? `${path}.` : "";
+    for (const key of resolved.required ?? []) {
+      if (object[key] === undefined) problems.push(`${prefix}${key} is missing`);
+    }
+    for (const [key, item] of Object.entries(object)) {
+      if (item === undefined) continue;
+      const property = resolved.properties?.[key];
+      if (property) problems.push(...validate(property, item, schemas, `${prefix}${key}`));
+      else if (resolved.additionalProperties === false) problems.push(`${prefix}${key} is not allowed`);
+      else if (typeof resolved.additionalProperties === "object") {
+        problems.push(...validate(resolved.additionalProperties, item, schemas, `${prefix}${key}`));
+      }
+    }
+  }
+  return problems.slice(0, MAX_PROBLEMS);
+}
+
+// Check one form value against its field's schema. Messages match the
+// ones the option parsers give for the same mistakes.
+function validateField(name: string, schema: Schema, value: FormDataEntryValue): string | null {
+  if (schema.format === "binary") return typeof value === "string" ? `${name} must be a file` : null;
+  if (typeof value !== "string") return `${name} must be a text field, not a file`;
+
+  const type = [schema.type].flat()[0];
+  if (type === "integer") {
+    const number = Number(value);
+    const { minimum = -Infinity, maximum = Infinity } = schema;
+    if (!Number.isInteger(number) || number < minimum || number > maximum) {
+      return Number.isFinite(minimum) && Number.isFinite(maximum)
+        ? `${name} must be an integer from ${minimum} to ${maximum}`
+        : `${name} must be an integer`;
+    }
+  }
+  if (type === "boolean" && !BOOLEAN_VALUES.includes(value)) {
+    return `${name} must be "true" or "false"`;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return `Unknown ${name} "${value}". Expected one of: ${schema.enum.join(", ")}`;
+  }
+  return null;
+}
+
+/**
+ * Check a multipart form against the object schema of its fields. Empty
+ * fields count as absent, as the option parsers treat them; fields the
+ * schema doesn't name are left alone. Returns the first problem, or null.
+ */
+export function validateForm(schema: Schema, formData: FormData, schemas: Record<string, Schema>): string | null {
+  const { properties = {}, required = [] } = resolve(schema, schemas);
+  for (const [name, property] of Object.entries(properties)) {
+    const field = resolve(property, schemas);
+    const values = formData.getAll(name).filter((value) => value !== "");
+    if (!values.length) {
+      if (required.includes(name)) return `No ${name} provided`;
+      continue;
+    }
+    const item = field.type === "array" && field.items ? resolve(field.items, schemas) : field;
+    if (item === field && values.length > 1) return `${name} can only be sent once`;
+    for (const value of values) {
+      const problem = validateField(name, item, value);
+      if (problem) return problem;
+    }
+  }
+  return null;
+}
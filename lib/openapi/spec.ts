@@ -0,0 +1,807 @@
+import { MAX_CONCURRENCY, MAX_FILES, MAX_FILE_MB, MAX_PAGES } from "@/lib/convert";
+import { DEFAULT_CHUNK_OVERLAP, DEFAULT_CHUNK_SIZE, MAX_CHUNK_SIZE, MIN_CHUNK_SIZE } from "@/lib/chunks";
+import { ERROR_CODES, type ErrorCode } from "@/lib/errors";
+import { DEFAULT_IMAGE_MODE, IMAGE_MODES } from "@/lib/figures";
+import { INPUT_FORMATS } from "@/lib/inputs/formats";
+import { DEFAULT_PRESET, PASSES, PRESET_IDS } from "@/lib/optimize";
+import { DEFAULT_OCR_PROVIDER, DEFAULT_PROVIDER, PROVIDERS } from "@/lib/providers";
+import { DEFAULT_TOKENIZER, TOKENIZERS } from "@/lib/tokens";
+import packageJson from "@/package.json";
+import { ref, type Schema } from "./schema";
+
+export type Method = "get" | "post" | "delete";
+
+export interface MediaType {
+  schema: Schema;
+  example?: unknown;
+  examples?: Record<string, { summary: string; value: unknown }>;
+}
+
+export interface Parameter {
+  name: string;
+  in: "path" | "query" | "header";
+  required?: boolean;
+  description?: string;
+  schema: Schema;
+  example?: unknown;
+}
+
+export interface ApiResponse {
+  description: string;
+  content?: Record<string, MediaType>;
+}
+
+export interface Operation {
+  operationId: string;
+  summary: string;
+  description?: string;
+  tags: string[];
+  parameters?: Parameter[];
+  requestBody?: { required?: boolean; content: Record<string, MediaType> };
+  responses: Record<string, ApiResponse>;
+}
+
+export interface OpenApiDocument {
+  openapi: "3.1.0";
+  info: { title: string; version: string; description: string };
+  paths: Record<string, Partial<Record<Method, Operation>>>;
+  components: {
+    schemas: Record<string, Schema>;
+    securitySchemes: Record<string, { type: "http"; scheme: "bearer"; description: string }>;
+  };
+  security: Record<string, string[]>[];
+}
+
+const PROVIDER_IDS = PROVIDERS.map((p) => p.id);
+
+// A message each error code is actually reported with, for the examples
+const ERROR_EXAMPLES: Record<ErrorCode, string> = {
+  INVALID_REQUEST: `Unknown provider "foo". Expected one of: ${PROVIDER_IDS.join(", ")}`,
+  UNAUTHORIZED: "Missing API key",
+  UNSUPPORTED_TYPE: `Unsupported file type. Expected one of: ${INPUT_FORMATS.flatMap((f) => f.extensions).join(", ")}`,
+  FILE_TOO_LARGE: `Files must be under ${MAX_FILE_MB}MB`,
+  TOO_MANY_PAGES: `At most ${MAX_PAGES} pages can be converted at once; ${MAX_PAGES + 200} are selected`,
+  CORRUPT_PDF: "The PDF is truncated: its end-of-file marker is missing",
+  CORRUPT_FILE: "The image is corrupt and could not be read",
+  PASSWORD_REQUIRED: "The PDF is password protected. Send its password in the password field",
+  INVALID_PASSWORD: "Incorrect password",
+  NOT_FOUND: "History entry not found",
+  RATE_LIMITED: "Rate limit exceeded",
+  QUOTA_EXCEEDED: "Monthly quota of 5000 pages exceeded",
+  PROVIDER_RATE_LIMITED: "Mistral is rate limiting requests",
+  PROVIDER_UNAVAILABLE: "Mistral is unavailable (HTTP 503)",
+  PROVIDER_ERROR: "Mistral could not process the document (HTTP 400)",
+  INTERNAL_ERROR: "OCR processing failed",
+};
+
+const CONVERSION_ERRORS: ErrorCode[] = [
+  "INVALID_REQUEST",
+  "UNAUTHORIZED",
+  "UNSUPPORTED_TYPE",
+  "FILE_TOO_LARGE",
+  "TOO_MANY_PAGES",
+  "CORRUPT_PDF",
+  "CORRUPT_FILE",
+  "PASSWORD_REQUIRED",
+  "INVALID_PASSWORD",
+  "RATE_LIMITED",
+  "QUOTA_EXCEEDED",
+  "PROVIDER_RATE_LIMITED",
+  "PROVIDER_UNAVAILABLE",
+  "PROVIDER_ERROR",
+  "INTERNAL_ERROR",
+];
+
+// One response per status, listing the codes behind it and what to do.
+// `messages` replaces the example message of a code for this endpoint.
+function errorResponses(
+  codes: ErrorCode[],
+  messages: Partial<Record<ErrorCode, string>> = {}
+): Record<string, ApiResponse> {
+  const responses: Record<string, ApiResponse> = {};
+  for (const code of codes) {
+    const status = String(ERROR_CODES[code].status);
+    const line = `\`${code}\`: ${ERROR_CODES[code].hint}`;
+    if (responses[status]) {
+      responses[status].description += `\n${line}`;
+    } else {
+      responses[status] = {
+        description: line,
+        content: {
+          "application/json": { schema: ref("Error"), example: { error: messages[code] ?? ERROR_EXAMPLES[code], code } },
+        },
+      };
+    }
+  }
+  return responses;
+}
+
+function quoted(values: readonly string[]): string {
+  return values.map((value) => `"${value}"`).join(", ");
+}
+
+// Conversion options, the same for every endpoint that converts
+const CONVERT_FIELDS: Record<string, Schema> = {
+  provider: {
+    type: "string",
+    enum: PROVIDER_IDS,
+    default: DEFAULT_PROVIDER,
+    description:
+      "Provider for PDFs and images; other formats are converted on the server. " +
+      "When the server sets PROVIDER_FALLBACKS (such as `mistral=openai`), pages the provider keeps failing on " +
+      "go to the next provider in its chain and are listed in `fallbacks`.",
+  },
+  ocrProvider: {
+    type: "string",
+    enum: PROVIDER_IDS.filter((id) => id !== "native"),
+    default: DEFAULT_OCR_PROVIDER,
+    description: 'With "native", the provider used for pages that have no text layer.',
+  },
+  pages: {
+    type: "string",
+    description:
+      '1-based page selection such as "1-10,15,20-". All pages by default. Selects slides in a presentation ' +
+      `and chapters in an EPUB. At most ${MAX_PAGES} can be selected.`,
+    examples: ["1-10,15,20-"],
+  },
+  concurrency: {
+    type: "integer",
+    minimum: 1,
+    maximum: MAX_CONCURRENCY,
+    description: "Large documents are split into page batches; this many are converted at once.",
+  },
+  noCache: {
+    type: "boolean",
+    default: false,
+    description:
+      "Results for PDFs and images are cached by the file's SHA-256 and the options. Set to force a fresh " +
+      "conversion; the new result is still cached.",
+  },
+  images: {
+    type: "string",
+    enum: IMAGE_MODES,
+    default: DEFAULT_IMAGE_MODE,
+    description:
+      'How figures appear: "strip" removes them, "placeholder" keeps a [Figure N: caption] marker, "describe" ' +
+      'adds the provider\'s description of the figure, and "extract" saves the images Mistral returns as files ' +
+      "linked from the markdown (other providers get placeholders).",
+  },
+  preset: {
+    type: "string",
+    enum: PRESET_IDS,
+    default: DEFAULT_PRESET,
+    description: "Post-processing passes to run. See Post-processing.",
+  },
+  passes: {
+    type: "string",
+    description: `Comma-separated passes to add to the preset, or remove with a leading "-", such as "punctuation,-unwrap". Passes: ${quoted(PASSES.map((pass) => pass.id))}.`,
+  },
+  math: {
+    type: "boolean",
+    default: false,
+    description:
+      "Keep equations as LaTeX, `$...$` inline and `$$...$$` for display math. Post-processing leaves them " +
+      "untouched. With the native provider, pages whose text layer holds math symbols go to the OCR provider.",
+  },
+  tokenizer: {
+    type: "string",
+    enum: TOKENIZERS,
+    default: DEFAULT_TOKENIZER,
+    description: "Tokenizer for the `tokens` count in the response.",
+  },
+  password: {
+    type: "string",
+    description:
+      "User or owner password of an encrypted PDF. The file is decrypted on the server before it goes to a " +
+      "provider; the password is never stored.",
+  },
+};
+
+const FILE_FIELD: Schema = {
+  type: "string",
+  format: "binary",
+  description:
+    `The document, in one of the supported formats. Files are checked by content, not MIME type or extension, ` +
+    `and must be under ${MAX_FILE_MB}MB.`,
+};
+
+const CONVERSION_EXAMPLE = {
+  text: "# Document Title\n\nExtracted markdown...",
+  llmsTxt: "# Document Title\n\n> Summary...\n\n## Sections\n\n- [Intro](llms-full.txt#intro)\n",
+  llmsFullTxt: "# Document Title\n\nExtracted markdown...",
+  title: "Document Title",
+  summary: "Summary...",
+  pageCount: 5,
+  filename: "document.pdf",
+  format: "pdf",
+  provider: "mistral",
+  cache: "miss",
+  usage: { pages: 5 },
+  estimatedCost: 0.005,
+  latencyMs: 6938,
+  tokens: { tokenizer: "cl100k_base", count: 2154 },
+};
+
+const BATCH_EXAMPLE = {
+  documents: [
+    { ...CONVERSION_EXAMPLE, filename: "guide.pdf", title: "User Guide" },
+    { filename: "broken.pdf", error: "The PDF has no pages", code: "CORRUPT_PDF" },
+  ],
+  llmsTxt: "# Documents\n\n> Index of 2 documents...\n\n## Documents\n\n- [User Guide](docs/guide.md): ...\n",
+  llmsFullTxt: "...",
+};
+
+const JOB_ID = "3e06073b-cdf4-427f-b8c2-bee7fabf2d02";
+const HISTORY_ID = "9b1f6c1e-52d4-4f0e-a3a6-0c1d2e3f4a5b";
+
+const HISTORY_SUMMARY_EXAMPLE = {
+  id: HISTORY_ID,
+  filename: "document.pdf",
+  hash: "d97850de32da52a5f7f7c0322504f2ec5739a71a81cf109e35e07e741f278c50",
+  size: 482113,
+  provider: "mistral",
+  options: { provider: "mistral", ocrProvider: "mistral", math: true },
+  startedAt: "2026-10-19T07:49:12.061Z",
+  finishedAt: "2026-10-19T07:49:18.999Z",
+  title: "Document Title",
+  pageCount: 5,
+  format: "pdf",
+  estimatedCost: 0.005,
+};
+
+const STREAM_EXAMPLE = `event: start
+data: {"totalPages":12,"filename":"document.pdf","provider":"mistral"}
+
+event: page
+data: {"page":1,"markdown":"# Title...","pagesDone":1,"totalPages":12,"chars":1840}
+
+event: done
+data: {"text":"...","pageCount":12,"filename":"document.pdf","provider":"mistral"}`;
+
+const CHUNKS_EXAMPLE = `{"source":"document.pdf","index":0,"text":"# Document Title\\n\\nIntro...","pages":[1],"headings":["Document Title"],"start":0,"end":1874,"tokens":498}
+{"source":"document.pdf","index":1,"text":"...","pages":[1,2],"headings":["Document Title","Setup"],"start":1810,"end":3620,"tokens":505}`;
+
+const HISTORY_ID_PARAMETER: Parameter = {
+  name: "id",
+  in: "path",
+  required: true,
+  schema: { type: "string", format: "uuid" },
+  example: HISTORY_ID,
+};
+
+const SCHEMAS: Record<string, Schema> = {
+  OcrRequest: {
+    type: "object",
+    required: ["file"],
+    properties: {
+      file: {
+        type: "array",
+        items: FILE_FIELD,
+        description: `The document to convert. Repeat the field (up to ${MAX_FILES} files) to convert a batch.`,
+      },
+      ...CONVERT_FIELDS,
+      format: {
+        type: "string",
+        enum: ["json", "zip"],
+        default: "json",
+        description:
+          "A zip holds llms.txt, llms-full.txt, docs/<name>.md per document, tables/<name>/ with each table as " +
+          "CSV and JSON, and images/<name>/ with extracted figures.",
+      },
+      output: {
+        type: "string",
+        enum: ["markdown", "chunks"],
+        default: "markdown",
+        description:
+          "Chunks are returned as JSONL, one object per line, ready for embedding. With format=zip they are " +
+          "added as chunks.jsonl.",
+      },
+      chunkSize: {
+        type: "integer",
+        minimum: MIN_CHUNK_SIZE,
+        maximum: MAX_CHUNK_SIZE,
+        default: DEFAULT_CHUNK_SIZE,
+        description: "Maximum tokens per chunk (cl100k_base). Chunks break at headings and paragraphs where possible.",
+      },
+      chunkOverlap: {
+        type: "integer",
+        minimum: 0,
+        default: DEFAULT_CHUNK_OVERLAP,
+        description:
+          "Tokens of trailing sentences repeated at the start of the next chunk, under half of chunkSize. No " +
+          "overlap is added across headings.",
+      },
+    },
+  },
+  StreamRequest: {
+    type: "object",
+    required: ["file"],
+    properties: { file: FILE_FIELD, ...CONVERT_FIELDS },
+  },
+  JobRequest: {
+    type: "object",
+    required: ["file"],
+    properties: {
+      file: FILE_FIELD,
+      ...CONVERT_FIELDS,
+      callbackUrl: {
+        type: "string",
+        format: "uri",
+        description:
+          "Receives a POST with `{ event, job }` when the job completes or fails. Each callback carries " +
+          "`X-Webhook-Timestamp` and `X-Webhook-Signature: sha256=<hex>`, an HMAC-SHA256 of `timestamp.body` " +
+          "keyed with the server's WEBHOOK_SECRET, which must be set. Hosts that resolve to loopback, private or " +
+          "link-local addresses are refused; with WEBHOOK_ALLOWED_HOSTS set, only those hosts are accepted.",
+      },
+    },
+  },
+  RerunRequest: {
+    type: "object",
+    properties: {
+      provider: { ...CONVERT_FIELDS.provider, default: undefined, description: "Defaults to the entry's provider." },
+      password: { type: "string", description: "Needed again for encrypted PDFs, since passwords are never stored." },
+    },
+  },
+  ConversionResult: {
+    type: "object",
+    required: ["text", "llmsTxt", "llmsFullTxt", "title", "summary", "pageCount", "filename", "format", "provider"],
+    properties: {
+      llmsTxt: {
+        type: "string",
+        description: "llms.txt index: H1 title, blockquote summary and an H2 section linking into llms-full.txt.",
+      },
+      llmsFullTxt: {
+        type: "string",
+        description:
+          'Full cleaned markdown (llms-full.txt). Each page of a multi-page document starts with an anchor such as `<a id="page-3"></a>` ' +
+          "and a `## Page 3` heading, for every provider. Presentations use `slide-3` and `## Slide 3`, EPUBs " +
+          "`chapter-3` and `## Chapter 3`.",
+      },
+      text: { type: "string", description: "Same as llmsFullTxt; kept for existing clients." },
+      title: { type: "string" },
+      summary: { type: "string" },
+      pageCount: {
+        type: "integer",
+        description: "Pages, slides or chapters converted; 1 for Word documents and HTML.",
+      },
+      filename: { type: "string", description: "Original file name." },
+      format: {
+        type: "string",
+        enum: INPUT_FORMATS.map((format) => format.id),
+        description: "Input format, detected from the file's contents.",
+      },
+      provider: { type: "string", enum: PROVIDER_IDS, description: "Provider used for PDFs and images." },
+      extraction: {
+        type: "object",
+        description: "Native provider only: 1-based pages taken from the text layer and pages sent to OCR.",
+        properties: {
+          native: { type: "array", items: { type: "integer" } },
+          ocr: { type: "array", items: { type: "integer" } },
+        },
+      },
+      tables: {
+        type: "array",
+        items: ref("Table"),
+        description:
+          "Tables found in the document, also rendered as GFM in the text. Merged cells are repeated into every " +
+          "cell they cover.",
+      },
+      images: { type: "array", items: ref("Image"), description: "images=extract only." },
+      boilerplate: {
+        type: "array",
+        items: ref("BoilerplateLine"),
+        description:
+          "Running headers, footers, page numbers and banners removed because they repeat at the top or bottom " +
+          "of most pages.",
+      },
+      failedBatches: {
+        type: "array",
+        items: ref("FailedBatch"),
+        description: "Present when some page batches failed. Send `pages` back to retry just that batch.",
+      },
+      fallbacks: {
+        type: "array",
+        items: ref("FallbackBatch"),
+        description: "Present when the provider kept failing after retries and pages went to a fallback provider.",
+      },
+      cache: {
+        type: "string",
+        enum: ["hit", "miss", "bypass"],
+        description: '"bypass" when noCache was set.',
+      },
+      usage: ref("Usage"),
+      estimatedCost: {
+        type: "number",
+        minimum: 0,
+        description:
+          "US dollars, estimated from `usage` and list prices. Set PROVIDER_PRICES, such as " +
+          '"mistral.page=0.0005,openai.input=1.25,openai.output=10" (per page and per million tokens), to change them.',
+      },
+      latencyMs: { type: "integer", minimum: 0, description: "Wall-clock time of the conversion on the server." },
+      tokens: {
+        type: "object",
+        required: ["tokenizer", "count"],
+        description: "The size of llms-full.txt in tokens.",
+        properties: {
+          tokenizer: { type: "string", enum: TOKENIZERS },
+          count: { type: "integer", minimum: 0 },
+        },
+      },
+    },
+  },
+  Table: {
+    type: "object",
+    required: ["index", "page", "headers", "rows"],
+    properties: {
+      index: { type: "integer", description: "1-based position in the document." },
+      page: { type: "integer", description: "Page the table starts on." },
+      headers: { type: "array", items: { type: "string" } },
+      rows: { type: "array", items: { type: "array", items: { type: "string" } } },
+      align: { type: "array", items: { enum: ["left", "center", "right", null] } },
+      caption: { type: "string" },
+    },
+  },
+  Image: {
+    type: "object",
+    required: ["path", "page", "mimeType", "data"],
+    properties: {
+      path: { type: "string", description: "Relative path used in the markdown, such as images/figure-1.jpeg." },
+      page: { type: "integer" },
+      mimeType: { type: "string" },
+      data: { type: "string", description: "Base64, without a data: prefix." },
+      caption: { type: "string" },
+    },
+  },
+  BoilerplateLine: {
+    type: "object",
+    required: ["text", "position", "pages"],
+    properties: {
+      text: { type: "string", description: "First occurrence, as it appeared in the document." },
+      position: { type: "string", enum: ["header", "footer"] },
+      pages: { type: "array", items: { type: "integer" }, description: "Pages it was removed from." },
+    },
+  },
+  FailedBatch: {
+    type: "object",
+    required: ["pages", "error", "code"],
+    properties: {
+      pages: { type: "string" },
+      error: { type: "string" },
+      code: ref("ErrorCode"),
+    },
+  },
+  FallbackBatch: {
+    type: "object",
+    required: ["pages", "provider", "code"],
+    properties: {
+      pages: { type: "string" },
+      provider: { type: "string", enum: PROVIDER_IDS },
+      code: { ...ref("ErrorCode"), description: "Why the requested provider failed." },
+    },
+  },
+  Usage: {
+    type: "object",
+    description:
+      "What the provider reported billing, summed over all batches: `pages` for Mistral, `inputTokens` and " +
+      "`outputTokens` for OpenAI. Absent for formats converted locally and for cache hits.",
+    properties: {
+      pages: { type: "integer", minimum: 0 },
+      inputTokens: { type: "integer", minimum: 0 },
+      outputTokens: { type: "integer", minimum: 0 },
+    },
+  },
+  BatchFailure: {
+    type: "object",
+    required: ["filename", "error", "code"],
+    properties: { filename: { type: "string" }, error: { type: "string" }, code: ref("ErrorCode") },
+  },
+  BatchResponse: {
+    type: "object",
+    required: ["documents", "llmsTxt", "llmsFullTxt"],
+    properties: {
+      documents: {
+        type: "array",
+        items: { oneOf: [ref("ConversionResult"), ref("BatchFailure")] },
+        description: "One per file, in upload order; files that failed are reported in place.",
+      },
+      llmsTxt: { type: "string", description: "Index of every converted document." },
+      llmsFullTxt: { type: "string", description: "Every converted document, one after the other." },
+    },
+  },
+  Chunk: {
+    type: "object",
+    required: ["source", "index", "text", "pages", "headings", "start", "end", "tokens"],
+    properties: {
+      source: { type: "string", description: "File name of the document." },
+      index: { type: "integer" },
+      text: { type: "string" },
+      pages: { type: "array", items: { type: "integer" }, description: "Pages the text came from." },
+      headings: { type: "array", items: { type: "string" }, description: "Enclosing headings, outermost first." },
+      start: { type: "integer", description: "Character offset of the chunk in llms-full.txt." },
+      end: { type: "integer" },
+      tokens: { type: "integer" },
+    },
+  },
+  ErrorCode: { type: "string", enum: Object.keys(ERROR_CODES) },
+  Error: {
+    type: "object",
+    required: ["error", "code"],
+    properties: { error: { type: "string" }, code: ref("ErrorCode") },
+  },
+  JobCreated: {
+    type: "object",
+    required: ["id", "status", "statusUrl"],
+    properties: {
+      id: { type: "string", format: "uuid" },
+      status: { type: "string", enum: ["queued"] },
+      statusUrl: { type: "string" },
+    },
+  },
+  Job: {
+    type: "object",
+    required: ["id", "status", "progress", "filename", "provider", "createdAt", "updatedAt"],
+    properties: {
+      id: { type: "string", format: "uuid" },
+      status: { type: "string", enum: ["queued", "processing", "completed", "failed"] },
+      progress: { type: "integer", minimum: 0, maximum: 100 },
+      filename: { type: "string" },
+      provider: { type: "string", enum: PROVIDER_IDS },
+      result: { ...ref("ConversionResult"), description: "Once completed." },
+      error: { type: "string" },
+      errorCode: ref("ErrorCode"),
+      createdAt: { type: "string", format: "date-time" },
+      updatedAt: { type: "string", format: "date-time" },
+    },
+  },
+  HistorySummary: {
+    type: "object",
+    required: ["id", "filename", "hash", "size", "provider", "options", "startedAt", "finishedAt"],
+    properties: {
+      id: { type: "string", format: "uuid" },
+      filename: { type: "string" },
+      hash: { type: "string", description: "SHA-256 of the uploaded file." },
+      size: { type: "integer", description: "Bytes." },
+      provider: { type: "string", enum: PROVIDER_IDS },
+      options: { type: "object", description: "The options the conversion ran with, without the password." },
+      startedAt: { type: "string", format: "date-time" },
+      finishedAt: { type: "string", format: "date-time" },
+      title: { type: "string" },
+      pageCount: { type: "integer" },
+      format: { type: "string", enum: INPUT_FORMATS.map((format) => format.id) },
+      estimatedCost: { type: "number" },
+    },
+  },
+  HistoryEntry: {
+    type: "object",
+    required: ["id", "filename", "hash", "size", "provider", "options", "startedAt", "finishedAt", "result"],
+    properties: {
+      id: { type: "string", format: "uuid" },
+      filename: { type: "string" },
+      hash: { type: "string" },
+      size: { type: "integer" },
+      provider: { type: "string", enum: PROVIDER_IDS },
+      options: { type: "object" },
+      startedAt: { type: "string", format: "date-time" },
+      finishedAt: { type: "string", format: "date-time" },
+      result: ref("ConversionResult"),
+    },
+  },
+};
+
+function json(schema: Schema, example?: unknown): Record<string, MediaType> {
+  return { "application/json": { schema, example } };
+}
+
+const PATHS: OpenApiDocument["paths"] = {
+  "/api/ocr": {
+    post: {
+      operationId: "convert",
+      summary: "Convert documents",
+      description:
+        "Convert a PDF, image, Word document, presentation, EPUB or web page to optimized LLM-ready text. PDFs " +
+        "and images go through OCR; the other formats are converted on the server. Several files are converted " +
+        "as a batch and indexed together as one llms.txt collection.",
+      tags: ["Conversion"],
+      requestBody: {
+        required: true,
+        content: {
+          "multipart/form-data": { schema: ref("OcrRequest"), example: { file: "document.pdf", provider: "mistral" } },
+        },
+      },
+      responses: {
+        "200": {
+          description: "One file gives a ConversionResult, several a BatchResponse.",
+          content: {
+            "application/json": {
+              schema: { oneOf: [ref("ConversionResult"), ref("BatchResponse")] },
+              examples: {
+                single: { summary: "One file", value: CONVERSION_EXAMPLE },
+                batch: { summary: "Several files", value: BATCH_EXAMPLE },
+              },
+            },
+            "application/zip": { schema: { type: "string", format: "binary" } },
+            "application/x-ndjson": { schema: ref("Chunk"), example: CHUNKS_EXAMPLE },
+          },
+        },
+        ...errorResponses(CONVERSION_ERRORS),
+      },
+    },
+  },
+  "/api/ocr/stream": {
+    post: {
+      operationId: "convertStream",
+      summary: "Convert a document with progress",
+      description:
+        "Streaming variant of POST /api/ocr for one file, as server-sent events: `start` with the page count, " +
+        "one `page` per finished page, then `done` with the same body /api/ocr returns, or `error` with an " +
+        "Error body. Closing the connection aborts the conversion.",
+      tags: ["Conversion"],
+      requestBody: {
+        required: true,
+        content: {
+          "multipart/form-data": { schema: ref("StreamRequest"), example: { file: "document.pdf", provider: "mistral" } },
+        },
+      },
+      responses: {
+        "200": {
+          description: "Event stream.",
+          content: { "text/event-stream": { schema: { type: "string" }, example: STREAM_EXAMPLE } },
+        },
+        ...errorResponses(["INVALID_REQUEST", "UNAUTHORIZED", "UNSUPPORTED_TYPE", "FILE_TOO_LARGE", "RATE_LIMITED"]),
+      },
+    },
+  },
+  "/api/jobs": {
+    post: {
+      operationId: "createJob",
+      summary: "Queue a conversion",
+      description:
+        "Queue a conversion and return immediately with a job id. Use this for large documents that would " +
+        "otherwise time out behind a proxy.",
+      tags: ["Jobs"],
+      requestBody: {
+        required: true,
+        content: {
+          "multipart/form-data": { schema: ref("JobRequest"), example: { file: "document.pdf", provider: "mistral" } },
+        },
+      },
+      responses: {
+        "202": {
+          description: "Queued.",
+          content: json(ref("JobCreated"), { id: JOB_ID, status: "queued", statusUrl: `/api/jobs/${JOB_ID}` }),
+        },
+        ...errorResponses(["INVALID_REQUEST", "UNAUTHORIZED", "UNSUPPORTED_TYPE", "FILE_TOO_LARGE", "RATE_LIMITED"]),
+      },
+    },
+  },
+  "/api/jobs/{id}": {
+    get: {
+      operationId: "getJob",
+      summary: "Poll a job",
+      description:
+        "`result` has the same shape as the /api/ocr response once the job has completed. Only the caller that " +
+        "queued a job can poll it. Finished jobs are kept for JOB_TTL_HOURS (24 by default).",
+      tags: ["Jobs"],
+      parameters: [{ ...HISTORY_ID_PARAMETER, example: JOB_ID }],
+      responses: {
+        "200": {
+          description: "The job.",
+          content: json(ref("Job"), {
+            id: JOB_ID,
+            status: "completed",
+            progress: 100,
+            filename: "document.pdf",
+            provider: "mistral",
+            result: CONVERSION_EXAMPLE,
+            createdAt: "2026-10-19T07:49:12.061Z",
+            updatedAt: "2026-10-19T07:49:18.999Z",
+          }),
+        },
+        ...errorResponses(["UNAUTHORIZED", "NOT_FOUND"], { NOT_FOUND: "Job not found" }),
+      },
+    },
+  },
+  "/api/history": {
+    get: {
+      operationId: "listHistory",
+      summary: "List past conversions",
+      description:
+        "Your past conversions, newest first, without their output. History is off unless the server sets " +
+        'HISTORY_STORE to "memory", or to "file" to keep it across restarts. Then every conversion through ' +
+        "/api/ocr, the stream and jobs is kept along with the uploaded file. Each API key, and each browser " +
+        "session, has a history of its own, up to HISTORY_MAX_ENTRIES entries (20) and HISTORY_MAX_MB " +
+        "(10 MB in memory, 100 MB on disk); past either, its oldest entries are dropped. With history off, " +
+        "the list is empty.",
+      tags: ["History"],
+      responses: {
+        "200": {
+          description: "The history.",
+          content: json(
+            { type: "object", required: ["entries"], properties: { entries: { type: "array", items: ref("HistorySummary") } } },
+            { entries: [HISTORY_SUMMARY_EXAMPLE] }
+          ),
+        },
+        ...errorResponses(["UNAUTHORIZED"]),
+      },
+    },
+  },
+  "/api/history/{id}": {
+    get: {
+      operationId: "getHistoryEntry",
+      summary: "Get a past conversion",
+      description: "One entry with its full `result`, the same shape as the /api/ocr response.",
+      tags: ["History"],
+      parameters: [HISTORY_ID_PARAMETER],
+      responses: {
+        "200": {
+          description: "The entry.",
+          content: json(ref("HistoryEntry"), { ...HISTORY_SUMMARY_EXAMPLE, result: CONVERSION_EXAMPLE }),
+        },
+        ...errorResponses(["UNAUTHORIZED", "NOT_FOUND"]),
+      },
+    },
+    post: {
+      operationId: "rerunHistoryEntry",
+      summary: "Convert a past upload again",
+      description:
+        "Convert the stored file again with the same options, optionally with another provider. Responds like " +
+        "/api/ocr and adds the new run to the history.",
+      tags: ["History"],
+      parameters: [HISTORY_ID_PARAMETER],
+      requestBody: {
+        content: { "multipart/form-data": { schema: ref("RerunRequest"), example: { provider: "openai" } } },
+      },
+      responses: {
+        "200": { description: "The new conversion.", content: json(ref("ConversionResult"), CONVERSION_EXAMPLE) },
+        ...errorResponses(CONVERSION_ERRORS.filter((code) => code !== "UNSUPPORTED_TYPE").concat("NOT_FOUND")),
+      },
+    },
+    delete: {
+      operationId: "deleteHistoryEntry",
+      summary: "Delete a past conversion",
+      description: "Remove an entry and its stored file.",
+      tags: ["History"],
+      parameters: [HISTORY_ID_PARAMETER],
+      responses: {
+        "204": { description: "Deleted." },
+        ...errorResponses(["UNAUTHORIZED", "NOT_FOUND"]),
+      },
+    },
+  },
+  "/api/openapi.json": {
+    get: {
+      operationId: "getOpenApi",
+      summary: "This specification",
+      description: "The API as an OpenAPI 3.1 document.",
+      tags: ["Meta"],
+      responses: { "200": { description: "OpenAPI document.", content: json({ type: "object" }) } },
+    },
+  },
+};
+
+/**
+ * The API as an OpenAPI 3.1 document. Enums and limits come from the same
+ * catalogs and constants the routes check against, so the two can't drift.
+ */
+export const OPENAPI_SPEC: OpenApiDocument = {
+  openapi: "3.1.0",
+  info: {
+    title: "pdf→llms.txt API",
+    version: packageJson.version,
+    description:
+      "Convert PDFs, images, Office documents, EPUBs and web pages to llms.txt and llms-full.txt. Once the " +
+      "server has API keys configured, every endpoint needs `Authorization: Bearer <key>`.",
+  },
+  paths: PATHS,
+  components: {
+    schemas: SCHEMAS,
+    securitySchemes: {
+      apiKey: {
+        type: "http",
+        scheme: "bearer",
+        description: "An API key from API_KEYS or API_KEYS_FILE. Not needed while the server has no keys configured.",
+      },
+    },
+  },
+  security: [{ apiKey: [] }],
+};
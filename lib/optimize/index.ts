@@ -0,0 +1,76 @@
+import { normalizeMathDelimiters, protectMath } from "@/lib/math";
+import {
+  asciiPunctuation,
+  collapseBlankLines,
+  dehyphenate,
+  normalizeUnicode,
+  repairHeadings,
+  trimTrailingWhitespace,
+  unwrapParagraphs,
+} from "./passes";
+
+export * from "./passes";
+
+export interface Pass {
+  id: string;
+  description: string;
+  run: (markdown: string) => string;
+}
+
+// Every pass, in the order they run. Unicode fixes come first so the
+// prose passes see plain hyphens and spaces; whitespace cleanup comes last.
+export const PASSES = [
+  { id: "unicode", description: "Expand ligatures, normalize spaces and accents", run: normalizeUnicode },
+  { id: "dehyphenate", description: "Rejoin words hyphenated across line breaks", run: dehyphenate },
+  { id: "unwrap", description: "Rejoin hard-wrapped paragraph lines", run: unwrapParagraphs },
+  { id: "headings", description: "Tidy headings and close skipped levels", run: repairHeadings },
+  { id: "punctuation", description: "Typographic quotes and ellipses to ASCII", run: asciiPunctuation },
+  { id: "blank-lines", description: "Collapse runs of blank lines", run: collapseBlankLines },
+  { id: "trailing-whitespace", description: "Strip trailing spaces and tabs", run: trimTrailingWhitespace },
+] as const satisfies readonly Pass[];
+
+export type PassId = (typeof PASSES)[number]["id"];
+
+export const PRESETS = {
+  // Whitespace only; the text is otherwise as the provider returned it
+  minimal: ["blank-lines", "trailing-whitespace"],
+  default: ["unicode", "dehyphenate", "unwrap", "headings", "blank-lines", "trailing-whitespace"],
+  aggressive: ["unicode", "dehyphenate", "unwrap", "headings", "punctuation", "blank-lines", "trailing-whitespace"],
+} as const satisfies Record<string, readonly PassId[]>;
+
+export type PresetId = keyof typeof PRESETS;
+export const PRESET_IDS = Object.keys(PRESETS) as PresetId[];
+export const DEFAULT_PRESET: PresetId = "default";
+
+export function isPresetId(value: string): value is PresetId {
+  return value in PRESETS;
+}
+
+export function isPassId(value: string): value is PassId {
+  return PASSES.some((pass) => pass.id === value);
+}
+
+export interface OptimizeOptions {
+  passes?: readonly PassId[];
+  // Keep equations as LaTeX: \[...\] and \(...\) become $$...$$ and $...$,
+  // and no pass touches the text between the delimiters
+  math?: boolean;
+}
+
+/**
+ * Clean converted markdown for llms.txt by running the given passes, in
+ * their fixed order whatever order they are listed in. The document
+ * always starts without blank lines and ends with a single newline.
+ */
+export function optimizeForLLMs(markdown: string, options: OptimizeOptions = {}): string {
+  const passes = options.passes ?? PRESETS[DEFAULT_PRESET];
+  const math = options.math ? protectMath(normalizeMathDelimiters(markdown)) : null;
+  let result = math ? math.text : markdown;
+
+  // Figures are rewritten earlier, per the `images` option (lib/figures)
+  for (const pass of PASSES) {
+    if (passes.includes(pass.id)) result = pass.run(result);
+  }
+
+  return (math ? math.restore(result) : result).trim() + "\n";
+}
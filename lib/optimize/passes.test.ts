@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  asciiPunctuation,
+  collapseBlankLines,
+  dehyphenate,
+  normalizeUnicode,
+  repairHeadings,
+  trimTrailingWhitespace,
+  unwrapParagraphs,
+} from "./passes";
+import { optimizeForLLMs } from ".";
+
+const FENCE = "```js\nconst total = sub-\n  total;\n### not a heading\n“quoted”\n```";
+
+describe("normalizeUnicode", () => {
+  it("expands ligatures, turns soft hyphens at line ends into hyphens and normalizes spaces", () => {
+    expect(normalizeUnicode("eﬀect of the ﬁnal\u00A0step")).toBe("effect of the final step");
+    expect(normalizeUnicode("infor\u00AD\nmation and hy\u00ADphen")).toBe("infor-\nmation and hyphen");
+    expect(normalizeUnicode("one\r\ntwo\u2028three")).toBe("one\ntwo\nthree");
+  });
+});
+
+describe("dehyphenate", () => {
+  it("rejoins words split across lines", () => {
+    expect(dehyphenate("an inter-\nesting result")).toBe("an interesting result");
+  });
+
+  it("keeps the hyphen of words the document also hyphenates mid-line", () => {
+    expect(dehyphenate("a well-known fact, and well-\nknown again")).toBe("a well-known fact, and well-known again");
+  });
+
+  it("leaves capitalized continuations and code fences alone", () => {
+    expect(dehyphenate("Anglo-\nSaxon")).toBe("Anglo-\nSaxon");
+    expect(dehyphenate(FENCE)).toBe(FENCE);
+  });
+});
+
+describe("unwrapParagraphs", () => {
+  it("joins hard-wrapped prose into one line per paragraph", () => {
+    expect(unwrapParagraphs("First line\nsecond line\n\nNext paragraph")).toBe(
+      "First line second line\n\nNext paragraph"
+    );
+  });
+
+  it("keeps lists, headings, quotes, tables and hard breaks", () => {
+    const markdown = "# Title\n- one\n- two\n> quote\n| a | b |\nline with break  \nnext line";
+    expect(unwrapParagraphs(markdown)).toBe(markdown);
+  });
+
+  it("leaves code fences unchanged", () => {
+    expect(unwrapParagraphs(`Text before\n\n${FENCE}\n\nText after`)).toBe(`Text before\n\n${FENCE}\n\nText after`);
+  });
+});
+
+describe("repairHeadings", () => {
+  it("closes skipped levels, moving subheadings up with their parent", () => {
+    expect(repairHeadings("# A\n### B\n#### C\n## D")).toBe("# A\n## B\n### C\n## D");
+  });
+
+  it("tidies spacing and closing hashes", () => {
+    expect(repairHeadings("#   Title ##\n##  Section")).toBe("# Title\n## Section");
+  });
+
+  it("leaves code fences unchanged", () => {
+    expect(repairHeadings(`# A\n${FENCE}\n### B`)).toBe(`# A\n${FENCE}\n## B`);
+  });
+});
+
+describe("asciiPunctuation", () => {
+  it("replaces typographic quotes and ellipses but keeps dashes", () => {
+    expect(asciiPunctuation("“Wait…” she said, ‘1990–2000’")).toBe("\"Wait...\" she said, '1990–2000'");
+  });
+
+  it("leaves code fences unchanged", () => {
+    expect(asciiPunctuation(FENCE)).toBe(FENCE);
+  });
+});
+
+describe("whitespace passes", () => {
+  it("collapse runs of blank lines and strip trailing whitespace", () => {
+    expect(collapseBlankLines("a\n\n\n\n\n\nb")).toBe("a\n\n\nb");
+    expect(trimTrailingWhitespace("a  \nb\t\nc")).toBe("a\nb\nc");
+  });
+});
+
+describe("optimizeForLLMs", () => {
+  it("runs only the passes asked for", () => {
+    expect(optimizeForLLMs("an inter-\nesting  ", { passes: ["trailing-whitespace"] })).toBe("an inter-\nesting\n");
+    expect(optimizeForLLMs("an inter-\nesting")).toBe("an interesting\n");
+  });
+});
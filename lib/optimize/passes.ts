@@ -0,0 +1,134 @@
+import { SEPARATOR_HEADING } from "@/lib/providers/pages";
+
+// Each pass takes and returns a whole document's markdown, so it can be run
+// and checked on its own. Passes that rewrite prose leave fenced code alone.
+
+const CODE_BLOCK = /(^(?:```|~~~)[^\n]*\n[\s\S]*?^(?:```|~~~)[ \t]*$)/m;
+
+// Apply `transform` to the text between fenced code blocks
+function outsideCode(markdown: string, transform: (text: string) => string): string {
+  return markdown
+    .split(CODE_BLOCK)
+    .map((part, i) => (i % 2 ? part : transform(part)))
+    .join("");
+}
+
+const LIGATURES: Record<string, string> = {
+  "\uFB00": "ff",
+  "\uFB01": "fi",
+  "\uFB02": "fl",
+  "\uFB03": "ffi",
+  "\uFB04": "ffl",
+  "\uFB05": "st",
+  "\uFB06": "st",
+};
+
+/**
+ * Undo Unicode that PDF text layers and OCR leave behind: ligatures such
+ * as "ﬁ", non-breaking and thin spaces, zero-width characters and
+ * decomposed accents. Soft hyphens at a line end become real ones, for
+ * `dehyphenate` to rejoin. Full NFKC is avoided since it also flattens
+ * superscripts and fractions.
+ */
+export function normalizeUnicode(markdown: string): string {
+  return markdown
+    .normalize("NFC")
+    .replace(/[\uFB00-\uFB06]/g, (ligature) => LIGATURES[ligature])
+    .replace(/\u00AD(?=[ \t]*\n)/g, "-")
+    .replace(/[\u00AD\u200B\u2060\uFEFF]/g, "")
+    .replace(/[\u00A0\u2007\u2009\u200A\u202F]/g, " ")
+    .replace(/\r\n?|[\u2028\u2029]/g, "\n");
+}
+
+/**
+ * Rejoin words hyphenated across a line break ("infor-\nmation"). The rest
+ * of the second line moves up with it. A word the document also spells
+ * with a hyphen mid-line ("well-known") keeps its hyphen.
+ */
+export function dehyphenate(markdown: string): string {
+  return outsideCode(markdown, (text) => {
+    const compounds = new Set(text.match(/\p{L}+-\p{L}+/gu)?.map((word) => word.toLowerCase()));
+    return text.replace(/(\p{L}+)[-\u2010][ \t]*\n[ \t]*(\p{Ll}+)/gu, (_, head: string, tail: string) =>
+      compounds.has(`${head}-${tail}`.toLowerCase()) ? `${head}-${tail}` : head + tail
+    );
+  });
+}
+
+// Lines with markdown meaning of their own: headings, list items, quotes,
+// tables, HTML, images, math, footnotes, rules and setext underlines, and
+// anything indented
+const STRUCTURAL = /^(?:\s|#{1,6}(?:\s|$)|[-*+]\s|\d+[.)]\s|>|\||<|!\[|\$\$|\[\^|(?:[-*_][ \t]*){3,}$|=+[ \t]*$)/;
+
+function isProse(line: string): boolean {
+  return line.trim() !== "" && !STRUCTURAL.test(line);
+}
+
+/**
+ * Rejoin paragraphs that were hard-wrapped at the page width, so each
+ * paragraph is one line. Lines with markdown structure, and lines ending
+ * in a hard break (two spaces or a backslash), are kept as they are.
+ */
+export function unwrapParagraphs(markdown: string): string {
+  return outsideCode(markdown, (text) => {
+    const lines: string[] = [];
+    for (const line of text.split("\n")) {
+      const previous = lines[lines.length - 1];
+      if (previous !== undefined && isProse(previous) && !/(?: {2}|\\)$/.test(previous) && isProse(line)) {
+        lines[lines.length - 1] = `${previous.trimEnd()} ${line.trimStart()}`;
+      } else {
+        lines.push(line);
+      }
+    }
+    return lines.join("\n");
+  });
+}
+
+const HEADING = /^(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+
+/**
+ * Tidy ATX headings (one space after the hashes, no closing hashes) and
+ * close skipped levels: a heading more than one level below the heading
+ * it belongs to moves up, with its own subheadings, so "# A / ### B /
+ * #### C" becomes "# A / ## B / ### C". Page separators are left out.
+ */
+export function repairHeadings(markdown: string): string {
+  const open: { level: number; depth: number }[] = [];
+  return outsideCode(markdown, (text) =>
+    text
+      .split("\n")
+      .map((line) => {
+        const match = line.match(HEADING);
+        if (!match?.[2] || SEPARATOR_HEADING.test(line)) return line;
+        const level = match[1].length;
+        while (open.length && open[open.length - 1].level >= level) open.pop();
+        const parent = open[open.length - 1];
+        const depth = parent ? Math.min(level, parent.depth + 1) : level;
+        open.push({ level, depth });
+        return `${"#".repeat(depth)} ${match[2]}`;
+      })
+      .join("\n")
+  );
+}
+
+/**
+ * Replace typographic quotes and ellipses with ASCII, which most
+ * tokenizers encode in fewer tokens. Dashes are kept, since they can
+ * carry meaning ("1990–2000").
+ */
+export function asciiPunctuation(markdown: string): string {
+  return outsideCode(markdown, (text) =>
+    text
+      .replace(/[\u2018\u2019\u201A\u2032]/g, "'")
+      .replace(/[\u201C\u201D\u201E\u2033]/g, '"')
+      .replace(/\u2026/g, "...")
+  );
+}
+
+// More than two consecutive blank lines
+export function collapseBlankLines(markdown: string): string {
+  return markdown.replace(/\n{4,}/g, "\n\n\n");
+}
+
+export function trimTrailingWhitespace(markdown: string): string {
+  return markdown.replace(/[ \t]+$/gm, "");
+}
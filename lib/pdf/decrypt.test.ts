@@ -0,0 +1,47 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { PDFDocument } from "pdf-lib";
+import { extractText } from "unpdf";
+import { describe, expect, it } from "vitest";
+import { PasswordError, decryptPdf } from "./decrypt";
+
+// Made with @cantoo/pdf-lib, an independent implementation of the standard
+// security handler: two pages, the title "Encrypted fixture" and the text
+// "Secret fixture text" on the first page, with user password "user-pass"
+// and owner password "owner-pass". See fixtures/README.md.
+const FIXTURES = [
+  ["r2-rc4-40.pdf", "RC4 40-bit, revision 2"],
+  ["r3-rc4-128.pdf", "RC4 128-bit, revision 3"],
+  ["r4-aes-128.pdf", "AES-128, revision 4"],
+  ["r5-aes-256.pdf", "AES-256, revision 5"],
+  ["r6-aes-256.pdf", "AES-256, revision 6"],
+];
+
+function fixture(name: string): Promise<Uint8Array> {
+  return readFile(path.join(__dirname, "fixtures", name)).then((bytes) => new Uint8Array(bytes));
+}
+
+describe.each(FIXTURES)("decryptPdf with %s (%s)", (name) => {
+  it.each(["user-pass", "owner-pass"])("decrypts strings and streams with the password %s", async (password) => {
+    const decrypted = await decryptPdf(await fixture(name), password);
+
+    const doc = await PDFDocument.load(decrypted);
+    expect(doc.getTitle()).toBe("Encrypted fixture");
+    expect(doc.getPageCount()).toBe(2);
+    const { text } = await extractText(decrypted, { mergePages: true });
+    expect(text).toContain("Secret fixture text");
+  });
+
+  it("refuses a wrong password", async () => {
+    await expect(decryptPdf(await fixture(name), "wrong")).rejects.toThrow(PasswordError);
+  });
+});
+
+describe("decryptPdf", () => {
+  it("returns unencrypted documents unchanged", async () => {
+    const doc = await PDFDocument.create();
+    doc.addPage();
+    const bytes = await doc.save();
+    expect(await decryptPdf(bytes, "anything")).toBe(bytes);
+  });
+});
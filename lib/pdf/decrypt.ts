@@ -0,0 +1,308 @@
+import { createCipheriv, createDecipheriv, createHash } from "crypto";
+import {
+  PDFArray,
+  PDFDict,
+  PDFHexString,
+  PDFInvalidObject,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFObjectParser,
+  PDFObjectStreamParser,
+  PDFParser,
+  PDFRawStream,
+  PDFRef,
+  PDFString,
+  PDFWriter,
+} from "pdf-lib";
+
+// Implements the PDF standard security handler (ISO 32000-2, 7.6.4):
+// RC4 and AES-128 (revisions 2-4) and AES-256 (revisions 5-6). pdf-lib can
+// parse encrypted files but not decrypt them, so the document is parsed
+// as-is, every string and stream is decrypted in place, and it is written
+// back out without its Encrypt dictionary.
+
+type Cipher = "none" | "rc4" | "aes";
+
+export class PasswordError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PasswordError";
+  }
+}
+
+// Padding for passwords under 32 bytes (Algorithm 2, step a)
+const PASSWORD_PAD = Buffer.from(
+  "28bf4e5e4e758a4164004e56fffa01082e2e00b6d0683e802f0ca9fe6453697a",
+  "hex"
+);
+
+function md5(...parts: Uint8Array[]): Buffer {
+  const hash = createHash("md5");
+  for (const part of parts) hash.update(part);
+  return hash.digest();
+}
+
+// OpenSSL 3 leaves RC4 out of the default provider, so it lives here
+function rc4(key: Uint8Array, data: Uint8Array): Buffer {
+  const s = Array.from({ length: 256 }, (_, i) => i);
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + s[i] + key[i % key.length]) & 0xff;
+    [s[i], s[j]] = [s[j], s[i]];
+  }
+  const out = Buffer.alloc(data.length);
+  for (let n = 0, i = 0, j = 0; n < data.length; n++) {
+    i = (i + 1) & 0xff;
+    j = (j + s[i]) & 0xff;
+    [s[i], s[j]] = [s[j], s[i]];
+    out[n] = data[n] ^ s[(s[i] + s[j]) & 0xff];
+  }
+  return out;
+}
+
+// AES-CBC with the IV in the first 16 bytes and PKCS#7 padding
+function aesDecrypt(key: Uint8Array, data: Uint8Array): Buffer {
+  if (data.length < 32 || data.length % 16) return Buffer.alloc(0);
+  const decipher = createDecipheriv(`aes-${key.length * 8}-cbc`, key, data.subarray(0, 16));
+  try {
+    return Buffer.concat([decipher.update(data.subarray(16)), decipher.final()]);
+  } catch {
+    // Bad padding: keep what decrypted rather than lose the object
+    const raw = createDecipheriv(`aes-${key.length * 8}-cbc`, key, data.subarray(0, 16)).setAutoPadding(false);
+    return Buffer.concat([raw.update(data.subarray(16)), raw.final()]);
+  }
+}
+
+function xorKey(key: Uint8Array, value: number): Buffer {
+  return Buffer.from(key.map((byte) => byte ^ value));
+}
+
+function padPassword(password: Buffer): Buffer {
+  return Buffer.concat([password.subarray(0, 32), PASSWORD_PAD]).subarray(0, 32);
+}
+
+interface Security {
+  revision: number;
+  length: number;
+  owner: Buffer;
+  user: Buffer;
+  ownerKey?: Buffer;
+  userKey?: Buffer;
+  permissions: number;
+  id: Buffer;
+  encryptMetadata: boolean;
+}
+
+// Algorithm 2: the file key for a user password (revisions 2-4)
+function legacyKey(password: Buffer, sec: Security): Buffer {
+  const permissions = Buffer.alloc(4);
+  permissions.writeInt32LE(sec.permissions);
+  let key = md5(
+    padPassword(password),
+    sec.owner.subarray(0, 32),
+    permissions,
+    sec.id,
+    sec.revision >= 4 && !sec.encryptMetadata ? Buffer.from([0xff, 0xff, 0xff, 0xff]) : Buffer.alloc(0)
+  );
+  const n = sec.revision === 2 ? 5 : sec.length / 8;
+  if (sec.revision >= 3) for (let i = 0; i < 50; i++) key = md5(key.subarray(0, n));
+  return key.subarray(0, n);
+}
+
+// Algorithms 4 and 5: does this key decrypt the U entry?
+function checkLegacyKey(key: Buffer, sec: Security): boolean {
+  if (sec.revision === 2) return rc4(key, PASSWORD_PAD).equals(sec.user.subarray(0, 32));
+  let value = rc4(key, md5(PASSWORD_PAD, sec.id));
+  for (let i = 1; i <= 19; i++) value = rc4(xorKey(key, i), value);
+  return value.equals(sec.user.subarray(0, 16));
+}
+
+// Algorithm 7: recover the user password from the owner password
+function userPasswordFromOwner(password: Buffer, sec: Security): Buffer {
+  let hash = md5(padPassword(password));
+  if (sec.revision >= 3) for (let i = 0; i < 50; i++) hash = md5(hash);
+  const key = hash.subarray(0, sec.revision === 2 ? 5 : sec.length / 8);
+  let value = sec.owner.subarray(0, 32);
+  if (sec.revision === 2) return rc4(key, value);
+  for (let i = 19; i >= 0; i--) value = rc4(xorKey(key, i), value);
+  return value;
+}
+
+// Algorithm 2.B (revision 6); revision 5 is a single SHA-256
+function hardenedHash(password: Buffer, salt: Buffer, userData: Buffer, revision: number): Buffer {
+  let k = createHash("sha256").update(password).update(salt).update(userData).digest();
+  if (revision === 5) return k;
+
+  let e = Buffer.alloc(0);
+  for (let round = 0; round < 64 || e[e.length - 1] > round - 32; round++) {
+    const k1 = Buffer.concat(Array(64).fill(Buffer.concat([password, k, userData])));
+    const cipher = createCipheriv("aes-128-cbc", k.subarray(0, 16), k.subarray(16, 32)).setAutoPadding(false);
+    e = Buffer.concat([cipher.update(k1), cipher.final()]);
+    const sum = e.subarray(0, 16).reduce((n, byte) => n + byte, 0);
+    k = createHash(["sha256", "sha384", "sha512"][sum % 3]).update(e).digest();
+  }
+  return k.subarray(0, 32);
+}
+
+// Algorithms 2.A, 11 and 12: the file key for an owner or user password
+function aes256Key(password: Buffer, sec: Security): Buffer | null {
+  const input = password.subarray(0, 127);
+  const unwrap = (encryptedKey: Buffer | undefined, key: Buffer) =>
+    createDecipheriv("aes-256-cbc", key, Buffer.alloc(16))
+      .setAutoPadding(false)
+      .update(encryptedKey ?? Buffer.alloc(32));
+
+  const user = sec.user.subarray(0, 48);
+  if (hardenedHash(input, sec.owner.subarray(32, 40), user, sec.revision).equals(sec.owner.subarray(0, 32))) {
+    return unwrap(sec.ownerKey, hardenedHash(input, sec.owner.subarray(40, 48), user, sec.revision));
+  }
+  const empty = Buffer.alloc(0);
+  if (hardenedHash(input, sec.user.subarray(32, 40), empty, sec.revision).equals(sec.user.subarray(0, 32))) {
+    return unwrap(sec.userKey, hardenedHash(input, sec.user.subarray(40, 48), empty, sec.revision));
+  }
+  return null;
+}
+
+function findFileKey(password: string, sec: Security): Buffer | null {
+  if (sec.revision >= 5) return aes256Key(Buffer.from(password.normalize("NFKC"), "utf8"), sec);
+
+  const input = Buffer.from(password, "latin1");
+  const userKey = legacyKey(input, sec);
+  if (checkLegacyKey(userKey, sec)) return userKey;
+  const ownerKey = legacyKey(userPasswordFromOwner(input, sec), sec);
+  return checkLegacyKey(ownerKey, sec) ? ownerKey : null;
+}
+
+function bytesOf(object: PDFObject | undefined): Buffer {
+  if (object instanceof PDFString || object instanceof PDFHexString) return Buffer.from(object.asBytes());
+  return Buffer.alloc(0);
+}
+
+function numberOf(dict: PDFDict, key: string, fallback: number): number {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFNumber ? value.asNumber() : fallback;
+}
+
+// The cipher a V4/V5 crypt filter name resolves to
+function filterCipher(encrypt: PDFDict, key: string): Cipher {
+  const name = encrypt.lookup(PDFName.of(key));
+  if (!(name instanceof PDFName) || name === PDFName.of("Identity")) return "none";
+  const filters = encrypt.lookup(PDFName.of("CF"));
+  const filter = filters instanceof PDFDict ? filters.lookup(name) : undefined;
+  const method = filter instanceof PDFDict ? filter.lookup(PDFName.of("CFM")) : undefined;
+  if (method === PDFName.of("AESV2") || method === PDFName.of("AESV3")) return "aes";
+  return method === PDFName.of("V2") ? "rc4" : "none";
+}
+
+/**
+ * Decrypt a password-protected PDF. Either the user or the owner password
+ * works. Throws PasswordError when the password is wrong or the document
+ * uses a security handler other than the standard one.
+ */
+export async function decryptPdf(bytes: Uint8Array, password: string): Promise<Uint8Array> {
+  const context = await PDFParser.forBytesWithOptions(bytes).parseDocument();
+  const encryptRef = context.trailerInfo.Encrypt;
+  const encrypt = context.lookup(encryptRef);
+  if (!(encrypt instanceof PDFDict)) return bytes;
+
+  if (encrypt.lookup(PDFName.of("Filter")) !== PDFName.of("Standard")) {
+    throw new PasswordError("This PDF uses an unsupported encryption handler");
+  }
+
+  const version = numberOf(encrypt, "V", 0);
+  const ids = context.lookup(context.trailerInfo.ID);
+  const sec: Security = {
+    revision: numberOf(encrypt, "R", 2),
+    length: version === 1 ? 40 : numberOf(encrypt, "Length", version === 4 ? 128 : 40),
+    owner: bytesOf(encrypt.lookup(PDFName.of("O"))),
+    user: bytesOf(encrypt.lookup(PDFName.of("U"))),
+    ownerKey: bytesOf(encrypt.lookup(PDFName.of("OE"))),
+    userKey: bytesOf(encrypt.lookup(PDFName.of("UE"))),
+    permissions: numberOf(encrypt, "P", 0),
+    id: ids instanceof PDFArray ? bytesOf(ids.lookup(0)) : Buffer.alloc(0),
+    encryptMetadata: encrypt.lookup(PDFName.of("EncryptMetadata"))?.toString() !== "false",
+  };
+
+  const fileKey = findFileKey(password, sec);
+  if (!fileKey) throw new PasswordError("Incorrect password");
+
+  const [streamCipher, stringCipher]: Cipher[] =
+    version >= 4
+      ? [filterCipher(encrypt, "StmF"), filterCipher(encrypt, "StrF")]
+      : ["rc4", "rc4"];
+
+  // Algorithm 1: per-object keys, except AES-256 which uses the file key
+  const objectKey = (ref: PDFRef, cipher: Cipher): Buffer => {
+    if (sec.revision >= 5) return fileKey;
+    const { objectNumber: num, generationNumber: gen } = ref;
+    const suffix = Buffer.from([num & 0xff, (num >> 8) & 0xff, (num >> 16) & 0xff, gen & 0xff, (gen >> 8) & 0xff]);
+    const salt = cipher === "aes" ? Buffer.from("sAlT", "latin1") : Buffer.alloc(0);
+    return md5(fileKey, suffix, salt).subarray(0, Math.min(fileKey.length + 5, 16));
+  };
+
+  const decrypt = (ref: PDFRef, cipher: Cipher, data: Uint8Array): Uint8Array => {
+    if (cipher === "none") return data;
+    const key = objectKey(ref, cipher);
+    return cipher === "aes" ? aesDecrypt(key, data) : rc4(key, data);
+  };
+
+  // Replace every string reachable from `object` with its plaintext
+  const decryptStrings = (ref: PDFRef, object: PDFObject): PDFObject => {
+    if (object instanceof PDFString || object instanceof PDFHexString) {
+      return PDFHexString.of(Buffer.from(decrypt(ref, stringCipher, object.asBytes())).toString("hex"));
+    }
+    if (object instanceof PDFDict) {
+      for (const [key, value] of object.entries()) object.set(key, decryptStrings(ref, value));
+    } else if (object instanceof PDFArray) {
+      for (let i = 0; i < object.size(); i++) object.set(i, decryptStrings(ref, object.get(i)));
+    } else if (object instanceof PDFRawStream) {
+      decryptStrings(ref, object.dict);
+    }
+    return object;
+  };
+
+  const decryptStream = (ref: PDFRef, stream: PDFRawStream): PDFRawStream => {
+    const { dict } = stream;
+    const filter = dict.lookup(PDFName.of("Filter"));
+    const usesCryptFilter =
+      filter === PDFName.of("Crypt") || (filter instanceof PDFArray && filter.asArray().includes(PDFName.of("Crypt")));
+    const plainMetadata = !sec.encryptMetadata && dict.lookup(PDFName.of("Type")) === PDFName.of("Metadata");
+    decryptStrings(ref, dict);
+    if (usesCryptFilter || plainMetadata) return stream;
+    return PDFRawStream.of(dict, decrypt(ref, streamCipher, stream.contents));
+  };
+
+  // pdf-lib could not parse object streams while they were encrypted and
+  // kept them as raw bytes; they are reparsed once the rest is decrypted
+  const objectStreams: [PDFRef, PDFRawStream][] = [];
+
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (ref === encryptRef) continue;
+    if (object instanceof PDFInvalidObject) {
+      const raw = new Uint8Array(object.sizeInBytes());
+      object.copyBytesInto(raw, 0);
+      try {
+        const parsed = PDFObjectParser.forBytes(raw, context).parseObject();
+        if (parsed instanceof PDFRawStream && parsed.dict.lookup(PDFName.of("Type")) === PDFName.of("ObjStm")) {
+          objectStreams.push([ref, parsed]);
+        }
+      } catch {
+        // Genuinely broken objects stay as they are
+      }
+    } else if (object instanceof PDFRawStream) {
+      context.assign(ref, decryptStream(ref, object));
+    } else {
+      context.assign(ref, decryptStrings(ref, object));
+    }
+  }
+
+  // Objects inside an object stream are not encrypted separately
+  for (const [ref, stream] of objectStreams) {
+    context.delete(ref);
+    await PDFObjectStreamParser.forStream(decryptStream(ref, stream)).parseIntoContext();
+  }
+
+  context.delete(encryptRef as PDFRef);
+  context.trailerInfo.Encrypt = undefined;
+  return PDFWriter.forContext(context, Infinity).serializeToBuffer();
+}
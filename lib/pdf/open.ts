@@ -0,0 +1,73 @@
+import { PDFDocument } from "pdf-lib";
+import { RequestError } from "@/lib/errors";
+import { PasswordError, decryptPdf } from "./decrypt";
+import { documentInfo, type DocumentInfo } from "./subset";
+
+// Readers accept a header anywhere in the first KB, and an end-of-file
+// marker anywhere in the last
+const HEADER_WINDOW = 1024;
+const EOF_WINDOW = 1024;
+
+export interface OpenedPdf extends DocumentInfo {
+  // Decrypted when the upload was password protected
+  bytes: Uint8Array;
+}
+
+// Magic-byte sniffing; the client-supplied MIME type proves nothing
+export function hasPdfHeader(bytes: Uint8Array): boolean {
+  return Buffer.from(bytes.subarray(0, HEADER_WINDOW)).includes("%PDF-");
+}
+
+function corrupt(detail = "could not be read"): RequestError {
+  return new RequestError(`The PDF is corrupt and ${detail}`, "CORRUPT_PDF");
+}
+
+async function load(bytes: Uint8Array): Promise<PDFDocument> {
+  try {
+    return await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false });
+  } catch {
+    throw corrupt();
+  }
+}
+
+/**
+ * Check that an upload is a complete, readable PDF with pages, decrypting
+ * it first when it is password protected. Failures are RequestErrors with
+ * a code for each case.
+ */
+export async function openPdf(bytes: Uint8Array, password?: string): Promise<OpenedPdf> {
+  if (!hasPdfHeader(bytes)) {
+    throw new RequestError("The file is not a PDF", "UNSUPPORTED_TYPE");
+  }
+  if (!Buffer.from(bytes.subarray(-EOF_WINDOW)).includes("%%EOF")) {
+    throw new RequestError("The PDF is truncated: its end-of-file marker is missing", "CORRUPT_PDF");
+  }
+
+  let doc = await load(bytes);
+  if (doc.isEncrypted) {
+    if (!password) {
+      throw new RequestError(
+        "The PDF is password protected. Send its password in the password field",
+        "PASSWORD_REQUIRED"
+      );
+    }
+    try {
+      bytes = await decryptPdf(bytes, password);
+    } catch (error) {
+      if (error instanceof PasswordError) throw new RequestError(error.message, "INVALID_PASSWORD");
+      throw corrupt("could not be decrypted");
+    }
+    doc = await load(bytes);
+  }
+
+  let info: DocumentInfo;
+  try {
+    info = documentInfo(doc);
+  } catch {
+    throw corrupt();
+  }
+  if (!info.pageCount) {
+    throw new RequestError("The PDF has no pages", "CORRUPT_PDF");
+  }
+  return { ...info, bytes };
+}
@@ -0,0 +1,68 @@
+import { RequestError } from "@/lib/errors";
+
+// [start, end], where a null end means "to the last page"
+export type PageRange = [number, number | null];
+
+/**
+ * Parse a page selection such as `1-10,15,20-` into ranges. Page numbers
+ * are 1-based; the document length is only needed later, by resolvePages.
+ */
+export function parsePageSpec(spec: string): PageRange[] {
+  const ranges: PageRange[] = [];
+
+  for (const part of spec.split(",").map((p) => p.trim()).filter(Boolean)) {
+    const match = part.match(/^(\d+)(?:\s*(-)\s*(\d+)?)?$/);
+    if (!match) {
+      throw new RequestError(`Invalid page range "${part}". Use a form like 1-10,15,20-`);
+    }
+    const start = Number(match[1]);
+    const end = match[2] ? (match[3] ? Number(match[3]) : null) : start;
+    if (start < 1 || (end !== null && end < start)) {
+      throw new RequestError(`Invalid page range "${part}"`);
+    }
+    ranges.push([start, end]);
+  }
+
+  if (!ranges.length) {
+    throw new RequestError("pages must select at least one page");
+  }
+  return ranges;
+}
+
+// Expand ranges into sorted, de-duplicated page numbers for a document
+export function resolvePages(ranges: PageRange[], totalPages: number): number[] {
+  const pages = new Set<number>();
+  for (const [start, end] of ranges) {
+    const last = end ?? totalPages;
+    if (start > totalPages || last > totalPages) {
+      throw new RequestError(
+        `Page range ${start}-${end ?? ""} is outside the document (${totalPages} pages)`
+      );
+    }
+    for (let page = start; page <= last; page++) pages.add(page);
+  }
+  return [...pages].sort((a, b) => a - b);
+}
+
+// Inverse of parsePageSpec for a list of pages, e.g. [1,2,3,7] -> "1-3,7"
+export function formatPageSpec(pages: number[]): string {
+  const parts: string[] = [];
+  let i = 0;
+  while (i < pages.length) {
+    let j = i;
+    while (j + 1 < pages.length && pages[j + 1] === pages[j] + 1) j++;
+    parts.push(i === j ? `${pages[i]}` : `${pages[i]}-${pages[j]}`);
+    i = j + 1;
+  }
+  return parts.join(",");
+}
+
+// The first `count` pages selected by `spec` (all pages when omitted),
+// without needing the document length
+export function selectedPages(spec: string | undefined, count: number): number[] {
+  const pages = new Set<number>();
+  for (const [start, end] of spec ? parsePageSpec(spec) : [[1, null] as PageRange]) {
+    for (let page = start; page <= (end ?? start + count - 1) && pages.size < count; page++) pages.add(page);
+  }
+  return [...pages].sort((a, b) => a - b).slice(0, count);
+}
@@ -0,0 +1,28 @@
+import { PDFDocument } from "pdf-lib";
+
+// Build a new PDF containing only the given 1-based page numbers, in order
+export async function extractPages(bytes: Uint8Array, pageNumbers: number[]): Promise<Uint8Array> {
+  const source = await PDFDocument.load(bytes);
+  const target = await PDFDocument.create();
+  const copied = await target.copyPages(
+    source,
+    pageNumbers.map((n) => n - 1)
+  );
+  copied.forEach((page) => target.addPage(page));
+  return target.save();
+}
+
+export interface DocumentInfo {
+  pageCount: number;
+  // From the PDF's Info dictionary, when set
+  title?: string;
+}
+
+export function documentInfo(doc: PDFDocument): DocumentInfo {
+  const title = doc.getTitle()?.trim();
+  return { pageCount: doc.getPageCount(), ...(title && { title }) };
+}
+
+export async function readDocumentInfo(bytes: Uint8Array): Promise<DocumentInfo> {
+  return documentInfo(await PDFDocument.load(bytes, { updateMetadata: false }));
+}
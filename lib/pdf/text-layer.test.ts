@@ -0,0 +1,63 @@
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import { describe, expect, it } from "vitest";
+import { optimizeForLLMs } from "@/lib/optimize";
+import { extractPages } from "./subset";
+import { extractTextLayer, readTextStyle } from "./text-layer";
+
+type Lines = [text: string, size: number][];
+
+// One page per entry, with lines drawn top to bottom at the given font sizes
+async function pdfWithPages(pages: Lines[]): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  for (const lines of pages) {
+    const page = pdf.addPage([500, 400]);
+    let y = 360;
+    for (const [text, size] of lines) {
+      page.drawText(text, { x: 40, y, size, font });
+      y -= size * 1.3;
+    }
+  }
+  return pdf.save();
+}
+
+function pdfWithLines(lines: Lines): Promise<Uint8Array> {
+  return pdfWithPages([lines]);
+}
+
+describe("extractTextLayer", () => {
+  it("renders headings and paragraphs, keeping line breaks after hyphens for dehyphenation", async () => {
+    const bytes = await pdfWithLines([
+      ["Introduction", 20],
+      ["This report describes an inter-", 11],
+      ["esting result that was well-known", 11],
+      ["to everyone and is well-", 11],
+      ["known to us too.", 11],
+    ]);
+    const [page] = await extractTextLayer(bytes);
+
+    expect(page).toBe(
+      "# Introduction\n\nThis report describes an inter-\nesting result that was well-known to everyone and is well-\nknown to us too."
+    );
+    expect(optimizeForLLMs(page!)).toBe(
+      "# Introduction\n\nThis report describes an interesting result that was well-known to everyone and is well-known to us too.\n"
+    );
+  });
+
+  it("ranks headings over the whole document when given its text style", async () => {
+    const body: Lines = [["Body text that is long enough to count as a page.", 11]];
+    const bytes = await pdfWithPages([
+      [["Report", 20], ["Overview", 14], ...body],
+      [["Details", 14], ...body],
+    ]);
+    const secondPage = await extractPages(bytes, [2]);
+
+    // Alone, the second page's largest heading would be the top level
+    expect((await extractTextLayer(secondPage))[0]).toMatch(/^# Details/);
+    expect((await extractTextLayer(secondPage, await readTextStyle(bytes)))[0]).toMatch(/^## Details/);
+  });
+
+  it("treats pages without enough text as scans", async () => {
+    expect(await extractTextLayer(await pdfWithLines([["Short", 11]]))).toEqual([null]);
+  });
+});
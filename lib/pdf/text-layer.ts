@@ -0,0 +1,194 @@
+import { extractTextItems } from "unpdf";
+
+type TextItem = Awaited<ReturnType<typeof extractTextItems>>["items"][number][number];
+
+interface Line {
+  text: string;
+  x: number;
+  y: number;
+  fontSize: number;
+}
+
+// Pages with fewer visible characters than this are treated as scans
+const MIN_PAGE_CHARS = 20;
+
+const BULLET = /^[•●◦▪▫■□‣⁃∙·\-–*]\s+/;
+const ORDERED = /^(\d{1,3})[.)]\s+/;
+
+// PDF.js detaches the buffer it is given, so always hand it a copy
+function copy(bytes: Uint8Array): Uint8Array {
+  return new Uint8Array(bytes);
+}
+
+function roundSize(size: number): number {
+  return Math.round(size * 2) / 2;
+}
+
+function groupLines(items: TextItem[]): Line[] {
+  const lines: Line[] = [];
+  let current: (Line & { end: number }) | null = null;
+
+  for (const item of items) {
+    if (!item.str) continue;
+    const size = item.fontSize || item.height;
+    const sameLine = current && Math.abs(current.y - item.y) < Math.max(size, current.fontSize) * 0.5;
+
+    if (current && sameLine) {
+      const gap = item.x - current.end;
+      const needsSpace =
+        gap > size * 0.15 && !current.text.endsWith(" ") && !item.str.startsWith(" ");
+      current.text += (needsSpace ? " " : "") + item.str;
+      current.end = item.x + item.width;
+      if (item.str.trim()) current.fontSize = Math.max(current.fontSize, size);
+    } else {
+      if (current) lines.push(current);
+      current = {
+        text: item.str,
+        x: item.x,
+        y: item.y,
+        fontSize: item.str.trim() ? size : 0,
+        end: item.x + item.width,
+      };
+    }
+  }
+  if (current) lines.push(current);
+
+  return lines
+    .map(({ text, x, y, fontSize }) => ({ text: text.replace(/\s+/g, " ").trim(), x, y, fontSize }))
+    .filter((line) => line.text);
+}
+
+// Most common font size, weighted by characters, is taken as body text
+function bodyFontSize(pages: Line[][]): number {
+  const weights = new Map<number, number>();
+  for (const line of pages.flat()) {
+    const size = roundSize(line.fontSize);
+    weights.set(size, (weights.get(size) ?? 0) + line.text.length);
+  }
+  let best = 0;
+  let bestWeight = -1;
+  for (const [size, weight] of weights) {
+    if (weight > bestWeight) {
+      best = size;
+      bestWeight = weight;
+    }
+  }
+  return best;
+}
+
+function isHeading(line: Line, body: number): boolean {
+  return roundSize(line.fontSize) >= body * 1.15 && line.text.length <= 120 && !/[.,;:]$/.test(line.text);
+}
+
+// Lines join with a space, except after a trailing hyphen, where the line
+// break stays so the dehyphenate pass can tell a word split across lines
+// ("inter-\nesting") from a hyphenated one
+function joinLine(text: string, line: string): string {
+  return text + (/[-\u2010]$/.test(text) ? "\n" : " ") + line;
+}
+
+function renderPage(lines: Line[], body: number, headingLevels: Map<number, number>): string {
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+  let listItem: string | null = null;
+  let previous: Line | null = null;
+
+  const flush = () => {
+    if (listItem !== null) blocks.push(listItem);
+    else if (paragraph.length) blocks.push(paragraph.reduce(joinLine));
+    paragraph = [];
+    listItem = null;
+  };
+
+  for (const line of lines) {
+    const gap = previous ? previous.y - line.y : 0;
+    const paragraphBreak = previous !== null && gap > Math.max(line.fontSize, body) * 1.8;
+    previous = line;
+
+    if (isHeading(line, body)) {
+      flush();
+      const level = headingLevels.get(roundSize(line.fontSize)) ?? 3;
+      blocks.push(`${"#".repeat(level)} ${line.text}`);
+      continue;
+    }
+
+    const bullet = line.text.match(BULLET);
+    const ordered = line.text.match(ORDERED);
+    if (bullet || ordered) {
+      flush();
+      listItem = bullet
+        ? `- ${line.text.slice(bullet[0].length)}`
+        : `${ordered![1]}. ${line.text.slice(ordered![0].length)}`;
+      continue;
+    }
+
+    if (paragraphBreak) flush();
+
+    if (listItem !== null) {
+      listItem = joinLine(listItem, line.text);
+    } else {
+      paragraph.push(line.text);
+    }
+  }
+  flush();
+
+  // Keep consecutive list items together, separate everything else by a blank line
+  return blocks
+    .map((block, index) => {
+      if (index === 0) return block;
+      const isList = (b: string) => /^(- |\d+\. )/.test(b);
+      return (isList(block) && isList(blocks[index - 1]) ? "\n" : "\n\n") + block;
+    })
+    .join("");
+}
+
+/**
+ * Body font size and heading level per font size, ranked over every page
+ * given. Passed back to extractTextLayer, it keeps heading levels the
+ * same in every batch of a document.
+ */
+export interface TextStyle {
+  body: number;
+  headingLevels: Map<number, number>;
+}
+
+function textStyle(pages: Line[][]): TextStyle {
+  const body = bodyFontSize(pages);
+
+  // Larger heading sizes get higher-level headings, capped at ###
+  const headingSizes = [
+    ...new Set(
+      pages
+        .flat()
+        .filter((line) => isHeading(line, body))
+        .map((line) => roundSize(line.fontSize))
+    ),
+  ].sort((a, b) => b - a);
+  return { body, headingLevels: new Map(headingSizes.map((size, index) => [size, Math.min(index + 1, 3)])) };
+}
+
+async function readLines(bytes: Uint8Array): Promise<Line[][]> {
+  const { items } = await extractTextItems(copy(bytes));
+  return items.map(groupLines);
+}
+
+// The text style of a whole document, for extracting its pages in batches
+export async function readTextStyle(bytes: Uint8Array): Promise<TextStyle> {
+  return textStyle(await readLines(bytes));
+}
+
+/**
+ * Reads the embedded text layer of a PDF and rebuilds headings, paragraphs
+ * and lists as markdown. Returns one entry per page, or `null` for pages
+ * without usable text (typically scans) that need OCR instead. Headings
+ * are ranked by `style` when given, else within these pages.
+ */
+export async function extractTextLayer(bytes: Uint8Array, style?: TextStyle): Promise<(string | null)[]> {
+  const pages = await readLines(bytes);
+  const { body, headingLevels } = style ?? textStyle(pages);
+
+  return pages.map((lines) => {
+    const chars = lines.reduce((sum, line) => sum + line.text.replace(/\s/g, "").length, 0);
+    return chars < MIN_PAGE_CHARS ? null : renderPage(lines, body, headingLevels);
+  });
+}
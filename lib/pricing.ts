@@ -0,0 +1,43 @@
+import { isProviderId, type ProviderId, type ProviderUsage } from "@/lib/providers";
+
+// USD per page and per million tokens
+export interface Price {
+  page?: number;
+  input?: number;
+  output?: number;
+}
+
+// List prices of the models in the catalog; local providers are free
+const DEFAULT_PRICES: Record<ProviderId, Price> = {
+  mistral: { page: 0.001 },
+  openai: { input: 1.25, output: 10 },
+  native: {},
+  mock: {},
+};
+
+// PROVIDER_PRICES="mistral.page=0.0005,openai.output=8": overrides for
+// negotiated or changed prices. Unknown providers and fields are ignored.
+function parsePrices(value = ""): Record<ProviderId, Price> {
+  const prices = structuredClone(DEFAULT_PRICES);
+  for (const pair of value.split(",")) {
+    const [key, amount] = pair.split("=").map((part) => part.trim());
+    const [provider, field] = key?.split(".") ?? [];
+    const usd = Number(amount);
+    if (provider && isProviderId(provider) && ["page", "input", "output"].includes(field) && amount && usd >= 0) {
+      prices[provider][field as keyof Price] = usd;
+    }
+  }
+  return prices;
+}
+
+const prices = parsePrices(process.env.PROVIDER_PRICES);
+
+// Estimated USD cost of the usage a provider reported
+export function estimateCost(provider: ProviderId, usage: ProviderUsage): number {
+  const price = prices[provider];
+  return (
+    (usage.pages ?? 0) * (price.page ?? 0) +
+    ((usage.inputTokens ?? 0) * (price.input ?? 0)) / 1_000_000 +
+    ((usage.outputTokens ?? 0) * (price.output ?? 0)) / 1_000_000
+  );
+}
@@ -0,0 +1,47 @@
+import type { ProviderInfo } from "./types";
+
+export const PROVIDERS = [
+  {
+    id: "mistral",
+    name: "Mistral",
+    model: "mistral-ocr-latest",
+    description: "Native OCR",
+    icon: { active: "/m-boxed-orange.svg", inactive: "/m-boxed-orange.svg" },
+  },
+  {
+    id: "openai",
+    name: "OpenAI",
+    model: "gpt-5.1-2025-11-13",
+    description: "Vision-based",
+    icon: { active: "/OpenAI-black-monoblossom.svg", inactive: "/OpenAI-white-monoblossom.svg" },
+  },
+  {
+    id: "native",
+    name: "Native",
+    model: "text layer",
+    description: "Local extraction, OCR for scanned pages only",
+    icon: { active: "/file.svg", inactive: "/file.svg" },
+  },
+  {
+    id: "mock",
+    name: "Mock",
+    model: "offline",
+    description: "Deterministic output, no API key",
+    icon: { active: "/window.svg", inactive: "/window.svg" },
+  },
+] as const satisfies readonly ProviderInfo[];
+
+export type ProviderId = (typeof PROVIDERS)[number]["id"];
+
+export const DEFAULT_PROVIDER: ProviderId = "mistral";
+
+// Used by the native provider for pages that have no text layer
+export const DEFAULT_OCR_PROVIDER: ProviderId = "mistral";
+
+export function isProviderId(value: string): value is ProviderId {
+  return PROVIDERS.some((p) => p.id === value);
+}
+
+export function getProviderInfo(id: ProviderId): ProviderInfo {
+  return PROVIDERS.find((p) => p.id === id)!;
+}
@@ -0,0 +1,72 @@
+import { ProviderError } from "@/lib/errors";
+import { processWithMistral } from "./mistral";
+import { processWithMock } from "./mock";
+import { processWithNative } from "./native";
+import { processWithOpenAI } from "./openai";
+import { DEFAULT_OCR_PROVIDER, isProviderId, type ProviderId } from "./catalog";
+import { withRetries } from "./retry";
+import type { OcrResult, ProcessFn, ProcessOptions } from "./types";
+
+export { PROVIDERS, DEFAULT_PROVIDER, DEFAULT_OCR_PROVIDER, isProviderId, getProviderInfo } from "./catalog";
+export type { ProviderId } from "./catalog";
+export type { OcrImage, OcrResult, ProcessFn, ProcessOptions, ProviderInfo, ProviderUsage } from "./types";
+export { sumUsage } from "./usage";
+
+// Server-side implementations, keyed by the ids declared in the catalog.
+// Adding a backend means adding a catalog entry and an implementation here.
+const registry: Record<ProviderId, ProcessFn> = {
+  mistral: withRetries("mistral", processWithMistral),
+  openai: withRetries("openai", processWithOpenAI),
+  native: (base64, options) =>
+    processWithNative(base64, getProvider(options?.ocrProvider ?? DEFAULT_OCR_PROVIDER), options),
+  mock: processWithMock,
+};
+
+export function getProvider(id: ProviderId): ProcessFn {
+  return registry[id];
+}
+
+// PROVIDER_FALLBACKS="mistral=openai,openai=mistral": where a provider's
+// failures go next. Chains follow on until a provider repeats.
+function parseFallbacks(value = ""): Partial<Record<ProviderId, ProviderId>> {
+  const fallbacks: Partial<Record<ProviderId, ProviderId>> = {};
+  for (const pair of value.split(",")) {
+    const [from, to] = pair.split("=").map((id) => id.trim());
+    if (from && to && isProviderId(from) && isProviderId(to)) fallbacks[from] = to;
+  }
+  return fallbacks;
+}
+
+const fallbacks = parseFallbacks(process.env.PROVIDER_FALLBACKS);
+
+export function getFallbackChain(id: ProviderId): ProviderId[] {
+  const chain = [id];
+  for (let next = fallbacks[id]; next && !chain.includes(next); next = fallbacks[next]) chain.push(next);
+  return chain;
+}
+
+export interface FallbackOutcome {
+  result: OcrResult;
+  // The provider that produced the result
+  provider: ProviderId;
+  // Failures of the providers tried before it
+  failures: ProviderError[];
+}
+
+// Run a provider, moving down its fallback chain on provider failures
+export async function processWithFallback(
+  id: ProviderId,
+  base64: string,
+  options?: ProcessOptions
+): Promise<FallbackOutcome> {
+  const failures: ProviderError[] = [];
+  for (const provider of getFallbackChain(id)) {
+    try {
+      return { result: await getProvider(provider)(base64, options), provider, failures };
+    } catch (error) {
+      if (!(error instanceof ProviderError) || options?.signal?.aborted) throw error;
+      failures.push(error);
+    }
+  }
+  throw failures[0];
+}
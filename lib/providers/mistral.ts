@@ -0,0 +1,82 @@
+import { Mistral } from "@mistralai/mistralai";
+import { getProviderInfo } from "./catalog";
+import { joinPages } from "./pages";
+import type { OcrImage, OcrResult, ProcessOptions } from "./types";
+
+// Created on first use so other providers work without a Mistral key
+let mistralClient: Mistral | null = null;
+
+function getClient(): Mistral {
+  mistralClient ??= new Mistral({
+    apiKey: process.env.MISTRAL_API_KEY,
+  });
+  return mistralClient;
+}
+
+// Structured annotation requested for each image in `describe` mode
+const FIGURE_ANNOTATION = {
+  type: "json_schema" as const,
+  jsonSchema: {
+    name: "figure",
+    schemaDefinition: {
+      type: "object",
+      properties: {
+        description: {
+          type: "string",
+          description: "What the figure shows, including any values, labels and trends a reader would need",
+        },
+      },
+      required: ["description"],
+      additionalProperties: false,
+    },
+    strict: true,
+  },
+};
+
+function annotationText(annotation?: string | null): string | undefined {
+  if (!annotation) return undefined;
+  try {
+    return JSON.parse(annotation).description || undefined;
+  } catch {
+    return annotation;
+  }
+}
+
+// Image data arrives as a data: URI; older responses sent bare base64
+function dataUri(id: string, base64: string): string {
+  if (base64.startsWith("data:")) return base64;
+  const ext = id.split(".").pop()?.replace("jpg", "jpeg") ?? "jpeg";
+  return `data:image/${ext};base64,${base64}`;
+}
+
+export async function processWithMistral(
+  base64: string,
+  options?: ProcessOptions
+): Promise<OcrResult> {
+  const ocrResponse = await getClient().ocr.process({
+    model: getProviderInfo("mistral").model,
+    document: {
+      type: "document_url",
+      documentUrl: `data:application/pdf;base64,${base64}`,
+    },
+    ...(options?.images === "extract" && { includeImageBase64: true }),
+    ...(options?.images === "describe" && { bboxAnnotationFormat: FIGURE_ANNOTATION }),
+  }, { signal: options?.signal });
+
+  const pages = (ocrResponse.pages || []).map((page) => page.markdown || "");
+  const images: OcrImage[] = (ocrResponse.pages || []).flatMap((page) =>
+    page.images.map((image) => ({
+      id: image.id,
+      ...(image.imageBase64 && { data: dataUri(image.id, image.imageBase64) }),
+      ...(image.imageAnnotation && { description: annotationText(image.imageAnnotation) }),
+    }))
+  );
+
+  return {
+    text: joinPages(pages),
+    pageCount: pages.length,
+    pages,
+    ...(images.length && { images }),
+    usage: { pages: ocrResponse.usageInfo.pagesProcessed },
+  };
+}
@@ -0,0 +1,37 @@
+import { createHash } from "crypto";
+import { readDocumentInfo } from "@/lib/pdf/subset";
+import { joinPages } from "./pages";
+import type { OcrResult, ProcessOptions } from "./types";
+
+// 1x1 PNG for the mock figure, so image modes can be tried offline
+const FIGURE_PNG =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+
+// Offline provider for local development. Output depends only on the input
+// bytes, so the same PDF always produces the same markdown.
+export async function processWithMock(base64: string, options?: ProcessOptions): Promise<OcrResult> {
+  const bytes = Buffer.from(base64, "base64");
+  const digest = createHash("sha256").update(bytes).digest("hex");
+
+  const { pageCount } = await readDocumentInfo(new Uint8Array(bytes));
+
+  const pages = Array.from({ length: pageCount }, (_, index) =>
+    [
+      index === 0 ? "# Mock Document\n\n![img-0.png](img-0.png)\n\nFigure 1: Placeholder chart\n\n" : "",
+      `This is placeholder text for page ${index + 1} of ${pageCount}.\n\n`,
+      index === 0 && options?.math ? "The area of a circle is $A = \\pi r^2$, and\n\n$$\n\\int_0^1 x^2 \\, dx = \\frac{1}{3}\n$$\n\n" : "",
+      `- Size: ${bytes.length} bytes\n`,
+      `- SHA-256: \`${digest.slice(0, 16)}\`\n`,
+    ].join("")
+  );
+
+  const images = [
+    {
+      id: "img-0.png",
+      ...(options?.images === "extract" && { data: FIGURE_PNG }),
+      ...(options?.images === "describe" && { description: "A single grey pixel standing in for a chart." }),
+    },
+  ];
+
+  return { text: joinPages(pages), pageCount, pages, images, usage: { pages: pageCount } };
+}
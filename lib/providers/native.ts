@@ -0,0 +1,71 @@
+import { hasMathGlyphs } from "@/lib/math";
+import { extractPages } from "@/lib/pdf/subset";
+import { extractTextLayer } from "@/lib/pdf/text-layer";
+import { joinPages } from "./pages";
+import type { OcrImage, OcrResult, ProcessFn, ProcessOptions, ProviderUsage } from "./types";
+import { sumUsage } from "./usage";
+
+async function ocrPages(
+  bytes: Uint8Array,
+  pageNumbers: number[],
+  ocr: ProcessFn,
+  options: ProcessOptions = {}
+): Promise<{ pages: string[]; images?: OcrImage[]; usage?: ProviderUsage }> {
+  const { signal, images, math } = options;
+  const subset = await extractPages(bytes, pageNumbers);
+  const result = await ocr(Buffer.from(subset).toString("base64"), { signal, images, math });
+  if (result.pages?.length === pageNumbers.length) {
+    return { pages: result.pages, images: result.images, usage: result.usage };
+  }
+  if (pageNumbers.length === 1) return { pages: [result.text], images: result.images, usage: result.usage };
+
+  // Provider returned one undivided blob; OCR each page on its own instead.
+  // Only the blob providers take this path, and none return image data.
+  const results = await Promise.all(
+    pageNumbers.map(async (n) => {
+      const single = await extractPages(bytes, [n]);
+      return ocr(Buffer.from(single).toString("base64"), { signal, images, math });
+    })
+  );
+  return {
+    pages: results.map((page) => page.text),
+    usage: sumUsage([result.usage, ...results.map((page) => page.usage)]),
+  };
+}
+
+// Reads the embedded text layer locally and only sends pages without one
+// (scans) to the given OCR provider. With `math`, pages whose text layer
+// holds equations are sent too, since the layer cannot represent them as
+// LaTeX.
+export async function processWithNative(
+  base64: string,
+  ocr: ProcessFn,
+  options?: ProcessOptions
+): Promise<OcrResult> {
+  const bytes = new Uint8Array(Buffer.from(base64, "base64"));
+  const extracted = await extractTextLayer(bytes, options?.textStyle);
+
+  const native: number[] = [];
+  const scanned: number[] = [];
+  extracted.forEach((markdown, index) =>
+    (markdown === null || (options?.math && hasMathGlyphs(markdown)) ? scanned : native).push(index + 1)
+  );
+
+  const pages = extracted.map((markdown) => markdown ?? "");
+  let images: OcrImage[] | undefined;
+  let usage: ProviderUsage | undefined;
+  if (scanned.length) {
+    const ocrResult = await ocrPages(bytes, scanned, ocr, options);
+    scanned.forEach((n, i) => (pages[n - 1] = ocrResult.pages[i]));
+    ({ images, usage } = ocrResult);
+  }
+
+  return {
+    text: joinPages(pages),
+    pageCount: pages.length,
+    pages,
+    extraction: { native, ocr: scanned },
+    ...(images?.length && { images }),
+    ...(usage && { usage }),
+  };
+}
@@ -0,0 +1,134 @@
+import OpenAI from "openai";
+import { mapSettled } from "@/lib/concurrency";
+import type { ImageMode } from "@/lib/figures";
+import { extractPages, readDocumentInfo } from "@/lib/pdf/subset";
+import { getProviderInfo } from "./catalog";
+import { joinPages } from "./pages";
+import type { OcrResult, ProcessOptions, ProviderUsage } from "./types";
+import { sumUsage } from "./usage";
+
+// The model marks where each page starts with this comment
+const PAGE_MARKER = /^<!-- page (\d+) -->[ \t]*$/gm;
+// Single-page requests made at once when the markers can't be trusted
+const PAGE_CONCURRENCY = 4;
+
+// Created on first use so other providers work without an OpenAI key
+let openaiClient: OpenAI | null = null;
+
+function getClient(): OpenAI {
+  openaiClient ??= new OpenAI({
+    apiKey: process.env.OPENAI_API_KEY,
+  });
+  return openaiClient;
+}
+
+// Figures come back as image references that lib/figures rewrites; the
+// model cannot return image data, so `extract` gets placeholders
+const FIGURE_INSTRUCTIONS: Record<ImageMode, string> = {
+  strip: "",
+  placeholder: "\n- Mark each figure, chart or diagram with ![caption](figure), using its caption or empty brackets",
+  extract: "\n- Mark each figure, chart or diagram with ![caption](figure), using its caption or empty brackets",
+  describe:
+    '\n- Mark each figure, chart or diagram with ![caption](figure "description"), where description is one paragraph without double quotes on what it shows, including key values, labels and trends',
+};
+
+const MATH_INSTRUCTION =
+  "\n- Write every equation and mathematical expression as LaTeX: inline math between single dollar signs ($E = mc^2$) and display equations on their own lines between double dollar signs ($$...$$). Do not use Unicode math symbols or \\( \\) and \\[ \\] delimiters";
+
+async function extractText(
+  base64: string,
+  pageCount: number,
+  options?: ProcessOptions
+): Promise<{ text: string; usage?: ProviderUsage }> {
+  const pageInstruction =
+    pageCount > 1
+      ? `\n- The file has ${pageCount} pages. Start each page with a line <!-- page N --> (N from 1 to ${pageCount}), even if the page is blank`
+      : "";
+
+  const response = await getClient().responses.create({
+    model: getProviderInfo("openai").model,
+    input: [
+      {
+        role: "user",
+        content: [
+          {
+            type: "input_file",
+            filename: "document.pdf",
+            file_data: `data:application/pdf;base64,${base64}`,
+          } as const,
+          {
+            type: "input_text",
+            text: `Extract all text content from this PDF document. 
+Format the output as clean markdown:
+- Use proper heading levels (# ## ###)
+- Preserve lists, tables, and formatting
+- Keep the document structure intact
+- Do not add any commentary or explanations
+- Just output the extracted text in markdown format${pageInstruction}${FIGURE_INSTRUCTIONS[options?.images ?? "strip"]}${options?.math ? MATH_INSTRUCTION : ""}`,
+          } as const,
+        ],
+      },
+    ],
+  }, { signal: options?.signal });
+
+  // Extract text from response
+  let extractedText = "";
+  for (const item of response.output) {
+    if (item.type === "message") {
+      for (const content of item.content) {
+        if (content.type === "output_text") {
+          extractedText += content.text;
+        }
+      }
+    }
+  }
+  const usage = response.usage && {
+    inputTokens: response.usage.input_tokens,
+    outputTokens: response.usage.output_tokens,
+  };
+  return { text: extractedText, usage };
+}
+
+// Split on the page markers; null unless every page 1..pageCount is
+// marked exactly once and in order
+function splitPages(text: string, pageCount: number): string[] | null {
+  const markers = [...text.matchAll(PAGE_MARKER)];
+  if (markers.length !== pageCount || markers.some((m, i) => Number(m[1]) !== i + 1)) return null;
+
+  return markers.map((marker, i) => {
+    // Anything before the first marker belongs to page 1
+    const start = i ? marker.index + marker[0].length : 0;
+    const end = markers[i + 1]?.index ?? text.length;
+    return text.slice(start, end).replace(PAGE_MARKER, "").trim();
+  });
+}
+
+export async function processWithOpenAI(
+  base64: string,
+  options?: ProcessOptions
+): Promise<OcrResult> {
+  const bytes = new Uint8Array(Buffer.from(base64, "base64"));
+  const { pageCount } = await readDocumentInfo(bytes);
+  const { text, usage } = await extractText(base64, pageCount, options);
+  const usages = [usage];
+
+  let pages = pageCount > 1 ? splitPages(text, pageCount) : [text.replace(PAGE_MARKER, "").trim()];
+  if (!pages) {
+    // Markers missing or out of order: convert each page on its own
+    const settled = await mapSettled(
+      Array.from({ length: pageCount }, (_, i) => i + 1),
+      PAGE_CONCURRENCY,
+      async (page) => {
+        const single = await extractPages(bytes, [page]);
+        const extracted = await extractText(Buffer.from(single).toString("base64"), 1, options);
+        usages.push(extracted.usage);
+        return extracted.text.trim();
+      }
+    );
+    const failed = settled.find((s): s is PromiseRejectedResult => s.status === "rejected");
+    if (failed) throw failed.reason;
+    pages = settled.map((s) => (s as PromiseFulfilledResult<string>).value);
+  }
+
+  return { text: joinPages(pages), pageCount, pages, usage: sumUsage(usages) };
+}
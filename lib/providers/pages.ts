@@ -0,0 +1,19 @@
+// Separator before a page's markdown. The anchor gives each page a stable
+// link target (#page-3, or #slide-3 in a presentation), even when a
+// heading elsewhere has the same text.
+export function pageSeparator(label: string, page: number, anchor = "page"): string {
+  return `\n\n---\n\n<a id="${anchor}-${page}"></a>\n\n## ${label}\n\n`;
+}
+
+// The heading line of a separator
+export const SEPARATOR_HEADING = /^## (?:Pages?|Slide|Chapter) [\d,-]+$/;
+
+// Join per-page markdown with the `## Page N` separators used across providers
+export function joinPages(pages: string[]): string {
+  return pages
+    .map((markdown, index) => {
+      const pageHeader = pages.length > 1 ? pageSeparator(`Page ${index + 1}`, index + 1) : "";
+      return pageHeader + markdown;
+    })
+    .join("");
+}
@@ -0,0 +1,71 @@
+import { ConnectionError } from "@mistralai/mistralai/models/errors/index.js";
+import { APIError, APIUserAbortError, RateLimitError } from "openai";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ProviderError } from "@/lib/errors";
+import { classifyError } from "./retry";
+
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+describe("classifyError", () => {
+  it("maps HTTP statuses from the SDKs onto provider errors", () => {
+    const limited = classifyError(new RateLimitError(429, undefined, "slow down", new Headers()), "openai");
+    expect(limited).toMatchObject({ code: "PROVIDER_RATE_LIMITED", retryable: true });
+
+    const down = classifyError(new APIError(503, undefined, "unavailable", new Headers()), "openai");
+    expect(down).toMatchObject({ code: "PROVIDER_UNAVAILABLE", message: "OpenAI is unavailable (HTTP 503)" });
+
+    const rejected = classifyError(new APIError(400, undefined, "bad file", new Headers()), "openai");
+    expect(rejected).toMatchObject({ code: "PROVIDER_ERROR", retryable: false });
+  });
+
+  it("treats SDK connection errors as the provider being unavailable", () => {
+    expect(classifyError(new ConnectionError("fetch failed"), "mistral")).toMatchObject({ code: "PROVIDER_UNAVAILABLE" });
+  });
+
+  it("passes aborts and errors from our own code through unchanged", () => {
+    const local = new TypeError("Cannot read properties of undefined");
+    const abort = new APIUserAbortError();
+    const provider = new ProviderError("No pages", "PROVIDER_ERROR", "openai");
+
+    expect(classifyError(local, "openai")).toBe(local);
+    expect(classifyError(abort, "openai")).toBe(abort);
+    expect(classifyError(provider, "openai")).toBe(provider);
+  });
+});
+
+describe("withRetries", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  // The retry count is read once, when the module loads
+  async function attempts(retries: string | undefined, error: Error): Promise<number> {
+    vi.stubEnv("OCR_RETRIES", retries);
+    vi.stubEnv("OCR_RETRY_BASE_MS", "1");
+    vi.resetModules();
+    const { withRetries } = await import("./retry");
+    const process = vi.fn().mockRejectedValue(error);
+    await expect(withRetries("openai", process)("")).rejects.toBeInstanceOf(Error);
+    return process.mock.calls.length;
+  }
+
+  const unavailable = () => new APIError(502, undefined, "bad gateway", new Headers());
+
+  it("retries transient errors OCR_RETRIES times", async () => {
+    expect(await attempts(undefined, unavailable())).toBe(3);
+    expect(await attempts("0", unavailable())).toBe(1);
+    expect(await attempts("4", unavailable())).toBe(5);
+  });
+
+  it("falls back to the default for invalid counts and caps large ones", async () => {
+    expect(await attempts("many", unavailable())).toBe(3);
+    expect(await attempts("-1", unavailable())).toBe(3);
+    expect(await attempts("1000", unavailable())).toBe(11);
+  });
+
+  it("does not retry errors from our own code", async () => {
+    expect(await attempts("3", new TypeError("oops"))).toBe(1);
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  HTTPClientError,
+  HTTPValidationError,
+  ResponseValidationError,
+  SDKError,
+  SDKValidationError,
+} from "@mistralai/mistralai/models/errors/index.js";
+import { APIUserAbortError, OpenAIError } from "openai";
+import { setTimeout as sleep } from "timers/promises";
+import { ProviderError } from "@/lib/errors";
+import { getProviderInfo, type ProviderId } from "./catalog";
+import type { ProcessFn } from "./types";
+
+// Attempts after the first for rate limits, timeouts and 5xx responses
+const DEFAULT_RETRIES = 2;
+const MAX_RETRIES = 10;
+const RETRIES = retriesFromEnv();
+const RETRY_BASE_MS = Number(process.env.OCR_RETRY_BASE_MS) || 500;
+const RETRY_MAX_MS = 8000;
+
+// OCR_RETRIES as a whole number up to MAX_RETRIES; anything that is not a
+// number falls back to the default rather than retrying forever
+function retriesFromEnv(): number {
+  const value = process.env.OCR_RETRIES?.trim();
+  const retries = value ? Number(value) : DEFAULT_RETRIES;
+  if (!Number.isFinite(retries) || retries < 0) {
+    console.warn(`Ignoring OCR_RETRIES="${value}", expected a number from 0 to ${MAX_RETRIES}`);
+    return DEFAULT_RETRIES;
+  }
+  return Math.min(Math.floor(retries), MAX_RETRIES);
+}
+
+// Errors the SDKs raise for responses and failed requests. Anything else
+// is a bug on our side and must not be blamed on the provider.
+function isSdkError(error: Error): boolean {
+  return (
+    error instanceof OpenAIError ||
+    error instanceof HTTPClientError ||
+    error instanceof HTTPValidationError ||
+    error instanceof ResponseValidationError ||
+    error instanceof SDKError ||
+    error instanceof SDKValidationError
+  );
+}
+
+function statusOf(error: Error): number | undefined {
+  const { status, statusCode } = error as { status?: unknown; statusCode?: unknown };
+  if (typeof status === "number") return status;
+  if (typeof statusCode === "number") return statusCode;
+  return undefined;
+}
+
+/**
+ * Map an SDK error onto a ProviderError. Both SDKs expose the HTTP status
+ * (`status` for OpenAI, `statusCode` for Mistral) and name their network
+ * errors after connections and timeouts. Aborts and errors that do not
+ * come from an SDK pass through unchanged.
+ */
+export function classifyError(error: unknown, provider: ProviderId): unknown {
+  if (!(error instanceof Error) || !isSdkError(error)) return error;
+  if (error instanceof APIUserAbortError || error.name === "RequestAbortedError") return error;
+
+  const name = getProviderInfo(provider).name;
+  const status = statusOf(error);
+  console.warn(`${name} error:`, error.message);
+
+  if (status === 429) {
+    return new ProviderError(`${name} is rate limiting requests`, "PROVIDER_RATE_LIMITED", provider);
+  }
+  if (
+    status === 408 ||
+    (status && status >= 500) ||
+    /timeout|connection|fetch failed|socket|ECONNRESET|ETIMEDOUT/i.test(`${error.name} ${error.message}`)
+  ) {
+    return new ProviderError(
+      `${name} is unavailable${status ? ` (HTTP ${status})` : ""}`,
+      "PROVIDER_UNAVAILABLE",
+      provider
+    );
+  }
+  return new ProviderError(
+    `${name} could not process the document${status ? ` (HTTP ${status})` : ""}`,
+    "PROVIDER_ERROR",
+    provider
+  );
+}
+
+// "Full jitter": a random wait up to an exponentially growing cap
+function backoff(attempt: number): number {
+  return Math.random() * Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** attempt);
+}
+
+// Wrap a provider so its errors are classified and transient ones retried
+export function withRetries(provider: ProviderId, process: ProcessFn): ProcessFn {
+  return async (base64, options) => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await process(base64, options);
+      } catch (raw) {
+        const error = classifyError(raw, provider);
+        if (!(error instanceof ProviderError) || !error.retryable || attempt >= RETRIES) throw error;
+        await sleep(backoff(attempt), undefined, { signal: options?.signal });
+      }
+    }
+  };
+}
@@ -0,0 +1,55 @@
+import type { ImageMode } from "@/lib/figures";
+import type { TextStyle } from "@/lib/pdf/text-layer";
+import type { ProviderId } from "./catalog";
+
+// An image referenced from the markdown as ![...](id)
+export interface OcrImage {
+  id: string;
+  // data: URI, when the provider returned the image itself
+  data?: string;
+  // Text description, when the provider was asked for one
+  description?: string;
+}
+
+// What a provider reports having billed, summed over its calls
+export interface ProviderUsage {
+  pages?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export interface OcrResult {
+  text: string;
+  pageCount: number;
+  // Per-page markdown, when the provider returns pages separately
+  pages?: string[];
+  // 1-based page numbers by extraction method (native provider only)
+  extraction?: { native: number[]; ocr: number[] };
+  images?: OcrImage[];
+  usage?: ProviderUsage;
+}
+
+export interface ProcessOptions {
+  // OCR backend for pages without a usable text layer (native provider only)
+  ocrProvider?: ProviderId;
+  // Aborts the upstream provider call, e.g. when the client disconnects
+  signal?: AbortSignal;
+  // What the provider should return for figures; see lib/figures
+  images?: ImageMode;
+  // Return equations as LaTeX between $ and $$ delimiters
+  math?: boolean;
+  // Text style of the whole document, when this is one batch of it (native provider only)
+  textStyle?: TextStyle;
+}
+
+export type ProcessFn = (base64: string, options?: ProcessOptions) => Promise<OcrResult>;
+
+// Display metadata for a provider. Safe to import from client components.
+export interface ProviderInfo {
+  id: string;
+  name: string;
+  model: string;
+  description: string;
+  // Icons for the toggle; `active` is shown on the selected (light) pill
+  icon: { active: string; inactive: string };
+}
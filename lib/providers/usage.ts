@@ -0,0 +1,15 @@
+import type { ProviderUsage } from "./types";
+
+// Add up the usage of several calls; undefined when none reported any
+export function sumUsage(usages: (ProviderUsage | undefined)[]): ProviderUsage | undefined {
+  const reported = usages.filter((usage): usage is ProviderUsage => !!usage);
+  if (!reported.length) return undefined;
+
+  const total: ProviderUsage = {};
+  for (const key of ["pages", "inputTokens", "outputTokens"] as const) {
+    if (reported.some((usage) => usage[key] !== undefined)) {
+      total[key] = reported.reduce((sum, usage) => sum + (usage[key] ?? 0), 0);
+    }
+  }
+  return total;
+}
@@ -0,0 +1,172 @@
+import type { Table } from "./types";
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+const TAG = /<(\/?)(table|caption|thead|tbody|tfoot|tr|th|td)\b([^>]*)>/gi;
+// Guards against absurd spans in malformed provider output
+const MAX_SPAN = 100;
+
+interface Cell {
+  text: string;
+  header: boolean;
+  colspan: number;
+  rowspan: number;
+}
+
+interface Row {
+  cells: Cell[];
+  head: boolean;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] !== "#") return ENTITIES[entity.toLowerCase()] ?? match;
+    const hex = entity[1].toLowerCase() === "x";
+    return String.fromCodePoint(parseInt(entity.slice(hex ? 2 : 1), hex ? 16 : 10));
+  });
+}
+
+// Flatten a cell's HTML to one line of text
+function cellText(html: string): string {
+  return decodeEntities(html.replace(/<br\s*\/?>/gi, " ").replace(/<[^>]+>/g, ""))
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function span(attrs: string, name: string): number {
+  const match = attrs.match(new RegExp(`\\b${name}\\s*=\\s*["']?(\\d+)`, "i"));
+  return match ? Math.min(Math.max(Number(match[1]), 1), MAX_SPAN) : 1;
+}
+
+// Index just past the `</table>` closing the table that starts at `start`,
+// or -1 when it is never closed
+export function findTableEnd(html: string, start: number): number {
+  const pattern = /<(\/?)table\b[^>]*>/gi;
+  pattern.lastIndex = start;
+  let depth = 0;
+  for (let match; (match = pattern.exec(html)); ) {
+    depth += match[1] ? -1 : 1;
+    if (!depth) return pattern.lastIndex;
+  }
+  return -1;
+}
+
+function readRows(html: string): { rows: Row[]; caption?: string } {
+  const rows: Row[] = [];
+  let caption: string | undefined;
+  let depth = 0;
+  let head = false;
+  let row: Row | null = null;
+  let cell: { start: number; header: boolean; attrs: string } | null = null;
+  let captionStart = -1;
+
+  const endCell = (at: number) => {
+    if (!cell) return;
+    row ??= { cells: [], head };
+    row.cells.push({
+      text: cellText(html.slice(cell.start, at)),
+      header: cell.header,
+      colspan: span(cell.attrs, "colspan"),
+      rowspan: span(cell.attrs, "rowspan"),
+    });
+    cell = null;
+  };
+  const endRow = (at: number) => {
+    endCell(at);
+    if (row?.cells.length) rows.push(row);
+    row = null;
+  };
+
+  for (const match of html.matchAll(TAG)) {
+    const [, close, rawName, attrs] = match;
+    const name = rawName.toLowerCase();
+    const at = match.index;
+    const after = at + match[0].length;
+
+    // Nested tables stay inside their cell's text
+    if (name === "table") depth += close ? -1 : 1;
+    if (name === "table" || depth !== 1) continue;
+
+    if (name === "caption") {
+      if (!close) captionStart = after;
+      else if (captionStart >= 0) caption = cellText(html.slice(captionStart, at)) || undefined;
+    } else if (name === "thead" || name === "tbody" || name === "tfoot") {
+      endRow(at);
+      head = name === "thead" && !close;
+    } else if (name === "tr") {
+      endRow(at);
+      if (!close) row = { cells: [], head };
+    } else if (close) {
+      endCell(at);
+    } else {
+      endCell(at);
+      cell = { start: after, header: name === "th", attrs };
+    }
+  }
+  endRow(html.length);
+
+  return { rows, caption };
+}
+
+// Lay cells out on a grid, repeating spanned cells into every position
+// they cover so each row reads on its own
+function layout(rows: Row[]): string[][] {
+  const carry: { text: string; left: number }[] = [];
+  const grid: string[][] = [];
+
+  for (const row of rows) {
+    const out: string[] = [];
+    let col = 0;
+    const fillCarried = () => {
+      while (carry[col]?.left > 0) {
+        out[col] = carry[col].text;
+        carry[col].left--;
+        col++;
+      }
+    };
+
+    for (const cell of row.cells) {
+      fillCarried();
+      for (let k = 0; k < cell.colspan; k++) {
+        out[col] = cell.text;
+        if (cell.rowspan > 1) carry[col] = { text: cell.text, left: cell.rowspan - 1 };
+        col++;
+      }
+    }
+    for (; col < carry.length; col++) {
+      if (carry[col]?.left > 0) {
+        out[col] = carry[col].text;
+        carry[col].left--;
+      }
+    }
+    grid.push(Array.from(out, (text) => text ?? ""));
+  }
+  return grid;
+}
+
+/**
+ * Parse an HTML `<table>` into a header row and body rows. Merged cells
+ * are expanded, and several header rows are folded into one
+ * ("Group / Column").
+ */
+export function parseHtmlTable(html: string): Table | null {
+  const { rows, caption } = readRows(html);
+  if (!rows.length) return null;
+
+  const grid = layout(rows);
+  const width = Math.max(...grid.map((r) => r.length));
+  const padded = grid.map((r) => [...r, ...Array(width - r.length).fill("")]);
+
+  const leading = (test: (row: Row) => boolean) => {
+    const count = rows.findIndex((row) => !test(row));
+    return count < 0 ? rows.length : count;
+  };
+  // Rows in <thead>, else leading rows of <th> cells, else the first row
+  let headerCount = leading((row) => row.head) || leading((row) => row.cells.every((c) => c.header));
+  if (!headerCount || headerCount === rows.length) headerCount = 1;
+
+  const headers = Array.from({ length: width }, (_, col) =>
+    [...new Set(padded.slice(0, headerCount).map((r) => r[col]).filter(Boolean))].join(" / ")
+  );
+
+  return { headers, rows: padded.slice(headerCount), ...(caption && { caption }) };
+}
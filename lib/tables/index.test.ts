@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { normalizeTables, tableToCsv, tableToJson } from ".";
+
+describe("normalizeTables", () => {
+  it("rewrites pipe tables as GFM with blank lines around them", () => {
+    const { markdown, tables } = normalizeTables("Intro\n| a | b |\n| 1 | 2 |\nAfter");
+    expect(markdown).toBe("Intro\n\n| a | b |\n| --- | --- |\n| 1 | 2 |\n\nAfter");
+    expect(tables).toEqual([{ headers: ["a", "b"], rows: [["1", "2"]] }]);
+  });
+
+  it("keeps math and code with pipes in one cell, escaping the pipes for GFM", () => {
+    const { markdown, tables } = normalizeTables("| x | norm |\n|---|---|\n| $x$ | $|x|$ |\n| `a|b` | 2 |");
+    expect(tables[0].rows).toEqual([
+      ["$x$", "$|x|$"],
+      ["`a|b`", "2"],
+    ]);
+    expect(markdown).toBe("| x | norm |\n| --- | --- |\n| $x$ | $\\|x\\|$ |\n| `a\\|b` | 2 |");
+  });
+
+  it("leaves prose with math pipes and fenced code alone", () => {
+    const text = "The norm $|x|$ and\nthe norm $|y|$.\n\n```\n| a | b |\n| 1 | 2 |\n```";
+    expect(normalizeTables(text)).toEqual({ markdown: text, tables: [] });
+  });
+
+  it("rewrites HTML tables, keeping the text around them", () => {
+    const { markdown, tables } = normalizeTables(
+      "Before <table><tr><th>a</th><th>b</th></tr><tr><td>1</td><td>2</td></tr></table> after"
+    );
+    expect(markdown).toBe("Before\n\n| a | b |\n| --- | --- |\n| 1 | 2 |\n\nafter");
+    expect(tables).toEqual([{ headers: ["a", "b"], rows: [["1", "2"]] }]);
+  });
+});
+
+describe("table exports", () => {
+  const table = { index: 1, page: 2, headers: ["name", "name", ""], rows: [["a, b", 'say "hi"', "3"]] };
+
+  it("quotes CSV fields that need it", () => {
+    expect(tableToCsv(table)).toBe('name,name,\r\n"a, b","say ""hi""",3\r\n');
+  });
+
+  it("names blank and repeated JSON keys after their column", () => {
+    expect(JSON.parse(tableToJson(table)).rows).toEqual([{ name: "a, b", "Column 2": 'say "hi"', "Column 3": "3" }]);
+  });
+});
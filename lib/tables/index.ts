@@ -0,0 +1,129 @@
+import { findTableEnd, parseHtmlTable } from "./html";
+import { isDelimiterRow, isPipeRow, parsePipeTable, splitRow } from "./pipe";
+import type { ExtractedTable, Table } from "./types";
+
+export type { Alignment, ExtractedTable, Table } from "./types";
+
+const DELIMITERS = { left: ":---", center: ":---:", right: "---:" };
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, "\\|");
+}
+
+// Render a table as GitHub-flavored markdown, with the caption above it
+export function renderTable(table: Table): string {
+  const row = (cells: string[]) => `| ${cells.map(escapeCell).join(" | ")} |`;
+  const delimiter = table.headers.map((_, i) => {
+    const align = table.align?.[i];
+    return align ? DELIMITERS[align] : "---";
+  });
+  const lines = [row(table.headers), `|${delimiter.map((d) => ` ${d} `).join("|")}|`, ...table.rows.map(row)];
+  return (table.caption ? `${table.caption}\n\n` : "") + lines.join("\n");
+}
+
+// Pipe rows form a table when there are at least two and they either have
+// a delimiter row or all start with a pipe
+function isPipeTable(lines: string[]): boolean {
+  return (
+    lines.length >= 2 &&
+    (lines.some((line) => isDelimiterRow(splitRow(line))) || lines.every((line) => line.trim().startsWith("|")))
+  );
+}
+
+/**
+ * Rewrite every HTML and pipe table outside code fences as valid GFM, and
+ * return the parsed tables in document order.
+ */
+export function normalizeTables(markdown: string): { markdown: string; tables: Table[] } {
+  const tables: Table[] = [];
+  const out: string[] = [];
+  const lines = markdown.split("\n");
+  let inFence = false;
+  let blankAfter = false;
+
+  const push = (text: string) => {
+    if (blankAfter && text.trim()) out.push("");
+    blankAfter = false;
+    out.push(text);
+  };
+  // Tables need blank lines around them to render
+  const pushTable = (table: Table) => {
+    tables.push(table);
+    if (out.length && out[out.length - 1].trim()) out.push("");
+    out.push(renderTable(table));
+    blankAfter = true;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+
+    const start = inFence ? -1 : line.search(/<table\b/i);
+    if (start >= 0) {
+      const rest = lines.slice(i).join("\n");
+      const end = findTableEnd(rest, start);
+      const table = end >= 0 && parseHtmlTable(rest.slice(start, end));
+      if (table) {
+        const lineEnd = rest.indexOf("\n", end);
+        const closing = lineEnd < 0 ? rest.length : lineEnd;
+        const before = rest.slice(0, start).trim();
+        const after = rest.slice(end, closing).trim();
+        if (before) push(before);
+        pushTable(table);
+        if (after) push(after);
+        i += rest.slice(0, closing).split("\n").length - 1;
+        continue;
+      }
+    }
+
+    if (!inFence && isPipeRow(line)) {
+      let j = i;
+      while (j < lines.length && isPipeRow(lines[j]) && !/^\s*(```|~~~)/.test(lines[j])) j++;
+      const block = lines.slice(i, j);
+      const table = isPipeTable(block) && parsePipeTable(block);
+      if (table) {
+        pushTable(table);
+        i = j - 1;
+        continue;
+      }
+    }
+
+    push(line);
+  }
+
+  return { markdown: out.join("\n"), tables };
+}
+
+function csvField(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// RFC 4180 CSV, header row first
+export function tableToCsv(table: Table): string {
+  return [table.headers, ...table.rows].map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+// Rows as objects keyed by header. Blank or repeated headers are named
+// after their column so no value is lost.
+export function tableToJson(table: ExtractedTable): string {
+  const seen = new Set<string>();
+  const keys = table.headers.map((header, i) => {
+    const key = header && !seen.has(header) ? header : `Column ${i + 1}`;
+    seen.add(key);
+    return key;
+  });
+  const rows = table.rows.map((row) => Object.fromEntries(keys.map((key, i) => [key, row[i]])));
+  const { index, page, caption, headers } = table;
+  return JSON.stringify({ index, page, caption, headers, rows }, null, 2) + "\n";
+}
+
+// CSV and JSON artifacts for each table, keyed by path under `dir`
+export function tableFiles(tables: ExtractedTable[], dir: string): Record<string, string> {
+  const files: Record<string, string> = {};
+  for (const table of tables) {
+    const base = `${dir}/table-${table.index}-page-${table.page}`;
+    files[`${base}.csv`] = tableToCsv(table);
+    files[`${base}.json`] = tableToJson(table);
+  }
+  return files;
+}
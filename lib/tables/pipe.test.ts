@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { isPipeRow, parsePipeTable, splitRow } from "./pipe";
+
+describe("splitRow", () => {
+  it("splits on pipes, with or without outer pipes", () => {
+    expect(splitRow("| a | b |")).toEqual(["a", "b"]);
+    expect(splitRow("a | b")).toEqual(["a", "b"]);
+    expect(splitRow("| a | |")).toEqual(["a", ""]);
+  });
+
+  it("keeps escaped pipes, and pipes in math and code spans, inside their cell", () => {
+    expect(splitRow("| a \\| b | c |")).toEqual(["a | b", "c"]);
+    expect(splitRow("| $|x|$ | $$|v|$$ | \\(|y|\\) |")).toEqual(["$|x|$", "$$|v|$$", "\\(|y|\\)"]);
+    expect(splitRow("| `a | b` | ``c|d`` |")).toEqual(["`a | b`", "``c|d``"]);
+  });
+
+  it("still splits where a dollar or backtick opens nothing", () => {
+    expect(splitRow("| $5 | $10 |")).toEqual(["$5", "$10"]);
+    expect(splitRow("| `a | b |")).toEqual(["`a", "b"]);
+  });
+});
+
+describe("isPipeRow", () => {
+  it("ignores pipes that only appear in math or code", () => {
+    expect(isPipeRow("The norm $|x|$ is small")).toBe(false);
+    expect(isPipeRow("Run `a | b` first")).toBe(false);
+    expect(isPipeRow("a | b")).toBe(true);
+  });
+});
+
+describe("parsePipeTable", () => {
+  it("reads alignment and pads short rows", () => {
+    expect(parsePipeTable(["| a | b | c |", "|:--|--:|:-:|", "| 1 |"])).toEqual({
+      headers: ["a", "b", "c"],
+      rows: [["1", "", ""]],
+      align: ["left", "right", "center"],
+    });
+  });
+
+  it("takes the first row as the header when the delimiter row is missing", () => {
+    expect(parsePipeTable(["| a | b |", "| 1 | 2 | 3 |"])).toEqual({
+      headers: ["a", "b", ""],
+      rows: [["1", "2", "3"]],
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { findMath } from "@/lib/math";
+import type { Alignment, Table } from "./types";
+
+const DELIMITER_CELL = /^:?-+:?$/;
+
+// Offsets of the pipes that separate cells: not escaped, and not inside a
+// code span or $...$ math, where they belong to the content
+function cellPipes(text: string): number[] {
+  const math = findMath(text);
+  const pipes: number[] = [];
+  let next = 0;
+  for (let i = 0; i < text.length; i++) {
+    while (next < math.length && math[next].start < i) next++;
+    if (math[next]?.start === i) {
+      i = math[next].end - 1;
+    } else if (text[i] === "\\") {
+      i++;
+    } else if (text[i] === "`") {
+      const run = text.slice(i).match(/^`+/)![0];
+      const end = text.indexOf(run, i + run.length);
+      // An unclosed run is literal backticks
+      i = (end < 0 ? i : end) + run.length - 1;
+    } else if (text[i] === "|") {
+      pipes.push(i);
+    }
+  }
+  return pipes;
+}
+
+// Cells of a pipe table row; escaped pipes, and pipes in code spans and
+// math, stay inside their cell
+export function splitRow(line: string): string[] {
+  const text = line.trim();
+  const pipes = cellPipes(text);
+  let from = 0;
+  let end = text.length;
+  if (pipes[0] === 0) from = pipes.shift()! + 1;
+  if (pipes.length && pipes[pipes.length - 1] === text.length - 1) end = pipes.pop()!;
+
+  const cells: string[] = [];
+  for (const pipe of [...pipes, end]) {
+    cells.push(text.slice(from, pipe).trim().replace(/\\\|/g, "|"));
+    from = pipe + 1;
+  }
+  return cells;
+}
+
+export function isDelimiterRow(cells: string[]): boolean {
+  return cells.some(Boolean) && cells.every((cell) => !cell || DELIMITER_CELL.test(cell.replace(/\s/g, "")));
+}
+
+function alignment(cell: string): Alignment {
+  const left = cell.startsWith(":");
+  const right = cell.endsWith(":");
+  return left && right ? "center" : right ? "right" : left ? "left" : null;
+}
+
+// A line that can belong to a pipe table
+export function isPipeRow(line: string): boolean {
+  return cellPipes(line).length > 0;
+}
+
+/**
+ * Parse pipe table lines, repairing what providers commonly get wrong:
+ * a missing or misplaced delimiter row, missing outer pipes and rows with
+ * too few or too many cells.
+ */
+export function parsePipeTable(lines: string[]): Table | null {
+  const rows = lines.map(splitRow);
+  const delimiter = rows.findIndex(isDelimiterRow);
+  const content = rows.filter((row) => !isDelimiterRow(row));
+  if (!content.length) return null;
+
+  const [headers, ...body] = content;
+  const width = Math.max(...content.map((row) => row.length));
+  const pad = (row: string[]) => [...row, ...Array(Math.max(width - row.length, 0)).fill("")];
+  const align = delimiter === 1 ? pad(rows[1]).map(alignment) : [];
+
+  return {
+    headers: pad(headers),
+    rows: body.map(pad),
+    ...(align.some(Boolean) && { align }),
+  };
+}
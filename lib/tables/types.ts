@@ -0,0 +1,16 @@
+export type Alignment = "left" | "center" | "right" | null;
+
+export interface Table {
+  headers: string[];
+  rows: string[][];
+  // Per-column alignment from a pipe table's delimiter row
+  align?: Alignment[];
+  caption?: string;
+}
+
+export interface ExtractedTable extends Table {
+  // 1-based position in the document
+  index: number;
+  // Page the table starts on
+  page: number;
+}
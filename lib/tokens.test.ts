@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { countTokens, tokenEnds } from "./tokens";
+
+describe("tokenEnds", () => {
+  it("gives one rising end per token, the last at the end of the text", () => {
+    for (const text of ["Plain words, and numbers 12345.", "Café naïve — 日本語 😀 text", ""]) {
+      const ends = tokenEnds(text);
+      expect(ends).toHaveLength(countTokens(text));
+      expect(ends.every((end, i) => end >= (ends[i - 1] ?? 0))).toBe(true);
+      expect(ends.at(-1) ?? 0).toBe(text.length);
+    }
+  });
+
+  it("ends tokens where the text they encode ends", () => {
+    const text = "Hello world, hello tokens.";
+    const ends = tokenEnds(text);
+    ends.forEach((end, i) => expect(countTokens(text.slice(0, end))).toBeLessThanOrEqual(i + 1));
+  });
+});
@@ -0,0 +1,52 @@
+import { Tiktoken } from "js-tiktoken/lite";
+import cl100k_base from "js-tiktoken/ranks/cl100k_base";
+import o200k_base from "js-tiktoken/ranks/o200k_base";
+
+// cl100k_base is a reasonable stand-in for most embedding and chat models;
+// o200k_base is what current OpenAI models use
+const RANKS = { cl100k_base, o200k_base };
+
+export type TokenizerId = keyof typeof RANKS;
+export const TOKENIZERS = Object.keys(RANKS) as TokenizerId[];
+export const DEFAULT_TOKENIZER: TokenizerId = "cl100k_base";
+
+export function isTokenizerId(value: string): value is TokenizerId {
+  return value in RANKS;
+}
+
+const encoders = new Map<TokenizerId, Tiktoken>();
+
+function getEncoder(tokenizer: TokenizerId): Tiktoken {
+  let encoder = encoders.get(tokenizer);
+  if (!encoder) {
+    encoder = new Tiktoken(RANKS[tokenizer]);
+    encoders.set(tokenizer, encoder);
+  }
+  return encoder;
+}
+
+export function countTokens(text: string, tokenizer: TokenizerId = DEFAULT_TOKENIZER): number {
+  return getEncoder(tokenizer).encode(text).length;
+}
+
+/**
+ * Where each token of `text` ends, as a character offset, so spans can be
+ * measured in tokens without encoding them again. Tokens that end inside
+ * a character (part of a multi-byte one) end where that character does.
+ */
+export function tokenEnds(text: string, tokenizer: TokenizerId = DEFAULT_TOKENIZER): number[] {
+  const encoder = getEncoder(tokenizer);
+  const ends: number[] = [];
+  let offset = 0;
+  let pending: number[] = [];
+  for (const token of encoder.encode(text)) {
+    pending.push(token);
+    const piece = encoder.decode(pending);
+    if (piece.endsWith("\uFFFD") && !text.startsWith(piece, offset)) continue;
+    offset += piece.length;
+    for (let i = 0; i < pending.length; i++) ends.push(offset);
+    pending = [];
+  }
+  for (let i = 0; i < pending.length; i++) ends.push(text.length);
+  return ends;
+}
@@ -0,0 +1,14 @@
+import { strToU8, zipSync } from "fflate";
+
+// Build a zip archive from relative paths to text or binary contents. Runs
+// in the browser and on the server.
+export function zipFiles(files: Record<string, string | Uint8Array>): Uint8Array {
+  return zipSync(
+    Object.fromEntries(
+      Object.entries(files).map(([path, contents]) => [
+        path,
+        typeof contents === "string" ? strToU8(contents) : contents,
+      ])
+    )
+  );
+}
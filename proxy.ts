@@ -0,0 +1,24 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { SESSION_COOKIE, SESSION_MAX_AGE, createSession, verifySession } from "@/lib/auth/session";
+
+// Give browsers that load the app a signed session cookie, so the UI can
+// call the API without a key. SameSite=Strict keeps other sites from
+// riding on it. Anyone can get one, so a session is an anonymous
+// allowance: its own rate bucket and a share of the web quota.
+export function proxy(request: NextRequest) {
+  const response = NextResponse.next();
+  if (!verifySession(request.cookies.get(SESSION_COOKIE)?.value)) {
+    response.cookies.set(SESSION_COOKIE, createSession(), {
+      httpOnly: true,
+      sameSite: "strict",
+      secure: request.nextUrl.protocol === "https:",
+      path: "/",
+      maxAge: SESSION_MAX_AGE,
+    });
+  }
+  return response;
+}
+
+export const config = {
+  matcher: ["/", "/history"],
+};